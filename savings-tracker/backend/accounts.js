@@ -0,0 +1,151 @@
+/**
+ * Account Types Module for Savings Tracker
+ *
+ * Rules for the kinds of account a pot can be:
+ * 1. Account types (easy access, notice, fixed-rate bond, regular saver) and their settings
+ * 2. Notice accounts only pay out once the notice period has passed
+ * 3. Fixed-rate bonds can't be withdrawn from before they mature
+ * 4. Regular savers cap how much can be paid in each calendar month
+ * 5. Interest stops accruing once a pot with a maturity date matures
+ */
+
+const { getRow } = require('./database');
+const { toDateKey } = require('./interest');
+const { formatMoney } = require('./currency');
+const { formatDateKey } = require('./locale');
+
+// null/undefined is treated as easy access
+const ACCOUNT_TYPES = ['easy-access', 'notice', 'fixed-rate-bond', 'regular-saver'];
+
+// Types with a term end (maturity date)
+const FIXED_TERM_TYPES = ['fixed-rate-bond', 'regular-saver'];
+
+// How far ahead of a maturity date the scheduler sends its reminder
+const MATURITY_REMINDER_DAYS = 14;
+
+/**
+ * Check whether an account type supplied by a client is valid
+ */
+function isValidAccountType(accountType) {
+  return accountType === undefined || accountType === null || ACCOUNT_TYPES.includes(accountType);
+}
+
+/**
+ * Maturity dates are optional YYYY-MM-DD term end dates
+ */
+function isValidMaturityDate(maturityDate) {
+  return maturityDate === undefined || maturityDate === null || maturityDate === '' || /^\d{4}-\d{2}-\d{2}$/.test(maturityDate);
+}
+
+/**
+ * Notice periods are a whole number of days
+ */
+function isValidNoticeDays(noticeDays) {
+  return noticeDays === undefined || noticeDays === null || (Number.isInteger(noticeDays) && noticeDays >= 0 && noticeDays <= 3650);
+}
+
+/**
+ * Regular savers' monthly limits are positive amounts
+ */
+function isValidMaxMonthlyDeposit(maxMonthlyDeposit) {
+  return maxMonthlyDeposit === undefined || maxMonthlyDeposit === null || (typeof maxMonthlyDeposit === 'number' && maxMonthlyDeposit > 0);
+}
+
+/**
+ * The pot's maturity date (YYYY-MM-DD), or null when it doesn't have a term
+ */
+function getMaturityDate(pot) {
+  return FIXED_TERM_TYPES.includes(pot.account_type) ? pot.maturity_date || null : null;
+}
+
+/**
+ * Check whether a pot has matured by a YYYY-MM-DD day. Interest isn't earned from then on.
+ */
+function hasMatured(pot, dayKey) {
+  const maturityDate = getMaturityDate(pot);
+  return !!maturityDate && dayKey >= maturityDate;
+}
+
+/**
+ * Add days to a YYYY-MM-DD key
+ */
+function addDaysToKey(dayKey, days) {
+  const date = new Date(`${dayKey}T12:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Total paid into a pot (deposits and transfers in) in the calendar month containing `date`.
+ * `excludeTransactionId` leaves out a transaction that's being edited.
+ */
+async function getMonthlyDeposits(potId, date, excludeTransactionId = null) {
+  const month = toDateKey(new Date(date)).slice(0, 7);
+  const [year, monthNumber] = month.split('-').map(Number);
+  const next = new Date(Date.UTC(year, monthNumber, 1));
+  const row = await getRow(
+    `SELECT COALESCE(SUM(amount), 0) AS total FROM transactions
+     WHERE pot_id = ? AND date >= ? AND date < ? AND id != ?
+       AND (kind = 'deposit' OR (kind = 'transfer' AND amount > 0))`,
+    [potId, `${month}-01`, toDateKey(next), excludeTransactionId || '']
+  );
+  return row.total;
+}
+
+/**
+ * Check money going out of `pot` on `date` against its account type.
+ * Withdrawals dated in the past are records of money already taken out, so the notice
+ * period doesn't apply to them. Returns an error response body, otherwise null.
+ */
+function checkWithdrawal(pot, date) {
+  const dayKey = toDateKey(new Date(date));
+
+  if (pot.account_type === 'fixed-rate-bond' && pot.maturity_date && dayKey < pot.maturity_date) {
+    return { error: `${pot.name} is a fixed-rate bond and can't be withdrawn from until it matures on ${formatDateKey(pot.maturity_date)}` };
+  }
+
+  if (pot.account_type === 'notice' && pot.notice_days > 0) {
+    const today = toDateKey(new Date());
+    const earliest = addDaysToKey(today, pot.notice_days);
+    if (dayKey >= today && dayKey < earliest) {
+      return {
+        error: `${pot.name} needs ${pot.notice_days} days' notice, so the earliest withdrawal date is ${formatDateKey(earliest)}`,
+        earliestWithdrawalDate: earliest
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check money going into `pot` on `date` against its account type.
+ * Returns an error response body when it would go over a regular saver's monthly limit, otherwise null.
+ */
+async function checkDeposit(pot, amount, date, excludeTransactionId = null) {
+  if (pot.account_type !== 'regular-saver' || !pot.max_monthly_deposit) return null;
+
+  const deposited = await getMonthlyDeposits(pot.id, date, excludeTransactionId);
+  const remaining = Math.max(0, pot.max_monthly_deposit - deposited);
+  // Allow for rounding in stored amounts
+  if (amount <= remaining + 0.005) return null;
+
+  return {
+    error: `${pot.name} only takes ${formatMoney(pot.max_monthly_deposit, pot.currency)} a month (${formatMoney(remaining, pot.currency)} left this month)`,
+    remainingThisMonth: remaining
+  };
+}
+
+module.exports = {
+  ACCOUNT_TYPES,
+  MATURITY_REMINDER_DAYS,
+  isValidAccountType,
+  isValidMaturityDate,
+  isValidNoticeDays,
+  isValidMaxMonthlyDeposit,
+  getMaturityDate,
+  hasMatured,
+  addDaysToKey,
+  checkWithdrawal,
+  checkDeposit
+};
@@ -0,0 +1,216 @@
+/**
+ * Auth Module for Savings Tracker
+ *
+ * Rules for signing in and sessions:
+ * 1. A PIN or password is optional per user. Users without one sign in by choosing their name;
+ *    users with one must enter it, and need their current one to change or remove it
+ * 2. PINs and passwords are at least 4 characters and only stored as salted scrypt hashes
+ * 3. Sessions are kept in the database, so they survive restarts. Each has a random token
+ *    that only the browser holds; the database stores its SHA-256 hash.
+ * 4. A session expires after 30 days without being used
+ * 5. After 5 wrong PINs in a row a user can't sign in for 5 minutes
+ * 6. Users can see their own sessions and sign out any of their other devices
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+const { v4: uuidv4 } = require('uuid');
+const { runQuery, getRow, getAllRows } = require('./database');
+
+const scrypt = promisify(crypto.scrypt);
+
+const MIN_SECRET_LENGTH = 4;
+const MAX_SECRET_LENGTH = 128;
+
+const SESSION_DAYS = 30;
+const SESSION_TTL_MS = SESSION_DAYS * 24 * 60 * 60 * 1000;
+
+// Last-used times are only written this often, so reading a session isn't a write every request
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+const MAX_FAILED_SIGN_INS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+// Wrong PINs in a row by user id: { count, lockedUntil }. Kept in memory; a restart clears it.
+const failedSignIns = new Map();
+
+/**
+ * Check a PIN or password supplied by a client
+ */
+function isValidSecret(secret) {
+  return typeof secret === 'string' &&
+    secret.length >= MIN_SECRET_LENGTH &&
+    secret.length <= MAX_SECRET_LENGTH;
+}
+
+/**
+ * Hash a PIN or password for storing, as "scrypt$<salt>$<hash>"
+ */
+async function hashSecret(secret) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(secret, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a PIN or password against a stored hash
+ */
+async function verifySecret(secret, storedHash) {
+  if (typeof secret !== 'string' || typeof storedHash !== 'string') return false;
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(secret, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Milliseconds until a user may try to sign in again (0 if they may now)
+ */
+function getSignInLockout(userId, now = Date.now()) {
+  const failures = failedSignIns.get(userId);
+  if (!failures || !failures.lockedUntil) return 0;
+  return Math.max(0, failures.lockedUntil - now);
+}
+
+/**
+ * Count a wrong PIN, locking the user out once there have been too many in a row
+ */
+function recordFailedSignIn(userId, now = Date.now()) {
+  const failures = failedSignIns.get(userId);
+  const count = failures && !failures.lockedUntil ? failures.count + 1 : 1;
+  failedSignIns.set(userId, {
+    count,
+    lockedUntil: count >= MAX_FAILED_SIGN_INS ? now + LOCKOUT_MS : null
+  });
+}
+
+function clearFailedSignIns(userId) {
+  failedSignIns.delete(userId);
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toSession(row, currentId = null) {
+  return {
+    id: row.id,
+    userAgent: row.user_agent || null,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    current: row.id === currentId
+  };
+}
+
+/**
+ * Start a session for a user. Returns the token for the browser to send with each request.
+ */
+async function createSession(userId, userAgent, now = new Date()) {
+  // Expired sessions are only ever refused, so clear them out as new ones start
+  await runQuery('DELETE FROM sessions WHERE expires_at <= ?', [now.toISOString()]);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const id = uuidv4();
+  await runQuery(
+    `INSERT INTO sessions (id, user_id, token_hash, user_agent, created_at, last_used_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      userId,
+      hashToken(token),
+      typeof userAgent === 'string' ? userAgent.slice(0, 255) : null,
+      now.toISOString(),
+      now.toISOString(),
+      new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+    ]
+  );
+  return { id, token };
+}
+
+/**
+ * Find the live session for a token, with its user, extending it as it's used.
+ * Returns null for unknown or expired tokens.
+ */
+async function getSession(token, now = new Date()) {
+  if (typeof token !== 'string' || !token) return null;
+
+  const row = await getRow(
+    `SELECT s.*, u.name, u.email, u.date_of_birth, u.pin_hash
+     FROM sessions s
+     JOIN users u ON s.user_id = u.id
+     WHERE s.token_hash = ?`,
+    [hashToken(token)]
+  );
+  if (!row || row.expires_at <= now.toISOString()) return null;
+
+  if (now.getTime() - new Date(row.last_used_at).getTime() >= TOUCH_INTERVAL_MS) {
+    await runQuery(
+      'UPDATE sessions SET last_used_at = ?, expires_at = ? WHERE id = ?',
+      [now.toISOString(), new Date(now.getTime() + SESSION_TTL_MS).toISOString(), row.id]
+    );
+  }
+
+  return {
+    id: row.id,
+    user: {
+      id: row.user_id,
+      name: row.name,
+      email: row.email,
+      dateOfBirth: row.date_of_birth || null,
+      hasPin: !!row.pin_hash
+    }
+  };
+}
+
+/**
+ * End the session for a token (signing out)
+ */
+async function deleteSession(token) {
+  if (typeof token !== 'string' || !token) return;
+  await runQuery('DELETE FROM sessions WHERE token_hash = ?', [hashToken(token)]);
+}
+
+/**
+ * A user's live sessions, newest first, marking the one making the request
+ */
+async function getUserSessions(userId, currentId, now = new Date()) {
+  const rows = await getAllRows(
+    'SELECT * FROM sessions WHERE user_id = ? AND expires_at > ? ORDER BY last_used_at DESC',
+    [userId, now.toISOString()]
+  );
+  return rows.map(row => toSession(row, currentId));
+}
+
+/**
+ * Sign out one of a user's sessions. Returns false if they have no such session.
+ */
+async function revokeSession(userId, sessionId) {
+  const result = await runQuery('DELETE FROM sessions WHERE id = ? AND user_id = ?', [sessionId, userId]);
+  return result.changes > 0;
+}
+
+/**
+ * Sign out all of a user's sessions except the one making the request. Returns how many.
+ */
+async function revokeOtherSessions(userId, currentId) {
+  const result = await runQuery('DELETE FROM sessions WHERE user_id = ? AND id != ?', [userId, currentId]);
+  return result.changes;
+}
+
+module.exports = {
+  isValidSecret,
+  hashSecret,
+  verifySecret,
+  getSignInLockout,
+  recordFailedSignIn,
+  clearFailedSignIns,
+  createSession,
+  getSession,
+  deleteSession,
+  getUserSessions,
+  revokeSession,
+  revokeOtherSessions
+};
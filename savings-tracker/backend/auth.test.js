@@ -0,0 +1,86 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase } = require('./testHelpers');
+
+describe('auth', () => {
+  let database;
+  let auth;
+
+  before(async () => {
+    database = await useTestDatabase();
+    auth = require('./auth');
+  });
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  it('should check PINs against their hash', async () => {
+    const hash = await auth.hashSecret('2468');
+
+    assert.match(hash, /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    assert.equal(await auth.verifySecret('2468', hash), true);
+    assert.equal(await auth.verifySecret('1357', hash), false);
+    assert.equal(await auth.verifySecret('2468', 'not a hash'), false);
+    assert.equal(auth.isValidSecret('123'), false);
+    assert.equal(auth.isValidSecret('1234'), true);
+  });
+
+  it('should find sessions by token, storing only a hash of it', async () => {
+    const { id, token } = await auth.createSession('alex', 'Firefox');
+
+    const session = await auth.getSession(token);
+    assert.equal(session.id, id);
+    assert.equal(session.user.id, 'alex');
+    assert.equal(session.user.hasPin, false);
+    assert.equal(await database.getRow('SELECT id FROM sessions WHERE token_hash = ?', [token]), undefined);
+    assert.equal(await auth.getSession('unknown'), null);
+
+    await auth.deleteSession(token);
+    assert.equal(await auth.getSession(token), null);
+  });
+
+  it('should expire sessions left unused, and extend ones in use', async () => {
+    const start = new Date('2025-01-01T12:00:00.000Z');
+    const { token } = await auth.createSession('alex', null, start);
+
+    // Used on day 20, so it lasts until 30 days after that
+    assert.ok(await auth.getSession(token, new Date(start.getTime() + 20 * DAY_MS)));
+    assert.ok(await auth.getSession(token, new Date(start.getTime() + 45 * DAY_MS)));
+    assert.equal(await auth.getSession(token, new Date(start.getTime() + 76 * DAY_MS)), null);
+  });
+
+  it("should list and revoke only the user's own sessions", async () => {
+    await database.runQuery('DELETE FROM sessions');
+    const current = await auth.createSession('alex', 'Laptop');
+    const other = await auth.createSession('alex', 'Phone');
+    const beths = await auth.createSession('beth', 'Tablet');
+
+    const sessions = await auth.getUserSessions('alex', current.id);
+    assert.deepEqual(sessions.map(session => session.current).sort(), [false, true]);
+
+    assert.equal(await auth.revokeSession('alex', beths.id), false);
+    assert.equal(await auth.revokeOtherSessions('alex', current.id), 1);
+    assert.equal(await auth.getSession(other.token), null);
+    assert.ok(await auth.getSession(current.token));
+    assert.ok(await auth.getSession(beths.token));
+  });
+
+  it('should lock a user out for 5 minutes after 5 wrong PINs in a row', () => {
+    const now = Date.parse('2025-01-01T12:00:00.000Z');
+    for (let attempt = 0; attempt < 4; attempt++) {
+      auth.recordFailedSignIn('beth', now);
+    }
+    assert.equal(auth.getSignInLockout('beth', now), 0);
+
+    auth.recordFailedSignIn('beth', now);
+    assert.equal(auth.getSignInLockout('beth', now), 5 * 60 * 1000);
+    assert.equal(auth.getSignInLockout('beth', now + 5 * 60 * 1000), 0);
+    assert.equal(auth.getSignInLockout('alex', now), 0);
+
+    // Another wrong PIN after the lockout starts counting again
+    auth.recordFailedSignIn('beth', now + 5 * 60 * 1000);
+    assert.equal(auth.getSignInLockout('beth', now + 5 * 60 * 1000), 0);
+
+    auth.clearFailedSignIns('beth');
+    assert.equal(auth.getSignInLockout('beth', now), 0);
+  });
+});
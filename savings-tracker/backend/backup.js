@@ -0,0 +1,247 @@
+/**
+ * Backup Module for Savings Tracker
+ *
+ * Rules for backing up and restoring the database:
+ * 1. A backup is JSON holding every row of every table, as stored, with a format version.
+ *    Sessions are the exception: they aren't data, and restoring leaves them alone.
+ *    PIN hashes are left out too, and everyone keeps the PIN they have when a backup is restored.
+ * 2. Restoring replaces all data in one database transaction, so a bad backup changes nothing
+ * 3. Backups from a newer version of the app are refused
+ * 4. Older backups are migrated as they are restored: tables they don't have are left empty,
+ *    columns they don't have take their defaults, and opening balances and balance history are
+ *    filled in the same way as the database migrations do for an existing database
+ * 5. Scheduled backups are written to a folder (by default /data/backups, which Home Assistant
+ *    snapshots include), keeping only the newest few
+ * 6. As a backup holds every member's accounts, including private ones, only the users named as
+ *    backup admins in the add-on options can download or restore one
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { runQuery, getAllRows, runInTransaction } = require('./database');
+
+// Bump when the backup format changes in a way restore can't fill in from defaults
+const BACKUP_VERSION = 1;
+
+// Marks a file as one of ours
+const BACKUP_APP = 'savings-tracker';
+
+// Every table, in the order they're restored. Balance snapshots go last so the ones
+// written by the savings_pots triggers during a restore are replaced by the backup's own.
+const BACKUP_TABLES = [
+  'users',
+  'savings_pots',
+  'transactions',
+  'recurrence_exceptions',
+  'processed_recurring',
+  'scheduler_state',
+  'upcoming_spends',
+  'expense_categories',
+  'budget_allocations',
+  'budget_streams',
+  'household_settings',
+  'fx_rates',
+  'scenarios',
+  'lisa_bonuses',
+  'maturity_reminders',
+  'interest_accruals',
+  'import_presets',
+  'statement_accounts',
+  'balance_snapshots'
+];
+
+// Columns never written to or restored from a backup, by table
+const EXCLUDED_COLUMNS = {
+  users: ['pin_hash']
+};
+
+// Tables every backup must have, whatever its version
+const REQUIRED_TABLES = ['users', 'savings_pots', 'transactions'];
+
+// Where scheduled backups go and how many are kept
+const DEFAULT_BACKUP_DIR = '/data/backups';
+const DEFAULT_BACKUP_KEEP = 14;
+const BACKUP_FILE_PATTERN = /^savings-backup-[\dT-]+\.json$/;
+
+/**
+ * Read every table into a backup object
+ */
+async function createBackup() {
+  const tables = {};
+  for (const table of BACKUP_TABLES) {
+    const excluded = EXCLUDED_COLUMNS[table] || [];
+    tables[table] = (await getAllRows(`SELECT * FROM ${table}`)).map(row =>
+      Object.fromEntries(Object.entries(row).filter(([column]) => !excluded.includes(column)))
+    );
+  }
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    tables
+  };
+}
+
+/**
+ * Check a backup supplied by a client. Returns an error message, or null if it can be restored.
+ */
+function validateBackup(backup) {
+  if (!backup || typeof backup !== 'object' || backup.app !== BACKUP_APP) {
+    return 'Not a Savings Tracker backup';
+  }
+  if (!Number.isInteger(backup.version) || backup.version < 1) {
+    return 'Invalid backup version';
+  }
+  if (backup.version > BACKUP_VERSION) {
+    return 'This backup is from a newer version of Savings Tracker';
+  }
+  if (!backup.tables || typeof backup.tables !== 'object') {
+    return 'Backup has no tables';
+  }
+  for (const table of REQUIRED_TABLES) {
+    if (!Array.isArray(backup.tables[table])) {
+      return `Backup is missing the ${table} table`;
+    }
+  }
+  for (const [table, rows] of Object.entries(backup.tables)) {
+    if (!BACKUP_TABLES.includes(table)) {
+      return `Unknown table in backup: ${table}`;
+    }
+    if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      return `Invalid rows in the ${table} table`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Bring a valid backup up to the current version: every table present, in restore order
+ */
+function migrateBackup(backup) {
+  const tables = {};
+  for (const table of BACKUP_TABLES) {
+    tables[table] = backup.tables[table] || [];
+  }
+  return { ...backup, version: BACKUP_VERSION, tables };
+}
+
+/**
+ * Replace all data with a validated backup. Returns how many rows went into each table.
+ */
+async function restoreBackup(backup) {
+  const { tables } = migrateBackup(backup);
+
+  return runInTransaction(async () => {
+    // Everyone keeps their current PIN, whatever the backup holds
+    const pinHashes = await getAllRows('SELECT id, pin_hash FROM users WHERE pin_hash IS NOT NULL');
+
+    const restored = {};
+    for (const table of BACKUP_TABLES) {
+      // Only columns the table has, less excluded ones, are written, so a backup can't name arbitrary SQL
+      const excluded = EXCLUDED_COLUMNS[table] || [];
+      const columns = (await getAllRows(`PRAGMA table_info(${table})`))
+        .map(column => column.name)
+        .filter(column => !excluded.includes(column));
+      await runQuery(`DELETE FROM ${table}`);
+
+      for (const row of tables[table]) {
+        const rowColumns = Object.keys(row).filter(column => columns.includes(column));
+        await runQuery(
+          `INSERT INTO ${table} (${rowColumns.join(', ')}) VALUES (${rowColumns.map(() => '?').join(', ')})`,
+          rowColumns.map(column => row[column])
+        );
+      }
+      restored[table] = tables[table].length;
+    }
+
+    for (const { id, pin_hash: pinHash } of pinHashes) {
+      await runQuery('UPDATE users SET pin_hash = ? WHERE id = ?', [pinHash, id]);
+    }
+
+    // Backups taken before opening balances existed: work them out from each pot's ledger
+    await runQuery(`
+      UPDATE savings_pots SET opening_balance = current_total - (
+        SELECT COALESCE(SUM(CASE WHEN t.kind = 'withdrawal' THEN -ABS(t.amount) ELSE t.amount END), 0)
+        FROM transactions t WHERE t.pot_id = savings_pots.id
+      )
+      WHERE opening_balance IS NULL
+    `);
+
+    // ...and before balance history: start it with each pot's balance when last updated
+    await runQuery(`
+      INSERT INTO balance_snapshots (id, pot_id, balance, source, recorded_at)
+      SELECT lower(hex(randomblob(16))), id, current_total, 'change', updated_at FROM savings_pots p
+      WHERE NOT EXISTS (SELECT 1 FROM balance_snapshots s WHERE s.pot_id = p.id)
+    `);
+
+    return restored;
+  });
+}
+
+/**
+ * Name a backup file after when it was taken, so names sort oldest first
+ */
+function getBackupFileName(date = new Date()) {
+  return `savings-backup-${date.toISOString().replace(/:/g, '-').replace(/\..*$/, '')}.json`;
+}
+
+/**
+ * Write a backup into `dir` and delete all but the newest `keep` backups there.
+ * Returns the file written and the files deleted.
+ */
+async function writeBackupFile(dir, keep) {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const backup = await createBackup();
+  const fileName = getBackupFileName(new Date(backup.createdAt));
+  const filePath = path.join(dir, fileName);
+  // Write then rename, so a crash part-way never leaves a truncated backup behind
+  fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(backup));
+  fs.renameSync(`${filePath}.tmp`, filePath);
+
+  const backups = fs.readdirSync(dir).filter(name => BACKUP_FILE_PATTERN.test(name)).sort();
+  const removed = backups.slice(0, Math.max(0, backups.length - keep));
+  for (const name of removed) {
+    fs.unlinkSync(path.join(dir, name));
+  }
+
+  return { file: filePath, removed };
+}
+
+/**
+ * Where scheduled backups go, how many to keep and who may download and restore them,
+ * from BACKUP_DIR, BACKUP_KEEP and BACKUP_ADMINS (a JSON list of user ids)
+ */
+function getBackupConfig() {
+  const keep = parseInt(process.env.BACKUP_KEEP, 10);
+  let admins = [];
+  try {
+    admins = JSON.parse(process.env.BACKUP_ADMINS || '[]');
+  } catch (error) {
+    console.error('❌ Error parsing BACKUP_ADMINS:', error.message);
+  }
+  return {
+    dir: process.env.BACKUP_DIR || DEFAULT_BACKUP_DIR,
+    keep: Number.isInteger(keep) && keep > 0 ? keep : DEFAULT_BACKUP_KEEP,
+    admins: Array.isArray(admins) ? admins : []
+  };
+}
+
+/**
+ * Whether a user may download and restore backups
+ */
+function canManageBackups(userId) {
+  return getBackupConfig().admins.includes(userId);
+}
+
+module.exports = {
+  BACKUP_VERSION,
+  createBackup,
+  validateBackup,
+  migrateBackup,
+  restoreBackup,
+  getBackupFileName,
+  writeBackupFile,
+  getBackupConfig,
+  canManageBackups
+};
@@ -0,0 +1,125 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase, insertPot, insertTransaction } = require('./testHelpers');
+
+describe('backups', () => {
+  let database;
+  let backup;
+
+  before(async () => {
+    database = await useTestDatabase();
+    backup = require('./backup');
+  });
+
+  // A version 1 backup from before opening balances, currencies, visibility, balance
+  // history and import presets existed
+  const makeOldBackup = () => ({
+    app: 'savings-tracker',
+    version: 1,
+    createdAt: '2024-06-01T00:00:00.000Z',
+    tables: {
+      users: [
+        { id: 'alex', name: 'Alex', email: null, created_at: '2024-01-01T00:00:00.000Z' },
+        { id: 'beth', name: 'Beth', email: null, created_at: '2024-01-01T00:00:00.000Z' }
+      ],
+      savings_pots: [{
+        id: 'pot-old',
+        user_id: 'alex',
+        name: 'Holiday',
+        description: null,
+        current_total: 350,
+        target_amount: 1000,
+        color: '#667eea',
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-05-01T00:00:00.000Z'
+      }],
+      transactions: [
+        { id: 'txn-1', user_id: 'alex', pot_id: 'pot-old', amount: 200, date: '2024-02-01T12:00:00.000Z', kind: 'deposit', created_at: '2024-02-01T12:00:00.000Z' },
+        { id: 'txn-2', user_id: 'alex', pot_id: 'pot-old', amount: 50, date: '2024-03-01T12:00:00.000Z', kind: 'withdrawal', created_at: '2024-03-01T12:00:00.000Z' }
+      ]
+    }
+  });
+
+  it('should restore an older backup, filling in what it predates', async () => {
+    await insertPot({ name: 'Replaced' });
+    await database.runQuery(
+      `INSERT INTO import_presets (id, user_id, name, date_column, amount_column, date_format, created_at)
+       VALUES ('preset-1', 'alex', 'Bank', 'Date', 'Amount', 'dd/MM/yyyy', ?)`,
+      [new Date().toISOString()]
+    );
+
+    const restored = await backup.restoreBackup(makeOldBackup());
+
+    assert.equal(restored.savings_pots, 1);
+    assert.equal(restored.import_presets, 0);
+    const pots = await database.getAllRows('SELECT id, opening_balance, currency, visibility FROM savings_pots');
+    // 350 now, after +200 and -50
+    assert.deepEqual(pots.map(pot => ({ ...pot })), [
+      { id: 'pot-old', opening_balance: 200, currency: 'GBP', visibility: 'full' }
+    ]);
+    const snapshots = await database.getAllRows('SELECT pot_id, balance, recorded_at FROM balance_snapshots');
+    assert.deepEqual(snapshots.map(snapshot => ({ ...snapshot })), [
+      { pot_id: 'pot-old', balance: 350, recorded_at: '2024-05-01T00:00:00.000Z' }
+    ]);
+    assert.equal((await database.getAllRows('SELECT id FROM import_presets')).length, 0);
+  });
+
+  it('should restore its own backups as they were taken', async () => {
+    const pot = await insertPot({ name: 'Round Trip', current_total: 75, opening_balance: 0, currency: 'EUR', visibility: 'private' });
+    await insertTransaction({ pot_id: pot.id, amount: 75 });
+    const taken = await backup.createBackup();
+
+    await insertPot({ name: 'Added Later' });
+    await backup.restoreBackup(JSON.parse(JSON.stringify(taken)));
+
+    const again = await backup.createBackup();
+    assert.deepEqual(again.tables, taken.tables);
+  });
+
+  it("should leave PINs out of backups and keep everyone's PIN on restore", async () => {
+    await database.runQuery("UPDATE users SET pin_hash = 'scrypt$aa$bb' WHERE id = 'alex'");
+
+    const taken = await backup.createBackup();
+    assert.ok(taken.tables.users.every(user => !('pin_hash' in user)));
+
+    const tampered = makeOldBackup();
+    tampered.tables.users = tampered.tables.users.map(user => ({ ...user, pin_hash: 'scrypt$cc$dd' }));
+    await backup.restoreBackup(tampered);
+    // ...and an older backup without the column doesn't clear them
+    await backup.restoreBackup(makeOldBackup());
+
+    const users = await database.getAllRows('SELECT id, pin_hash FROM users ORDER BY id');
+    assert.deepEqual(users.map(user => ({ ...user })), [
+      { id: 'alex', pin_hash: 'scrypt$aa$bb' },
+      { id: 'beth', pin_hash: null }
+    ]);
+  });
+
+  it('should change nothing when a row cannot be restored', async () => {
+    await backup.restoreBackup(makeOldBackup());
+    const broken = makeOldBackup();
+    // amount is required
+    broken.tables.transactions.push({ id: 'txn-3', user_id: 'alex', pot_id: 'pot-old', date: '2024-04-01', created_at: '2024-04-01' });
+
+    await assert.rejects(backup.restoreBackup(broken));
+
+    const transactions = await database.getAllRows('SELECT id FROM transactions ORDER BY id');
+    assert.deepEqual(transactions.map(row => row.id), ['txn-1', 'txn-2']);
+  });
+
+  it('should refuse backups it cannot restore', () => {
+    const backupOf = (changes) => ({ ...makeOldBackup(), ...changes });
+
+    assert.equal(backup.validateBackup(makeOldBackup()), null);
+    assert.equal(backup.validateBackup({ version: 1, tables: {} }), 'Not a Savings Tracker backup');
+    assert.equal(backup.validateBackup(backupOf({ version: backup.BACKUP_VERSION + 1 })), 'This backup is from a newer version of Savings Tracker');
+    assert.equal(
+      backup.validateBackup(backupOf({ tables: { ...makeOldBackup().tables, transactions: undefined } })),
+      'Backup is missing the transactions table'
+    );
+    assert.equal(
+      backup.validateBackup(backupOf({ tables: { ...makeOldBackup().tables, sessions: [] } })),
+      'Unknown table in backup: sessions'
+    );
+  });
+});
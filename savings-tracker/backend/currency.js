@@ -0,0 +1,69 @@
+/**
+ * Currency Module for Savings Tracker
+ *
+ * Rules for pots held in different currencies:
+ * 1. Every pot holds one currency (an ISO 4217 code, GBP unless set) and all of its amounts,
+ *    transactions and limits are in that currency
+ * 2. ISAs are UK accounts, so they must be held in GBP
+ * 3. Transfers move the same amount out of one pot and into another, so both pots must
+ *    hold the same currency
+ * 4. Exchange rates are kept locally (entered by hand or imported): each says one unit of a
+ *    currency is worth `rate` of a quote currency on a day. The frontend converts household
+ *    totals into the base currency using the latest rate it can find.
+ */
+
+const { getAllRows } = require('./database');
+const { getLocale } = require('./locale');
+
+const DEFAULT_CURRENCY = 'GBP';
+
+/**
+ * Check a currency code supplied by a client
+ */
+function isValidCurrency(currency) {
+  return typeof currency === 'string' && /^[A-Z]{3}$/.test(currency);
+}
+
+/**
+ * Format an amount in a currency for the household's locale, e.g. "£12.50" or "12,50 €"
+ */
+function formatMoney(amount, currency = DEFAULT_CURRENCY) {
+  return new Intl.NumberFormat(getLocale(), { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Check one exchange rate supplied by a client
+ */
+function isValidFxRate(row) {
+  return !!row &&
+    isValidCurrency(row.currency) &&
+    isValidCurrency(row.quoteCurrency) &&
+    row.currency !== row.quoteCurrency &&
+    typeof row.rate === 'number' && isFinite(row.rate) && row.rate > 0 &&
+    typeof row.rateDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(row.rateDate);
+}
+
+/**
+ * Every stored exchange rate, newest first within each currency pair
+ */
+async function getFxRates() {
+  const rates = await getAllRows(
+    'SELECT * FROM fx_rates ORDER BY currency ASC, quote_currency ASC, rate_date DESC'
+  );
+  return rates.map(rate => ({
+    id: rate.id,
+    currency: rate.currency,
+    quoteCurrency: rate.quote_currency,
+    rate: rate.rate,
+    rateDate: rate.rate_date,
+    updatedAt: rate.updated_at
+  }));
+}
+
+module.exports = {
+  DEFAULT_CURRENCY,
+  isValidCurrency,
+  formatMoney,
+  isValidFxRate,
+  getFxRates
+};
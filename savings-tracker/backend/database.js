@@ -1,16 +1,24 @@
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
+const { AsyncLocalStorage } = require('async_hooks');
 
 // Create database path - use environment variable or default to app directory
 const dbPath = process.env.DATABASE_PATH || path.join(__dirname, 'savings.db');
 
+// Resolves once the tables, migrations and seed users are in place
+let resolveReady;
+const ready = new Promise(resolve => {
+  resolveReady = resolve;
+});
+
 // Create database connection
 const db = new sqlite3.Database(dbPath, (err) => {
   if (err) {
     console.error('Error opening database:', err.message);
   } else {
     console.log('Connected to SQLite database.');
-    initializeDatabase();
+    // One statement at a time, so indexes and triggers only run once their tables exist
+    db.serialize(initializeDatabase);
   }
 });
 
@@ -22,10 +30,26 @@ function initializeDatabase() {
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
       email TEXT,
+      date_of_birth TEXT,
+      pin_hash TEXT,
       created_at TEXT NOT NULL
     )
   `);
 
+  // Create sessions table: signed-in browsers. Only a hash of each session's token is kept.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_agent TEXT,
+      created_at TEXT NOT NULL,
+      last_used_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
   // Create savings_pots table
   db.run(`
     CREATE TABLE IF NOT EXISTS savings_pots (
@@ -36,6 +60,19 @@ function initializeDatabase() {
       current_total REAL NOT NULL DEFAULT 0,
       target_amount REAL,
       color TEXT NOT NULL,
+      interest_rate REAL,
+      interest_payment TEXT,
+      goal_date TEXT,
+      volatility REAL,
+      isa_type TEXT,
+      account_type TEXT,
+      maturity_date TEXT,
+      notice_days INTEGER,
+      max_monthly_deposit REAL,
+      opening_balance REAL,
+      last_reconciled_date TEXT,
+      currency TEXT NOT NULL DEFAULT 'GBP',
+      visibility TEXT NOT NULL DEFAULT 'full',
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
@@ -53,6 +90,10 @@ function initializeDatabase() {
       description TEXT,
       repeat_monthly INTEGER DEFAULT 0,
       repeat_weekly INTEGER DEFAULT 0,
+      recurrence TEXT,
+      kind TEXT NOT NULL DEFAULT 'deposit',
+      transfer_id TEXT,
+      external_id TEXT,
       created_at TEXT NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
       FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE
@@ -120,6 +161,44 @@ function initializeDatabase() {
     )
   `);
 
+  // Create fx_rates table: locally kept exchange rates (one unit of currency = rate of
+  // quote_currency on rate_date), used to report household totals in the base currency
+  db.run(`
+    CREATE TABLE IF NOT EXISTS fx_rates (
+      id TEXT PRIMARY KEY,
+      currency TEXT NOT NULL,
+      quote_currency TEXT NOT NULL,
+      rate REAL NOT NULL,
+      rate_date TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE(currency, quote_currency, rate_date)
+    )
+  `);
+
+  // Create household_settings table: key/value assumptions shared by all users
+  // (e.g. inflation_rate for real-terms projections). Values are JSON.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS household_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  // Create scenarios table: saved what-if changes layered over projections
+  // (collaborative - all users can see all scenarios). changes is a JSON array.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS scenarios (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      changes TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
   // Create processed_recurring table to track which recurring transaction instances have been auto-processed
   db.run(`
     CREATE TABLE IF NOT EXISTS processed_recurring (
@@ -132,15 +211,156 @@ function initializeDatabase() {
       FOREIGN KEY (new_transaction_id) REFERENCES transactions (id) ON DELETE CASCADE,
       UNIQUE(original_transaction_id, instance_date)
     )
+  `);
+
+  // Create scheduler_state table: small key/value store for the scheduler
+  // (e.g. last_successful_run, used to catch up on days missed while the add-on was stopped)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS scheduler_state (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  // Create recurrence_exceptions table: per-occurrence changes to a recurring series
+  // (skip it, change its amount or move it to another day). Transfers are keyed by their out leg.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS recurrence_exceptions (
+      id TEXT PRIMARY KEY,
+      transaction_id TEXT NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      amount REAL,
+      moved_to TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (transaction_id) REFERENCES transactions (id) ON DELETE CASCADE,
+      UNIQUE(transaction_id, occurrence_date)
+    )
+  `);
+
+  // Create lisa_bonuses table: the government bonus paid into a Lifetime ISA for each
+  // month's contributions (month is YYYY-MM), so a month is never paid twice
+  db.run(`
+    CREATE TABLE IF NOT EXISTS lisa_bonuses (
+      id TEXT PRIMARY KEY,
+      pot_id TEXT NOT NULL,
+      month TEXT NOT NULL,
+      contributions REAL NOT NULL,
+      amount REAL NOT NULL,
+      transaction_id TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE,
+      FOREIGN KEY (transaction_id) REFERENCES transactions (id) ON DELETE SET NULL,
+      UNIQUE(pot_id, month)
+    )
+  `);
+
+  // Create maturity_reminders table: the reminder sent ahead of a pot's maturity date,
+  // so each date is only notified once (a new maturity date gets its own reminder)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS maturity_reminders (
+      id TEXT PRIMARY KEY,
+      pot_id TEXT NOT NULL,
+      maturity_date TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE,
+      UNIQUE(pot_id, maturity_date)
+    )
+  `);
+
+  // Create import_presets table: saved CSV column mappings for a bank's statements
+  // (collaborative - all users can see/use all presets)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS import_presets (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      date_column TEXT NOT NULL,
+      amount_column TEXT NOT NULL,
+      paid_out_column TEXT,
+      description_column TEXT,
+      date_format TEXT NOT NULL,
+      decimal_separator TEXT NOT NULL DEFAULT '.',
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create statement_accounts table: which pot each account in a user's OFX/QIF files imports into
+  db.run(`
+    CREATE TABLE IF NOT EXISTS statement_accounts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      pot_id TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+      FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE,
+      UNIQUE(user_id, account_id)
+    )
+  `);
+
+  // Create balance_snapshots table: a pot's balance over time. 'change' rows are written by
+  // the triggers below whenever current_total changes; 'daily' rows by the scheduler.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS balance_snapshots (
+      id TEXT PRIMARY KEY,
+      pot_id TEXT NOT NULL,
+      balance REAL NOT NULL,
+      source TEXT NOT NULL,
+      recorded_at TEXT NOT NULL,
+      FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE
+    )
+  `);
+  db.run('CREATE INDEX IF NOT EXISTS idx_balance_snapshots_pot ON balance_snapshots (pot_id, recorded_at)');
+
+  // current_total is changed from many places (pot edits, the ledger, the scheduler), so
+  // snapshots are taken in the database rather than by each caller
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS snapshot_new_pot AFTER INSERT ON savings_pots
+    BEGIN
+      INSERT INTO balance_snapshots (id, pot_id, balance, source, recorded_at)
+      VALUES (lower(hex(randomblob(16))), NEW.id, NEW.current_total, 'change', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    END
+  `);
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS snapshot_pot_balance AFTER UPDATE OF current_total ON savings_pots
+    WHEN NEW.current_total IS NOT OLD.current_total
+    BEGIN
+      INSERT INTO balance_snapshots (id, pot_id, balance, source, recorded_at)
+      VALUES (lower(hex(randomblob(16))), NEW.id, NEW.current_total, 'change', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    END
+  `);
+
+  // Create interest_accruals table: one row per pot per day of accrued interest,
+  // linked to the interest transaction once it has been paid into the pot
+  db.run(`
+    CREATE TABLE IF NOT EXISTS interest_accruals (
+      id TEXT PRIMARY KEY,
+      pot_id TEXT NOT NULL,
+      accrual_date TEXT NOT NULL,
+      balance REAL NOT NULL,
+      amount REAL NOT NULL,
+      paid_transaction_id TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (pot_id) REFERENCES savings_pots (id) ON DELETE CASCADE,
+      FOREIGN KEY (paid_transaction_id) REFERENCES transactions (id) ON DELETE SET NULL,
+      UNIQUE(pot_id, accrual_date)
+    )
   `, (err) => {
     if (err) {
       console.error('Error creating tables:', err.message);
     } else {
       console.log('Database tables initialized.');
-      // Run migrations for existing databases
-      runMigrations();
-      // Seed initial users
-      seedUsers();
+      db.serialize(() => {
+        // Run migrations for existing databases
+        runMigrations();
+        // Seed initial users
+        seedUsers();
+        db.get('SELECT 1', () => resolveReady());
+      });
     }
   });
 }
@@ -182,6 +402,210 @@ function runMigrations() {
       console.log('Migration: Added parent_id column to budget_streams');
     }
   });
+
+  // Add kind column to transactions (deposit, withdrawal, interest, adjustment)
+  db.run(`ALTER TABLE transactions ADD COLUMN kind TEXT NOT NULL DEFAULT 'deposit'`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added kind column to transactions');
+    }
+  });
+
+  // Add transfer_id column to transactions (links the two legs of a pot-to-pot transfer)
+  db.run(`ALTER TABLE transactions ADD COLUMN transfer_id TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added transfer_id column to transactions');
+    }
+  });
+
+  // Add external_id column to transactions (the bank's FITID for rows imported from OFX files)
+  db.run(`ALTER TABLE transactions ADD COLUMN external_id TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+      return;
+    } else if (!err) {
+      console.log('Migration: Added external_id column to transactions');
+    }
+    db.run('CREATE INDEX IF NOT EXISTS idx_transactions_external_id ON transactions (pot_id, external_id)');
+  });
+
+  // Add interest_payment column to savings_pots (null = not accrued, 'monthly' or 'annual')
+  db.run(`ALTER TABLE savings_pots ADD COLUMN interest_payment TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added interest_payment column to savings_pots');
+    }
+  });
+
+  // Add goal_date column to savings_pots (YYYY-MM-DD deadline for reaching target_amount)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN goal_date TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added goal_date column to savings_pots');
+    }
+  });
+
+  // Add volatility column to savings_pots (annual % standard deviation of returns, for investments)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN volatility REAL`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added volatility column to savings_pots');
+    }
+  });
+
+  // Add isa_type column to savings_pots (null = not an ISA, 'cash', 'stocks-and-shares' or 'lifetime')
+  db.run(`ALTER TABLE savings_pots ADD COLUMN isa_type TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added isa_type column to savings_pots');
+    }
+  });
+
+  // Add account_type column to savings_pots (null = easy access, 'notice', 'fixed-rate-bond' or 'regular-saver')
+  db.run(`ALTER TABLE savings_pots ADD COLUMN account_type TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added account_type column to savings_pots');
+    }
+  });
+
+  // Add maturity_date column to savings_pots (YYYY-MM-DD term end for bonds and regular savers)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN maturity_date TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added maturity_date column to savings_pots');
+    }
+  });
+
+  // Add notice_days column to savings_pots (days' notice a notice account needs before a withdrawal)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN notice_days INTEGER`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added notice_days column to savings_pots');
+    }
+  });
+
+  // Add max_monthly_deposit column to savings_pots (most a regular saver takes each month)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN max_monthly_deposit REAL`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added max_monthly_deposit column to savings_pots');
+    }
+  });
+
+  // Add opening_balance column to savings_pots (the balance before any of its transactions),
+  // worked out for existing pots from their current total
+  db.run(`ALTER TABLE savings_pots ADD COLUMN opening_balance REAL`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added opening_balance column to savings_pots');
+      db.run(`
+        UPDATE savings_pots SET opening_balance = current_total - (
+          SELECT COALESCE(SUM(CASE WHEN t.kind = 'withdrawal' THEN -ABS(t.amount) ELSE t.amount END), 0)
+          FROM transactions t WHERE t.pot_id = savings_pots.id
+        )
+        WHERE opening_balance IS NULL
+      `, (updateErr) => {
+        if (updateErr) console.error('Migration error:', updateErr.message);
+      });
+    }
+  });
+
+  // Add last_reconciled_date column to savings_pots (YYYY-MM-DD of the latest statement checked against)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN last_reconciled_date TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added last_reconciled_date column to savings_pots');
+    }
+  });
+
+  // Add currency column to savings_pots (ISO 4217 code; existing pots are all GBP)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN currency TEXT NOT NULL DEFAULT 'GBP'`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added currency column to savings_pots');
+    }
+  });
+
+  // Add visibility column to savings_pots (what other members see; existing pots stay fully shared)
+  db.run(`ALTER TABLE savings_pots ADD COLUMN visibility TEXT NOT NULL DEFAULT 'full'`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added visibility column to savings_pots');
+    }
+  });
+
+  // Add paid_out_column and decimal_separator columns to import_presets (existing presets have
+  // one signed amount column and a decimal point)
+  db.run(`ALTER TABLE import_presets ADD COLUMN paid_out_column TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added paid_out_column column to import_presets');
+    }
+  });
+  db.run(`ALTER TABLE import_presets ADD COLUMN decimal_separator TEXT NOT NULL DEFAULT '.'`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added decimal_separator column to import_presets');
+    }
+  });
+
+  // Add date_of_birth column to users (YYYY-MM-DD; decides Lifetime ISA bonus eligibility)
+  db.run(`ALTER TABLE users ADD COLUMN date_of_birth TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added date_of_birth column to users');
+    }
+  });
+
+  // Add pin_hash column to users (optional PIN or password, stored as a salted scrypt hash)
+  db.run(`ALTER TABLE users ADD COLUMN pin_hash TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added pin_hash column to users');
+    }
+  });
+
+  // Add recurrence column to transactions (JSON rule; repeat_monthly/repeat_weekly kept in step)
+  db.run(`ALTER TABLE transactions ADD COLUMN recurrence TEXT`, (err) => {
+    if (err && !err.message.includes('duplicate column')) {
+      console.error('Migration error:', err.message);
+    } else if (!err) {
+      console.log('Migration: Added recurrence column to transactions');
+    }
+  });
+
+  // Start the history of pots created before balance snapshots with their current balance
+  db.run(`
+    INSERT INTO balance_snapshots (id, pot_id, balance, source, recorded_at)
+    SELECT lower(hex(randomblob(16))), id, current_total, 'change', updated_at FROM savings_pots p
+    WHERE NOT EXISTS (SELECT 1 FROM balance_snapshots s WHERE s.pot_id = p.id)
+  `, function (err) {
+    if (err) {
+      console.error('Migration error:', err.message);
+    } else if (this.changes > 0) {
+      console.log(`Migration: Added first balance snapshots for ${this.changes} pot(s)`);
+    }
+  });
 }
 
 // Get users from configuration or use defaults
@@ -229,8 +653,26 @@ function seedUsers() {
   });
 }
 
-// Helper function to run queries with promises
-function runQuery(sql, params = []) {
+// Writes take turns on the shared connection. A transaction holds it from BEGIN to COMMIT, and
+// writes from anywhere else wait until it's done, so a ROLLBACK only ever undoes its own work.
+let writeQueue = Promise.resolve();
+
+// Set while a transaction is open, for the queries it runs itself
+const openTransaction = new AsyncLocalStorage();
+
+function queueWrite(work) {
+  const result = writeQueue.then(work);
+  // Keep the queue moving even if this write failed
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+function inOpenTransaction() {
+  const transaction = openTransaction.getStore();
+  return !!transaction && transaction.open;
+}
+
+function execute(sql, params) {
   return new Promise((resolve, reject) => {
     db.run(sql, params, function(err) {
       if (err) {
@@ -242,6 +684,12 @@ function runQuery(sql, params = []) {
   });
 }
 
+// Helper function to run queries with promises, after any open transaction (see queueWrite)
+function runQuery(sql, params = []) {
+  if (inOpenTransaction()) return execute(sql, params);
+  return queueWrite(() => execute(sql, params));
+}
+
 // Helper function to get single row
 function getRow(sql, params = []) {
   return new Promise((resolve, reject) => {
@@ -268,9 +716,35 @@ function getAllRows(sql, params = []) {
   });
 }
 
+// Helper function to run several queries atomically (BEGIN/COMMIT, ROLLBACK on error).
+// Called from inside a transaction, the work just becomes part of it.
+function runInTransaction(work) {
+  if (inOpenTransaction()) return work();
+
+  return queueWrite(() => {
+    const transaction = { open: true };
+    return openTransaction.run(transaction, async () => {
+      await execute('BEGIN TRANSACTION');
+      try {
+        const value = await work();
+        await execute('COMMIT');
+        return value;
+      } catch (err) {
+        await execute('ROLLBACK');
+        throw err;
+      } finally {
+        // Anything the work left running writes through the queue like everyone else
+        transaction.open = false;
+      }
+    });
+  });
+}
+
 module.exports = {
   db,
+  ready,
   runQuery,
   getRow,
-  getAllRows
+  getAllRows,
+  runInTransaction
 };
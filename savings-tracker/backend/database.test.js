@@ -0,0 +1,61 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase, insertPot } = require('./testHelpers');
+
+describe('runInTransaction', () => {
+  let database;
+
+  before(async () => {
+    database = await useTestDatabase();
+  });
+
+  const getTotal = async (potId) =>
+    (await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [potId])).current_total;
+
+  const setTotal = (potId, total) =>
+    database.runQuery('UPDATE savings_pots SET current_total = ? WHERE id = ?', [total, potId]);
+
+  it('should undo all of its writes when it fails', async () => {
+    const pot = await insertPot({ current_total: 10 });
+
+    await assert.rejects(database.runInTransaction(async () => {
+      await setTotal(pot.id, 20);
+      throw new Error('Failed part-way');
+    }), /Failed part-way/);
+
+    assert.equal(await getTotal(pot.id), 10);
+  });
+
+  it('should keep writes made elsewhere while a failing transaction was open', async () => {
+    const pot = await insertPot({ current_total: 10 });
+    const otherPot = await insertPot({ current_total: 10 });
+
+    let started;
+    const hasStarted = new Promise(resolve => { started = resolve; });
+    const failing = database.runInTransaction(async () => {
+      await setTotal(pot.id, 20);
+      started();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      throw new Error('Failed part-way');
+    });
+    // e.g. another request editing a different pot meanwhile
+    await hasStarted;
+    const otherWrite = setTotal(otherPot.id, 30);
+
+    await assert.rejects(failing);
+    await otherWrite;
+    assert.equal(await getTotal(pot.id), 10);
+    assert.equal(await getTotal(otherPot.id), 30);
+  });
+
+  it('should fold a transaction started inside another into it', async () => {
+    const pot = await insertPot({ current_total: 10 });
+
+    await assert.rejects(database.runInTransaction(async () => {
+      await database.runInTransaction(() => setTotal(pot.id, 20));
+      throw new Error('Failed part-way');
+    }));
+
+    assert.equal(await getTotal(pot.id), 10);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Statement Import Module for Savings Tracker
+ *
+ * Rules for importing rows from a bank statement into a pot:
+ * 1. Each row is a YYYY-MM-DD date, a signed amount (money in positive), an optional description
+ *    and, for OFX files, the bank's FITID as its external ID
+ * 2. Positive rows become deposits and negative rows withdrawals
+ * 3. A row whose external ID is already in the pot is skipped, so overlapping OFX files never
+ *    import a transaction twice
+ * 4. Other rows are skipped when they match a transaction in the pot with no external ID (same day,
+ *    amount and description), so overlapping CSV/QIF statements can be imported again. Matches are
+ *    counted, so two identical payments on one statement still import twice.
+ * 5. Imports record money that has already moved, so ISA allowances and account type limits
+ *    aren't enforced on them
+ * 6. The rows are posted in one database transaction with a single update to the pot's total
+ * 7. Each user's statement account IDs (OFX ACCTID, QIF account name) remember the pot they import into
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const { runQuery, getAllRows, runInTransaction } = require('./database');
+const { getSignedAmount } = require('./ledger');
+const { toDayKey } = require('./recurrence');
+
+// Most rows accepted in one import
+const MAX_IMPORT_ROWS = 2000;
+
+// How dates are written in a statement's date column
+const IMPORT_DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd'];
+
+// What separates whole units from the decimal part in a statement's amounts
+const IMPORT_DECIMAL_SEPARATORS = ['.', ','];
+
+/**
+ * Check a preset's date format
+ */
+function isValidDateFormat(dateFormat) {
+  return IMPORT_DATE_FORMATS.includes(dateFormat);
+}
+
+/**
+ * Check a preset's decimal separator (a decimal point if not given)
+ */
+function isValidDecimalSeparator(decimalSeparator) {
+  return decimalSeparator === undefined || IMPORT_DECIMAL_SEPARATORS.includes(decimalSeparator);
+}
+
+/**
+ * Check one statement row supplied by a client
+ */
+function isValidImportRow(row) {
+  return !!row &&
+    typeof row.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(row.date) &&
+    typeof row.amount === 'number' && !isNaN(row.amount) && row.amount !== 0 &&
+    (row.description === undefined || row.description === null || typeof row.description === 'string') &&
+    (row.externalId === undefined || row.externalId === null || (typeof row.externalId === 'string' && row.externalId.length > 0));
+}
+
+/**
+ * Identify a transaction for duplicate detection: its day, signed amount and description
+ */
+function getDuplicateKey(dayKey, signedAmount, description) {
+  return `${dayKey}|${signedAmount.toFixed(2)}|${(description || '').trim().toLowerCase()}`;
+}
+
+/**
+ * Post statement rows into a pot. Returns the IDs of the transactions created and the
+ * indexes of the rows skipped as duplicates.
+ */
+async function importStatementRows(pot, userId, rows) {
+  return runInTransaction(async () => {
+    const existing = await getAllRows('SELECT amount, kind, date, description, external_id FROM transactions WHERE pot_id = ?', [pot.id]);
+    const externalIds = new Set();
+    const existingCounts = new Map();
+    for (const t of existing) {
+      if (t.external_id) {
+        externalIds.add(t.external_id);
+        continue;
+      }
+      const key = getDuplicateKey(toDayKey(new Date(t.date)), getSignedAmount(t.kind, t.amount), t.description);
+      existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+    }
+
+    const importedIds = [];
+    const skipped = [];
+    let totalChange = 0;
+    const now = new Date().toISOString();
+
+    for (const [index, row] of rows.entries()) {
+      const description = row.description ? row.description.trim() : null;
+      const externalId = row.externalId || null;
+      if (externalId) {
+        if (externalIds.has(externalId)) {
+          skipped.push(index);
+          continue;
+        }
+        // Also catches the same FITID twice in one file
+        externalIds.add(externalId);
+      } else {
+        const key = getDuplicateKey(row.date, row.amount, description);
+        const matches = existingCounts.get(key) || 0;
+        if (matches > 0) {
+          existingCounts.set(key, matches - 1);
+          skipped.push(index);
+          continue;
+        }
+      }
+
+      const id = uuidv4();
+      const kind = row.amount > 0 ? 'deposit' : 'withdrawal';
+      await runQuery(
+        'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, recurrence, kind, external_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, userId, pot.id, Math.abs(row.amount), new Date(`${row.date}T12:00:00`).toISOString(), description, 0, 0, null, kind, externalId, now]
+      );
+      importedIds.push(id);
+      totalChange += row.amount;
+    }
+
+    if (importedIds.length > 0) {
+      await runQuery(
+        'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+        [totalChange, now, pot.id]
+      );
+    }
+
+    return { importedIds, skipped };
+  });
+}
+
+/**
+ * Remember that a statement account imports into a pot (replacing any earlier choice)
+ */
+async function linkStatementAccount(userId, accountId, potId) {
+  await runQuery(
+    `INSERT INTO statement_accounts (id, user_id, account_id, pot_id, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, account_id) DO UPDATE SET pot_id = excluded.pot_id, updated_at = excluded.updated_at`,
+    [uuidv4(), userId, accountId, potId, new Date().toISOString()]
+  );
+}
+
+module.exports = {
+  MAX_IMPORT_ROWS,
+  IMPORT_DATE_FORMATS,
+  isValidDateFormat,
+  isValidDecimalSeparator,
+  isValidImportRow,
+  importStatementRows,
+  linkStatementAccount
+};
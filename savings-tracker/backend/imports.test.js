@@ -0,0 +1,79 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase, insertPot, insertTransaction } = require('./testHelpers');
+
+describe('importStatementRows', () => {
+  let database;
+  let importStatementRows;
+
+  before(async () => {
+    database = await useTestDatabase();
+    ({ importStatementRows } = require('./imports'));
+  });
+
+  const getTotal = async (potId) =>
+    (await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [potId])).current_total;
+
+  it('should post deposits and withdrawals and update the total once', async () => {
+    const pot = await insertPot({ current_total: 100 });
+
+    const { importedIds, skipped } = await importStatementRows(pot, 'alex', [
+      { date: '2025-05-01', amount: 250, description: 'Salary' },
+      { date: '2025-05-02', amount: -4.5, description: ' Coffee ' }
+    ]);
+
+    assert.equal(importedIds.length, 2);
+    assert.deepEqual(skipped, []);
+    const rows = await database.getAllRows('SELECT amount, kind, description FROM transactions WHERE pot_id = ? ORDER BY date', [pot.id]);
+    assert.deepEqual(rows.map(row => ({ ...row })), [
+      { amount: 250, kind: 'deposit', description: 'Salary' },
+      { amount: 4.5, kind: 'withdrawal', description: 'Coffee' }
+    ]);
+    assert.equal(await getTotal(pot.id), 345.5);
+  });
+
+  it('should skip rows whose FITID is already in the pot or repeated in the file', async () => {
+    const pot = await insertPot();
+    await importStatementRows(pot, 'alex', [{ date: '2025-05-01', amount: 10, externalId: 'FIT-1' }]);
+
+    const { importedIds, skipped } = await importStatementRows(pot, 'alex', [
+      { date: '2025-05-01', amount: 10, externalId: 'FIT-1' },
+      { date: '2025-05-03', amount: 20, externalId: 'FIT-2' },
+      { date: '2025-05-03', amount: 20, externalId: 'FIT-2' }
+    ]);
+
+    assert.equal(importedIds.length, 1);
+    assert.deepEqual(skipped, [0, 2]);
+    assert.equal(await getTotal(pot.id), 30);
+  });
+
+  it('should skip rows matching transactions without a FITID, counting each match once', async () => {
+    const pot = await insertPot();
+    await insertTransaction({
+      pot_id: pot.id,
+      amount: 5,
+      kind: 'withdrawal',
+      date: '2025-05-01T12:00:00.000Z',
+      description: 'Coffee'
+    });
+
+    const { importedIds, skipped } = await importStatementRows(pot, 'alex', [
+      { date: '2025-05-01', amount: -5, description: 'COFFEE' },
+      { date: '2025-05-01', amount: -5, description: 'Coffee' },
+      { date: '2025-05-01', amount: 5, description: 'Coffee' }
+    ]);
+
+    assert.deepEqual(skipped, [0]);
+    assert.equal(importedIds.length, 2);
+  });
+
+  it("should not treat another pot's transactions as duplicates", async () => {
+    const pot = await insertPot();
+    const otherPot = await insertPot();
+    await importStatementRows(otherPot, 'alex', [{ date: '2025-05-01', amount: 10, externalId: 'FIT-9' }]);
+
+    const { skipped } = await importStatementRows(pot, 'alex', [{ date: '2025-05-01', amount: 10, externalId: 'FIT-9' }]);
+
+    assert.deepEqual(skipped, []);
+  });
+});
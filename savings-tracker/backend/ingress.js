@@ -0,0 +1,58 @@
+/**
+ * Ingress Module for Savings Tracker
+ *
+ * Rules for signing in automatically through Home Assistant:
+ * 1. Home Assistant users are mapped to users in the add-on options, by their Home Assistant
+ *    username or user ID
+ * 2. Home Assistant's ingress proxy says who is logged in with X-Remote-User-* headers. They're
+ *    only trusted on requests nginx received from the proxy's address. nginx passes that on as
+ *    X-Real-IP, which is only believed when the request came from nginx itself over loopback,
+ *    so reaching the add-on or the API port any other way can't forge them.
+ * 3. A mapped user is signed in without their PIN, as Home Assistant has already checked who they are
+ * 4. Unmapped Home Assistant users, and anyone not coming through ingress, use the login screen
+ */
+
+// The Supervisor's ingress proxy, the only address ingress requests come from
+const INGRESS_PROXY_IP = '172.30.32.2';
+
+// nginx runs alongside the server and proxies to it over loopback
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/**
+ * The configured mapping of Home Assistant username or user ID (lower case) to user id, as a Map
+ * so a header like "constructor" can't match something every object has
+ * Format: {"alex": "alex", "8d2f3c...": "beth"}
+ */
+function getHomeAssistantUsers() {
+  const usersJson = process.env.HA_USERS;
+  if (!usersJson) return new Map();
+  try {
+    return new Map(Object.entries(JSON.parse(usersJson)));
+  } catch (error) {
+    console.error('❌ Error parsing HA_USERS:', error.message);
+    return new Map();
+  }
+}
+
+/**
+ * The user id to sign in as for a request from Home Assistant ingress, or null if there
+ * isn't one (not through ingress, or a Home Assistant user who isn't mapped)
+ */
+function getIngressUserId(req) {
+  const { headers } = req;
+  if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress)) return null;
+  if (headers['x-real-ip'] !== INGRESS_PROXY_IP) return null;
+
+  const haUsers = getHomeAssistantUsers();
+  for (const haUser of [headers['x-remote-user-name'], headers['x-remote-user-id']]) {
+    const userId = typeof haUser === 'string' ? haUsers.get(haUser.toLowerCase()) : undefined;
+    if (typeof userId === 'string' && userId) {
+      return userId;
+    }
+  }
+  return null;
+}
+
+module.exports = {
+  getIngressUserId
+};
@@ -0,0 +1,40 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { getIngressUserId } = require('./ingress');
+
+describe('getIngressUserId', () => {
+  before(() => {
+    process.env.HA_USERS = JSON.stringify({ alex: 'alex', 'ha-id-2': 'beth' });
+  });
+
+  after(() => {
+    delete process.env.HA_USERS;
+  });
+
+  const makeRequest = (remoteAddress, headers) => ({
+    socket: { remoteAddress },
+    headers: { 'x-real-ip': '172.30.32.2', ...headers }
+  });
+
+  it('should sign in mapped users on requests nginx received from the ingress proxy', () => {
+    assert.equal(getIngressUserId(makeRequest('127.0.0.1', { 'x-remote-user-name': 'Alex' })), 'alex');
+    assert.equal(getIngressUserId(makeRequest('::ffff:127.0.0.1', { 'x-remote-user-id': 'ha-id-2' })), 'beth');
+    assert.equal(getIngressUserId(makeRequest('127.0.0.1', { 'x-remote-user-name': 'someone' })), null);
+  });
+
+  it("should not match Home Assistant users named after an object's own properties", () => {
+    for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      assert.equal(getIngressUserId(makeRequest('127.0.0.1', { 'x-remote-user-name': name })), null);
+    }
+  });
+
+  it('should ignore ingress headers that could have been forged', () => {
+    // Straight to the API port, skipping nginx
+    assert.equal(getIngressUserId(makeRequest('192.168.1.20', { 'x-remote-user-name': 'alex' })), null);
+    // Through nginx, but not from the ingress proxy
+    assert.equal(
+      getIngressUserId(makeRequest('127.0.0.1', { 'x-real-ip': '192.168.1.20', 'x-remote-user-name': 'alex' })),
+      null
+    );
+  });
+});
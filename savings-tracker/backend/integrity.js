@@ -0,0 +1,152 @@
+/**
+ * Ledger Integrity Module for Savings Tracker
+ *
+ * Checks that stored data still adds up, and repairs what doesn't:
+ * 1. Each pot's current_total should equal its opening balance plus all of its transactions;
+ *    repairing sets current_total back to that ledger balance
+ * 2. Transactions whose pot no longer exists are removed (a transfer's surviving leg in another
+ *    pot becomes a plain deposit/withdrawal, as when a pot is deleted)
+ * 3. processed_recurring markers whose recurring transaction no longer exists are removed.
+ *    Markers for a deleted single occurrence are kept: they stop the scheduler posting it again.
+ * 4. Backup admins repair the whole household. Other members only repair their own pots and
+ *    transactions, along with the markers of the transactions removed.
+ */
+
+const { runQuery, getAllRows, runInTransaction } = require('./database');
+
+// Totals within half a penny of the ledger are rounding, not drift
+const INTEGRITY_TOLERANCE = 0.005;
+
+/**
+ * Pots whose current_total doesn't match their ledger balance (only the user's own, if given)
+ */
+async function findBalanceMismatches(userId = null) {
+  const pots = await getAllRows(
+    `SELECT sp.id, sp.user_id, sp.name, sp.currency, sp.current_total,
+       COALESCE(sp.opening_balance, 0) + COALESCE((
+         SELECT SUM(CASE WHEN t.kind = 'withdrawal' THEN -ABS(t.amount) ELSE t.amount END)
+         FROM transactions t WHERE t.pot_id = sp.id
+       ), 0) AS ledger_balance
+     FROM savings_pots sp
+     ${userId ? 'WHERE sp.user_id = ?' : ''}`,
+    userId ? [userId] : []
+  );
+
+  return pots
+    .filter(pot => Math.abs(pot.current_total - pot.ledger_balance) >= INTEGRITY_TOLERANCE)
+    .map(pot => ({
+      potId: pot.id,
+      userId: pot.user_id,
+      potName: pot.name,
+      currency: pot.currency,
+      currentTotal: pot.current_total,
+      ledgerBalance: Math.round(pot.ledger_balance * 100) / 100,
+      difference: Math.round((pot.current_total - pot.ledger_balance) * 100) / 100
+    }));
+}
+
+/**
+ * Transactions pointing at a pot that no longer exists (only the user's own, if given)
+ */
+async function findOrphanedTransactions(userId = null) {
+  const transactions = await getAllRows(
+    `SELECT t.* FROM transactions t
+     WHERE NOT EXISTS (SELECT 1 FROM savings_pots sp WHERE sp.id = t.pot_id)
+     ${userId ? 'AND t.user_id = ?' : ''}
+     ORDER BY t.date ASC`,
+    userId ? [userId] : []
+  );
+
+  return transactions.map(t => ({
+    transactionId: t.id,
+    userId: t.user_id,
+    potId: t.pot_id,
+    amount: t.amount,
+    kind: t.kind || 'deposit',
+    date: t.date,
+    description: t.description
+  }));
+}
+
+/**
+ * processed_recurring markers left behind by a recurring transaction that has been deleted
+ */
+async function findOrphanedProcessedRecurring() {
+  const rows = await getAllRows(
+    `SELECT pr.* FROM processed_recurring pr
+     WHERE NOT EXISTS (SELECT 1 FROM transactions t WHERE t.id = pr.original_transaction_id)
+     ORDER BY pr.instance_date ASC`
+  );
+
+  return rows.map(row => ({
+    id: row.id,
+    originalTransactionId: row.original_transaction_id,
+    instanceDate: row.instance_date,
+    newTransactionId: row.new_transaction_id
+  }));
+}
+
+/**
+ * Run every check. `ok` is true when nothing needs repairing.
+ */
+async function checkIntegrity() {
+  // Orphaned transactions don't count towards any pot, so the balance check isn't affected by them
+  const [balanceMismatches, orphanedTransactions, orphanedProcessedRecurring] = await Promise.all([
+    findBalanceMismatches(),
+    findOrphanedTransactions(),
+    findOrphanedProcessedRecurring()
+  ]);
+
+  return {
+    ok: balanceMismatches.length === 0 && orphanedTransactions.length === 0 && orphanedProcessedRecurring.length === 0,
+    balanceMismatches,
+    orphanedTransactions,
+    orphanedProcessedRecurring,
+    checkedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Fix everything checkIntegrity finds, atomically. Returns what was repaired.
+ * Given a userId, only that member's pots and transactions are repaired (rule 4).
+ */
+async function repairIntegrity(userId = null) {
+  return runInTransaction(async () => {
+    const orphanedTransactions = await findOrphanedTransactions(userId);
+    for (const transaction of orphanedTransactions) {
+      // A transfer leg in a surviving pot keeps its effect but no longer points at the missing pot
+      await runQuery(
+        `UPDATE transactions
+         SET kind = CASE WHEN amount < 0 THEN 'withdrawal' ELSE 'deposit' END, amount = ABS(amount), transfer_id = NULL
+         WHERE id != ? AND transfer_id IS NOT NULL AND transfer_id = (SELECT transfer_id FROM transactions WHERE id = ?)`,
+        [transaction.transactionId, transaction.transactionId]
+      );
+      await runQuery('DELETE FROM recurrence_exceptions WHERE transaction_id = ?', [transaction.transactionId]);
+      await runQuery('DELETE FROM transactions WHERE id = ?', [transaction.transactionId]);
+    }
+
+    // Includes markers for any recurring transactions removed above
+    const removedIds = new Set(orphanedTransactions.map(transaction => transaction.transactionId));
+    const orphanedProcessedRecurring = (await findOrphanedProcessedRecurring())
+      .filter(row => !userId || removedIds.has(row.originalTransactionId));
+    for (const row of orphanedProcessedRecurring) {
+      await runQuery('DELETE FROM processed_recurring WHERE id = ?', [row.id]);
+    }
+
+    const balanceMismatches = await findBalanceMismatches(userId);
+    const now = new Date().toISOString();
+    for (const mismatch of balanceMismatches) {
+      await runQuery(
+        'UPDATE savings_pots SET current_total = ?, updated_at = ? WHERE id = ?',
+        [mismatch.ledgerBalance, now, mismatch.potId]
+      );
+    }
+
+    return { balanceMismatches, orphanedTransactions, orphanedProcessedRecurring };
+  });
+}
+
+module.exports = {
+  checkIntegrity,
+  repairIntegrity
+};
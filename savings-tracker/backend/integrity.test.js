@@ -0,0 +1,80 @@
+const { describe, it, before, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase, insertPot, insertTransaction } = require('./testHelpers');
+
+describe('integrity', () => {
+  let database;
+  let integrity;
+
+  before(async () => {
+    database = await useTestDatabase();
+    integrity = require('./integrity');
+  });
+
+  beforeEach(async () => {
+    await database.runQuery('DELETE FROM processed_recurring');
+    await database.runQuery('DELETE FROM transactions');
+    await database.runQuery('DELETE FROM savings_pots');
+  });
+
+  const addMarker = (originalTransactionId, newTransactionId, instanceDate) => database.runQuery(
+    `INSERT INTO processed_recurring (id, original_transaction_id, instance_date, new_transaction_id, processed_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [`marker-${instanceDate}`, originalTransactionId, instanceDate, newTransactionId, new Date().toISOString()]
+  );
+
+  it('should find nothing wrong with a ledger that adds up', async () => {
+    const pot = await insertPot({ current_total: 150, opening_balance: 100 });
+    await insertTransaction({ pot_id: pot.id, amount: 80 });
+    await insertTransaction({ pot_id: pot.id, amount: 30, kind: 'withdrawal' });
+
+    const report = await integrity.checkIntegrity();
+
+    assert.equal(report.ok, true);
+  });
+
+  it('should reset drifted totals to the ledger balance', async () => {
+    const pot = await insertPot({ current_total: 90.5 });
+    await insertTransaction({ pot_id: pot.id, amount: 100 });
+    // Within half a penny is rounding
+    const rounded = await insertPot({ current_total: 100.004 });
+    await insertTransaction({ pot_id: rounded.id, amount: 100 });
+
+    const repaired = await integrity.repairIntegrity();
+
+    assert.deepEqual(repaired.balanceMismatches.map(mismatch => [mismatch.potId, mismatch.difference]), [[pot.id, -9.5]]);
+    const { current_total } = await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [pot.id]);
+    assert.equal(current_total, 100);
+    assert.equal((await integrity.checkIntegrity()).ok, true);
+  });
+
+  it('should remove transactions left behind by a deleted pot, keeping the other leg of a transfer', async () => {
+    const pot = await insertPot({ current_total: 50 });
+    await insertTransaction({ id: 'orphan', pot_id: 'deleted-pot', amount: 70 });
+    await insertTransaction({ id: 'transfer-out', pot_id: 'deleted-pot', amount: -50, kind: 'transfer', transfer_id: 'transfer-1' });
+    await insertTransaction({ id: 'transfer-in', pot_id: pot.id, amount: 50, kind: 'transfer', transfer_id: 'transfer-1' });
+
+    const repaired = await integrity.repairIntegrity();
+
+    assert.deepEqual(repaired.orphanedTransactions.map(transaction => transaction.transactionId).sort(), ['orphan', 'transfer-out']);
+    const transactions = await database.getAllRows('SELECT id, kind, amount, transfer_id FROM transactions');
+    assert.deepEqual(transactions.map(transaction => ({ ...transaction })), [
+      { id: 'transfer-in', kind: 'deposit', amount: 50, transfer_id: null }
+    ]);
+    assert.equal((await integrity.checkIntegrity()).ok, true);
+  });
+
+  it('should remove scheduler records of deleted recurring transactions, but not of deleted occurrences', async () => {
+    const pot = await insertPot({ current_total: 100 });
+    const series = await insertTransaction({ pot_id: pot.id, amount: 100, repeat_monthly: 1 });
+    // The occurrence posted on 2025-02-01 was deleted afterwards; its record stops it being posted again
+    await addMarker(series.id, 'deleted-occurrence', '2025-02-01');
+    await addMarker('deleted-series', 'deleted-occurrence-2', '2025-03-01');
+
+    const repaired = await integrity.repairIntegrity();
+
+    assert.deepEqual(repaired.orphanedProcessedRecurring.map(row => row.originalTransactionId), ['deleted-series']);
+    const markers = await database.getAllRows('SELECT instance_date FROM processed_recurring');
+    assert.deepEqual(markers.map(marker => marker.instance_date), ['2025-02-01']);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Interest Module for Savings Tracker
+ *
+ * Rules for turning a pot's interest_rate into real interest:
+ * 1. Payment frequencies a pot can be configured with (monthly, annual)
+ * 2. Daily accrual amount for a balance at a given AER
+ * 3. Which accruals are due to be paid on a given date
+ */
+
+// null/undefined means interest is only forecast, never accrued
+const INTEREST_PAYMENTS = ['monthly', 'annual'];
+
+/**
+ * Check whether an interest payment frequency supplied by a client is valid
+ */
+function isValidInterestPayment(interestPayment) {
+  return interestPayment === undefined || interestPayment === null || INTEREST_PAYMENTS.includes(interestPayment);
+}
+
+/**
+ * Format a date as YYYY-MM-DD (the key used for accruals)
+ */
+function toDateKey(date) {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Interest earned by a balance over one day.
+ * interest_rate is treated as an AER, so the daily rate compounds back up to it over a year.
+ */
+function getDailyInterest(balance, annualRate) {
+  if (!annualRate || annualRate <= 0 || balance <= 0) return 0;
+  return balance * (Math.pow(1 + annualRate / 100, 1 / 365) - 1);
+}
+
+/**
+ * Get the date (YYYY-MM-DD) the current payment period started on.
+ * Accruals dated before this are due to be paid.
+ * - monthly: the 1st of the current month
+ * - annual: the 1st of the month the pot was opened, in the most recent year that has passed
+ */
+function getPaymentPeriodStart(interestPayment, potCreatedAt, date) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (interestPayment === 'annual') {
+    const anniversaryMonth = new Date(potCreatedAt).getUTCMonth();
+    const anniversaryYear = month >= anniversaryMonth ? year : year - 1;
+    return toDateKey(new Date(Date.UTC(anniversaryYear, anniversaryMonth, 1)));
+  }
+
+  return toDateKey(new Date(Date.UTC(year, month, 1)));
+}
+
+module.exports = {
+  INTEREST_PAYMENTS,
+  isValidInterestPayment,
+  toDateKey,
+  getDailyInterest,
+  getPaymentPeriodStart
+};
@@ -0,0 +1,111 @@
+/**
+ * ISA Module for Savings Tracker
+ *
+ * Rules for the annual ISA allowance:
+ * 1. ISA types a pot can be flagged as (cash, stocks & shares, lifetime)
+ * 2. UK tax years, which run from 6 April to 5 April
+ * 3. How much of a user's allowance the ledger has already used
+ */
+
+const { getRow, getAllRows } = require('./database');
+const { formatMoney } = require('./currency');
+
+// null/undefined means the pot isn't an ISA
+const ISA_TYPES = ['cash', 'stocks-and-shares', 'lifetime'];
+
+// Shared across all of a user's ISAs each tax year
+const ISA_ALLOWANCE = 20000;
+
+/**
+ * Check whether an ISA type supplied by a client is valid
+ */
+function isValidIsaType(isaType) {
+  return isaType === undefined || isaType === null || ISA_TYPES.includes(isaType);
+}
+
+/**
+ * The tax year a date falls in. `start` and `end` are YYYY-MM-DD keys;
+ * `end` is the first day of the following tax year (exclusive).
+ */
+function getTaxYear(date) {
+  const d = new Date(date);
+  const afterApril5 = d.getMonth() > 3 || (d.getMonth() === 3 && d.getDate() >= 6);
+  const year = afterApril5 ? d.getFullYear() : d.getFullYear() - 1;
+  return {
+    start: `${year}-04-06`,
+    end: `${year + 1}-04-06`,
+    label: `${year}/${String((year + 1) % 100).padStart(2, '0')}`
+  };
+}
+
+// Deposits count as subscriptions, as do transfers in from a pot that isn't an ISA
+// (moving money between ISAs isn't a new subscription). `t` is the transaction.
+const SUBSCRIPTION_CONDITION = `(
+  t.kind = 'deposit'
+  OR (t.kind = 'transfer' AND t.amount > 0 AND NOT EXISTS (
+    SELECT 1 FROM transactions o
+    JOIN savings_pots op ON op.id = o.pot_id
+    WHERE o.transfer_id = t.transfer_id AND o.id != t.id AND op.isa_type IS NOT NULL
+  ))
+)`;
+
+/**
+ * Total a user has subscribed to their ISAs in the tax year containing `date`.
+ * Withdrawals don't give allowance back.
+ * `excludeTransactionId` leaves out a transaction that's being edited.
+ */
+async function getIsaSubscriptions(userId, date, excludeTransactionId = null) {
+  const { start, end } = getTaxYear(date);
+  const row = await getRow(
+    `SELECT COALESCE(SUM(t.amount), 0) AS total
+     FROM transactions t
+     JOIN savings_pots p ON p.id = t.pot_id
+     WHERE p.user_id = ? AND p.isa_type IS NOT NULL
+       AND t.date >= ? AND t.date < ?
+       AND t.id != ?
+       AND ${SUBSCRIPTION_CONDITION}`,
+    [userId, start, end, excludeTransactionId || '']
+  );
+  return row.total;
+}
+
+/**
+ * A pot's subscriptions dated from `from` up to (not including) `to`, oldest first
+ */
+function getPotSubscriptions(potId, from, to) {
+  return getAllRows(
+    `SELECT t.date, t.amount FROM transactions t
+     WHERE t.pot_id = ? AND t.date >= ? AND t.date < ? AND ${SUBSCRIPTION_CONDITION}
+     ORDER BY t.date ASC`,
+    [potId, from, to]
+  );
+}
+
+/**
+ * Check a new subscription into `pot` against its owner's allowance.
+ * Returns an error response body when it would go over, otherwise null.
+ */
+async function checkIsaSubscription(pot, amount, date, excludeTransactionId = null) {
+  if (!pot.isa_type) return null;
+
+  const subscribed = await getIsaSubscriptions(pot.user_id, date, excludeTransactionId);
+  const remaining = Math.max(0, ISA_ALLOWANCE - subscribed);
+  // Allow for rounding in stored amounts
+  if (amount <= remaining + 0.005) return null;
+
+  const { label } = getTaxYear(date);
+  return {
+    error: `This would exceed the ${formatMoney(ISA_ALLOWANCE, pot.currency)} ISA allowance for ${label} (${formatMoney(remaining, pot.currency)} left)`,
+    remainingAllowance: remaining
+  };
+}
+
+module.exports = {
+  ISA_TYPES,
+  ISA_ALLOWANCE,
+  isValidIsaType,
+  getTaxYear,
+  getIsaSubscriptions,
+  getPotSubscriptions,
+  checkIsaSubscription
+};
@@ -0,0 +1,104 @@
+/**
+ * Ledger Module for Savings Tracker
+ *
+ * Shared rules for how a transaction affects a pot balance:
+ * 1. Transaction kinds (deposit, withdrawal, interest, adjustment, transfer, bonus)
+ * 2. Converting a stored amount into its signed effect on current_total
+ * 3. Posting both legs of a pot-to-pot transfer atomically
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const { runQuery, runInTransaction } = require('./database');
+
+// Kinds a user can enter directly on a single transaction
+const TRANSACTION_KINDS = ['deposit', 'withdrawal', 'interest', 'adjustment'];
+
+// Transfer legs are only created in pairs via postTransfer (out leg negative, in leg positive);
+// bonuses are Lifetime ISA government bonuses posted by the scheduler
+const ALL_KINDS = [...TRANSACTION_KINDS, 'transfer', 'bonus'];
+
+/**
+ * Normalise a kind from a request body or database row (defaults to deposit)
+ */
+function normalizeKind(kind) {
+  return ALL_KINDS.includes(kind) ? kind : 'deposit';
+}
+
+/**
+ * Check whether a kind supplied by a client is valid (undefined means "use default")
+ */
+function isValidKind(kind) {
+  return kind === undefined || kind === null || TRANSACTION_KINDS.includes(kind);
+}
+
+/**
+ * Get the signed effect of a transaction on its pot's current_total.
+ * Withdrawals are stored as positive amounts and always reduce the balance;
+ * adjustments and transfer legs keep whatever sign they were stored with.
+ */
+function getSignedAmount(kind, amount) {
+  if (normalizeKind(kind) === 'withdrawal') {
+    return -Math.abs(amount);
+  }
+  return amount;
+}
+
+/**
+ * Validate an amount for a given kind.
+ * Adjustments may be negative (correcting an over-stated balance), everything else must be positive.
+ */
+function isValidAmount(kind, amount) {
+  if (typeof amount !== 'number' || isNaN(amount)) return false;
+  if (normalizeKind(kind) === 'adjustment') return amount !== 0;
+  return amount > 0;
+}
+
+/**
+ * Insert both legs of a transfer and update both pot totals.
+ * Must be called inside runInTransaction so the legs can't be split.
+ * The out leg belongs to the source pot's owner, the in leg to the destination pot's owner,
+ * so transfers between household members show up in both users' data.
+ * `repeat` holds the recurrence columns from resolveRecurrenceColumns (omitted for one-off legs).
+ */
+async function insertTransferLegs({ fromPot, toPot, amount, date, description, repeat = {} }) {
+  const transferId = uuidv4();
+  const outId = uuidv4();
+  const inId = uuidv4();
+  const now = new Date().toISOString();
+
+  await runQuery(
+    'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, recurrence, kind, transfer_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [outId, fromPot.user_id, fromPot.id, -amount, date, description || null, repeat.repeatMonthly || 0, repeat.repeatWeekly || 0, repeat.recurrence || null, 'transfer', transferId, now]
+  );
+  await runQuery(
+    'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, recurrence, kind, transfer_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [inId, toPot.user_id, toPot.id, amount, date, description || null, repeat.repeatMonthly || 0, repeat.repeatWeekly || 0, repeat.recurrence || null, 'transfer', transferId, now]
+  );
+  await runQuery(
+    'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
+    [amount, now, fromPot.id]
+  );
+  await runQuery(
+    'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+    [amount, now, toPot.id]
+  );
+
+  return { transferId, outId, inId };
+}
+
+/**
+ * Post a transfer atomically. Returns the new transfer ID and the two leg IDs.
+ */
+function postTransfer(transfer) {
+  return runInTransaction(() => insertTransferLegs(transfer));
+}
+
+module.exports = {
+  TRANSACTION_KINDS,
+  normalizeKind,
+  isValidKind,
+  getSignedAmount,
+  isValidAmount,
+  insertTransferLegs,
+  postTransfer
+};
@@ -0,0 +1,142 @@
+/**
+ * Lifetime ISA Module for Savings Tracker
+ *
+ * Rules for the government bonus on Lifetime ISA pots:
+ * 1. 25% bonus on up to £4,000 of subscriptions per tax year
+ * 2. Only while the owner is aged 18 to 49 (unknown dates of birth are assumed eligible)
+ * 3. The bonus for a month's subscriptions is paid the following month. Months missed while the
+ *    add-on was stopped, or only paid into later by a backdated deposit, are paid on the next
+ *    run, going back as far as the start of the tax year.
+ */
+
+const { getAllRows } = require('./database');
+const { getPotSubscriptions, getTaxYear } = require('./isa');
+
+const LISA_BONUS_RATE = 0.25;
+const LISA_BONUS_LIMIT = 4000;
+
+/**
+ * Age in whole years on a date, from a YYYY-MM-DD date of birth
+ */
+function getAge(dateOfBirth, on) {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const date = new Date(on);
+  const hadBirthday = date.getMonth() + 1 > month || (date.getMonth() + 1 === month && date.getDate() >= day);
+  return date.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+/**
+ * Check whether subscriptions on a date earn the bonus
+ */
+function isBonusEligible(dateOfBirth, date) {
+  if (!dateOfBirth) return true;
+  const age = getAge(dateOfBirth, date);
+  return age >= 18 && age < 50;
+}
+
+/**
+ * Month key (YYYY-MM) of the calendar month before `date`
+ */
+function getPreviousMonthKey(date) {
+  const d = new Date(date);
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Month keys (YYYY-MM) from `from` to `to`, inclusive (none if `from` is later)
+ */
+function getMonthKeysBetween(from, to) {
+  const months = [];
+  const [year, month] = from.split('-').map(Number);
+  for (const d = new Date(year, month - 1, 1, 12); ; d.setMonth(d.getMonth() + 1)) {
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    if (key > to) break;
+    months.push(key);
+  }
+  return months;
+}
+
+/**
+ * Bonus due on a pot's subscriptions in one month (YYYY-MM). Earlier subscriptions in
+ * the same tax year use up the £4,000 first, so only what's left of it earns a bonus.
+ * Returns { contributions, amount } with the amount rounded to the penny.
+ */
+async function getMonthlyBonus(pot, dateOfBirth, month) {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const monthStart = `${month}-01`;
+  const nextMonth = new Date(year, monthNumber, 1);
+  const monthEnd = `${nextMonth.getFullYear()}-${String(nextMonth.getMonth() + 1).padStart(2, '0')}-01`;
+
+  // A month can straddle two tax years (April), so start from the earlier one
+  const subscriptions = await getPotSubscriptions(pot.id, getTaxYear(`${monthStart}T12:00:00`).start, monthEnd);
+
+  let taxYear = null;
+  let used = 0;
+  let contributions = 0;
+  let eligible = 0;
+
+  for (const subscription of subscriptions) {
+    const { start } = getTaxYear(subscription.date);
+    if (start !== taxYear) {
+      taxYear = start;
+      used = 0;
+    }
+
+    if (subscription.date >= monthStart) {
+      contributions += subscription.amount;
+      if (isBonusEligible(dateOfBirth, subscription.date)) {
+        eligible += Math.min(subscription.amount, Math.max(0, LISA_BONUS_LIMIT - used));
+      }
+    }
+    used += subscription.amount;
+  }
+
+  return {
+    contributions,
+    amount: Math.round(eligible * LISA_BONUS_RATE * 100) / 100
+  };
+}
+
+/**
+ * Bonuses still to pay into a pot for the months `from` to `to` (YYYY-MM, within one tax
+ * year), as [{ month, contributions, amount }]. Months already in lisa_bonuses are skipped.
+ * A backdated deposit can use up allowance an already paid month was counted against, so
+ * the months left are only paid what's still owed over the whole range.
+ */
+async function getUnpaidBonuses(pot, dateOfBirth, from, to) {
+  const paidMonths = await getAllRows(
+    'SELECT month, amount FROM lisa_bonuses WHERE pot_id = ? AND month >= ? AND month <= ?',
+    [pot.id, from, to]
+  );
+  const paid = new Set(paidMonths.map(row => row.month));
+
+  const bonuses = [];
+  for (const month of getMonthKeysBetween(from, to)) {
+    bonuses.push({ month, ...await getMonthlyBonus(pot, dateOfBirth, month) });
+  }
+
+  let owed = bonuses.reduce((sum, bonus) => sum + bonus.amount, 0) -
+    paidMonths.reduce((sum, row) => sum + row.amount, 0);
+  const unpaid = [];
+  for (const bonus of bonuses) {
+    if (paid.has(bonus.month)) continue;
+    const amount = Math.round(Math.min(bonus.amount, owed) * 100) / 100;
+    if (amount <= 0) continue;
+    unpaid.push({ ...bonus, amount });
+    owed -= amount;
+  }
+  return unpaid;
+}
+
+module.exports = {
+  LISA_BONUS_RATE,
+  LISA_BONUS_LIMIT,
+  getAge,
+  isBonusEligible,
+  getPreviousMonthKey,
+  getMonthKeysBetween,
+  getMonthlyBonus,
+  getUnpaidBonuses
+};
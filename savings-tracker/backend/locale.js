@@ -0,0 +1,137 @@
+/**
+ * Locale Module for Savings Tracker
+ *
+ * Rules for the household's locale:
+ * 1. One locale (a BCP 47 tag such as en-GB or de-DE) is set in the add-on options and
+ *    covers the web app and the notifications sent from here
+ * 2. Amounts and dates are formatted for the locale with Intl
+ * 3. Weeks start on the locale's usual first day unless the options set one
+ * 4. Text is looked up in the locale's language, falling back to English for anything
+ *    that hasn't been translated
+ */
+
+const DEFAULT_LOCALE = 'en-GB';
+
+// Days the add-on options allow a week to start on, as date-fns numbers them
+const WEEK_START_DAYS = {
+  sunday: 0,
+  monday: 1,
+  saturday: 6
+};
+
+// Notification text by language. Keys ending in _one/_other are picked by {count}.
+const MESSAGES = {
+  en: {
+    'savings.title': '💰 Savings Updated',
+    'savings.deposit': '{amount} added to {pot}',
+    'savings.withdrawal': '{amount} taken from {pot}',
+    'savings.transfer': '{amount} moved {pot}',
+    'savings.interest': '{amount} interest paid into {pot}',
+    'savings.bonus': '{amount} LISA bonus paid into {pot}',
+    'savings.newTotal': 'New total: {amount}',
+    'savings.processed_one': '{count} scheduled payment processed',
+    'savings.processed_other': '{count} scheduled payments processed',
+    'savings.netChange': 'Net change: {amount}',
+    'savings.detail.deposit': '• {amount} → {pot}{due}',
+    'savings.detail.withdrawal': '• {amount} ← {pot}{due}',
+    'savings.detail.transfer': '• {amount} moved {pot}{due}',
+    'savings.detail.interest': '• {amount} interest → {pot}',
+    'savings.detail.bonus': '• {amount} LISA bonus → {pot}',
+    'savings.due': ' (due {date})',
+    'maturity.title': '⏰ Account Maturing',
+    'maturity.today': '{pot} matures today ({date})',
+    'maturity.tomorrow': '{pot} matures tomorrow ({date})',
+    'maturity.inDays_one': '{pot} matures in {count} day ({date})',
+    'maturity.inDays_other': '{pot} matures in {count} days ({date})',
+    'maturity.balance': 'Balance: {amount}',
+    'maturity.nextStep': 'Decide where the money goes next.',
+    'test.title': '🧪 Savings Tracker Test',
+    'test.message': 'If you see this, notifications are working correctly!'
+  },
+  de: {
+    'savings.title': '💰 Ersparnisse aktualisiert',
+    'savings.deposit': '{amount} auf {pot} eingezahlt',
+    'savings.withdrawal': '{amount} von {pot} abgehoben',
+    'savings.transfer': '{amount} umgebucht: {pot}',
+    'savings.interest': '{amount} Zinsen auf {pot} gutgeschrieben',
+    'savings.bonus': '{amount} LISA-Bonus auf {pot} gutgeschrieben',
+    'savings.newTotal': 'Neuer Stand: {amount}',
+    'savings.processed_one': '{count} geplante Zahlung ausgeführt',
+    'savings.processed_other': '{count} geplante Zahlungen ausgeführt',
+    'savings.netChange': 'Veränderung: {amount}',
+    'savings.detail.deposit': '• {amount} → {pot}{due}',
+    'savings.detail.withdrawal': '• {amount} ← {pot}{due}',
+    'savings.detail.transfer': '• {amount} umgebucht: {pot}{due}',
+    'savings.detail.interest': '• {amount} Zinsen → {pot}',
+    'savings.detail.bonus': '• {amount} LISA-Bonus → {pot}',
+    'savings.due': ' (fällig am {date})',
+    'maturity.title': '⏰ Konto wird fällig',
+    'maturity.today': '{pot} wird heute fällig ({date})',
+    'maturity.tomorrow': '{pot} wird morgen fällig ({date})',
+    'maturity.inDays_one': '{pot} wird in {count} Tag fällig ({date})',
+    'maturity.inDays_other': '{pot} wird in {count} Tagen fällig ({date})',
+    'maturity.balance': 'Kontostand: {amount}',
+    'maturity.nextStep': 'Entscheide, wohin das Geld als Nächstes geht.',
+    'test.title': '🧪 Savings Tracker Test',
+    'test.message': 'Wenn du das siehst, funktionieren die Benachrichtigungen!'
+  }
+};
+
+/**
+ * The household's locale, from the LOCALE environment variable (set from the add-on options)
+ */
+function getLocale() {
+  try {
+    return Intl.getCanonicalLocales(process.env.LOCALE || DEFAULT_LOCALE)[0];
+  } catch (error) {
+    return DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * The locale settings the web app needs. weekStartsOn is null when it should follow the locale.
+ */
+function getLocaleSettings() {
+  const weekStartsOn = WEEK_START_DAYS[process.env.FIRST_DAY_OF_WEEK];
+  return {
+    locale: getLocale(),
+    weekStartsOn: weekStartsOn === undefined ? null : weekStartsOn
+  };
+}
+
+/**
+ * Look up a message in the household's language and fill in its {placeholders}
+ */
+function translate(key, values = {}) {
+  const locale = getLocale();
+  const messages = MESSAGES[locale.split('-')[0]] || MESSAGES.en;
+
+  let lookupKey = key;
+  if (typeof values.count === 'number') {
+    const plural = `${key}_${new Intl.PluralRules(locale).select(values.count)}`;
+    lookupKey = plural in messages || plural in MESSAGES.en ? plural : `${key}_other`;
+  }
+
+  const text = messages[lookupKey] || MESSAGES.en[lookupKey] || key;
+  return text.replace(/\{(\w+)\}/g, (match, name) => (values[name] !== undefined ? String(values[name]) : match));
+}
+
+/**
+ * Format a YYYY-MM-DD date for the household's locale, e.g. "1 Jun 2025"
+ */
+function formatDateKey(dateKey) {
+  return new Intl.DateTimeFormat(getLocale(), {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  }).format(new Date(`${dateKey}T12:00:00.000Z`));
+}
+
+module.exports = {
+  DEFAULT_LOCALE,
+  getLocale,
+  getLocaleSettings,
+  translate,
+  formatDateKey
+};
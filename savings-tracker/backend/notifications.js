@@ -7,6 +7,7 @@
 
 const http = require('http');
 const https = require('https');
+const { translate } = require('./locale');
 
 // Configuration loaded from environment variables
 let notificationConfig = {
@@ -187,8 +188,8 @@ async function testNotification(userId) {
   
   const result = await sendNotification(
     userId,
-    '🧪 Savings Tracker Test',
-    'If you see this, notifications are working correctly!',
+    translate('test.title'),
+    translate('test.message'),
     { test: true }
   );
   
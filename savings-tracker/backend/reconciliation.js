@@ -0,0 +1,51 @@
+/**
+ * Reconciliation Module for Savings Tracker
+ *
+ * Rules for checking a pot against the bank's statement:
+ * 1. A pot's ledger balance on a date is its opening balance plus its transactions dated up to that day
+ * 2. Reconciling compares a statement balance with the ledger balance on the statement date
+ * 3. Any gap is posted as an adjustment transaction on the statement date, with a reason
+ * 4. The pot remembers the latest statement date it was reconciled to
+ */
+
+const { getRow } = require('./database');
+const { toDateKey } = require('./interest');
+
+// Gaps smaller than half a penny are rounding, not a difference
+const RECONCILE_TOLERANCE = 0.005;
+
+/**
+ * Statement dates are YYYY-MM-DD days, not in the future
+ */
+function isValidStatementDate(statementDate) {
+  return typeof statementDate === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(statementDate) &&
+    statementDate <= toDateKey(new Date());
+}
+
+/**
+ * The pot's balance at the end of a YYYY-MM-DD day according to its transactions
+ */
+async function getLedgerBalance(pot, dayKey) {
+  // Transactions are stored at noon, so anything before the next day is on or before dayKey
+  const row = await getRow(
+    `SELECT COALESCE(SUM(CASE WHEN kind = 'withdrawal' THEN -ABS(amount) ELSE amount END), 0) AS total
+     FROM transactions WHERE pot_id = ? AND date < ?`,
+    [pot.id, `${dayKey}T23:59:59.999Z`]
+  );
+  return Math.round(((pot.opening_balance || 0) + row.total) * 100) / 100;
+}
+
+/**
+ * The adjustment needed to bring the ledger in line with a statement, or 0 when they agree
+ */
+function getReconcileDifference(statementBalance, ledgerBalance) {
+  const difference = Math.round((statementBalance - ledgerBalance) * 100) / 100;
+  return Math.abs(difference) < RECONCILE_TOLERANCE ? 0 : difference;
+}
+
+module.exports = {
+  isValidStatementDate,
+  getLedgerBalance,
+  getReconcileDifference
+};
@@ -0,0 +1,216 @@
+/**
+ * Recurrence Module for Savings Tracker
+ *
+ * RRULE-like recurrence rules for transactions:
+ * 1. Reading a rule from a row (falling back to the legacy repeat_monthly/repeat_weekly flags)
+ * 2. Validating and storing rules sent by clients
+ * 3. Working out whether a series has an occurrence on a given day
+ * 4. Applying per-occurrence exceptions (skip, change amount, move date)
+ *
+ * A rule looks like { frequency: 'weekly' | 'monthly' | 'yearly', interval, lastWorkingDay?, until?, count? }.
+ * The transaction's own date is occurrence 0, e.g. fortnightly = weekly/2, quarterly = monthly/3.
+ */
+
+const FREQUENCIES = ['weekly', 'monthly', 'yearly'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toNoon(date) {
+  const result = new Date(date);
+  result.setHours(12, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD key (how occurrences and exceptions are identified)
+ */
+function toDayKey(date) {
+  const d = toNoon(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function fromDayKey(key) {
+  return new Date(`${key}T12:00:00`);
+}
+
+function isSameDay(a, b) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+function daysInMonth(year, month) {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+// Last Monday-Friday of a month (bank holidays aren't taken into account)
+function getLastWorkingDay(year, month) {
+  const date = new Date(year, month + 1, 0, 12);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() - 1);
+  }
+  return date;
+}
+
+/**
+ * Parse the stored recurrence JSON (null when missing or unreadable)
+ */
+function parseRecurrence(value) {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Get the rule for a transaction row, falling back to the legacy flags
+ */
+function getRecurrenceRule(row) {
+  const rule = parseRecurrence(row.recurrence);
+  if (rule) return rule;
+  if (row.repeat_weekly === 1) return { frequency: 'weekly', interval: 1 };
+  if (row.repeat_monthly === 1) return { frequency: 'monthly', interval: 1 };
+  return null;
+}
+
+/**
+ * Check whether a rule supplied by a client is valid (undefined/null means "no rule")
+ */
+function isValidRecurrence(rule) {
+  if (rule === undefined || rule === null) return true;
+  if (typeof rule !== 'object') return false;
+  if (!FREQUENCIES.includes(rule.frequency)) return false;
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) return false;
+  if (rule.lastWorkingDay && rule.frequency === 'weekly') return false;
+  if (rule.until != null && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) return false;
+  if (rule.count != null && (!Number.isInteger(rule.count) || rule.count < 1)) return false;
+  return true;
+}
+
+/**
+ * Work out the recurrence, repeat_monthly and repeat_weekly columns to store.
+ * A rule takes precedence; the flags are kept in step so older clients still see a recurring series.
+ * Clients that only send the legacy flags get a flag-only series. Anything not sent keeps `existing`.
+ */
+function resolveRecurrenceColumns({ recurrence, repeatMonthly, repeatWeekly }, existing = {}) {
+  if (recurrence !== undefined) {
+    if (!recurrence) {
+      return { recurrence: null, repeatMonthly: 0, repeatWeekly: 0 };
+    }
+    const rule = {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      lastWorkingDay: !!recurrence.lastWorkingDay,
+      until: recurrence.until || null,
+      count: recurrence.count || null
+    };
+    return {
+      recurrence: JSON.stringify(rule),
+      repeatMonthly: rule.frequency !== 'weekly' ? 1 : 0,
+      repeatWeekly: rule.frequency === 'weekly' ? 1 : 0
+    };
+  }
+
+  if (repeatMonthly !== undefined || repeatWeekly !== undefined) {
+    return { recurrence: null, repeatMonthly: repeatMonthly ? 1 : 0, repeatWeekly: repeatWeekly ? 1 : 0 };
+  }
+
+  return {
+    recurrence: existing.recurrence || null,
+    repeatMonthly: existing.repeat_monthly || 0,
+    repeatWeekly: existing.repeat_weekly || 0
+  };
+}
+
+/**
+ * Date of the nth occurrence (0 = the start date's own period).
+ * Monthly/yearly dates are clamped to the end of shorter months (31st -> 30th/28th).
+ */
+function getOccurrenceDate(rule, start, index) {
+  const origin = toNoon(start);
+  const interval = Math.max(1, rule.interval || 1);
+
+  if (rule.frequency === 'weekly') {
+    const result = new Date(origin);
+    result.setDate(result.getDate() + index * 7 * interval);
+    return result;
+  }
+
+  const monthOffset = rule.frequency === 'yearly' ? index * interval * 12 : index * interval;
+  const target = new Date(origin.getFullYear(), origin.getMonth() + monthOffset, 1, 12);
+
+  if (rule.lastWorkingDay) {
+    return getLastWorkingDay(target.getFullYear(), target.getMonth());
+  }
+
+  target.setDate(Math.min(origin.getDate(), daysInMonth(target.getFullYear(), target.getMonth())));
+  return target;
+}
+
+/**
+ * Get the index of the occurrence falling on `date`, or -1 if the series doesn't occur that day
+ * (including after its until date or occurrence count)
+ */
+function getOccurrenceIndexOn(rule, start, date) {
+  const origin = toNoon(start);
+  const day = toNoon(date);
+  const interval = Math.max(1, rule.interval || 1);
+
+  let index;
+  if (rule.frequency === 'weekly') {
+    const days = Math.round((day.getTime() - origin.getTime()) / DAY_MS);
+    if (days % (7 * interval) !== 0) return -1;
+    index = days / (7 * interval);
+  } else {
+    const months = (day.getFullYear() - origin.getFullYear()) * 12 + day.getMonth() - origin.getMonth();
+    const step = rule.frequency === 'yearly' ? interval * 12 : interval;
+    if (months % step !== 0) return -1;
+    index = months / step;
+  }
+
+  if (index < 0) return -1;
+  if (rule.count && index >= rule.count) return -1;
+  if (rule.until && day > new Date(`${rule.until}T12:00:00`)) return -1;
+  return isSameDay(getOccurrenceDate(rule, start, index), day) ? index : -1;
+}
+
+/**
+ * Get the occurrences of a series to post on `date`, after applying its exceptions.
+ * Returns [{ scheduledDate, amount }] where scheduledDate identifies the occurrence and
+ * amount is the overridden amount (null = the template's amount). An occurrence moved to
+ * `date` from another day is included; one moved away or skipped is not.
+ */
+function getDueOccurrences(rule, start, exceptions, date) {
+  const dayKey = toDayKey(date);
+  const due = [];
+
+  if (getOccurrenceIndexOn(rule, start, date) > 0) {
+    const exception = exceptions.find(e => e.occurrence_date === dayKey);
+    if (!exception) {
+      due.push({ scheduledDate: fromDayKey(dayKey), amount: null });
+    } else if (!exception.skipped && !exception.moved_to) {
+      due.push({ scheduledDate: fromDayKey(dayKey), amount: exception.amount });
+    }
+  }
+
+  for (const exception of exceptions) {
+    if (exception.skipped || exception.moved_to !== dayKey || exception.occurrence_date === dayKey) continue;
+    const scheduledDate = fromDayKey(exception.occurrence_date);
+    if (getOccurrenceIndexOn(rule, start, scheduledDate) > 0) {
+      due.push({ scheduledDate, amount: exception.amount });
+    }
+  }
+
+  return due;
+}
+
+module.exports = {
+  FREQUENCIES,
+  toDayKey,
+  parseRecurrence,
+  getRecurrenceRule,
+  isValidRecurrence,
+  resolveRecurrenceColumns,
+  getOccurrenceDate,
+  getOccurrenceIndexOn,
+  getDueOccurrences
+};
@@ -1,14 +1,25 @@
 const express = require('express');
 const { v4: uuidv4 } = require('uuid');
-const { runQuery, getRow, getAllRows } = require('./database');
-const { processRecurringTransactions, runProcessingCycle } = require('./scheduler');
+const { runQuery, getRow, getAllRows, runInTransaction } = require('./database');
+const { normalizeKind, isValidKind, isValidAmount, getSignedAmount, postTransfer } = require('./ledger');
+const { isValidInterestPayment } = require('./interest');
+const { isValidIsaType, checkIsaSubscription } = require('./isa');
+const { isValidAccountType, isValidMaturityDate, isValidNoticeDays, isValidMaxMonthlyDeposit, checkWithdrawal, checkDeposit } = require('./accounts');
+const { isValidStatementDate, getLedgerBalance, getReconcileDifference } = require('./reconciliation');
+const { checkIntegrity, repairIntegrity } = require('./integrity');
+const { MAX_IMPORT_ROWS, isValidDateFormat, isValidDecimalSeparator, isValidImportRow, importStatementRows, linkStatementAccount } = require('./imports');
+const { createBackup, validateBackup, restoreBackup, getBackupFileName, canManageBackups } = require('./backup');
+const { DEFAULT_CURRENCY, isValidCurrency, isValidFxRate, getFxRates } = require('./currency');
+const { getLocaleSettings } = require('./locale');
+const { isValidSecret, hashSecret, verifySecret, getSignInLockout, recordFailedSignIn, clearFailedSignIns, createSession, getSession, deleteSession, getUserSessions, revokeSession, revokeOtherSessions } = require('./auth');
+const { getIngressUserId } = require('./ingress');
+const { DEFAULT_VISIBILITY, isValidVisibility, canSeePot, potDetailsVisibleSql, filterVisibleData, filterIntegrityReport } = require('./visibility');
+const { toDayKey, parseRecurrence, isValidRecurrence, resolveRecurrenceColumns, getRecurrenceRule, getOccurrenceIndexOn, getDueOccurrences } = require('./recurrence');
+const { processRecurringTransactions, runProcessingCycle, getLastSuccessfulRun } = require('./scheduler');
 const { testNotification, getNotificationConfig } = require('./notifications');
 
 const router = express.Router();
 
-// Simple in-memory session store (for demo purposes)
-const sessions = new Map();
-
 // Test route to verify API is working
 router.get('/test', (req, res) => {
   console.log('🧪 Test route called');
@@ -18,33 +29,58 @@ router.get('/test', (req, res) => {
 // Get all available users (for login screen)
 router.get('/users', async (req, res) => {
   try {
-    const users = await getAllRows('SELECT id, name FROM users ORDER BY name ASC');
-    res.json(users);
+    // No sign-in needed, so nothing personal: dates of birth only come back to their owner
+    const users = await getAllRows('SELECT id, name, pin_hash FROM users ORDER BY name ASC');
+    res.json(users.map(user => ({
+      id: user.id,
+      name: user.name,
+      hasPin: !!user.pin_hash
+    })));
   } catch (error) {
     console.error('Error fetching users:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Authentication middleware
-const requireAuth = (req, res, next) => {
-  const sessionId = req.headers.authorization;
-  console.log('🔐 Auth middleware - Session ID:', sessionId, 'Sessions count:', sessions.size);
+// Get the household's locale (for formatting and translations, including on the login screen)
+router.get('/locale', (req, res) => {
+  res.json(getLocaleSettings());
+});
 
-  if (!sessionId || !sessions.has(sessionId)) {
-    console.log('❌ Auth failed - no session or session not found');
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+// Authentication middleware: the Authorization header holds the session token
+const requireAuth = async (req, res, next) => {
+  try {
+    const session = await getSession(req.headers.authorization);
+    if (!session) {
+      console.log('❌ Auth failed - no session or session expired');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
 
-  req.user = sessions.get(sessionId);
-  console.log('✅ Auth successful - User:', req.user);
-  next();
+    req.sessionId = session.id;
+    req.user = { ...session.user, canManageBackups: canManageBackups(session.user.id) };
+    next();
+  } catch (error) {
+    console.error('Auth error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
 
+// The user as returned on signing in
+function toSignedInUser(user) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    dateOfBirth: user.date_of_birth || null,
+    hasPin: !!user.pin_hash,
+    canManageBackups: canManageBackups(user.id)
+  };
+}
+
 // Authentication routes
 router.post('/login', async (req, res) => {
   try {
-    const { userId } = req.body;
+    const { userId, pin } = req.body;
     console.log('🔑 Login attempt for userId:', userId);
 
     if (!userId) {
@@ -58,42 +94,166 @@ router.post('/login', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Create session
-    const sessionId = Math.random().toString(36).substring(2);
-    sessions.set(sessionId, {
-      id: user.id,
-      name: user.name,
-      email: user.email
-    });
-
-    console.log('✅ Login successful, sessions count:', sessions.size);
+    const lockout = getSignInLockout(user.id);
+    if (lockout > 0) {
+      console.log('❌ Sign-in locked after too many wrong PINs');
+      return res.status(429).json({
+        error: `Too many wrong attempts. Try again in ${Math.ceil(lockout / 60000)} minute(s).`
+      });
+    }
 
-    res.json({
-      sessionId,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email
+    if (user.pin_hash) {
+      if (pin === undefined || pin === null || pin === '') {
+        return res.status(401).json({ error: 'Enter your PIN or password', pinRequired: true });
       }
-    });
+      if (!(await verifySecret(String(pin), user.pin_hash))) {
+        console.log('❌ Wrong PIN');
+        recordFailedSignIn(user.id);
+        return res.status(401).json({ error: 'Incorrect PIN or password', pinRequired: true });
+      }
+    }
+    clearFailedSignIns(user.id);
+
+    const { token } = await createSession(user.id, req.headers['user-agent']);
+    console.log('✅ Login successful for user:', user.name);
+
+    res.json({ sessionId: token, user: toSignedInUser(user) });
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-router.post('/logout', (req, res) => {
-  const sessionId = req.headers.authorization;
-  if (sessionId) {
-    sessions.delete(sessionId);
+// Sign in as whoever is logged in to Home Assistant, when the app is opened through ingress
+// and that Home Assistant user is mapped to a user in the add-on options
+router.post('/login/ingress', async (req, res) => {
+  try {
+    const userId = getIngressUserId(req);
+    if (!userId) {
+      return res.status(404).json({ error: 'No user to sign in as from Home Assistant' });
+    }
+
+    const user = await getRow('SELECT * FROM users WHERE id = ?', [userId]);
+    if (!user) {
+      console.log('❌ Home Assistant user is mapped to a user not in the database:', userId);
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { token } = await createSession(user.id, req.headers['user-agent']);
+    console.log('✅ Signed in through Home Assistant as user:', user.name);
+
+    res.json({ sessionId: token, user: toSignedInUser(user) });
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/logout', async (req, res) => {
+  try {
+    await deleteSession(req.headers.authorization);
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  res.json({ message: 'Logged out' });
 });
 
 router.get('/me', requireAuth, (req, res) => {
   res.json({ user: req.user });
 });
 
+// Dates of birth are optional YYYY-MM-DD (used for Lifetime ISA bonus eligibility)
+function isValidDateOfBirth(dateOfBirth) {
+  return dateOfBirth === undefined || dateOfBirth === null || /^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth);
+}
+
+// Update the signed-in user's profile
+router.put('/me', requireAuth, async (req, res) => {
+  try {
+    const { dateOfBirth } = req.body;
+
+    if (!isValidDateOfBirth(dateOfBirth)) {
+      return res.status(400).json({ error: 'Invalid date of birth' });
+    }
+
+    if (dateOfBirth !== undefined) {
+      await runQuery('UPDATE users SET date_of_birth = ? WHERE id = ?', [dateOfBirth || null, req.user.id]);
+      req.user.dateOfBirth = dateOfBirth || null;
+    }
+
+    res.json({ user: req.user });
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set, change or remove (pin: null) the signed-in user's PIN or password. Setting a new one
+// signs out their other devices, so anyone who signed in as them without it has to enter it.
+router.put('/me/pin', requireAuth, async (req, res) => {
+  try {
+    const { currentPin, pin } = req.body;
+
+    if (pin !== null && !isValidSecret(pin)) {
+      return res.status(400).json({ error: 'A PIN or password must be between 4 and 128 characters' });
+    }
+
+    const user = await getRow('SELECT pin_hash FROM users WHERE id = ?', [req.user.id]);
+    if (user.pin_hash && !(await verifySecret(currentPin, user.pin_hash))) {
+      return res.status(400).json({ error: 'Your current PIN or password is incorrect' });
+    }
+
+    const pinHash = pin === null ? null : await hashSecret(pin);
+    await runQuery('UPDATE users SET pin_hash = ? WHERE id = ?', [pinHash, req.user.id]);
+    clearFailedSignIns(req.user.id);
+    const signedOut = pinHash ? await revokeOtherSessions(req.user.id, req.sessionId) : 0;
+
+    console.log(pinHash ? '🔒 PIN set for user:' : '🔓 PIN removed for user:', req.user.name);
+    res.json({ hasPin: !!pinHash, signedOut });
+  } catch (error) {
+    console.error('Error updating PIN:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The signed-in user's sessions (one per device or browser they've signed in on)
+router.get('/sessions', requireAuth, async (req, res) => {
+  try {
+    res.json(await getUserSessions(req.user.id, req.sessionId));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign out every other device
+router.delete('/sessions', requireAuth, async (req, res) => {
+  try {
+    const signedOut = await revokeOtherSessions(req.user.id, req.sessionId);
+    res.json({ signedOut });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign out one device
+router.delete('/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    if (req.params.id === req.sessionId) {
+      return res.status(400).json({ error: 'Sign out to end this session' });
+    }
+    if (!(await revokeSession(req.user.id, req.params.id))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin route to get data for any user (for combined dashboard)
 router.get('/admin/user/:userId/data', requireAuth, async (req, res) => {
   try {
@@ -111,8 +271,13 @@ router.get('/admin/user/:userId/data', requireAuth, async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const pots = await getAllRows('SELECT * FROM savings_pots WHERE user_id = ? ORDER BY created_at DESC', [userId]);
-    const transactions = await getAllRows('SELECT * FROM transactions WHERE user_id = ? ORDER BY date DESC', [userId]);
+    // Only what the owner shares with the requesting user
+    const { pots, transactions } = await filterVisibleData(
+      await getAllRows('SELECT * FROM savings_pots WHERE user_id = ? ORDER BY created_at DESC', [userId]),
+      await getAllRows('SELECT * FROM transactions WHERE user_id = ? ORDER BY date DESC', [userId]),
+      requestingUser.id
+    );
+    const exceptionsByTransaction = await getExceptionsByTransaction(userId);
 
     // Convert date strings back to Date objects for consistency
     const formattedPots = pots.map(pot => ({
@@ -123,7 +288,18 @@ router.get('/admin/user/:userId/data', requireAuth, async (req, res) => {
       currentTotal: pot.current_total,
       targetAmount: pot.target_amount,
       color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY,
       interestRate: pot.interest_rate,
+      interestPayment: pot.interest_payment || null,
+      goalDate: pot.goal_date || null,
+      volatility: pot.volatility || null,
+      isaType: pot.isa_type || null,
+      accountType: pot.account_type || null,
+      maturityDate: pot.maturity_date || null,
+      noticeDays: pot.notice_days ?? null,
+      maxMonthlyDeposit: pot.max_monthly_deposit || null,
+      lastReconciledDate: pot.last_reconciled_date || null,
+      visibility: pot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(pot.created_at),
       updatedAt: new Date(pot.updated_at)
     }));
@@ -137,6 +313,11 @@ router.get('/admin/user/:userId/data', requireAuth, async (req, res) => {
       description: transaction.description,
       repeatMonthly: transaction.repeat_monthly === 1,
       repeatWeekly: transaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(transaction.recurrence),
+      exceptions: exceptionsByTransaction.get(transaction.id) || [],
+      kind: normalizeKind(transaction.kind),
+      transferId: transaction.transfer_id || null,
+      externalId: transaction.external_id || null,
       createdAt: new Date(transaction.created_at)
     }));
 
@@ -157,6 +338,7 @@ router.get('/user/data', requireAuth, async (req, res) => {
 
     const pots = await getAllRows('SELECT * FROM savings_pots WHERE user_id = ? ORDER BY created_at DESC', [userId]);
     const transactions = await getAllRows('SELECT * FROM transactions WHERE user_id = ? ORDER BY date DESC', [userId]);
+    const exceptionsByTransaction = await getExceptionsByTransaction(userId);
 
     // Convert date strings back to Date objects for consistency
     const formattedPots = pots.map(pot => ({
@@ -167,7 +349,18 @@ router.get('/user/data', requireAuth, async (req, res) => {
       currentTotal: pot.current_total,
       targetAmount: pot.target_amount,
       color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY,
       interestRate: pot.interest_rate,
+      interestPayment: pot.interest_payment || null,
+      goalDate: pot.goal_date || null,
+      volatility: pot.volatility || null,
+      isaType: pot.isa_type || null,
+      accountType: pot.account_type || null,
+      maturityDate: pot.maturity_date || null,
+      noticeDays: pot.notice_days ?? null,
+      maxMonthlyDeposit: pot.max_monthly_deposit || null,
+      lastReconciledDate: pot.last_reconciled_date || null,
+      visibility: pot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(pot.created_at),
       updatedAt: new Date(pot.updated_at)
     }));
@@ -181,6 +374,11 @@ router.get('/user/data', requireAuth, async (req, res) => {
       description: transaction.description,
       repeatMonthly: transaction.repeat_monthly === 1,
       repeatWeekly: transaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(transaction.recurrence),
+      exceptions: exceptionsByTransaction.get(transaction.id) || [],
+      kind: normalizeKind(transaction.kind),
+      transferId: transaction.transfer_id || null,
+      externalId: transaction.external_id || null,
       createdAt: new Date(transaction.created_at)
     }));
 
@@ -194,11 +392,15 @@ router.get('/user/data', requireAuth, async (req, res) => {
   }
 });
 
-// Get all savings data for all users
-router.get('/data', async (req, res) => {
+// Get all savings data for all users, as far as each pot's owner shares it with the requesting user
+router.get('/data', requireAuth, async (req, res) => {
   try {
-    const pots = await getAllRows('SELECT * FROM savings_pots ORDER BY created_at DESC');
-    const transactions = await getAllRows('SELECT * FROM transactions ORDER BY date DESC');
+    const { pots, transactions } = await filterVisibleData(
+      await getAllRows('SELECT * FROM savings_pots ORDER BY created_at DESC'),
+      await getAllRows('SELECT * FROM transactions ORDER BY date DESC'),
+      req.user.id
+    );
+    const exceptionsByTransaction = await getExceptionsByTransaction();
 
     // Convert date strings back to Date objects for consistency
     const formattedPots = pots.map(pot => ({
@@ -209,7 +411,18 @@ router.get('/data', async (req, res) => {
       currentTotal: pot.current_total,
       targetAmount: pot.target_amount,
       color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY,
       interestRate: pot.interest_rate,
+      interestPayment: pot.interest_payment || null,
+      goalDate: pot.goal_date || null,
+      volatility: pot.volatility || null,
+      isaType: pot.isa_type || null,
+      accountType: pot.account_type || null,
+      maturityDate: pot.maturity_date || null,
+      noticeDays: pot.notice_days ?? null,
+      maxMonthlyDeposit: pot.max_monthly_deposit || null,
+      lastReconciledDate: pot.last_reconciled_date || null,
+      visibility: pot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(pot.created_at),
       updatedAt: new Date(pot.updated_at)
     }));
@@ -223,6 +436,11 @@ router.get('/data', async (req, res) => {
       description: transaction.description,
       repeatMonthly: transaction.repeat_monthly === 1,
       repeatWeekly: transaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(transaction.recurrence),
+      exceptions: exceptionsByTransaction.get(transaction.id) || [],
+      kind: normalizeKind(transaction.kind),
+      transferId: transaction.transfer_id || null,
+      externalId: transaction.external_id || null,
       createdAt: new Date(transaction.created_at)
     }));
 
@@ -237,6 +455,16 @@ router.get('/data', async (req, res) => {
 });
 
 // Savings Pots Routes
+
+// Goal dates are optional YYYY-MM-DD deadlines for reaching a pot's target
+function isValidGoalDate(goalDate) {
+  return goalDate === undefined || goalDate === null || goalDate === '' || /^\d{4}-\d{2}-\d{2}$/.test(goalDate);
+}
+
+// Volatility is the annual % standard deviation of an investment pot's returns (null = fixed rate)
+function isValidVolatility(volatility) {
+  return volatility === undefined || volatility === null || (typeof volatility === 'number' && volatility >= 0 && volatility <= 100);
+}
 router.get('/pots', requireAuth, async (req, res) => {
   try {
     const userId = req.user.id;
@@ -249,7 +477,18 @@ router.get('/pots', requireAuth, async (req, res) => {
       currentTotal: pot.current_total,
       targetAmount: pot.target_amount,
       color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY,
       interestRate: pot.interest_rate,
+      interestPayment: pot.interest_payment || null,
+      goalDate: pot.goal_date || null,
+      volatility: pot.volatility || null,
+      isaType: pot.isa_type || null,
+      accountType: pot.account_type || null,
+      maturityDate: pot.maturity_date || null,
+      noticeDays: pot.notice_days ?? null,
+      maxMonthlyDeposit: pot.max_monthly_deposit || null,
+      lastReconciledDate: pot.last_reconciled_date || null,
+      visibility: pot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(pot.created_at),
       updatedAt: new Date(pot.updated_at)
     }));
@@ -262,19 +501,63 @@ router.get('/pots', requireAuth, async (req, res) => {
 
 router.post('/pots', requireAuth, async (req, res) => {
   try {
-    const { name, description, currentTotal, targetAmount, color, interestRate } = req.body;
+    const { name, description, currentTotal, targetAmount, color, currency, interestRate, interestPayment, goalDate, volatility, isaType, accountType, maturityDate, noticeDays, maxMonthlyDeposit, visibility } = req.body;
     const userId = req.user.id;
 
     if (!name || typeof currentTotal !== 'number' || !color) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({ error: 'Invalid currency' });
+    }
+
+    if (!isValidInterestPayment(interestPayment)) {
+      return res.status(400).json({ error: 'Invalid interest payment frequency' });
+    }
+
+    if (!isValidGoalDate(goalDate)) {
+      return res.status(400).json({ error: 'Invalid goal date' });
+    }
+
+    if (!isValidVolatility(volatility)) {
+      return res.status(400).json({ error: 'Invalid volatility' });
+    }
+
+    if (!isValidIsaType(isaType)) {
+      return res.status(400).json({ error: 'Invalid ISA type' });
+    }
+
+    if (isaType && (currency || DEFAULT_CURRENCY) !== 'GBP') {
+      return res.status(400).json({ error: 'ISAs must be held in GBP' });
+    }
+
+    if (!isValidAccountType(accountType)) {
+      return res.status(400).json({ error: 'Invalid account type' });
+    }
+
+    if (!isValidMaturityDate(maturityDate)) {
+      return res.status(400).json({ error: 'Invalid maturity date' });
+    }
+
+    if (!isValidNoticeDays(noticeDays)) {
+      return res.status(400).json({ error: 'Invalid notice period' });
+    }
+
+    if (!isValidMaxMonthlyDeposit(maxMonthlyDeposit)) {
+      return res.status(400).json({ error: 'Invalid maximum monthly deposit' });
+    }
+
+    if (!isValidVisibility(visibility)) {
+      return res.status(400).json({ error: 'Invalid visibility' });
+    }
+
     const id = uuidv4();
     const now = new Date().toISOString();
 
     await runQuery(
-      'INSERT INTO savings_pots (id, user_id, name, description, current_total, target_amount, color, interest_rate, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [id, userId, name, description || null, currentTotal, targetAmount || null, color, interestRate || null, now, now]
+      'INSERT INTO savings_pots (id, user_id, name, description, current_total, target_amount, color, currency, interest_rate, interest_payment, goal_date, volatility, isa_type, account_type, maturity_date, notice_days, max_monthly_deposit, visibility, opening_balance, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, userId, name, description || null, currentTotal, targetAmount || null, color, currency || DEFAULT_CURRENCY, interestRate || null, interestPayment || null, goalDate || null, volatility || null, isaType || null, accountType || null, maturityDate || null, noticeDays ?? null, maxMonthlyDeposit || null, visibility || DEFAULT_VISIBILITY, currentTotal, now, now]
     );
 
     const pot = await getRow('SELECT * FROM savings_pots WHERE id = ?', [id]);
@@ -286,7 +569,18 @@ router.post('/pots', requireAuth, async (req, res) => {
       currentTotal: pot.current_total,
       targetAmount: pot.target_amount,
       color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY,
       interestRate: pot.interest_rate,
+      interestPayment: pot.interest_payment || null,
+      goalDate: pot.goal_date || null,
+      volatility: pot.volatility || null,
+      isaType: pot.isa_type || null,
+      accountType: pot.account_type || null,
+      maturityDate: pot.maturity_date || null,
+      noticeDays: pot.notice_days ?? null,
+      maxMonthlyDeposit: pot.max_monthly_deposit || null,
+      lastReconciledDate: pot.last_reconciled_date || null,
+      visibility: pot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(pot.created_at),
       updatedAt: new Date(pot.updated_at)
     };
@@ -301,7 +595,7 @@ router.post('/pots', requireAuth, async (req, res) => {
 router.put('/pots/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, description, currentTotal, targetAmount, color, interestRate } = req.body;
+    const { name, description, currentTotal, targetAmount, color, currency, interestRate, interestPayment, goalDate, volatility, isaType, accountType, maturityDate, noticeDays, maxMonthlyDeposit, visibility } = req.body;
     const userId = req.user.id;
 
     const existingPot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [id, userId]);
@@ -309,17 +603,86 @@ router.put('/pots/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Pot not found' });
     }
 
+    if (!isValidInterestPayment(interestPayment)) {
+      return res.status(400).json({ error: 'Invalid interest payment frequency' });
+    }
+
+    if (!isValidGoalDate(goalDate)) {
+      return res.status(400).json({ error: 'Invalid goal date' });
+    }
+
+    if (!isValidVolatility(volatility)) {
+      return res.status(400).json({ error: 'Invalid volatility' });
+    }
+
+    if (!isValidIsaType(isaType)) {
+      return res.status(400).json({ error: 'Invalid ISA type' });
+    }
+
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({ error: 'Invalid currency' });
+    }
+
+    const newCurrency = currency || existingPot.currency || DEFAULT_CURRENCY;
+    if ((isaType !== undefined ? isaType : existingPot.isa_type) && newCurrency !== 'GBP') {
+      return res.status(400).json({ error: 'ISAs must be held in GBP' });
+    }
+
+    // Transfers move the same amount in both currencies, so a pot with transfers keeps its currency
+    if (newCurrency !== (existingPot.currency || DEFAULT_CURRENCY)) {
+      const transfer = await getRow('SELECT id FROM transactions WHERE pot_id = ? AND transfer_id IS NOT NULL LIMIT 1', [id]);
+      if (transfer) {
+        return res.status(400).json({ error: "The currency of an account with transfers can't be changed" });
+      }
+    }
+
+    if (!isValidAccountType(accountType)) {
+      return res.status(400).json({ error: 'Invalid account type' });
+    }
+
+    if (!isValidMaturityDate(maturityDate)) {
+      return res.status(400).json({ error: 'Invalid maturity date' });
+    }
+
+    if (!isValidNoticeDays(noticeDays)) {
+      return res.status(400).json({ error: 'Invalid notice period' });
+    }
+
+    if (!isValidMaxMonthlyDeposit(maxMonthlyDeposit)) {
+      return res.status(400).json({ error: 'Invalid maximum monthly deposit' });
+    }
+
+    if (!isValidVisibility(visibility)) {
+      return res.status(400).json({ error: 'Invalid visibility' });
+    }
+
     const now = new Date().toISOString();
 
+    // Setting the total directly restates where the pot started, so the ledger still adds up.
+    // Reconciling against a statement records the difference as an adjustment instead.
+    const newTotal = currentTotal !== undefined ? currentTotal : existingPot.current_total;
+    const openingBalance = (existingPot.opening_balance || 0) + (newTotal - existingPot.current_total);
+
     await runQuery(
-      'UPDATE savings_pots SET name = ?, description = ?, current_total = ?, target_amount = ?, color = ?, interest_rate = ?, updated_at = ? WHERE id = ?',
+      'UPDATE savings_pots SET name = ?, description = ?, current_total = ?, opening_balance = ?, target_amount = ?, color = ?, currency = ?, interest_rate = ?, interest_payment = ?, goal_date = ?, volatility = ?, isa_type = ?, account_type = ?, maturity_date = ?, notice_days = ?, max_monthly_deposit = ?, visibility = ?, updated_at = ? WHERE id = ?',
       [
         name || existingPot.name,
         description !== undefined ? description : existingPot.description,
-        currentTotal !== undefined ? currentTotal : existingPot.current_total,
+        newTotal,
+        openingBalance,
         targetAmount !== undefined ? targetAmount : existingPot.target_amount,
         color || existingPot.color,
+        newCurrency,
         interestRate !== undefined ? interestRate : existingPot.interest_rate,
+        interestPayment !== undefined ? interestPayment : existingPot.interest_payment,
+        goalDate !== undefined ? goalDate || null : existingPot.goal_date,
+        volatility !== undefined ? volatility || null : existingPot.volatility,
+        isaType !== undefined ? isaType || null : existingPot.isa_type,
+        accountType !== undefined ? accountType || null : existingPot.account_type,
+        maturityDate !== undefined ? maturityDate || null : existingPot.maturity_date,
+        noticeDays !== undefined ? noticeDays : existingPot.notice_days,
+        maxMonthlyDeposit !== undefined ? maxMonthlyDeposit || null : existingPot.max_monthly_deposit,
+        visibility || existingPot.visibility || DEFAULT_VISIBILITY,
         now,
         id
       ]
@@ -334,7 +697,18 @@ router.put('/pots/:id', requireAuth, async (req, res) => {
       currentTotal: updatedPot.current_total,
       targetAmount: updatedPot.target_amount,
       color: updatedPot.color,
+      currency: updatedPot.currency || DEFAULT_CURRENCY,
       interestRate: updatedPot.interest_rate,
+      interestPayment: updatedPot.interest_payment || null,
+      goalDate: updatedPot.goal_date || null,
+      volatility: updatedPot.volatility || null,
+      isaType: updatedPot.isa_type || null,
+      accountType: updatedPot.account_type || null,
+      maturityDate: updatedPot.maturity_date || null,
+      noticeDays: updatedPot.notice_days ?? null,
+      maxMonthlyDeposit: updatedPot.max_monthly_deposit || null,
+      lastReconciledDate: updatedPot.last_reconciled_date || null,
+      visibility: updatedPot.visibility || DEFAULT_VISIBILITY,
       createdAt: new Date(updatedPot.created_at),
       updatedAt: new Date(updatedPot.updated_at)
     };
@@ -357,11 +731,28 @@ router.delete('/pots/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Pot not found' });
     }
 
-    // Delete transactions first (due to foreign key constraint)
-    await runQuery('DELETE FROM transactions WHERE pot_id = ?', [id]);
+    await runInTransaction(async () => {
+      // Transfers into/out of this pot: keep the other pot's leg (its balance already reflects it)
+      // but turn it into a plain deposit/withdrawal so it isn't left pointing at a deleted pot
+      await runQuery(
+        `UPDATE transactions
+         SET kind = CASE WHEN amount < 0 THEN 'withdrawal' ELSE 'deposit' END, amount = ABS(amount), transfer_id = NULL
+         WHERE pot_id != ? AND transfer_id IN (SELECT transfer_id FROM transactions WHERE pot_id = ? AND transfer_id IS NOT NULL)`,
+        [id, id]
+      );
 
-    // Delete the pot
-    await runQuery('DELETE FROM savings_pots WHERE id = ?', [id]);
+      // Delete transactions, their exceptions and accrued interest first (due to foreign key constraint)
+      await runQuery('DELETE FROM interest_accruals WHERE pot_id = ?', [id]);
+      await runQuery('DELETE FROM lisa_bonuses WHERE pot_id = ?', [id]);
+      await runQuery('DELETE FROM maturity_reminders WHERE pot_id = ?', [id]);
+      await runQuery('DELETE FROM balance_snapshots WHERE pot_id = ?', [id]);
+      await runQuery('DELETE FROM statement_accounts WHERE pot_id = ?', [id]);
+      await runQuery('DELETE FROM recurrence_exceptions WHERE transaction_id IN (SELECT id FROM transactions WHERE pot_id = ?)', [id]);
+      await runQuery('DELETE FROM transactions WHERE pot_id = ?', [id]);
+
+      // Delete the pot
+      await runQuery('DELETE FROM savings_pots WHERE id = ?', [id]);
+    });
 
     res.json({ message: 'Pot deleted successfully' });
   } catch (error) {
@@ -370,11 +761,109 @@ router.delete('/pots/:id', requireAuth, async (req, res) => {
   }
 });
 
+// ==================== Reconciliation Routes ====================
+// Check a pot against the balance on a bank statement and post the difference as an adjustment.
+
+// Get the ledger balance of one of the user's pots at the end of a statement date
+router.get('/pots/:id/reconciliation', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { date } = req.query;
+
+    if (!isValidStatementDate(date)) {
+      return res.status(400).json({ error: 'Invalid statement date' });
+    }
+
+    const pot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [id, req.user.id]);
+    if (!pot) {
+      return res.status(404).json({ error: 'Pot not found' });
+    }
+
+    res.json({
+      potId: pot.id,
+      statementDate: date,
+      ledgerBalance: await getLedgerBalance(pot, date),
+      lastReconciledDate: pot.last_reconciled_date || null
+    });
+  } catch (error) {
+    console.error('Error fetching reconciliation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reconcile a pot to a statement balance, posting an adjustment with a reason for any difference
+router.post('/pots/:id/reconcile', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { statementBalance, statementDate, reason } = req.body;
+    const userId = req.user.id;
+
+    if (typeof statementBalance !== 'number' || isNaN(statementBalance)) {
+      return res.status(400).json({ error: 'Invalid statement balance' });
+    }
+
+    if (!isValidStatementDate(statementDate)) {
+      return res.status(400).json({ error: 'Invalid statement date' });
+    }
+
+    const pot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!pot) {
+      return res.status(404).json({ error: 'Pot not found' });
+    }
+
+    const ledgerBalance = await getLedgerBalance(pot, statementDate);
+    const difference = getReconcileDifference(statementBalance, ledgerBalance);
+    if (difference !== 0 && !(typeof reason === 'string' && reason.trim())) {
+      return res.status(400).json({ error: 'A reason is required for the adjustment' });
+    }
+
+    const now = new Date().toISOString();
+    const adjustmentId = difference !== 0 ? uuidv4() : null;
+    // An older statement doesn't move the reconciled date back
+    const lastReconciledDate = pot.last_reconciled_date && pot.last_reconciled_date > statementDate
+      ? pot.last_reconciled_date
+      : statementDate;
+
+    await runInTransaction(async () => {
+      if (adjustmentId) {
+        await runQuery(
+          'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, recurrence, kind, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [adjustmentId, userId, id, difference, `${statementDate}T12:00:00.000Z`, reason.trim(), 0, 0, null, 'adjustment', now]
+        );
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+          [difference, now, id]
+        );
+      }
+      await runQuery(
+        'UPDATE savings_pots SET last_reconciled_date = ?, updated_at = ? WHERE id = ?',
+        [lastReconciledDate, now, id]
+      );
+    });
+
+    const reconciledPot = await getRow('SELECT * FROM savings_pots WHERE id = ?', [id]);
+    res.json({
+      potId: id,
+      statementDate,
+      statementBalance,
+      ledgerBalance,
+      difference,
+      adjustmentId,
+      currentTotal: reconciledPot.current_total,
+      lastReconciledDate: reconciledPot.last_reconciled_date
+    });
+  } catch (error) {
+    console.error('Error reconciling pot:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Transactions Routes
 router.get('/transactions', requireAuth, async (req, res) => {
   try {
     const userId = req.user.id;
     const transactions = await getAllRows('SELECT * FROM transactions WHERE user_id = ? ORDER BY date DESC', [userId]);
+    const exceptionsByTransaction = await getExceptionsByTransaction(userId);
     const formattedTransactions = transactions.map(transaction => ({
       id: transaction.id,
       userId: transaction.user_id,
@@ -384,6 +873,11 @@ router.get('/transactions', requireAuth, async (req, res) => {
       description: transaction.description,
       repeatMonthly: transaction.repeat_monthly === 1,
       repeatWeekly: transaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(transaction.recurrence),
+      exceptions: exceptionsByTransaction.get(transaction.id) || [],
+      kind: normalizeKind(transaction.kind),
+      transferId: transaction.transfer_id || null,
+      externalId: transaction.external_id || null,
       createdAt: new Date(transaction.created_at)
     }));
     res.json(formattedTransactions);
@@ -395,34 +889,68 @@ router.get('/transactions', requireAuth, async (req, res) => {
 
 router.post('/transactions', requireAuth, async (req, res) => {
   try {
-    const { potId, amount, date, description, repeatMonthly, repeatWeekly } = req.body;
+    const { potId, amount, date, description, repeatMonthly, repeatWeekly, recurrence, kind } = req.body;
     const userId = req.user.id;
 
     if (!potId || typeof amount !== 'number' || !date) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (!isValidRecurrence(recurrence)) {
+      return res.status(400).json({ error: 'Invalid recurrence rule' });
+    }
+
+    if (!isValidKind(kind)) {
+      return res.status(400).json({ error: 'Invalid transaction kind' });
+    }
+
+    const transactionKind = normalizeKind(kind);
+    if (!isValidAmount(transactionKind, amount)) {
+      return res.status(400).json({ error: 'Invalid amount for transaction kind' });
+    }
+
     // Verify pot exists and belongs to user
     const pot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [potId, userId]);
     if (!pot) {
       return res.status(404).json({ error: 'Pot not found' });
     }
 
+    if (transactionKind === 'deposit') {
+      const isaError = await checkIsaSubscription(pot, amount, date);
+      if (isaError) {
+        return res.status(400).json(isaError);
+      }
+      const depositError = await checkDeposit(pot, amount, date);
+      if (depositError) {
+        return res.status(400).json(depositError);
+      }
+    }
+
+    if (transactionKind === 'withdrawal') {
+      const withdrawalError = checkWithdrawal(pot, date);
+      if (withdrawalError) {
+        return res.status(400).json(withdrawalError);
+      }
+    }
+
     const id = uuidv4();
     const now = new Date().toISOString();
     const transactionDate = new Date(date).toISOString();
+    const repeat = resolveRecurrenceColumns({ recurrence, repeatMonthly, repeatWeekly });
 
-    // Insert transaction
-    await runQuery(
-      'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [id, userId, potId, amount, transactionDate, description || null, repeatMonthly ? 1 : 0, repeatWeekly ? 1 : 0, now]
-    );
+    await runInTransaction(async () => {
+      // Insert transaction
+      await runQuery(
+        'INSERT INTO transactions (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, recurrence, kind, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, userId, potId, amount, transactionDate, description || null, repeat.repeatMonthly, repeat.repeatWeekly, repeat.recurrence, transactionKind, now]
+      );
 
-    // Update pot total
-    await runQuery(
-      'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
-      [amount, now, potId]
-    );
+      // Update pot total (withdrawals reduce the balance)
+      await runQuery(
+        'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+        [getSignedAmount(transactionKind, amount), now, potId]
+      );
+    });
 
     const transaction = await getRow('SELECT * FROM transactions WHERE id = ?', [id]);
     const formattedTransaction = {
@@ -434,6 +962,10 @@ router.post('/transactions', requireAuth, async (req, res) => {
       description: transaction.description,
       repeatMonthly: transaction.repeat_monthly === 1,
       repeatWeekly: transaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(transaction.recurrence),
+      kind: normalizeKind(transaction.kind),
+      transferId: transaction.transfer_id || null,
+      externalId: transaction.external_id || null,
       createdAt: new Date(transaction.created_at)
     };
 
@@ -444,81 +976,550 @@ router.post('/transactions', requireAuth, async (req, res) => {
   }
 });
 
+// Import rows from a bank statement into one of the user's pots in a single request.
+// Rows already in the pot are skipped (see imports.js). `accountId` is the statement's own
+// account ID, remembered so the next file from that account goes to the same pot.
+router.post('/transactions/bulk', requireAuth, async (req, res) => {
+  try {
+    const { potId, rows, accountId } = req.body;
+    const userId = req.user.id;
+
+    if (!potId || !Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (accountId !== undefined && accountId !== null && (typeof accountId !== 'string' || !accountId)) {
+      return res.status(400).json({ error: 'Invalid statement account' });
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ error: `Too many rows (at most ${MAX_IMPORT_ROWS} per import)` });
+    }
+
+    const invalidIndex = rows.findIndex(row => !isValidImportRow(row));
+    if (invalidIndex !== -1) {
+      return res.status(400).json({ error: `Invalid row ${invalidIndex + 1}`, row: invalidIndex });
+    }
+
+    const pot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [potId, userId]);
+    if (!pot) {
+      return res.status(404).json({ error: 'Pot not found' });
+    }
+
+    const { importedIds, skipped } = await importStatementRows(pot, userId, rows);
+    if (accountId) {
+      await linkStatementAccount(userId, accountId, potId);
+    }
+
+    res.status(201).json({
+      importedCount: importedIds.length,
+      skippedCount: skipped.length,
+      skippedRows: skipped,
+      transactionIds: importedIds
+    });
+  } catch (error) {
+    console.error('Error importing transactions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 router.put('/transactions/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const { potId, amount, date, description, repeatMonthly, repeatWeekly } = req.body;
+    const { potId, amount, date, description, repeatMonthly, repeatWeekly, recurrence, kind } = req.body;
+    const userId = req.user.id;
+
+    const existingTransaction = await getRow('SELECT * FROM transactions WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!existingTransaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    // Transfer legs must change together
+    if (existingTransaction.transfer_id) {
+      return res.status(400).json({ error: 'Transfers must be edited via /transfers' });
+    }
+
+    if (!isValidKind(kind)) {
+      return res.status(400).json({ error: 'Invalid transaction kind' });
+    }
+
+    if (!isValidRecurrence(recurrence)) {
+      return res.status(400).json({ error: 'Invalid recurrence rule' });
+    }
+
+    const newKind = kind !== undefined && kind !== null ? kind : normalizeKind(existingTransaction.kind);
+    const newAmount = amount !== undefined ? amount : existingTransaction.amount;
+    const newPotId = potId || existingTransaction.pot_id;
+
+    if (!isValidAmount(newKind, newAmount)) {
+      return res.status(400).json({ error: 'Invalid amount for transaction kind' });
+    }
+
+    const newPot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [newPotId, userId]);
+    if (!newPot) {
+      return res.status(404).json({ error: 'Pot not found' });
+    }
+
+    const now = new Date().toISOString();
+    const transactionDate = date ? new Date(date).toISOString() : existingTransaction.date;
+
+    if (newKind === 'deposit') {
+      const isaError = await checkIsaSubscription(newPot, newAmount, transactionDate, id);
+      if (isaError) {
+        return res.status(400).json(isaError);
+      }
+      const depositError = await checkDeposit(newPot, newAmount, transactionDate, id);
+      if (depositError) {
+        return res.status(400).json(depositError);
+      }
+    }
+
+    // A withdrawal that's only being re-described keeps the notice it was given
+    const isMoved = transactionDate !== existingTransaction.date || newPotId !== existingTransaction.pot_id;
+    if (newKind === 'withdrawal' && (isMoved || normalizeKind(existingTransaction.kind) !== 'withdrawal')) {
+      const withdrawalError = checkWithdrawal(newPot, transactionDate);
+      if (withdrawalError) {
+        return res.status(400).json(withdrawalError);
+      }
+    }
+    const repeat = resolveRecurrenceColumns({ recurrence, repeatMonthly, repeatWeekly }, existingTransaction);
+
+    // Reverse the old effect on the old pot and apply the new effect on the (possibly different) pot
+    const oldSigned = getSignedAmount(existingTransaction.kind, existingTransaction.amount);
+    const newSigned = getSignedAmount(newKind, newAmount);
+
+    await runInTransaction(async () => {
+      // Update transaction
+      await runQuery(
+        'UPDATE transactions SET pot_id = ?, amount = ?, date = ?, description = ?, repeat_monthly = ?, repeat_weekly = ?, recurrence = ?, kind = ? WHERE id = ?',
+        [newPotId, newAmount, transactionDate, description !== undefined ? description : existingTransaction.description, repeat.repeatMonthly, repeat.repeatWeekly, repeat.recurrence, newKind, id]
+      );
+
+      if (newPotId !== existingTransaction.pot_id) {
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
+          [oldSigned, now, existingTransaction.pot_id]
+        );
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+          [newSigned, now, newPotId]
+        );
+      } else if (newSigned !== oldSigned) {
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+          [newSigned - oldSigned, now, existingTransaction.pot_id]
+        );
+      }
+    });
+
+    const updatedTransaction = await getRow('SELECT * FROM transactions WHERE id = ?', [id]);
+    const formattedTransaction = {
+      id: updatedTransaction.id,
+      userId: updatedTransaction.user_id,
+      potId: updatedTransaction.pot_id,
+      amount: updatedTransaction.amount,
+      date: new Date(updatedTransaction.date),
+      description: updatedTransaction.description,
+      repeatMonthly: updatedTransaction.repeat_monthly === 1,
+      repeatWeekly: updatedTransaction.repeat_weekly === 1,
+      recurrence: parseRecurrence(updatedTransaction.recurrence),
+      kind: normalizeKind(updatedTransaction.kind),
+      transferId: updatedTransaction.transfer_id || null,
+      externalId: updatedTransaction.external_id || null,
+      createdAt: new Date(updatedTransaction.created_at)
+    };
+
+    res.json(formattedTransaction);
+  } catch (error) {
+    console.error('Error updating transaction:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/transactions/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
     const userId = req.user.id;
 
-    const existingTransaction = await getRow('SELECT * FROM transactions WHERE id = ? AND user_id = ?', [id, userId]);
-    if (!existingTransaction) {
-      return res.status(404).json({ error: 'Transaction not found' });
+    const transaction = await getRow('SELECT * FROM transactions WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    // Deleting a transfer leg removes the whole movement (sender only)
+    if (transaction.transfer_id) {
+      const transfer = await getTransferForSender(transaction.transfer_id, userId);
+      if (!transfer) {
+        return res.status(403).json({ error: 'Only the sender can delete a transfer' });
+      }
+      await deleteTransferLegs(transaction.transfer_id);
+      return res.json({ message: 'Transfer deleted successfully' });
+    }
+
+    await runInTransaction(async () => {
+      // Update pot total (reverse the transaction's effect)
+      await runQuery(
+        'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
+        [getSignedAmount(transaction.kind, transaction.amount), new Date().toISOString(), transaction.pot_id]
+      );
+
+      // Delete transaction (and any exceptions to its series)
+      await runQuery('DELETE FROM recurrence_exceptions WHERE transaction_id = ?', [id]);
+      await runQuery('DELETE FROM transactions WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Transaction deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting transaction:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Recurrence Exceptions Routes ====================
+// Skip, change the amount of, or move a single occurrence of a recurring series.
+// Occurrences are identified by their scheduled date (YYYY-MM-DD). A transfer's exceptions
+// are stored against its out leg and apply to both legs.
+
+// Load exceptions keyed by transaction id (both legs of a transfer get the out leg's exceptions)
+async function getExceptionsByTransaction(userId) {
+  const rows = await getAllRows(
+    `SELECT e.*, leg.id AS leg_id
+     FROM recurrence_exceptions e
+     JOIN transactions owner ON owner.id = e.transaction_id
+     JOIN transactions leg ON leg.id = owner.id OR (owner.transfer_id IS NOT NULL AND leg.transfer_id = owner.transfer_id)
+     ${userId ? 'WHERE leg.user_id = ?' : ''}
+     ORDER BY e.occurrence_date ASC`,
+    userId ? [userId] : []
+  );
+
+  const exceptionsByTransaction = new Map();
+  for (const row of rows) {
+    const exceptions = exceptionsByTransaction.get(row.leg_id) || [];
+    exceptions.push({
+      id: row.id,
+      occurrenceDate: row.occurrence_date,
+      skipped: row.skipped === 1,
+      amount: row.amount,
+      movedTo: row.moved_to || null
+    });
+    exceptionsByTransaction.set(row.leg_id, exceptions);
+  }
+  return exceptionsByTransaction;
+}
+
+// Find the series an exception belongs to (the out leg for transfers, sender only)
+async function getSeriesForException(transactionId, userId) {
+  const transaction = await getRow('SELECT * FROM transactions WHERE id = ? AND user_id = ?', [transactionId, userId]);
+  if (!transaction) {
+    return { status: 404, error: 'Transaction not found' };
+  }
+  if (transaction.transfer_id) {
+    const transfer = await getTransferForSender(transaction.transfer_id, userId);
+    if (!transfer) {
+      return { status: 403, error: 'Only the sender can change a transfer' };
+    }
+    return { series: transfer.outLeg };
+  }
+  return { series: transaction };
+}
+
+// Create or replace the exception for one occurrence
+router.put('/transactions/:id/exceptions/:date', requireAuth, async (req, res) => {
+  try {
+    const { id, date } = req.params;
+    const userId = req.user.id;
+    const { skipped, amount, movedTo } = req.body;
+
+    const { series, status, error } = await getSeriesForException(id, userId);
+    if (!series) {
+      return res.status(status).json({ error });
+    }
+
+    const rule = getRecurrenceRule(series);
+    if (!rule) {
+      return res.status(400).json({ error: 'Transaction is not recurring' });
+    }
+
+    // Occurrence 0 is the transaction itself, which is edited directly
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || getOccurrenceIndexOn(rule, new Date(series.date), new Date(`${date}T12:00:00`)) <= 0) {
+      return res.status(400).json({ error: 'Date is not an occurrence of this series' });
+    }
+
+    if (movedTo != null && !/^\d{4}-\d{2}-\d{2}$/.test(movedTo)) {
+      return res.status(400).json({ error: 'Invalid date to move the occurrence to' });
+    }
+
+    // Transfers store a negative out leg, but the amount is always given as the amount moved
+    const kind = series.transfer_id ? 'deposit' : series.kind;
+    if (amount != null && !isValidAmount(kind, amount)) {
+      return res.status(400).json({ error: 'Invalid amount for this transaction kind' });
+    }
+
+    const now = new Date().toISOString();
+    const existing = await getRow(
+      'SELECT * FROM recurrence_exceptions WHERE transaction_id = ? AND occurrence_date = ?',
+      [series.id, date]
+    );
+    const exceptionId = existing ? existing.id : uuidv4();
+    const newMovedTo = movedTo && movedTo !== date ? movedTo : null;
+
+    if (existing) {
+      await runQuery(
+        'UPDATE recurrence_exceptions SET skipped = ?, amount = ?, moved_to = ?, updated_at = ? WHERE id = ?',
+        [skipped ? 1 : 0, amount != null ? amount : null, newMovedTo, now, exceptionId]
+      );
+    } else {
+      await runQuery(
+        'INSERT INTO recurrence_exceptions (id, transaction_id, occurrence_date, skipped, amount, moved_to, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [exceptionId, series.id, date, skipped ? 1 : 0, amount != null ? amount : null, newMovedTo, now, now]
+      );
+    }
+
+    console.log(`✏️ Exception for ${series.id} on ${date}: ${skipped ? 'skipped' : newMovedTo ? `moved to ${newMovedTo}` : 'changed'}`);
+
+    res.json({
+      id: exceptionId,
+      occurrenceDate: date,
+      skipped: !!skipped,
+      amount: amount != null ? amount : null,
+      movedTo: newMovedTo
+    });
+  } catch (error) {
+    console.error('Error saving recurrence exception:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove the exception for one occurrence (it goes back to following the series)
+router.delete('/transactions/:id/exceptions/:date', requireAuth, async (req, res) => {
+  try {
+    const { id, date } = req.params;
+    const userId = req.user.id;
+
+    const { series, status, error } = await getSeriesForException(id, userId);
+    if (!series) {
+      return res.status(status).json({ error });
+    }
+
+    await runQuery(
+      'DELETE FROM recurrence_exceptions WHERE transaction_id = ? AND occurrence_date = ?',
+      [series.id, date]
+    );
+
+    res.json({ message: 'Exception removed successfully' });
+  } catch (error) {
+    console.error('Error removing recurrence exception:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Transfers Routes ====================
+// A transfer is two linked 'transfer' transactions (out leg negative, in leg positive)
+// sharing a transfer_id. Destination pots can belong to any household member.
+
+// Reverse both legs' effect on their pots and delete them atomically
+async function deleteTransferLegs(transferId) {
+  await runInTransaction(async () => {
+    const legs = await getAllRows('SELECT * FROM transactions WHERE transfer_id = ?', [transferId]);
+    const now = new Date().toISOString();
+    for (const leg of legs) {
+      await runQuery(
+        'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
+        [leg.amount, now, leg.pot_id]
+      );
+    }
+    await runQuery(
+      'DELETE FROM recurrence_exceptions WHERE transaction_id IN (SELECT id FROM transactions WHERE transfer_id = ?)',
+      [transferId]
+    );
+    await runQuery('DELETE FROM transactions WHERE transfer_id = ?', [transferId]);
+  });
+}
+
+// Load both legs of a transfer; only the sender (owner of the out leg) may change it
+async function getTransferForSender(transferId, userId) {
+  const legs = await getAllRows('SELECT * FROM transactions WHERE transfer_id = ?', [transferId]);
+  const outLeg = legs.find(leg => leg.amount < 0);
+  const inLeg = legs.find(leg => leg.amount > 0);
+  if (!outLeg || !inLeg || outLeg.user_id !== userId) {
+    return null;
+  }
+  return { outLeg, inLeg };
+}
+
+function formatTransfer(transferId, outLeg, inLeg) {
+  return {
+    transferId,
+    fromPotId: outLeg.pot_id,
+    toPotId: inLeg.pot_id,
+    amount: inLeg.amount,
+    date: new Date(outLeg.date),
+    description: outLeg.description,
+    repeatMonthly: outLeg.repeat_monthly === 1,
+    repeatWeekly: outLeg.repeat_weekly === 1,
+    recurrence: parseRecurrence(outLeg.recurrence),
+    outTransactionId: outLeg.id,
+    inTransactionId: inLeg.id
+  };
+}
+
+// Create a transfer between two pots
+router.post('/transfers', requireAuth, async (req, res) => {
+  try {
+    const { fromPotId, toPotId, amount, date, description, repeatMonthly, repeatWeekly, recurrence } = req.body;
+    const userId = req.user.id;
+
+    if (!fromPotId || !toPotId || typeof amount !== 'number' || amount <= 0 || !date) {
+      return res.status(400).json({ error: 'Source pot, destination pot, positive amount and date are required' });
+    }
+
+    if (!isValidRecurrence(recurrence)) {
+      return res.status(400).json({ error: 'Invalid recurrence rule' });
+    }
+
+    if (fromPotId === toPotId) {
+      return res.status(400).json({ error: 'Cannot transfer to the same pot' });
+    }
+
+    // Money can only be moved out of your own pots, but into any household member's pot
+    const fromPot = await getRow('SELECT * FROM savings_pots WHERE id = ? AND user_id = ?', [fromPotId, userId]);
+    if (!fromPot) {
+      return res.status(404).json({ error: 'Source pot not found' });
+    }
+
+    // Other members' private pots can't be seen, so can't be paid into either
+    const toPot = await getRow('SELECT * FROM savings_pots WHERE id = ?', [toPotId]);
+    if (!toPot || !canSeePot(toPot, userId)) {
+      return res.status(404).json({ error: 'Destination pot not found' });
+    }
+
+    if ((fromPot.currency || DEFAULT_CURRENCY) !== (toPot.currency || DEFAULT_CURRENCY)) {
+      return res.status(400).json({ error: 'Transfers between accounts in different currencies aren\'t supported' });
+    }
+
+    // Paying into an ISA from elsewhere uses allowance; moving money between ISAs doesn't
+    if (!fromPot.isa_type) {
+      const isaError = await checkIsaSubscription(toPot, amount, date);
+      if (isaError) {
+        return res.status(400).json(isaError);
+      }
+    }
+
+    const accountError = checkWithdrawal(fromPot, date) || await checkDeposit(toPot, amount, date);
+    if (accountError) {
+      return res.status(400).json(accountError);
+    }
+
+    const { transferId } = await postTransfer({
+      fromPot,
+      toPot,
+      amount,
+      date: new Date(date).toISOString(),
+      description,
+      repeat: resolveRecurrenceColumns({ recurrence, repeatMonthly, repeatWeekly })
+    });
+
+    const transfer = await getTransferForSender(transferId, userId);
+    res.status(201).json(formatTransfer(transferId, transfer.outLeg, transfer.inLeg));
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a transfer (amount, date, description, recurrence) - both legs change together
+router.put('/transfers/:transferId', requireAuth, async (req, res) => {
+  try {
+    const { transferId } = req.params;
+    const { amount, date, description, repeatMonthly, repeatWeekly, recurrence } = req.body;
+    const userId = req.user.id;
+
+    const transfer = await getTransferForSender(transferId, userId);
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transfer not found or not authorized' });
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      return res.status(400).json({ error: 'Valid amount is required' });
     }
 
-    const now = new Date().toISOString();
-    const transactionDate = date ? new Date(date).toISOString() : existingTransaction.date;
+    if (!isValidRecurrence(recurrence)) {
+      return res.status(400).json({ error: 'Invalid recurrence rule' });
+    }
 
-    // Calculate the difference in amount
-    const amountDiff = (amount !== undefined ? amount : existingTransaction.amount) - existingTransaction.amount;
+    const { outLeg, inLeg } = transfer;
+    const newAmount = amount !== undefined ? amount : inLeg.amount;
+    const amountDiff = newAmount - inLeg.amount;
 
-    // Update transaction
-    await runQuery(
-      'UPDATE transactions SET pot_id = ?, amount = ?, date = ?, description = ?, repeat_monthly = ?, repeat_weekly = ? WHERE id = ?',
-      [potId || existingTransaction.pot_id, amount !== undefined ? amount : existingTransaction.amount, transactionDate, description !== undefined ? description : existingTransaction.description, repeatMonthly !== undefined ? (repeatMonthly ? 1 : 0) : existingTransaction.repeat_monthly, repeatWeekly !== undefined ? (repeatWeekly ? 1 : 0) : existingTransaction.repeat_weekly, id]
-    );
+    const fromPot = await getRow('SELECT * FROM savings_pots WHERE id = ?', [outLeg.pot_id]);
+    const toPot = await getRow('SELECT * FROM savings_pots WHERE id = ?', [inLeg.pot_id]);
+    if (!fromPot.isa_type) {
+      const isaError = await checkIsaSubscription(toPot, newAmount, date || inLeg.date, inLeg.id);
+      if (isaError) {
+        return res.status(400).json(isaError);
+      }
+    }
 
-    // Update pot total if amount changed
-    if (amountDiff !== 0) {
-      await runQuery(
-        'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
-        [amountDiff, now, existingTransaction.pot_id]
-      );
+    const isMoved = date && new Date(date).toISOString() !== outLeg.date;
+    const accountError = (isMoved && checkWithdrawal(fromPot, date)) || await checkDeposit(toPot, newAmount, date || inLeg.date, inLeg.id);
+    if (accountError) {
+      return res.status(400).json(accountError);
     }
+    const repeat = resolveRecurrenceColumns({ recurrence, repeatMonthly, repeatWeekly }, outLeg);
+    const now = new Date().toISOString();
 
-    // If pot changed, we need to handle that too (more complex logic needed)
+    await runInTransaction(async () => {
+      await runQuery(
+        `UPDATE transactions SET amount = CASE WHEN amount < 0 THEN ? ELSE ? END, date = ?, description = ?, repeat_monthly = ?, repeat_weekly = ?, recurrence = ?
+         WHERE transfer_id = ?`,
+        [
+          -newAmount,
+          newAmount,
+          date ? new Date(date).toISOString() : outLeg.date,
+          description !== undefined ? description : outLeg.description,
+          repeat.repeatMonthly,
+          repeat.repeatWeekly,
+          repeat.recurrence,
+          transferId
+        ]
+      );
 
-    const updatedTransaction = await getRow('SELECT * FROM transactions WHERE id = ?', [id]);
-    const formattedTransaction = {
-      id: updatedTransaction.id,
-      userId: updatedTransaction.user_id,
-      potId: updatedTransaction.pot_id,
-      amount: updatedTransaction.amount,
-      date: new Date(updatedTransaction.date),
-      description: updatedTransaction.description,
-      repeatMonthly: updatedTransaction.repeat_monthly === 1,
-      repeatWeekly: updatedTransaction.repeat_weekly === 1,
-      createdAt: new Date(updatedTransaction.created_at)
-    };
+      if (amountDiff !== 0) {
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
+          [amountDiff, now, outLeg.pot_id]
+        );
+        await runQuery(
+          'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+          [amountDiff, now, inLeg.pot_id]
+        );
+      }
+    });
 
-    res.json(formattedTransaction);
+    const updated = await getTransferForSender(transferId, userId);
+    res.json(formatTransfer(transferId, updated.outLeg, updated.inLeg));
   } catch (error) {
-    console.error('Error updating transaction:', error);
+    console.error('Error updating transfer:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-router.delete('/transactions/:id', requireAuth, async (req, res) => {
+// Delete a transfer (both legs)
+router.delete('/transfers/:transferId', requireAuth, async (req, res) => {
   try {
-    const { id } = req.params;
+    const { transferId } = req.params;
     const userId = req.user.id;
 
-    const transaction = await getRow('SELECT * FROM transactions WHERE id = ? AND user_id = ?', [id, userId]);
-    if (!transaction) {
-      return res.status(404).json({ error: 'Transaction not found' });
+    const transfer = await getTransferForSender(transferId, userId);
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transfer not found or not authorized' });
     }
 
-    // Update pot total (subtract the transaction amount)
-    await runQuery(
-      'UPDATE savings_pots SET current_total = current_total - ?, updated_at = ? WHERE id = ?',
-      [transaction.amount, new Date().toISOString(), transaction.pot_id]
-    );
-
-    // Delete transaction
-    await runQuery('DELETE FROM transactions WHERE id = ?', [id]);
+    await deleteTransferLegs(transferId);
 
-    res.json({ message: 'Transaction deleted successfully' });
+    res.json({ message: 'Transfer deleted successfully' });
   } catch (error) {
-    console.error('Error deleting transaction:', error);
+    console.error('Error deleting transfer:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -1057,6 +2058,496 @@ router.delete('/budget/streams/:id', requireAuth, async (req, res) => {
   }
 });
 
+// ==================== Household Settings Routes ====================
+// Assumptions shared by the whole household. Missing settings fall back to their defaults.
+
+const HOUSEHOLD_SETTINGS = {
+  inflationRate: {
+    key: 'inflation_rate',
+    defaultValue: 2.5,
+    isValid: value => typeof value === 'number' && value >= 0 && value <= 100
+  },
+  baseCurrency: {
+    key: 'base_currency',
+    defaultValue: DEFAULT_CURRENCY,
+    isValid: isValidCurrency
+  }
+};
+
+async function getHouseholdSettings() {
+  const rows = await getAllRows('SELECT key, value FROM household_settings');
+  const settings = {};
+  for (const [name, setting] of Object.entries(HOUSEHOLD_SETTINGS)) {
+    const row = rows.find(r => r.key === setting.key);
+    settings[name] = row ? JSON.parse(row.value) : setting.defaultValue;
+  }
+  return settings;
+}
+
+// Get household settings
+router.get('/settings', requireAuth, async (req, res) => {
+  try {
+    res.json(await getHouseholdSettings());
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update household settings (any user; only the settings sent are changed)
+router.put('/settings', requireAuth, async (req, res) => {
+  try {
+    const updates = Object.entries(req.body || {}).filter(([name]) => HOUSEHOLD_SETTINGS[name]);
+
+    for (const [name, value] of updates) {
+      if (!HOUSEHOLD_SETTINGS[name].isValid(value)) {
+        return res.status(400).json({ error: `Invalid value for ${name}` });
+      }
+    }
+
+    const now = new Date().toISOString();
+    await runInTransaction(async () => {
+      for (const [name, value] of updates) {
+        await runQuery(
+          `INSERT INTO household_settings (key, value, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+          [HOUSEHOLD_SETTINGS[name].key, JSON.stringify(value), now]
+        );
+      }
+    });
+
+    res.json(await getHouseholdSettings());
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Exchange Rates Routes ====================
+// Exchange rates kept by the household (see currency.js). All users can see and change them.
+
+// Most rates accepted in one request
+const MAX_FX_RATES = 1000;
+
+// Get all exchange rates
+router.get('/fx-rates', requireAuth, async (req, res) => {
+  try {
+    res.json(await getFxRates());
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Save one or more exchange rates (entered by hand or imported). A rate for a pair and day
+// that's already stored is replaced. Returns all rates.
+router.post('/fx-rates', requireAuth, async (req, res) => {
+  try {
+    const { rates } = req.body;
+
+    if (!Array.isArray(rates) || rates.length === 0) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (rates.length > MAX_FX_RATES) {
+      return res.status(400).json({ error: `At most ${MAX_FX_RATES} rates can be saved at once` });
+    }
+
+    const invalidIndex = rates.findIndex(rate => !isValidFxRate(rate));
+    if (invalidIndex !== -1) {
+      return res.status(400).json({ error: `Invalid exchange rate at row ${invalidIndex + 1}` });
+    }
+
+    const now = new Date().toISOString();
+    await runInTransaction(async () => {
+      for (const rate of rates) {
+        await runQuery(
+          `INSERT INTO fx_rates (id, currency, quote_currency, rate, rate_date, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(currency, quote_currency, rate_date) DO UPDATE SET rate = excluded.rate, updated_at = excluded.updated_at`,
+          [uuidv4(), rate.currency, rate.quoteCurrency, rate.rate, rate.rateDate, now]
+        );
+      }
+    });
+
+    res.status(201).json(await getFxRates());
+  } catch (error) {
+    console.error('Error saving exchange rates:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete an exchange rate
+router.delete('/fx-rates/:id', requireAuth, async (req, res) => {
+  try {
+    const result = await runQuery('DELETE FROM fx_rates WHERE id = ?', [req.params.id]);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+    res.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Import Presets Routes ====================
+// Saved column mappings for importing a bank's CSV statements. All users can see all presets.
+
+function formatImportPreset(preset) {
+  return {
+    id: preset.id,
+    userId: preset.user_id,
+    name: preset.name,
+    dateColumn: preset.date_column,
+    amountColumn: preset.amount_column,
+    paidOutColumn: preset.paid_out_column || null,
+    descriptionColumn: preset.description_column || null,
+    dateFormat: preset.date_format,
+    decimalSeparator: preset.decimal_separator || '.',
+    createdAt: new Date(preset.created_at)
+  };
+}
+
+// Get all import presets
+router.get('/import-presets', requireAuth, async (req, res) => {
+  try {
+    const presets = await getAllRows('SELECT * FROM import_presets ORDER BY name ASC');
+    res.json(presets.map(formatImportPreset));
+  } catch (error) {
+    console.error('Error fetching import presets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Save a new import preset
+router.post('/import-presets', requireAuth, async (req, res) => {
+  try {
+    const { name, dateColumn, amountColumn, paidOutColumn, descriptionColumn, dateFormat, decimalSeparator } = req.body;
+
+    if (!name || !dateColumn || !amountColumn) {
+      return res.status(400).json({ error: 'Name, date column and amount column are required' });
+    }
+
+    if (!isValidDateFormat(dateFormat)) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (!isValidDecimalSeparator(decimalSeparator)) {
+      return res.status(400).json({ error: 'Invalid decimal separator' });
+    }
+
+    const id = uuidv4();
+    await runQuery(
+      `INSERT INTO import_presets
+       (id, user_id, name, date_column, amount_column, paid_out_column, description_column, date_format, decimal_separator, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        req.user.id,
+        name,
+        dateColumn,
+        amountColumn,
+        paidOutColumn || null,
+        descriptionColumn || null,
+        dateFormat,
+        decimalSeparator || '.',
+        new Date().toISOString()
+      ]
+    );
+
+    const preset = await getRow('SELECT * FROM import_presets WHERE id = ?', [id]);
+    res.status(201).json(formatImportPreset(preset));
+  } catch (error) {
+    console.error('Error creating import preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete an import preset (only owner can delete)
+router.delete('/import-presets/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const existingPreset = await getRow('SELECT * FROM import_presets WHERE id = ? AND user_id = ?', [id, req.user.id]);
+    if (!existingPreset) {
+      return res.status(404).json({ error: 'Preset not found or not authorized' });
+    }
+
+    await runQuery('DELETE FROM import_presets WHERE id = ?', [id]);
+    res.json({ message: 'Preset deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting import preset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the pots the user's statement accounts import into
+router.get('/statement-accounts', requireAuth, async (req, res) => {
+  try {
+    const links = await getAllRows(
+      `SELECT sa.account_id, sa.pot_id FROM statement_accounts sa
+       JOIN savings_pots sp ON sp.id = sa.pot_id
+       WHERE sa.user_id = ?`,
+      [req.user.id]
+    );
+    res.json(links.map(link => ({ accountId: link.account_id, potId: link.pot_id })));
+  } catch (error) {
+    console.error('Error fetching statement accounts:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Balance History Routes ====================
+// What each pot actually held in the past, from balance_snapshots, for pots whose history the
+// user can see (see visibility.js).
+
+// Get each pot's closing balance for every day it has a snapshot, optionally from a YYYY-MM-DD date
+router.get('/balance-history', requireAuth, async (req, res) => {
+  try {
+    const { from } = req.query;
+    if (from !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return res.status(400).json({ error: 'Invalid from date' });
+    }
+
+    // Snapshots are recorded in UTC, so start a day early to cover local midnight
+    const since = from ? new Date(new Date(`${from}T00:00:00`).getTime() - 86400000).toISOString() : '';
+    const snapshots = await getAllRows(
+      `SELECT s.pot_id, s.balance, s.recorded_at FROM balance_snapshots s
+       JOIN savings_pots sp ON s.pot_id = sp.id
+       WHERE s.recorded_at >= ? AND ${potDetailsVisibleSql('sp')}
+       ORDER BY s.recorded_at ASC`,
+      [since, req.user.id]
+    );
+
+    // The last snapshot of each local day is that day's closing balance
+    const byPotAndDay = new Map();
+    for (const snapshot of snapshots) {
+      const date = toDayKey(new Date(snapshot.recorded_at));
+      if (from && date < from) continue;
+      byPotAndDay.set(`${snapshot.pot_id}|${date}`, { potId: snapshot.pot_id, date, balance: snapshot.balance });
+    }
+
+    res.json(Array.from(byPotAndDay.values()));
+  } catch (error) {
+    console.error('Error fetching balance history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Scenarios Routes ====================
+// Saved what-if scenarios for the projections chart. All users can see all scenarios
+// (collaborative feature); only the owner can change them. Nothing here touches real data.
+
+const SCENARIO_PAYMENT_KINDS = ['deposit', 'withdrawal'];
+
+// A change is either a hypothetical payment (one-off, or recurring with a rule) or an
+// interest rate override for a pot
+function isValidScenarioChange(change) {
+  if (!change || typeof change !== 'object' || typeof change.potId !== 'string') return false;
+  if (change.type === 'interest-rate') {
+    return typeof change.interestRate === 'number' && change.interestRate >= 0 && change.interestRate <= 100;
+  }
+  if (change.type === 'payment') {
+    return SCENARIO_PAYMENT_KINDS.includes(change.kind) &&
+      typeof change.amount === 'number' && change.amount > 0 &&
+      typeof change.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(change.date) &&
+      isValidRecurrence(change.recurrence);
+  }
+  return false;
+}
+
+function isValidScenarioChanges(changes) {
+  return Array.isArray(changes) && changes.every(isValidScenarioChange);
+}
+
+function formatScenario(scenario) {
+  return {
+    id: scenario.id,
+    userId: scenario.user_id,
+    name: scenario.name,
+    changes: JSON.parse(scenario.changes),
+    createdAt: new Date(scenario.created_at),
+    updatedAt: new Date(scenario.updated_at)
+  };
+}
+
+// Get all scenarios
+router.get('/scenarios', requireAuth, async (req, res) => {
+  try {
+    const scenarios = await getAllRows('SELECT * FROM scenarios ORDER BY name ASC');
+    res.json(scenarios.map(formatScenario));
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a new scenario
+router.post('/scenarios', requireAuth, async (req, res) => {
+  try {
+    const { name, changes } = req.body;
+    const userId = req.user.id;
+
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    if (!isValidScenarioChanges(changes)) {
+      return res.status(400).json({ error: 'Invalid scenario changes' });
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    await runQuery(
+      'INSERT INTO scenarios (id, user_id, name, changes, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, userId, name, JSON.stringify(changes), now, now]
+    );
+
+    const scenario = await getRow('SELECT * FROM scenarios WHERE id = ?', [id]);
+    res.status(201).json(formatScenario(scenario));
+  } catch (error) {
+    console.error('Error creating scenario:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a scenario (only owner can update)
+router.put('/scenarios/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, changes } = req.body;
+    const userId = req.user.id;
+
+    const existingScenario = await getRow('SELECT * FROM scenarios WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!existingScenario) {
+      return res.status(404).json({ error: 'Scenario not found or not authorized' });
+    }
+
+    if (changes !== undefined && !isValidScenarioChanges(changes)) {
+      return res.status(400).json({ error: 'Invalid scenario changes' });
+    }
+
+    const now = new Date().toISOString();
+
+    await runQuery(
+      'UPDATE scenarios SET name = ?, changes = ?, updated_at = ? WHERE id = ?',
+      [
+        name || existingScenario.name,
+        changes !== undefined ? JSON.stringify(changes) : existingScenario.changes,
+        now,
+        id
+      ]
+    );
+
+    const updatedScenario = await getRow('SELECT * FROM scenarios WHERE id = ?', [id]);
+    res.json(formatScenario(updatedScenario));
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a scenario (only owner can delete)
+router.delete('/scenarios/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    const scenario = await getRow('SELECT * FROM scenarios WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!scenario) {
+      return res.status(404).json({ error: 'Scenario not found or not authorized' });
+    }
+
+    await runQuery('DELETE FROM scenarios WHERE id = ?', [id]);
+
+    res.json({ message: 'Scenario deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Integrity Routes ====================
+// Check that every pot's total still matches its ledger and look for orphaned rows.
+// Any user can check the whole household; only backup admins can repair all of it (see integrity.js).
+
+// List any problems found
+router.get('/integrity', requireAuth, async (req, res) => {
+  try {
+    res.json(await filterIntegrityReport(await checkIntegrity(), req.user.id));
+  } catch (error) {
+    console.error('Error checking integrity:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Fix the problems found, then return what was repaired and a fresh check
+router.post('/integrity/repair', requireAuth, async (req, res) => {
+  try {
+    console.log('🔧 Integrity repair triggered by user:', req.user.name);
+    const repaired = await filterIntegrityReport(
+      await repairIntegrity(req.user.canManageBackups ? null : req.user.id),
+      req.user.id
+    );
+    res.json({ repaired, integrity: await filterIntegrityReport(await checkIntegrity(), req.user.id) });
+  } catch (error) {
+    console.error('Error repairing integrity:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ==================== Backup Routes ====================
+// Download everything as one JSON file, or replace everything from one. Covers the
+// whole household, private accounts included, so only backup admins can use them.
+
+// Only backup admins (see backup.js) get past this
+const requireBackupAdmin = (req, res, next) => {
+  if (!req.user.canManageBackups) {
+    return res.status(403).json({ error: 'Only backup admins can download or restore backups' });
+  }
+  next();
+};
+
+// Download a full backup
+router.get('/backup', requireAuth, requireBackupAdmin, async (req, res) => {
+  try {
+    const backup = await createBackup();
+    res.setHeader('Content-Disposition', `attachment; filename="${getBackupFileName(new Date(backup.createdAt))}"`);
+    res.json(backup);
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace all data with a backup (the request body). Nothing changes if it can't be restored.
+router.post('/backup/restore', requireAuth, requireBackupAdmin, async (req, res) => {
+  try {
+    const backup = req.body;
+    const validationError = validateBackup(backup);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    console.log('♻️  Restore from backup taken', backup.createdAt, 'triggered by user:', req.user.name);
+    let restored;
+    try {
+      restored = await restoreBackup(backup);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      return res.status(400).json({ error: 'Backup could not be restored', details: error.message });
+    }
+
+    // Sign out anyone whose user isn't in the restored data
+    await runQuery('DELETE FROM sessions WHERE user_id NOT IN (SELECT id FROM users)');
+
+    res.json({ restored, createdAt: backup.createdAt || null });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // ==================== Scheduler & Notifications Routes ====================
 // Admin routes for managing recurring transaction processing
 
@@ -1067,37 +2558,41 @@ router.get('/scheduler/status', requireAuth, async (req, res) => {
     
     // Get count of pending recurring transactions for today
     const today = new Date();
-    const todayDayOfWeek = today.getDay();
-    const todayDayOfMonth = today.getDate();
     
     const recurringTransactions = await getAllRows(
       `SELECT t.*, sp.name as pot_name, u.name as user_name
        FROM transactions t
        JOIN savings_pots sp ON t.pot_id = sp.id
        JOIN users u ON t.user_id = u.id
-       WHERE t.repeat_monthly = 1 OR t.repeat_weekly = 1`
+       WHERE t.recurrence IS NOT NULL OR t.repeat_monthly = 1 OR t.repeat_weekly = 1`
     );
     
-    // Count how many would be due today
+    const exceptions = await getAllRows('SELECT * FROM recurrence_exceptions');
+    
+    // Count how many would be due today (after skipped/moved occurrences)
     let dueTodayCount = 0;
     for (const tx of recurringTransactions) {
-      const txDate = new Date(tx.date);
-      if (tx.repeat_weekly === 1 && txDate.getDay() === todayDayOfWeek) {
-        dueTodayCount++;
-      }
-      if (tx.repeat_monthly === 1 && txDate.getDate() === todayDayOfMonth) {
-        dueTodayCount++;
+      // A recurring transfer is one payment even though it has two legs
+      if (tx.transfer_id && tx.amount > 0) continue;
+      const rule = getRecurrenceRule(tx);
+      if (rule) {
+        const txExceptions = exceptions.filter(e => e.transaction_id === tx.id);
+        dueTodayCount += getDueOccurrences(rule, new Date(tx.date), txExceptions, today).length;
       }
     }
     
+    const lastSuccessfulRun = await getLastSuccessfulRun();
+    
     // Get recently processed records
     const recentlyProcessed = await getAllRows(
       `SELECT pr.*, t.description, t.amount, sp.name as pot_name
        FROM processed_recurring pr
        JOIN transactions t ON pr.original_transaction_id = t.id
        JOIN savings_pots sp ON t.pot_id = sp.id
+       WHERE ${potDetailsVisibleSql('sp')}
        ORDER BY pr.processed_at DESC
-       LIMIT 20`
+       LIMIT 20`,
+      [req.user.id]
     );
     
     res.json({
@@ -1105,6 +2600,7 @@ router.get('/scheduler/status', requireAuth, async (req, res) => {
       scheduler: {
         recurringCount: recurringTransactions.length,
         dueToday: dueTodayCount,
+        lastSuccessfulRun: lastSuccessfulRun ? toDayKey(lastSuccessfulRun) : null,
         cronSchedule: process.env.SCHEDULER_CRON || '0 6 * * *'
       },
       recentlyProcessed: recentlyProcessed.map(r => ({
@@ -1129,10 +2625,16 @@ router.post('/scheduler/process', requireAuth, async (req, res) => {
     
     const results = await runProcessingCycle();
     
+    // Only counts: the cycle covers every user's pots, private ones included
     res.json({
       success: true,
       message: `Processed ${results.processed.length} transaction(s)`,
-      results
+      results: {
+        processed: results.processed.length,
+        reminded: results.reminded.length,
+        snapshots: results.snapshots,
+        errors: results.errors.length
+      }
     });
   } catch (error) {
     console.error('Error in manual processing:', error);
@@ -2,31 +2,47 @@
  * Scheduler Module for Savings Tracker
  * 
  * Handles:
- * 1. Daily processing of recurring transactions
- * 2. Updating savings pot totals
- * 3. Sending notifications via Home Assistant
+ * 1. Daily processing of recurring transactions (catching up on days missed while stopped)
+ * 2. Daily interest accrual and periodic interest payments
+ * 3. Monthly Lifetime ISA government bonuses
+ * 4. Reminders ahead of fixed-term accounts maturing
+ * 5. Updating savings pot totals
+ * 6. Daily balance snapshots for balance history
+ * 7. Daily backups to /data, rotated so only the newest are kept
+ * 8. Sending notifications via Home Assistant, in the household's locale
  */
 
+const fs = require('fs');
+const path = require('path');
 const cron = require('node-cron');
 const { v4: uuidv4 } = require('uuid');
-const { runQuery, getRow, getAllRows } = require('./database');
+const { runQuery, getRow, getAllRows, runInTransaction } = require('./database');
 const { sendNotification } = require('./notifications');
+const { normalizeKind, getSignedAmount, insertTransferLegs } = require('./ledger');
+const { toDateKey, getDailyInterest, getPaymentPeriodStart } = require('./interest');
+const { toDayKey, getRecurrenceRule, getDueOccurrences } = require('./recurrence');
+const { getPreviousMonthKey, getUnpaidBonuses } = require('./lisa');
+const { getTaxYear } = require('./isa');
+const { MATURITY_REMINDER_DAYS, getMaturityDate, hasMatured, addDaysToKey } = require('./accounts');
+const { writeBackupFile, getBackupConfig } = require('./backup');
+const { DEFAULT_CURRENCY, formatMoney } = require('./currency');
+const { translate, formatDateKey } = require('./locale');
 
 // Track if scheduler is running
 let schedulerRunning = false;
 
-/**
- * Get day of week (0 = Sunday, 6 = Saturday)
- */
-function getDayOfWeek(date) {
-  return date.getDay();
-}
+// How far back a catch-up run will go after a long outage
+const MAX_CATCH_UP_DAYS = 366;
 
-/**
- * Get day of month (1-31)
- */
-function getDayOfMonth(date) {
-  return date.getDate();
+// Queue so only one processing cycle (cron, catch-up or manual) runs at a time
+let cycleQueue = Promise.resolve();
+
+function runExclusively(work) {
+  const result = cycleQueue.then(work);
+
+  // Keep the queue moving even if this cycle failed
+  cycleQueue = result.catch(() => {});
+  return result;
 }
 
 /**
@@ -58,97 +74,189 @@ async function markAsProcessed(originalTransactionId, instanceDate, newTransacti
 }
 
 /**
- * Process all due recurring transactions for today
- * Returns summary of processed transactions
+ * Post one occurrence of a recurring payment: the transaction, the pot total and the
+ * processed_recurring marker in a single database transaction.
+ * `instanceDate` is the occurrence's scheduled date and `postDate` the day it's actually
+ * posted (they differ when it was moved). Returns the new transaction's id, or null if
+ * the occurrence had already been posted.
  */
-async function processRecurringTransactions() {
-  const today = new Date();
-  today.setHours(12, 0, 0, 0); // Normalize to noon
-  
-  const todayDayOfWeek = getDayOfWeek(today);
-  const todayDayOfMonth = getDayOfMonth(today);
-  
-  console.log(`🔄 Processing recurring transactions for ${today.toDateString()}`);
-  console.log(`   Day of week: ${todayDayOfWeek}, Day of month: ${todayDayOfMonth}`);
-  
-  const processed = [];
-  const errors = [];
-  
-  try {
-    // Get all recurring transactions
-    const recurringTransactions = await getAllRows(
-      `SELECT t.*, sp.name as pot_name, u.name as user_name
-       FROM transactions t
-       JOIN savings_pots sp ON t.pot_id = sp.id
-       JOIN users u ON t.user_id = u.id
-       WHERE t.repeat_monthly = 1 OR t.repeat_weekly = 1`
+async function processRecurringPayment(recurring, instanceDate, postDate, kind, amount) {
+  const newTransactionId = uuidv4();
+  const now = new Date().toISOString();
+
+  return runInTransaction(async () => {
+    // Checked again inside the transaction, as another run may have posted it since
+    if (await hasBeenProcessed(recurring.id, instanceDate)) return null;
+
+    await runQuery(
+      `INSERT INTO transactions 
+       (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, kind, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?, ?)`,
+      [
+        newTransactionId,
+        recurring.user_id,
+        recurring.pot_id,
+        amount,
+        postDate.toISOString(),
+        recurring.description ? `${recurring.description} (auto)` : 'Auto-processed recurring payment',
+        kind,
+        now
+      ]
     );
-    
-    console.log(`   Found ${recurringTransactions.length} recurring transaction(s)`);
-    
-    for (const recurring of recurringTransactions) {
-      try {
-        const originalDate = new Date(recurring.date);
-        let shouldProcess = false;
+
+    // Update pot total (withdrawals reduce the balance)
+    await runQuery(
+      `UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?`,
+      [getSignedAmount(kind, amount), now, recurring.pot_id]
+    );
+
+    // Mark as processed (against the scheduled date, so a moved occurrence is only posted once)
+    await markAsProcessed(recurring.id, instanceDate, newTransactionId);
+    return newTransactionId;
+  });
+}
+
+/**
+ * Post one occurrence of a recurring transfer: both legs, both pot totals and both
+ * processed_recurring markers in a single database transaction.
+ * `outLeg` is the recurring template's negative leg; `instanceDate` is the occurrence's
+ * scheduled date and `postDate` the day it's actually posted (they differ when it was moved).
+ * Returns null if the occurrence had already been posted.
+ */
+async function processRecurringTransfer(outLeg, instanceDate, postDate, amount) {
+  const inLeg = await getRow(
+    `SELECT t.*, sp.name as pot_name FROM transactions t
+     JOIN savings_pots sp ON t.pot_id = sp.id
+     WHERE t.transfer_id = ? AND t.id != ?`,
+    [outLeg.transfer_id, outLeg.id]
+  );
+  if (!inLeg) {
+    throw new Error(`Transfer ${outLeg.transfer_id} is missing its destination leg`);
+  }
+
+  const posted = await runInTransaction(async () => {
+    // Checked again inside the transaction, as another run may have posted it since
+    if (await hasBeenProcessed(outLeg.id, instanceDate)) return false;
+
+    const { outId, inId } = await insertTransferLegs({
+      fromPot: { id: outLeg.pot_id, user_id: outLeg.user_id },
+      toPot: { id: inLeg.pot_id, user_id: inLeg.user_id },
+      amount,
+      date: postDate.toISOString(),
+      description: outLeg.description ? `${outLeg.description} (auto)` : 'Auto-processed recurring transfer'
+    });
+    await markAsProcessed(outLeg.id, instanceDate, outId);
+    await markAsProcessed(inLeg.id, instanceDate, inId);
+    return true;
+  });
+  if (!posted) return null;
+
+  const updatedPot = await getRow('SELECT current_total FROM savings_pots WHERE id = ?', [outLeg.pot_id]);
+
+  return {
+    amount,
+    toPotName: inLeg.pot_name,
+    newTotal: updatedPot?.current_total || 0
+  };
+}
+
+/**
+ * Get the last day recurring transactions were processed without errors (null if never)
+ */
+async function getLastSuccessfulRun() {
+  const row = await getRow('SELECT value FROM scheduler_state WHERE key = ?', ['last_successful_run']);
+  return row ? new Date(`${row.value}T12:00:00`) : null;
+}
+
+/**
+ * Remember the last day recurring transactions were processed without errors
+ */
+async function setLastSuccessfulRun(date) {
+  await runQuery(
+    `INSERT INTO scheduler_state (key, value, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    ['last_successful_run', toDayKey(date), new Date().toISOString()]
+  );
+}
+
+/**
+ * Post the occurrences of each recurring transaction due on `day`.
+ * Occurrences are dated `day`, so a missed payment shows up on the day it was due.
+ */
+async function processRecurringForDay(recurringTransactions, exceptionsByTransaction, day, processed, errors) {
+  // Only set for backfilled days, so notifications can say the payment was late
+  const catchUpDate = toDayKey(day) !== toDayKey(new Date()) ? toDayKey(day) : null;
+  
+  for (const recurring of recurringTransactions) {
+    try {
+      const rule = getRecurrenceRule(recurring);
+      if (!rule) continue;
+      
+      // Transfers are posted as a pair from the out leg; skip the in leg
+      if (recurring.transfer_id && recurring.amount > 0) continue;
+      
+      // When catching up, don't post occurrences from before the series was set up
+      if (toDayKey(day) < toDayKey(new Date(recurring.created_at))) continue;
+      
+      // Occurrence 0 is the original transaction, which is already in the pot's total.
+      // Skipped/moved occurrences and amount overrides come from the series' exceptions.
+      const exceptions = exceptionsByTransaction.get(recurring.id) || [];
+      const dueOccurrences = getDueOccurrences(rule, new Date(recurring.date), exceptions, day);
+      
+      const daysException = exceptions.find(e => e.occurrence_date === toDayKey(day));
+      if (daysException && (daysException.skipped || daysException.moved_to)) {
+        console.log(`   ⏭️  ${daysException.skipped ? 'Skipped' : `Moved to ${daysException.moved_to}`}: ${recurring.description || 'Payment'} (${recurring.pot_name})`);
+      }
+      
+      for (const occurrence of dueOccurrences) {
+        const instanceDate = occurrence.scheduledDate;
+        const isMoved = toDayKey(instanceDate) !== toDayKey(day);
         
-        // Check if this transaction should occur today
-        if (recurring.repeat_weekly === 1) {
-          // Weekly: check if today is the same day of week
-          const originalDayOfWeek = getDayOfWeek(originalDate);
-          shouldProcess = todayDayOfWeek === originalDayOfWeek;
-          
-          if (shouldProcess) {
-            console.log(`   📅 Weekly match: ${recurring.description || 'Payment'} (${recurring.pot_name})`);
-          }
+        console.log(`   📅 ${rule.frequency} match${isMoved ? ` (moved from ${toDayKey(instanceDate)})` : ''}: ${recurring.description || 'Payment'} (${recurring.pot_name})`);
+        
+        // Check if this occurrence has already been processed
+        const alreadyProcessed = await hasBeenProcessed(recurring.id, instanceDate);
+        if (alreadyProcessed) {
+          console.log(`   ⏭️  Already processed: ${recurring.description || 'Payment'}`);
+          continue;
         }
         
-        if (recurring.repeat_monthly === 1) {
-          // Monthly: check if today is the same day of month
-          const originalDayOfMonth = getDayOfMonth(originalDate);
-          shouldProcess = todayDayOfMonth === originalDayOfMonth;
-          
-          if (shouldProcess) {
-            console.log(`   📅 Monthly match: ${recurring.description || 'Payment'} (${recurring.pot_name})`);
+        if (recurring.transfer_id) {
+          const transferAmount = occurrence.amount != null ? occurrence.amount : Math.abs(recurring.amount);
+          const transfer = await processRecurringTransfer(recurring, instanceDate, day, transferAmount);
+          if (!transfer) {
+            console.log(`   ⏭️  Already processed: ${recurring.description || 'Payment'}`);
+            continue;
           }
+          processed.push({
+            transactionId: recurring.transfer_id,
+            originalId: recurring.id,
+            userId: recurring.user_id,
+            userName: recurring.user_name,
+            potId: recurring.pot_id,
+            potName: `${recurring.pot_name} → ${transfer.toPotName}`,
+            currency: recurring.pot_currency || DEFAULT_CURRENCY,
+            amount: transfer.amount,
+            signedAmount: 0,
+            kind: 'transfer',
+            description: recurring.description,
+            type: rule.frequency,
+            catchUpDate,
+            newTotal: transfer.newTotal
+          });
+          console.log(`   ✅ Processed transfer: ${formatMoney(transfer.amount, recurring.pot_currency)} ${recurring.pot_name} → ${transfer.toPotName}`);
+          continue;
         }
         
-        if (!shouldProcess) continue;
-        
-        // Check if already processed today
-        const alreadyProcessed = await hasBeenProcessed(recurring.id, today);
-        if (alreadyProcessed) {
+        // Create new transaction instance (same kind as the recurring template)
+        const kind = normalizeKind(recurring.kind);
+        const amount = occurrence.amount != null ? occurrence.amount : recurring.amount;
+        const newTransactionId = await processRecurringPayment(recurring, instanceDate, day, kind, amount);
+        if (!newTransactionId) {
           console.log(`   ⏭️  Already processed: ${recurring.description || 'Payment'}`);
           continue;
         }
         
-        // Create new transaction instance
-        const newTransactionId = uuidv4();
-        const now = new Date().toISOString();
-        
-        await runQuery(
-          `INSERT INTO transactions 
-           (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, created_at)
-           VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?)`,
-          [
-            newTransactionId,
-            recurring.user_id,
-            recurring.pot_id,
-            recurring.amount,
-            today.toISOString(),
-            recurring.description ? `${recurring.description} (auto)` : 'Auto-processed recurring payment',
-            now
-          ]
-        );
-        
-        // Update pot total
-        await runQuery(
-          `UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?`,
-          [recurring.amount, now, recurring.pot_id]
-        );
-        
-        // Mark as processed
-        await markAsProcessed(recurring.id, today, newTransactionId);
-        
         // Get updated pot total
         const updatedPot = await getRow('SELECT current_total FROM savings_pots WHERE id = ?', [recurring.pot_id]);
         
@@ -159,31 +267,496 @@ async function processRecurringTransactions() {
           userName: recurring.user_name,
           potId: recurring.pot_id,
           potName: recurring.pot_name,
-          amount: recurring.amount,
+          currency: recurring.pot_currency || DEFAULT_CURRENCY,
+          amount,
+          signedAmount: getSignedAmount(kind, amount),
+          kind,
           description: recurring.description,
-          type: recurring.repeat_weekly === 1 ? 'weekly' : 'monthly',
+          type: rule.frequency,
+          catchUpDate,
           newTotal: updatedPot?.current_total || 0
         });
         
-        console.log(`   ✅ Processed: £${recurring.amount.toFixed(2)} → ${recurring.pot_name}`);
-        
+        console.log(`   ✅ Processed ${kind}: ${formatMoney(amount, recurring.pot_currency)} ${kind === 'withdrawal' ? '←' : '→'} ${recurring.pot_name}`);
+      }
+      
+    } catch (error) {
+      console.error(`   ❌ Error processing transaction ${recurring.id}:`, error.message);
+      errors.push({
+        transactionId: recurring.id,
+        error: error.message
+      });
+    }
+  }
+}
+
+/**
+ * Process all due recurring transactions, catching up on any days missed since the
+ * last successful run (e.g. the add-on was stopped, or HA restarted during the cron slot).
+ * Backfilling is idempotent: processed_recurring records every posted occurrence.
+ * @param {Date} through - Last day to process (default: today)
+ * Returns summary of processed transactions
+ */
+async function processRecurringTransactions(through = new Date()) {
+  const today = new Date(through);
+  today.setHours(12, 0, 0, 0); // Normalize to noon
+  
+  const processed = [];
+  const errors = [];
+  
+  try {
+    // Start the day after the last successful run (just today on the very first run)
+    const lastRun = await getLastSuccessfulRun();
+    const firstDay = new Date(today);
+    if (lastRun && lastRun < today) {
+      firstDay.setTime(lastRun.getTime());
+      firstDay.setDate(firstDay.getDate() + 1);
+    }
+    const earliest = new Date(today);
+    earliest.setDate(earliest.getDate() - MAX_CATCH_UP_DAYS);
+    if (firstDay < earliest) {
+      console.log(`   ⚠️  Last run was over ${MAX_CATCH_UP_DAYS} days ago; only catching up from ${earliest.toDateString()}`);
+      firstDay.setTime(earliest.getTime());
+    }
+    
+    if (toDayKey(firstDay) === toDayKey(today)) {
+      console.log(`🔄 Processing recurring transactions for ${today.toDateString()}`);
+    } else {
+      console.log(`🔄 Processing recurring transactions from ${firstDay.toDateString()} to ${today.toDateString()} (catching up)`);
+    }
+    
+    // Get all recurring transactions
+    const recurringTransactions = await getAllRows(
+      `SELECT t.*, sp.name as pot_name, sp.currency as pot_currency, u.name as user_name
+       FROM transactions t
+       JOIN savings_pots sp ON t.pot_id = sp.id
+       JOIN users u ON t.user_id = u.id
+       WHERE t.recurrence IS NOT NULL OR t.repeat_monthly = 1 OR t.repeat_weekly = 1`
+    );
+    
+    console.log(`   Found ${recurringTransactions.length} recurring transaction(s)`);
+    
+    const exceptionsByTransaction = new Map();
+    for (const exception of await getAllRows('SELECT * FROM recurrence_exceptions')) {
+      const exceptions = exceptionsByTransaction.get(exception.transaction_id) || [];
+      exceptions.push(exception);
+      exceptionsByTransaction.set(exception.transaction_id, exceptions);
+    }
+    
+    for (const day = new Date(firstDay); day <= today; day.setDate(day.getDate() + 1)) {
+      await processRecurringForDay(recurringTransactions, exceptionsByTransaction, new Date(day), processed, errors);
+    }
+    
+    // Only move the marker on when everything succeeded, so failed days are retried next run
+    if (errors.length === 0) {
+      await setLastSuccessfulRun(today);
+    }
+    
+  } catch (error) {
+    console.error('❌ Error in processRecurringTransactions:', error);
+    errors.push({ error: error.message });
+  }
+  
+  return { processed, errors, date: today.toISOString() };
+}
+
+/**
+ * Record a day's interest for every day since the pot's last accrual, up to and including today.
+ * Each day is keyed by (pot_id, accrual_date) so re-running never accrues the same day twice.
+ * Days missed while the scheduler wasn't running use today's balance.
+ * Nothing accrues from a pot's maturity date onwards.
+ */
+async function accrueInterest(pot, today) {
+  const todayKey = toDateKey(today);
+  const last = await getRow(
+    'SELECT MAX(accrual_date) as last_date FROM interest_accruals WHERE pot_id = ?',
+    [pot.id]
+  );
+
+  const day = new Date(today);
+  if (last && last.last_date) {
+    if (last.last_date >= todayKey) return 0;
+    day.setTime(new Date(`${last.last_date}T12:00:00.000Z`).getTime());
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  const dailyAmount = getDailyInterest(pot.current_total, pot.interest_rate);
+  const now = new Date().toISOString();
+  let accrued = 0;
+
+  while (toDateKey(day) <= todayKey && !hasMatured(pot, toDateKey(day))) {
+    await runQuery(
+      `INSERT OR IGNORE INTO interest_accruals
+       (id, pot_id, accrual_date, balance, amount, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), pot.id, toDateKey(day), pot.current_total, dailyAmount, now]
+    );
+    accrued += dailyAmount;
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return accrued;
+}
+
+/**
+ * Pay all unpaid accruals from previous payment periods into the pot as one interest transaction.
+ * The transaction, pot total and accrual links are written together, so a payment can't be posted twice.
+ * Returns null when nothing (or less than a penny) is due; the remainder rolls into the next period.
+ * Once a pot has matured, everything it accrued is due.
+ */
+async function payAccruedInterest(pot, today) {
+  const periodStart = hasMatured(pot, toDateKey(today))
+    ? getMaturityDate(pot)
+    : getPaymentPeriodStart(pot.interest_payment, pot.created_at, today);
+  const due = await getRow(
+    `SELECT COUNT(*) as count, SUM(amount) as total FROM interest_accruals
+     WHERE pot_id = ? AND paid_transaction_id IS NULL AND accrual_date < ?`,
+    [pot.id, periodStart]
+  );
+
+  const amount = Math.round((due?.total || 0) * 100) / 100;
+  if (!due || due.count === 0 || amount <= 0) return null;
+
+  const transactionId = uuidv4();
+  const now = new Date().toISOString();
+
+  await runInTransaction(async () => {
+    await runQuery(
+      `INSERT INTO transactions
+       (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, kind, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 0, 0, 'interest', ?)`,
+      [
+        transactionId,
+        pot.user_id,
+        pot.id,
+        amount,
+        today.toISOString(),
+        pot.interest_payment === 'annual' ? 'Annual interest (auto)' : 'Monthly interest (auto)',
+        now
+      ]
+    );
+    await runQuery(
+      'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+      [amount, now, pot.id]
+    );
+    await runQuery(
+      `UPDATE interest_accruals SET paid_transaction_id = ?
+       WHERE pot_id = ? AND paid_transaction_id IS NULL AND accrual_date < ?`,
+      [transactionId, pot.id, periodStart]
+    );
+  });
+
+  const updatedPot = await getRow('SELECT current_total FROM savings_pots WHERE id = ?', [pot.id]);
+
+  return {
+    transactionId,
+    amount,
+    newTotal: updatedPot?.current_total || 0
+  };
+}
+
+/**
+ * Accrue today's interest on every pot with a payment frequency set, and pay out any that is due.
+ * Returns summary of interest payments posted
+ */
+async function processInterest() {
+  const today = new Date();
+  today.setHours(12, 0, 0, 0); // Normalize to noon
+
+  console.log(`💷 Accruing interest for ${today.toDateString()}`);
+
+  const processed = [];
+  const errors = [];
+
+  try {
+    const pots = await getAllRows(
+      `SELECT sp.*, u.name as user_name
+       FROM savings_pots sp
+       JOIN users u ON sp.user_id = u.id
+       WHERE sp.interest_payment IS NOT NULL AND sp.interest_rate > 0`
+    );
+
+    console.log(`   Found ${pots.length} interest-bearing pot(s)`);
+
+    for (const pot of pots) {
+      try {
+        const accrued = await accrueInterest(pot, today);
+        if (accrued > 0) {
+          console.log(`   📈 Accrued ${pot.currency || DEFAULT_CURRENCY} ${accrued.toFixed(4)} on ${pot.name}`);
+        }
+
+        const payment = await payAccruedInterest(pot, today);
+        if (!payment) continue;
+
+        processed.push({
+          transactionId: payment.transactionId,
+          originalId: null,
+          userId: pot.user_id,
+          userName: pot.user_name,
+          potId: pot.id,
+          potName: pot.name,
+          currency: pot.currency || DEFAULT_CURRENCY,
+          amount: payment.amount,
+          signedAmount: payment.amount,
+          kind: 'interest',
+          description: null,
+          type: pot.interest_payment,
+          newTotal: payment.newTotal
+        });
+
+        console.log(`   ✅ Paid interest: ${formatMoney(payment.amount, pot.currency)} → ${pot.name}`);
       } catch (error) {
-        console.error(`   ❌ Error processing transaction ${recurring.id}:`, error.message);
+        console.error(`   ❌ Error processing interest for pot ${pot.id}:`, error.message);
         errors.push({
-          transactionId: recurring.id,
+          potId: pot.id,
           error: error.message
         });
       }
     }
-    
   } catch (error) {
-    console.error('❌ Error in processRecurringTransactions:', error);
+    console.error('❌ Error in processInterest:', error);
     errors.push({ error: error.message });
   }
-  
+
+  return { processed, errors, date: today.toISOString() };
+}
+
+/**
+ * Pay the government bonus on last month's subscriptions into each Lifetime ISA, along with
+ * any earlier months missed while the scheduler wasn't running (back to the start of last
+ * month's tax year). Each pot's month is recorded in lisa_bonuses alongside the bonus
+ * transaction, so later runs don't pay it again. Every month without a record is checked
+ * (see getUnpaidBonuses), and months with nothing to pay aren't recorded, so a deposit
+ * backdated into one of them earns its bonus on the next run.
+ * @param {Date} through - Day the bonuses are paid on (default: today)
+ */
+async function processLisaBonuses(through = new Date()) {
+  const today = new Date(through);
+  today.setHours(12, 0, 0, 0); // Normalize to noon
+  const lastMonth = getPreviousMonthKey(today);
+  const earliestMonth = getTaxYear(`${lastMonth}-01T12:00:00`).start.slice(0, 7);
+
+  console.log(`🎁 Checking Lifetime ISA bonuses up to ${lastMonth}`);
+
+  const processed = [];
+  const errors = [];
+
+  try {
+    const pots = await getAllRows(
+      `SELECT sp.*, u.name as user_name, u.date_of_birth
+       FROM savings_pots sp
+       JOIN users u ON sp.user_id = u.id
+       WHERE sp.isa_type = 'lifetime'`
+    );
+
+    for (const pot of pots) {
+      let bonuses;
+      try {
+        bonuses = await getUnpaidBonuses(pot, pot.date_of_birth, earliestMonth, lastMonth);
+      } catch (error) {
+        console.error(`   ❌ Error checking LISA bonuses for pot ${pot.id}:`, error.message);
+        errors.push({
+          potId: pot.id,
+          error: error.message
+        });
+        continue;
+      }
+
+      for (const { month, ...bonus } of bonuses) {
+        try {
+          const transactionId = uuidv4();
+          const now = new Date().toISOString();
+
+          await runInTransaction(async () => {
+            await runQuery(
+              `INSERT INTO transactions
+               (id, user_id, pot_id, amount, date, description, repeat_monthly, repeat_weekly, kind, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, 0, 0, 'bonus', ?)`,
+              [transactionId, pot.user_id, pot.id, bonus.amount, today.toISOString(), `LISA bonus for ${month} (auto)`, now]
+            );
+            await runQuery(
+              'UPDATE savings_pots SET current_total = current_total + ?, updated_at = ? WHERE id = ?',
+              [bonus.amount, now, pot.id]
+            );
+            await runQuery(
+              `INSERT INTO lisa_bonuses (id, pot_id, month, contributions, amount, transaction_id, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`,
+              [uuidv4(), pot.id, month, bonus.contributions, bonus.amount, transactionId, now]
+            );
+          });
+
+          const updatedPot = await getRow('SELECT current_total FROM savings_pots WHERE id = ?', [pot.id]);
+          processed.push({
+            transactionId,
+            originalId: null,
+            userId: pot.user_id,
+            userName: pot.user_name,
+            potId: pot.id,
+            potName: pot.name,
+            currency: pot.currency || DEFAULT_CURRENCY,
+            amount: bonus.amount,
+            signedAmount: bonus.amount,
+            kind: 'bonus',
+            description: null,
+            type: 'monthly',
+            newTotal: updatedPot?.current_total || 0
+          });
+
+          console.log(`   🎁 Paid LISA bonus for ${month}: ${formatMoney(bonus.amount, pot.currency)} → ${pot.name}`);
+        } catch (error) {
+          console.error(`   ❌ Error paying LISA bonus for pot ${pot.id} (${month}):`, error.message);
+          errors.push({
+            potId: pot.id,
+            error: error.message
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error in processLisaBonuses:', error);
+    errors.push({ error: error.message });
+  }
+
   return { processed, errors, date: today.toISOString() };
 }
 
+/**
+ * Remind owners when a fixed-term account is about to mature, so they can decide where
+ * the money goes next. Each pot's maturity date is recorded in maturity_reminders once
+ * the reminder has gone (or notifications are off), so it's only sent once.
+ * Returns the pots reminded about.
+ */
+async function processMaturityReminders() {
+  const today = new Date();
+  today.setHours(12, 0, 0, 0); // Normalize to noon
+  const todayKey = toDateKey(today);
+  const cutoff = addDaysToKey(todayKey, MATURITY_REMINDER_DAYS);
+
+  const reminded = [];
+  const errors = [];
+
+  try {
+    const pots = await getAllRows(
+      `SELECT sp.* FROM savings_pots sp
+       WHERE sp.account_type IN ('fixed-rate-bond', 'regular-saver')
+         AND sp.maturity_date >= ? AND sp.maturity_date <= ?
+         AND NOT EXISTS (
+           SELECT 1 FROM maturity_reminders mr
+           WHERE mr.pot_id = sp.id AND mr.maturity_date = sp.maturity_date
+         )`,
+      [todayKey, cutoff]
+    );
+
+    for (const pot of pots) {
+      try {
+        const days = Math.round(
+          (new Date(`${pot.maturity_date}T12:00:00.000Z`) - new Date(`${todayKey}T12:00:00.000Z`)) / 86400000
+        );
+        const values = { pot: pot.name, date: formatDateKey(pot.maturity_date), count: days };
+        const when = days === 0
+          ? translate('maturity.today', values)
+          : days === 1 ? translate('maturity.tomorrow', values) : translate('maturity.inDays', values);
+        const result = await sendNotification(
+          pot.user_id,
+          translate('maturity.title'),
+          [
+            when,
+            translate('maturity.balance', { amount: formatMoney(pot.current_total, pot.currency) }),
+            translate('maturity.nextStep')
+          ].join('\n')
+        );
+
+        // Failed calls to Home Assistant are retried on the next run
+        if (!result.success && !result.reason) continue;
+
+        await runQuery(
+          'INSERT OR IGNORE INTO maturity_reminders (id, pot_id, maturity_date, created_at) VALUES (?, ?, ?, ?)',
+          [uuidv4(), pot.id, pot.maturity_date, new Date().toISOString()]
+        );
+        reminded.push({ potId: pot.id, potName: pot.name, maturityDate: pot.maturity_date });
+        console.log(`   ⏰ Sent maturity reminder for ${pot.name} (${pot.maturity_date})`);
+      } catch (error) {
+        console.error(`   ❌ Error sending maturity reminder for pot ${pot.id}:`, error.message);
+        errors.push({
+          potId: pot.id,
+          error: error.message
+        });
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error in processMaturityReminders:', error);
+    errors.push({ error: error.message });
+  }
+
+  return { reminded, errors, date: today.toISOString() };
+}
+
+/**
+ * Record every pot's balance once a day, so the balance history has a point for each day
+ * even when nothing changed. Balance changes are snapshotted as they happen by triggers
+ * in the database. Returns how many snapshots were recorded.
+ */
+async function recordDailySnapshots() {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  try {
+    const pots = await getAllRows(
+      `SELECT sp.id, sp.current_total FROM savings_pots sp
+       WHERE NOT EXISTS (
+         SELECT 1 FROM balance_snapshots bs
+         WHERE bs.pot_id = sp.id AND bs.source = 'daily' AND bs.recorded_at >= ?
+       )`,
+      [startOfToday.toISOString()]
+    );
+
+    const recordedAt = new Date().toISOString();
+    for (const pot of pots) {
+      await runQuery(
+        'INSERT INTO balance_snapshots (id, pot_id, balance, source, recorded_at) VALUES (?, ?, ?, ?, ?)',
+        [uuidv4(), pot.id, pot.current_total, 'daily', recordedAt]
+      );
+    }
+
+    if (pots.length > 0) {
+      console.log(`   📸 Recorded daily balance snapshots for ${pots.length} pot(s)`);
+    }
+    return { recorded: pots.length, errors: [] };
+  } catch (error) {
+    console.error('❌ Error in recordDailySnapshots:', error);
+    return { recorded: 0, errors: [{ error: error.message }] };
+  }
+}
+
+/**
+ * Write a backup file and delete the oldest beyond the number kept. Skipped when the
+ * backup folder's parent (/data by default) doesn't exist, as when running outside Home Assistant
+ * without a data volume. Returns the file written, if any.
+ */
+async function writeScheduledBackup() {
+  const { dir, keep } = getBackupConfig();
+  if (!fs.existsSync(path.dirname(dir))) {
+    console.log(`   💾 Skipping backup: ${path.dirname(dir)} doesn't exist`);
+    return { file: null, errors: [] };
+  }
+
+  try {
+    const { file, removed } = await writeBackupFile(dir, keep);
+    console.log(`   💾 Wrote backup ${file}${removed.length > 0 ? ` (removed ${removed.length} old backup(s))` : ''}`);
+    return { file, errors: [] };
+  } catch (error) {
+    console.error('❌ Error in writeScheduledBackup:', error);
+    return { file: null, errors: [{ error: error.message }] };
+  }
+}
+
+/**
+ * Which notification text a processed transaction uses; anything else is a deposit
+ */
+function getNotificationKind(kind) {
+  return ['withdrawal', 'transfer', 'interest', 'bonus'].includes(kind) ? kind : 'deposit';
+}
+
 /**
  * Send notifications for processed transactions
  */
@@ -204,33 +777,79 @@ async function notifyProcessedTransactions(results) {
   
   // Send notification for each user's transactions
   for (const [userId, data] of Object.entries(byUser)) {
-    const totalAmount = data.transactions.reduce((sum, tx) => sum + tx.amount, 0);
+    // Amounts in different currencies can't be added up, so the net change is given per currency
+    const totals = data.transactions.reduce((acc, tx) => {
+      acc[tx.currency] = (acc[tx.currency] || 0) + tx.signedAmount;
+      return acc;
+    }, {});
+    const netChange = Object.entries(totals)
+      .map(([currency, total]) => formatMoney(total, currency))
+      .join(', ');
     const count = data.transactions.length;
     
     // Build detailed message
     const details = data.transactions
-      .map(tx => `• £${tx.amount.toFixed(2)} → ${tx.potName}`)
+      .map(tx => translate(`savings.detail.${getNotificationKind(tx.kind)}`, {
+        amount: formatMoney(tx.amount, tx.currency),
+        pot: tx.potName,
+        due: tx.catchUpDate ? translate('savings.due', { date: formatDateKey(tx.catchUpDate) }) : ''
+      }))
       .join('\n');
     
-    const title = `💰 Savings Updated`;
+    const first = data.transactions[0];
     const message = count === 1
-      ? `£${totalAmount.toFixed(2)} added to ${data.transactions[0].potName}\nNew total: £${data.transactions[0].newTotal.toFixed(2)}`
-      : `${count} recurring payments processed\nTotal: £${totalAmount.toFixed(2)}\n\n${details}`;
+      ? [
+        translate(`savings.${getNotificationKind(first.kind)}`, { amount: formatMoney(first.amount, first.currency), pot: first.potName }),
+        translate('savings.newTotal', { amount: formatMoney(first.newTotal, first.currency) })
+      ].join('\n')
+      : [
+        translate('savings.processed', { count }),
+        translate('savings.netChange', { amount: netChange }),
+        '',
+        details
+      ].join('\n');
     
-    await sendNotification(userId, title, message);
+    await sendNotification(userId, translate('savings.title'), message);
   }
 }
 
 /**
- * Run the full processing cycle: process transactions and send notifications
+ * Run the full processing cycle: process transactions and send notifications.
+ * Waits for any cycle or catch-up already running to finish first.
  */
-async function runProcessingCycle() {
+function runProcessingCycle() {
+  return runExclusively(processCycle);
+}
+
+async function processCycle() {
   console.log('\n' + '='.repeat(60));
   console.log('🚀 Starting scheduled processing cycle');
   console.log('='.repeat(60));
   
   const results = await processRecurringTransactions();
   
+  // Interest is paid after recurring payments so today's deposits are in the balance
+  const interest = await processInterest();
+  results.processed.push(...interest.processed);
+  results.errors.push(...interest.errors);
+
+  const bonuses = await processLisaBonuses();
+  results.processed.push(...bonuses.processed);
+  results.errors.push(...bonuses.errors);
+
+  const reminders = await processMaturityReminders();
+  results.reminded = reminders.reminded;
+  results.errors.push(...reminders.errors);
+
+  // Snapshots are taken last so they include everything posted in this cycle
+  const snapshots = await recordDailySnapshots();
+  results.snapshots = snapshots.recorded;
+  results.errors.push(...snapshots.errors);
+
+  const backup = await writeScheduledBackup();
+  results.backupFile = backup.file;
+  results.errors.push(...backup.errors);
+  
   console.log(`\n📊 Processing Summary:`);
   console.log(`   Processed: ${results.processed.length}`);
   console.log(`   Errors: ${results.errors.length}`);
@@ -274,6 +893,28 @@ function initializeScheduler(cronExpression = '0 8 * * *') {
   
   schedulerRunning = true;
   console.log('✅ Scheduler initialized successfully');
+  
+  // Don't wait for the next cron slot to post anything missed while we were down
+  catchUpMissedRuns().catch(error => {
+    console.error('❌ Catch-up error:', error);
+  });
+}
+
+/**
+ * Process any days missed since the last successful run, up to yesterday.
+ * Today is left to the cron job so payments still arrive at the configured time.
+ */
+function catchUpMissedRuns() {
+  return runExclusively(async () => {
+    const lastRun = await getLastSuccessfulRun();
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    if (!lastRun || toDayKey(lastRun) >= toDayKey(yesterday)) return;
+    
+    console.log(`⏪ Last successful run was ${lastRun.toDateString()}; catching up on missed days`);
+    const results = await processRecurringTransactions(yesterday);
+    await notifyProcessedTransactions(results);
+  });
 }
 
 /**
@@ -288,6 +929,12 @@ module.exports = {
   initializeScheduler,
   stopScheduler,
   processRecurringTransactions,
+  processInterest,
+  processLisaBonuses,
+  processMaturityReminders,
+  recordDailySnapshots,
+  writeScheduledBackup,
+  getLastSuccessfulRun,
   runProcessingCycle
 };
 
@@ -0,0 +1,145 @@
+const { describe, it, before, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTestDatabase, insertPot, insertTransaction } = require('./testHelpers');
+
+describe('scheduler', () => {
+  let database;
+  let scheduler;
+
+  before(async () => {
+    database = await useTestDatabase();
+    scheduler = require('./scheduler');
+  });
+
+  beforeEach(async () => {
+    await database.runQuery('DELETE FROM processed_recurring');
+    await database.runQuery('DELETE FROM transactions');
+    await database.runQuery('DELETE FROM savings_pots');
+    await database.runQuery('DELETE FROM lisa_bonuses');
+  });
+
+  const setLastRun = (dayKey) => database.runQuery(
+    `INSERT INTO scheduler_state (key, value, updated_at) VALUES ('last_successful_run', ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [dayKey, new Date().toISOString()]
+  );
+
+  const addMonthlyDeposit = async (potId, date, amount = 100) => insertTransaction({
+    pot_id: potId,
+    amount,
+    date: new Date(`${date}T12:00:00`).toISOString(),
+    description: 'Standing order',
+    recurrence: JSON.stringify({ frequency: 'monthly', interval: 1 }),
+    repeat_monthly: 1,
+    created_at: new Date(`${date}T12:00:00`).toISOString()
+  });
+
+  const getPosted = (potId) => database.getAllRows(
+    `SELECT substr(date, 1, 10) as day, amount FROM transactions
+     WHERE pot_id = ? AND recurrence IS NULL ORDER BY date`,
+    [potId]
+  );
+
+  it('should catch up on occurrences missed since the last successful run', async () => {
+    const pot = await insertPot();
+    await addMonthlyDeposit(pot.id, '2025-01-15');
+    await setLastRun('2025-02-20');
+
+    const results = await scheduler.processRecurringTransactions(new Date('2025-04-20T12:00:00'));
+
+    assert.deepEqual(results.errors, []);
+    assert.deepEqual(await getPosted(pot.id), [
+      { day: '2025-03-15', amount: 100 },
+      { day: '2025-04-15', amount: 100 }
+    ]);
+    const { current_total } = await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [pot.id]);
+    assert.equal(current_total, 200);
+    assert.equal((await scheduler.getLastSuccessfulRun()).toISOString().slice(0, 10), '2025-04-20');
+  });
+
+  it('should post a monthly payment on the last day of shorter months', async () => {
+    const pot = await insertPot();
+    await addMonthlyDeposit(pot.id, '2025-01-31');
+    await setLastRun('2025-01-31');
+
+    await scheduler.processRecurringTransactions(new Date('2025-04-01T12:00:00'));
+
+    assert.deepEqual((await getPosted(pot.id)).map(row => row.day), ['2025-02-28', '2025-03-31']);
+  });
+
+  it('should post each occurrence once when runs overlap or repeat', async () => {
+    const pot = await insertPot();
+    await addMonthlyDeposit(pot.id, '2025-01-10');
+    await setLastRun('2025-02-09');
+
+    const through = new Date('2025-02-10T12:00:00');
+    const results = await Promise.all([
+      scheduler.processRecurringTransactions(through),
+      scheduler.processRecurringTransactions(through)
+    ]);
+    await setLastRun('2025-02-09');
+    await scheduler.processRecurringTransactions(through);
+
+    assert.equal(results[0].processed.length + results[1].processed.length, 1);
+    assert.deepEqual(results.flatMap(result => result.errors), []);
+    assert.deepEqual(await getPosted(pot.id), [{ day: '2025-02-10', amount: 100 }]);
+    const { current_total } = await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [pot.id]);
+    assert.equal(current_total, 100);
+  });
+
+  it('should pay Lifetime ISA bonuses for every month missed since the last one', async () => {
+    const pot = await insertPot({ isa_type: 'lifetime' });
+    await database.runQuery(
+      `INSERT INTO lisa_bonuses (id, pot_id, month, contributions, amount, created_at)
+       VALUES ('bonus-1', ?, '2025-04', 0, 0, ?)`,
+      [pot.id, new Date().toISOString()]
+    );
+    await insertTransaction({ pot_id: pot.id, amount: 1000, date: '2025-05-10T12:00:00.000Z' });
+    await insertTransaction({ pot_id: pot.id, amount: 400, date: '2025-06-10T12:00:00.000Z' });
+
+    const results = await scheduler.processLisaBonuses(new Date('2025-07-15T12:00:00'));
+    const again = await scheduler.processLisaBonuses(new Date('2025-07-20T12:00:00'));
+
+    assert.deepEqual(results.errors, []);
+    assert.deepEqual(results.processed.map(bonus => bonus.amount), [250, 100]);
+    assert.deepEqual(again.processed, []);
+    const bonuses = await database.getAllRows('SELECT month FROM lisa_bonuses WHERE pot_id = ? ORDER BY month', [pot.id]);
+    assert.deepEqual(bonuses.map(bonus => bonus.month), ['2025-04', '2025-05', '2025-06']);
+  });
+
+  it('should not go back past the start of the tax year for missed bonuses', async () => {
+    const pot = await insertPot({ isa_type: 'lifetime' });
+    await insertTransaction({ pot_id: pot.id, amount: 1000, date: '2025-03-10T12:00:00.000Z' });
+    await insertTransaction({ pot_id: pot.id, amount: 1000, date: '2025-05-10T12:00:00.000Z' });
+
+    const results = await scheduler.processLisaBonuses(new Date('2025-06-15T12:00:00'));
+
+    assert.deepEqual(results.processed.map(bonus => bonus.amount), [250]);
+  });
+
+  it('should pay the bonus on a deposit backdated into a month before the last one paid', async () => {
+    const pot = await insertPot({ isa_type: 'lifetime' });
+    await insertTransaction({ pot_id: pot.id, amount: 400, date: '2025-06-10T12:00:00.000Z' });
+    await scheduler.processLisaBonuses(new Date('2025-07-15T12:00:00'));
+
+    await insertTransaction({ pot_id: pot.id, amount: 200, date: '2025-05-10T12:00:00.000Z' });
+    const results = await scheduler.processLisaBonuses(new Date('2025-08-15T12:00:00'));
+
+    assert.deepEqual(results.errors, []);
+    assert.deepEqual(results.processed.map(bonus => bonus.amount), [50]);
+    const bonuses = await database.getAllRows('SELECT month, amount FROM lisa_bonuses WHERE pot_id = ? ORDER BY month', [pot.id]);
+    assert.deepEqual(bonuses.map(bonus => [bonus.month, bonus.amount]), [['2025-05', 50], ['2025-06', 100]]);
+  });
+
+  it("should not pay more than a tax year's bonus when a backdated deposit uses up the allowance", async () => {
+    const pot = await insertPot({ isa_type: 'lifetime' });
+    await insertTransaction({ pot_id: pot.id, amount: 4000, date: '2025-06-10T12:00:00.000Z' });
+    await scheduler.processLisaBonuses(new Date('2025-07-15T12:00:00'));
+
+    // June was paid £1,000 on all £4,000; May now comes first, leaving June only £3,000
+    await insertTransaction({ pot_id: pot.id, amount: 1000, date: '2025-05-10T12:00:00.000Z' });
+    const results = await scheduler.processLisaBonuses(new Date('2025-08-15T12:00:00'));
+
+    assert.deepEqual(results.processed, []);
+  });
+});
@@ -11,6 +11,10 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
+// Backups hold every table, so restores may be well over the default body limit
+app.use('/api/backup/restore', express.json({ limit: '50mb' }));
+// Statement imports send up to 2,000 rows at once
+app.use('/api/transactions/bulk', express.json({ limit: '5mb' }));
 app.use(express.json());
 
 /**
@@ -31,6 +35,16 @@ function loadHomeAssistantOptions() {
         console.log(`   Users: ${options.users.map(u => u.name).join(', ')}`);
       }
       
+      // Map Home Assistant users to users {haUser: userId}, for signing in through ingress
+      if (options.sign_in && Array.isArray(options.sign_in.ha_users)) {
+        const haUsersMap = {};
+        options.sign_in.ha_users.forEach(u => {
+          haUsersMap[u.ha_user.toLowerCase()] = u.user_id.toLowerCase();
+        });
+        process.env.HA_USERS = JSON.stringify(haUsersMap);
+        console.log(`   Home Assistant sign-in: ${options.sign_in.ha_users.length} user(s) mapped`);
+      }
+      
       // Set scheduler configuration
       if (options.scheduler) {
         if (options.scheduler.enabled !== undefined) {
@@ -61,6 +75,28 @@ function loadHomeAssistantOptions() {
         
         console.log(`   Notifications: ${options.notifications.enabled ? 'enabled' : 'disabled'}`);
       }
+
+      // Set backup configuration
+      if (options.backups) {
+        if (options.backups.keep !== undefined) {
+          process.env.BACKUP_KEEP = String(options.backups.keep);
+        }
+        if (Array.isArray(options.backups.admins)) {
+          process.env.BACKUP_ADMINS = JSON.stringify(options.backups.admins.map(userId => userId.toLowerCase()));
+        }
+        console.log(`   Backups: keeping ${options.backups.keep || 'default'}, admins: ${(options.backups.admins || []).join(', ') || 'none'}`);
+      }
+
+      // Set locale configuration
+      if (options.locale) {
+        if (options.locale.code) {
+          process.env.LOCALE = options.locale.code;
+        }
+        if (options.locale.first_day_of_week) {
+          process.env.FIRST_DAY_OF_WEEK = options.locale.first_day_of_week;
+        }
+        console.log(`   Locale: ${options.locale.code || 'default'}, weeks start ${options.locale.first_day_of_week || 'as usual for the locale'}`);
+      }
       
       return options;
     }
@@ -0,0 +1,100 @@
+/**
+ * Helpers for the backend tests (run with `npm test`, one process per test file)
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+
+/**
+ * Point the database at a new, empty file for this test file. Call it before requiring
+ * anything that uses the database; the default users (alex and beth) are seeded into it.
+ * Returns the database module once its tables are ready.
+ */
+async function useTestDatabase() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'savings-tracker-test-'));
+  process.env.DATABASE_PATH = path.join(dir, 'savings.db');
+  delete process.env.SEED_USERS;
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const database = require('./database');
+  await database.ready;
+  return database;
+}
+
+/**
+ * Add a pot (row as stored); returns it
+ */
+async function insertPot(overrides = {}) {
+  const { runQuery } = require('./database');
+  const now = new Date().toISOString();
+  const pot = {
+    id: uuidv4(),
+    user_id: 'alex',
+    name: 'Rainy Day',
+    current_total: 0,
+    color: '#667eea',
+    created_at: now,
+    updated_at: now,
+    ...overrides
+  };
+  const columns = Object.keys(pot);
+  await runQuery(
+    `INSERT INTO savings_pots (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map(column => pot[column])
+  );
+  return pot;
+}
+
+/**
+ * Add a transaction (row as stored) without touching its pot's total; returns it
+ */
+async function insertTransaction(overrides = {}) {
+  const { runQuery } = require('./database');
+  const transaction = {
+    id: uuidv4(),
+    user_id: 'alex',
+    amount: 100,
+    date: new Date().toISOString(),
+    description: null,
+    kind: 'deposit',
+    created_at: new Date().toISOString(),
+    ...overrides
+  };
+  const columns = Object.keys(transaction);
+  await runQuery(
+    `INSERT INTO transactions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map(column => transaction[column])
+  );
+  return transaction;
+}
+
+/**
+ * Serve the API routes on a free local port, mounted as server.js mounts them.
+ * Returns the API's base URL and a function that stops the server.
+ */
+async function startTestServer() {
+  const express = require('express');
+  const app = express();
+  app.use(express.json());
+  app.use('/api', require('./routes'));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}/api`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
+
+module.exports = {
+  useTestDatabase,
+  insertPot,
+  insertTransaction,
+  startTestServer
+};
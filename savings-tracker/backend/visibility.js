@@ -0,0 +1,132 @@
+/**
+ * Visibility Module for Savings Tracker
+ *
+ * Rules for what household members can see of each other's pots:
+ * 1. Each pot has a visibility, chosen by its owner: 'full' (the default), 'balance' or 'private'
+ * 2. Owners always see everything about their own pots
+ * 3. Other members see a 'full' pot with all of its transactions and history; a 'balance' pot
+ *    with its name and current total only (no transactions, history or other details); and
+ *    nothing at all of a 'private' pot, which is left out of their totals and projections
+ * 4. A member still sees both legs of transfers to or from their own pots
+ * 5. Money can be transferred into another member's 'full' or 'balance' pot, not a 'private' one
+ * 6. The ledger check only lists problems a member could see anyway, and a manual scheduler
+ *    run only reports how much it did. Backups hold everything, as a restore has to put back
+ *    the whole household, so only backup admins can download or restore them (see backup.js).
+ */
+
+const { getAllRows } = require('./database');
+
+const POT_VISIBILITIES = ['full', 'balance', 'private'];
+const DEFAULT_VISIBILITY = 'full';
+
+// Columns a 'balance' pot doesn't share with other members (as stored)
+const DETAIL_COLUMNS = [
+  'description',
+  'target_amount',
+  'interest_rate',
+  'interest_payment',
+  'goal_date',
+  'volatility',
+  'isa_type',
+  'account_type',
+  'maturity_date',
+  'notice_days',
+  'max_monthly_deposit',
+  'last_reconciled_date'
+];
+
+/**
+ * Check a visibility supplied by a client
+ */
+function isValidVisibility(visibility) {
+  return visibility === undefined || POT_VISIBILITIES.includes(visibility);
+}
+
+function getVisibility(pot) {
+  return POT_VISIBILITIES.includes(pot.visibility) ? pot.visibility : DEFAULT_VISIBILITY;
+}
+
+/**
+ * Whether a user can see a pot (row as stored) at all
+ */
+function canSeePot(pot, userId) {
+  return pot.user_id === userId || getVisibility(pot) !== 'private';
+}
+
+/**
+ * Whether a user can see a pot's transactions, history and details
+ */
+function canSeePotDetails(pot, userId) {
+  return pot.user_id === userId || getVisibility(pot) === 'full';
+}
+
+/**
+ * SQL condition matching pots (under `alias`) whose details a user can see. Takes the user id
+ * as its one parameter.
+ */
+function potDetailsVisibleSql(alias) {
+  return `(${alias}.user_id = ? OR COALESCE(${alias}.visibility, '${DEFAULT_VISIBILITY}') = '${DEFAULT_VISIBILITY}')`;
+}
+
+/**
+ * Cut pots and transactions (rows as stored) down to what a user can see of them
+ */
+async function filterVisibleData(pots, transactions, userId) {
+  const visiblePots = pots
+    .filter(pot => canSeePot(pot, userId))
+    .map(pot => {
+      if (canSeePotDetails(pot, userId)) return pot;
+      const balanceOnly = { ...pot };
+      for (const column of DETAIL_COLUMNS) balanceOnly[column] = null;
+      return balanceOnly;
+    });
+
+  const potsById = new Map(pots.map(pot => [pot.id, pot]));
+  const ownTransferIds = new Set(
+    (await getAllRows('SELECT transfer_id FROM transactions WHERE user_id = ? AND transfer_id IS NOT NULL', [userId]))
+      .map(row => row.transfer_id)
+  );
+
+  const visibleTransactions = transactions.filter(transaction => {
+    if (transaction.user_id === userId) return true;
+    const pot = potsById.get(transaction.pot_id);
+    if (!pot || !canSeePot(pot, userId)) return false;
+    return canSeePotDetails(pot, userId) || ownTransferIds.has(transaction.transfer_id);
+  });
+
+  return { pots: visiblePots, transactions: visibleTransactions };
+}
+
+/**
+ * Cut an integrity report (or repair) down to the problems a user could see anyway: mismatches
+ * in pots whose details they can see, and their own orphaned transactions. `hiddenProblems`
+ * counts the rest, which are still repaired.
+ */
+async function filterIntegrityReport(report, userId) {
+  const pots = await getAllRows('SELECT id, user_id, visibility FROM savings_pots');
+  const potsById = new Map(pots.map(pot => [pot.id, pot]));
+
+  const balanceMismatches = report.balanceMismatches.filter(mismatch => {
+    const pot = potsById.get(mismatch.potId);
+    return !pot || canSeePotDetails(pot, userId);
+  });
+  const orphanedTransactions = report.orphanedTransactions.filter(transaction => transaction.userId === userId);
+
+  return {
+    ...report,
+    balanceMismatches,
+    orphanedTransactions,
+    hiddenProblems:
+      report.balanceMismatches.length - balanceMismatches.length +
+      report.orphanedTransactions.length - orphanedTransactions.length
+  };
+}
+
+module.exports = {
+  DEFAULT_VISIBILITY,
+  isValidVisibility,
+  canSeePot,
+  potDetailsVisibleSql,
+  filterVisibleData,
+  filterIntegrityReport
+};
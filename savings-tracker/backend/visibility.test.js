@@ -0,0 +1,149 @@
+const { describe, it, before, after, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { useTestDatabase, insertPot, insertTransaction, startTestServer } = require('./testHelpers');
+
+describe('visibility', () => {
+  let database;
+  let visibility;
+  let server;
+  let pots;
+
+  before(async () => {
+    database = await useTestDatabase();
+    visibility = require('./visibility');
+    // The scheduler run below writes a backup
+    process.env.BACKUP_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'savings-tracker-backups-'));
+    process.env.BACKUP_ADMINS = JSON.stringify(['alex']);
+    // The routes log every request, which is just noise here
+    mock.method(console, 'log', () => {});
+    server = await startTestServer();
+
+    // Alex's pots, one of each visibility, each with a deposit; Beth has transferred into the
+    // balance-only one
+    pots = {
+      shared: await insertPot({ name: 'Shared', current_total: 100 }),
+      balance: await insertPot({ name: 'Balance', current_total: 150, visibility: 'balance', description: 'Bonus', target_amount: 500 }),
+      private: await insertPot({ name: 'Private', current_total: 100, visibility: 'private' }),
+      beths: await insertPot({ user_id: 'beth', name: "Beth's", current_total: -50 })
+    };
+    for (const pot of [pots.shared, pots.balance, pots.private]) {
+      await insertTransaction({ id: `deposit-${pot.name}`, pot_id: pot.id });
+    }
+    await insertTransaction({ id: 'transfer-out', user_id: 'beth', pot_id: pots.beths.id, amount: -50, kind: 'transfer', transfer_id: 'transfer-1' });
+    await insertTransaction({ id: 'transfer-in', pot_id: pots.balance.id, amount: 50, kind: 'transfer', transfer_id: 'transfer-1' });
+  });
+
+  after(async () => {
+    await server.close();
+    mock.restoreAll();
+    fs.rmSync(process.env.BACKUP_DIR, { recursive: true, force: true });
+    delete process.env.BACKUP_DIR;
+    delete process.env.BACKUP_ADMINS;
+  });
+
+  const signIn = async (userId) => {
+    const response = await fetch(`${server.baseUrl}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId })
+    });
+    return (await response.json()).sessionId;
+  };
+
+  const request = async (userId, method, route) => {
+    const response = await fetch(`${server.baseUrl}${route}`, {
+      method,
+      headers: { Authorization: await signIn(userId) }
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("should cut other members' pots and transactions down to what they share", async () => {
+    const { pots: visiblePots, transactions } = await visibility.filterVisibleData(
+      await database.getAllRows('SELECT * FROM savings_pots'),
+      await database.getAllRows('SELECT * FROM transactions'),
+      'beth'
+    );
+
+    assert.deepEqual(visiblePots.map(pot => pot.name).sort(), ['Balance', "Beth's", 'Shared']);
+    const balancePot = visiblePots.find(pot => pot.id === pots.balance.id);
+    assert.equal(balancePot.current_total, 150);
+    assert.equal(balancePot.description, null);
+    assert.equal(balancePot.target_amount, null);
+    // Beth still sees her transfer's leg in the balance-only pot
+    assert.deepEqual(transactions.map(transaction => transaction.id).sort(), ['deposit-Shared', 'transfer-in', 'transfer-out']);
+  });
+
+  it('should show owners everything of their own pots', async () => {
+    const { pots: visiblePots, transactions } = await visibility.filterVisibleData(
+      await database.getAllRows("SELECT * FROM savings_pots WHERE user_id = 'alex'"),
+      await database.getAllRows("SELECT * FROM transactions WHERE user_id = 'alex'"),
+      'alex'
+    );
+
+    assert.equal(visiblePots.length, 3);
+    assert.equal(visiblePots.find(pot => pot.id === pots.balance.id).description, 'Bonus');
+    assert.equal(transactions.length, 4);
+  });
+
+  it('should only list integrity problems the user could see anyway', async () => {
+    const report = await visibility.filterIntegrityReport({
+      ok: false,
+      balanceMismatches: [{ potId: pots.shared.id }, { potId: pots.balance.id }, { potId: pots.private.id }],
+      orphanedTransactions: [{ transactionId: 'a', userId: 'alex' }, { transactionId: 'b', userId: 'beth' }],
+      orphanedProcessedRecurring: []
+    }, 'beth');
+
+    assert.deepEqual(report.balanceMismatches, [{ potId: pots.shared.id }]);
+    assert.deepEqual(report.orphanedTransactions, [{ transactionId: 'b', userId: 'beth' }]);
+    assert.equal(report.hiddenProblems, 3);
+  });
+
+  it("should leave other members' private pots out of the data sent to the app", async () => {
+    const { status, body } = await request('beth', 'GET', '/data');
+
+    assert.equal(status, 200);
+    assert.equal(body.pots.some(pot => pot.id === pots.private.id), false);
+    assert.equal(body.transactions.some(transaction => transaction.potId === pots.private.id), false);
+  });
+
+  it('should only let backup admins download backups', async () => {
+    const refused = await request('beth', 'GET', '/backup');
+    assert.equal(refused.status, 403);
+
+    const allowed = await request('alex', 'GET', '/backup');
+    assert.equal(allowed.status, 200);
+    assert.equal(allowed.body.tables.savings_pots.length, 4);
+  });
+
+  it('should only report counts from a manual scheduler run', async () => {
+    const { status, body } = await request('beth', 'POST', '/scheduler/process');
+
+    assert.equal(status, 200);
+    for (const count of Object.values(body.results)) {
+      assert.equal(typeof count, 'number');
+    }
+  });
+
+  it("should only let backup admins repair other members' pots", async () => {
+    const alexsDrifted = await insertPot({ name: "Alex's Drifted", current_total: 80 });
+    const bethsDrifted = await insertPot({ user_id: 'beth', name: "Beth's Drifted", current_total: 80 });
+    const getTotal = async (potId) =>
+      (await database.getRow('SELECT current_total FROM savings_pots WHERE id = ?', [potId])).current_total;
+
+    const byBeth = await request('beth', 'POST', '/integrity/repair');
+    assert.equal(byBeth.status, 200);
+    assert.deepEqual(byBeth.body.repaired.balanceMismatches.map(mismatch => mismatch.potId), [bethsDrifted.id]);
+    assert.equal(await getTotal(bethsDrifted.id), 0);
+    // Beth can see Alex's pot is out, but it's left for Alex
+    assert.equal(await getTotal(alexsDrifted.id), 80);
+    assert.deepEqual(byBeth.body.integrity.balanceMismatches.map(mismatch => mismatch.potId), [alexsDrifted.id]);
+
+    const byAlex = await request('alex', 'POST', '/integrity/repair');
+    assert.deepEqual(byAlex.body.repaired.balanceMismatches.map(mismatch => mismatch.potId), [alexsDrifted.id]);
+    assert.equal(await getTotal(alexsDrifted.id), 0);
+  });
+});
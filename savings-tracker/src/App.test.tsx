@@ -91,6 +91,8 @@ describe('App', () => {
       user: { id: 'alex', name: 'Alex' },
       login: vi.fn(),
       logout: vi.fn(),
+      updateProfile: vi.fn(),
+      updatePin: vi.fn(),
       isLoading: false,
       allUsers: [{ id: 'alex', name: 'Alex' }, { id: 'beth', name: 'Beth' }],
       otherUsers: [{ id: 'beth', name: 'Beth' }]
@@ -107,6 +109,7 @@ describe('App', () => {
             name: 'Emergency Fund',
             currentTotal: 500,
             color: '#667eea',
+            currency: 'GBP',
             createdAt: new Date(),
             updatedAt: new Date()
           }
@@ -121,6 +124,7 @@ describe('App', () => {
             name: 'Emergency Fund',
             currentTotal: 500,
             color: '#667eea',
+            currency: 'GBP',
             createdAt: new Date(),
             updatedAt: new Date()
           },
@@ -130,6 +134,7 @@ describe('App', () => {
             name: 'Car Fund',
             currentTotal: 800,
             color: '#f093fb',
+            currency: 'GBP',
             createdAt: new Date(),
             updatedAt: new Date()
           }
@@ -137,6 +142,7 @@ describe('App', () => {
         transactions: []
       },
       projections: [],
+      reporting: { baseCurrency: 'GBP', data: { pots: [], transactions: [] }, projections: [], potRates: {}, unconvertedPots: [] },
       isLoading: false,
       error: null,
       refreshData: vi.fn()
@@ -164,6 +170,8 @@ describe('App', () => {
       user: { id: 'alex', name: 'Alex' },
       login: vi.fn(),
       logout: vi.fn(),
+      updateProfile: vi.fn(),
+      updatePin: vi.fn(),
       isLoading: false,
       allUsers: [{ id: 'alex', name: 'Alex' }],
       otherUsers: []
@@ -175,6 +183,7 @@ describe('App', () => {
       data: { pots: [], transactions: [] },
       combinedData: { pots: [], transactions: [] },
       projections: [],
+      reporting: { baseCurrency: 'GBP', data: { pots: [], transactions: [] }, projections: [], potRates: {}, unconvertedPots: [] },
       isLoading: false,
       error: 'Failed to load data',
       refreshData: vi.fn()
@@ -195,6 +204,8 @@ describe('App', () => {
       user: { id: 'alex', name: 'Alex' },
       login: vi.fn(),
       logout: vi.fn(),
+      updateProfile: vi.fn(),
+      updatePin: vi.fn(),
       isLoading: false,
       allUsers: [{ id: 'alex', name: 'Alex' }],
       otherUsers: []
@@ -206,6 +217,7 @@ describe('App', () => {
       data: { pots: [], transactions: [] },
       combinedData: { pots: [], transactions: [] },
       projections: [],
+      reporting: { baseCurrency: 'GBP', data: { pots: [], transactions: [] }, projections: [], potRates: {}, unconvertedPots: [] },
       isLoading: false,
       error: null,
       refreshData: vi.fn()
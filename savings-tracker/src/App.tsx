@@ -5,7 +5,12 @@ import SavingsPots from './components/SavingsPots';
 import BudgetSankey, { SavingsBreakdown } from './components/BudgetSankey';
 import Login from './components/Login';
 import { AuthProvider, useAuth } from './AuthContext';
+import { LocaleProvider } from './LocaleProvider';
+import { t } from './locale';
 import { useSavingsData } from './hooks/useSavingsData';
+import { getSignedAmount, isContribution } from './ledger';
+import { getRecurrenceRule, getMonthlyRecurringAmount, isRecurring } from './recurrence';
+import { DEFAULT_PROJECTION_HORIZON } from './projections';
 import { 
   AppBar, 
   Toolbar, 
@@ -24,7 +29,6 @@ import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
 import SavingsIcon from '@mui/icons-material/Savings';
 import AccountBalanceWalletIcon from '@mui/icons-material/AccountBalanceWallet';
 import LogoutIcon from '@mui/icons-material/Logout';
-import { startOfMonth, endOfMonth, getDay } from 'date-fns';
 
 type ViewType = 'dashboard' | 'calendar' | 'pots' | 'budget';
 
@@ -40,33 +44,16 @@ const theme = createTheme({
 });
 
 const AppContent: React.FC = () => {
-  const { user, logout, otherUsers } = useAuth();
+  const { user, logout, otherUsers, allUsers } = useAuth();
   const [currentView, setCurrentView] = useState<ViewType>('dashboard');
-  const { data, combinedData, projections, refreshData } = useSavingsData(user?.id || null, otherUsers);
+  const [horizonMonths, setHorizonMonths] = useState(DEFAULT_PROJECTION_HORIZON);
+  const { data, combinedData, projections, reporting, refreshData } = useSavingsData(user?.id || null, otherUsers, horizonMonths, allUsers);
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
   // Calculate total recurring monthly and breakdown by pot for the budget sankey
   // Use current user's data only (not combined) since this represents their salary allocation
   // This must be before the early return to follow Rules of Hooks
   const { totalRecurringMonthly, savingsBreakdown } = useMemo(() => {
-    const countWeekdayOccurrencesInMonth = (targetDay: number, month: Date): number => {
-      const monthStart = startOfMonth(month);
-      const monthEnd = endOfMonth(month);
-      let count = 0;
-      const current = new Date(monthStart);
-      
-      while (getDay(current) !== targetDay && current <= monthEnd) {
-        current.setDate(current.getDate() + 1);
-      }
-      
-      while (current <= monthEnd) {
-        count++;
-        current.setDate(current.getDate() + 7);
-      }
-      
-      return count;
-    };
-
     const now = new Date();
     
     // Build a map of pot contributions
@@ -81,8 +68,9 @@ const AppContent: React.FC = () => {
       isMonthly: boolean;
     }>();
 
-    // Get pot info from current user's pots only
-    data.pots.forEach(pot => {
+    // Get pot info from current user's pots only, in the base currency so they can be added up
+    const ownPotIds = new Set(data.pots.map(pot => pot.id));
+    reporting.data.pots.filter(pot => ownPotIds.has(pot.id)).forEach(pot => {
       potMap.set(pot.id, {
         potId: pot.id,
         potName: pot.name,
@@ -95,30 +83,25 @@ const AppContent: React.FC = () => {
       });
     });
 
-    // Calculate monthly recurring by pot (current user only)
-    data.transactions
-      .filter(t => t.repeatMonthly)
-      .forEach(t => {
-        const pot = potMap.get(t.potId);
-        if (pot) {
-          pot.monthlyAmount += t.amount;
-          pot.totalMonthly += t.amount;
-          pot.isMonthly = true;
-        }
-      });
-
-    // Calculate weekly recurring by pot (with monthly equivalent, current user only)
-    data.transactions
-      .filter(t => t.repeatWeekly)
+    // Calculate recurring by pot (current user only, withdrawals netted off).
+    // Weekly-based series count this month's occurrences; monthly/quarterly/annual
+    // series are spread evenly across months.
+    reporting.data.transactions
+      .filter(t => isRecurring(t) && isContribution(t))
       .forEach(t => {
         const pot = potMap.get(t.potId);
         if (pot) {
-          const dayOfWeek = getDay(t.date);
-          const occurrences = countWeekdayOccurrencesInMonth(dayOfWeek, now);
-          const monthlyEquivalent = t.amount * occurrences;
-          pot.weeklyAmount += t.amount;
+          const rule = getRecurrenceRule(t)!;
+          const monthlyEquivalent = getMonthlyRecurringAmount(t, now);
+          if (rule.frequency === 'weekly') {
+            // Per-week equivalent, so fortnightly £100 shows as £50/week
+            pot.weeklyAmount += getSignedAmount(t) / rule.interval;
+            pot.isWeekly = true;
+          } else {
+            pot.monthlyAmount += monthlyEquivalent;
+            pot.isMonthly = true;
+          }
           pot.totalMonthly += monthlyEquivalent;
-          pot.isWeekly = true;
         }
       });
 
@@ -130,7 +113,7 @@ const AppContent: React.FC = () => {
     const total = breakdown.reduce((sum, pot) => sum + pot.totalMonthly, 0);
     
     return { totalRecurringMonthly: total, savingsBreakdown: breakdown };
-  }, [data.transactions, data.pots]);
+  }, [data.pots, reporting.data]);
 
   if (!user) {
     return <Login />;
@@ -138,11 +121,11 @@ const AppContent: React.FC = () => {
 
   const getPageTitle = () => {
     switch (currentView) {
-      case 'dashboard': return 'Dashboard';
-      case 'calendar': return 'Calendar';
-      case 'pots': return 'Accounts';
-      case 'budget': return 'Budget';
-      default: return 'Dashboard';
+      case 'dashboard': return t('nav.dashboard');
+      case 'calendar': return t('nav.calendar');
+      case 'pots': return t('nav.accounts');
+      case 'budget': return t('nav.budget');
+      default: return t('nav.dashboard');
     }
   };
 
@@ -181,7 +164,7 @@ const AppContent: React.FC = () => {
                 letterSpacing: '-0.01em'
               }}
             >
-              {isMobile ? user.name : `Savings Tracker`}
+              {isMobile ? user.name : t('app.title')}
             </Typography>
           </Box>
 
@@ -195,10 +178,10 @@ const AppContent: React.FC = () => {
               mr: 2
             }}>
               {[
-                { key: 'dashboard', label: 'Dashboard', icon: <DashboardIcon /> },
-                { key: 'calendar', label: 'Calendar', icon: <CalendarMonthIcon /> },
-                { key: 'pots', label: 'Accounts', icon: <SavingsIcon /> },
-                { key: 'budget', label: 'Budget', icon: <AccountBalanceWalletIcon /> }
+                { key: 'dashboard', label: t('nav.dashboard'), icon: <DashboardIcon /> },
+                { key: 'calendar', label: t('nav.calendar'), icon: <CalendarMonthIcon /> },
+                { key: 'pots', label: t('nav.accounts'), icon: <SavingsIcon /> },
+                { key: 'budget', label: t('nav.budget'), icon: <AccountBalanceWalletIcon /> }
               ].map((item) => (
                 <Box
                   key={item.key}
@@ -326,10 +309,10 @@ const AppContent: React.FC = () => {
                 display: { xs: 'none', sm: 'block' }
               }}
             >
-              {currentView === 'dashboard' && 'Overview of your savings progress'}
-              {currentView === 'calendar' && 'Track your monthly contributions'}
-              {currentView === 'pots' && 'Manage your savings accounts'}
-              {currentView === 'budget' && 'Visualize your salary allocation'}
+              {currentView === 'dashboard' && t('page.dashboard.subtitle')}
+              {currentView === 'calendar' && t('page.calendar.subtitle')}
+              {currentView === 'pots' && t('page.accounts.subtitle')}
+              {currentView === 'budget' && t('page.budget.subtitle')}
             </Typography>
           </Box>
         </Box>
@@ -338,6 +321,9 @@ const AppContent: React.FC = () => {
           <Dashboard
             data={combinedData}
             projections={projections}
+            reporting={reporting}
+            horizonMonths={horizonMonths}
+            onHorizonChange={setHorizonMonths}
             onDataChange={refreshData}
             currentUser={user}
           />
@@ -346,6 +332,7 @@ const AppContent: React.FC = () => {
           <Calendar
             data={data}
             combinedData={combinedData}
+            reporting={reporting}
             onDataChange={refreshData}
             currentUser={user}
           />
@@ -353,6 +340,7 @@ const AppContent: React.FC = () => {
         {currentView === 'pots' && (
           <SavingsPots
             pots={data.pots}
+            reporting={reporting}
             onDataChange={refreshData}
           />
         )}
@@ -360,6 +348,7 @@ const AppContent: React.FC = () => {
           <BudgetSankey
             totalRecurringMonthly={totalRecurringMonthly}
             savingsBreakdown={savingsBreakdown}
+            currency={reporting.baseCurrency}
             onDataChange={refreshData}
           />
         )}
@@ -401,22 +390,22 @@ const AppContent: React.FC = () => {
             }}
           >
             <BottomNavigationAction 
-              label="Dashboard" 
+              label={t('nav.dashboard')} 
               value="dashboard" 
               icon={<DashboardIcon />} 
             />
             <BottomNavigationAction 
-              label="Calendar" 
+              label={t('nav.calendar')} 
               value="calendar" 
               icon={<CalendarMonthIcon />} 
             />
             <BottomNavigationAction 
-              label="Accounts" 
+              label={t('nav.accounts')} 
               value="pots" 
               icon={<SavingsIcon />} 
             />
             <BottomNavigationAction 
-              label="Budget" 
+              label={t('nav.budget')} 
               value="budget" 
               icon={<AccountBalanceWalletIcon />} 
             />
@@ -430,9 +419,11 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <ThemeProvider theme={theme}>
-      <AuthProvider>
-        <AppContent />
-      </AuthProvider>
+      <LocaleProvider>
+        <AuthProvider>
+          <AppContent />
+        </AuthProvider>
+      </LocaleProvider>
     </ThemeProvider>
   );
 }
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
 import { User } from './types';
-import { fetchUsers } from './api';
+import { fetchUsers, updateProfile as saveProfile, updatePin as savePin } from './api';
 
 // Use relative URL for production (HA ingress), absolute URL only for local dev
 const API_BASE_URL = (import.meta as any).env?.VITE_API_URL || "./api";
@@ -9,8 +9,10 @@ interface AuthContextType {
   user: User | null;
   allUsers: User[];
   otherUsers: User[];
-  login: (userId: string) => Promise<void>;
+  login: (userId: string, pin?: string) => Promise<void>;
   logout: () => Promise<void>;
+  updateProfile: (updates: Pick<User, 'dateOfBirth'>) => Promise<void>;
+  updatePin: (currentPin: string | null, pin: string | null) => Promise<number>;
   isLoading: boolean;
 }
 
@@ -30,9 +32,15 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
-  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  // The user list has no dates of birth, so the signed-in user's own profile fills in theirs
+  const allUsers = useMemo(() => {
+    if (!user) return users;
+    return users.map(u => (u.id === user.id ? { ...u, ...user } : u));
+  }, [user, users]);
+
   // Compute other users (all users except current user)
   const otherUsers = useMemo(() => {
     if (!user) return allUsers;
@@ -42,8 +50,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   useEffect(() => {
     // Load all users and check auth status
     const initialize = async () => {
-      const users = await fetchUsers();
-      setAllUsers(users);
+      setUsers(await fetchUsers());
       await checkAuthStatus();
     };
     initialize();
@@ -63,10 +70,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (response.ok) {
           const data = await response.json();
           setUser(data.user);
-        } else {
-          localStorage.removeItem('sessionId');
+          return;
         }
+        localStorage.removeItem('sessionId');
       }
+      await signInFromHomeAssistant();
     } catch (error) {
       console.error('Auth check failed:', error);
       localStorage.removeItem('sessionId');
@@ -75,18 +83,40 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (userId: string) => {
+  // Opened through Home Assistant ingress by a mapped Home Assistant user: sign them in
+  // without the login screen. Anyone else is left to choose their name.
+  const signInFromHomeAssistant = async () => {
+    const response = await fetch(`${API_BASE_URL}/login/ingress`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      localStorage.setItem('sessionId', data.sessionId);
+      setUser(data.user);
+    }
+  };
+
+  const login = async (userId: string, pin?: string) => {
     try {
       const response = await fetch(`${API_BASE_URL}/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ userId }),
+        body: JSON.stringify({ userId, pin }),
       });
 
       if (!response.ok) {
-        throw new Error('Login failed');
+        const data = await response.json().catch(() => ({}));
+        if (data.pinRequired) {
+          // They've set a PIN since the list was loaded
+          setUsers(current => current.map(u => (u.id === userId ? { ...u, hasPin: true } : u)));
+        }
+        throw new Error(data.error || 'Login failed');
       }
 
       const data = await response.json();
@@ -118,12 +148,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const updateProfile = async (updates: Pick<User, 'dateOfBirth'>) => {
+    const updated = await saveProfile(updates);
+    setUser(updated);
+  };
+
+  // Returns how many other devices were signed out
+  const updatePin = async (currentPin: string | null, pin: string | null) => {
+    const { hasPin, signedOut } = await savePin(currentPin, pin);
+    setUser(current => (current ? { ...current, hasPin } : current));
+    setUsers(current => current.map(u => (u.id === user?.id ? { ...u, hasPin } : u)));
+    return signedOut;
+  };
+
   const value = {
     user,
     allUsers,
     otherUsers,
     login,
     logout,
+    updateProfile,
+    updatePin,
     isLoading,
   };
 
@@ -0,0 +1,24 @@
+import React, { useState, useEffect, ReactNode } from 'react';
+import { fetchLocaleSettings } from './api';
+import { DEFAULT_LOCALE, getLocale, setLocale } from './locale';
+
+interface LocaleProviderProps {
+  children: ReactNode;
+}
+
+// Loads the household's locale and switches the app to it. Formatting and text read the
+// active locale as they render, so the app is redrawn from scratch when it changes.
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
+  const [localeKey, setLocaleKey] = useState(`${DEFAULT_LOCALE}-`);
+
+  useEffect(() => {
+    fetchLocaleSettings().then(settings => {
+      if (!settings) return;
+      setLocale(settings);
+      document.documentElement.lang = getLocale();
+      setLocaleKey(`${getLocale()}-${settings.weekStartsOn ?? ''}`);
+    });
+  }, []);
+
+  return <React.Fragment key={localeKey}>{children}</React.Fragment>;
+};
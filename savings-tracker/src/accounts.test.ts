@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { checkAccountRules, getMonthlyDepositRoom, getWithdrawalRestriction } from './accounts';
+import { SavingsPot } from './types';
+import { makePot as makeDefaultPot, makeTransaction } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ currentTotal: 5000, ...overrides });
+
+const today = new Date('2025-05-10T12:00:00');
+
+describe('getWithdrawalRestriction', () => {
+  it('should lock fixed-rate bonds until they mature', () => {
+    const bond = makePot({ accountType: 'fixed-rate-bond', maturityDate: '2025-06-01' });
+
+    expect(getWithdrawalRestriction(bond, new Date('2025-05-31T12:00:00'), today)).toContain('1 Jun 2025');
+    expect(getWithdrawalRestriction(bond, new Date('2025-06-01T12:00:00'), today)).toBeNull();
+  });
+
+  it('should only allow withdrawals once the notice period has passed', () => {
+    const notice = makePot({ accountType: 'notice', noticeDays: 30 });
+
+    expect(getWithdrawalRestriction(notice, new Date('2025-06-08T12:00:00'), today)).toContain('9 Jun 2025');
+    expect(getWithdrawalRestriction(notice, new Date('2025-06-09T12:00:00'), today)).toBeNull();
+    // Withdrawals already made are just being recorded
+    expect(getWithdrawalRestriction(notice, new Date('2025-05-01T12:00:00'), today)).toBeNull();
+    expect(getWithdrawalRestriction(makePot({}), today, today)).toBeNull();
+  });
+});
+
+describe('regular saver limits', () => {
+  const saver = makePot({ accountType: 'regular-saver', maxMonthlyDeposit: 300 });
+  const transactions = [
+    makeTransaction({}),
+    makeTransaction({ id: 'in', kind: 'transfer', amount: 50, transferId: 't1' }),
+    makeTransaction({ id: 'out', kind: 'withdrawal', amount: 80 }),
+    makeTransaction({ id: 'april', date: new Date('2025-04-30T12:00:00') })
+  ];
+
+  it('should count deposits and transfers in this calendar month', () => {
+    expect(getMonthlyDepositRoom(saver, transactions, today)).toBe(150);
+    expect(getMonthlyDepositRoom(saver, transactions, today, 'txn-1')).toBe(250);
+    expect(getMonthlyDepositRoom(makePot({}), transactions, today)).toBeNull();
+  });
+
+  it('should refuse deposits over the monthly limit', () => {
+    expect(checkAccountRules(saver, 'in', 150, today, transactions)?.severity).toBe('info');
+    expect(checkAccountRules(saver, 'in', 150.01, today, transactions)?.severity).toBe('error');
+    expect(checkAccountRules(saver, 'out', 1000, today, transactions)).toBeNull();
+  });
+});
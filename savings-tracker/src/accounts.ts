@@ -0,0 +1,120 @@
+import { AccountType, SavingsPot, Transaction } from "./types";
+import { getTransactionKind } from "./ledger";
+import { formatMoney } from "./currency";
+import { formatDate } from "./locale";
+import { addDays, isSameMonth, startOfDay } from "date-fns";
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  "easy-access": "Easy access",
+  notice: "Notice account",
+  "fixed-rate-bond": "Fixed-rate bond",
+  "regular-saver": "Regular saver",
+};
+
+// Types with a term end (maturity date)
+export const hasFixedTerm = (pot: Pick<SavingsPot, "accountType">): boolean =>
+  pot.accountType === "fixed-rate-bond" || pot.accountType === "regular-saver";
+
+// When a fixed-term pot matures (noon on the day), or null if it doesn't have a term.
+// Interest stops from then on, matching the scheduler.
+export const getMaturityDate = (pot: SavingsPot): Date | null =>
+  hasFixedTerm(pot) && pot.maturityDate ? new Date(`${pot.maturityDate}T12:00:00`) : null;
+
+// Why money can't come out of a pot on a date, or null if it can. Bonds are locked
+// until they mature; notice accounts pay out once the notice period has passed, though
+// past dates are records of withdrawals already made. Matches checkWithdrawal in the backend.
+export const getWithdrawalRestriction = (
+  pot: SavingsPot,
+  date: Date,
+  today: Date = new Date()
+): string | null => {
+  const maturity = getMaturityDate(pot);
+  if (pot.accountType === "fixed-rate-bond" && maturity && startOfDay(date) < startOfDay(maturity)) {
+    return `${pot.name} is a fixed-rate bond and can't be withdrawn from until it matures on ${formatDate(maturity, "PP")}.`;
+  }
+
+  if (pot.accountType === "notice" && pot.noticeDays) {
+    const earliest = startOfDay(addDays(today, pot.noticeDays));
+    if (startOfDay(date) >= startOfDay(today) && startOfDay(date) < earliest) {
+      return `${pot.name} needs ${pot.noticeDays} days' notice, so the earliest withdrawal date is ${formatDate(earliest, "PP")}.`;
+    }
+  }
+
+  return null;
+};
+
+// How much more a regular saver takes in the month containing `date`, or null when
+// the pot has no monthly limit. `excludeId` leaves out a transaction being edited.
+export const getMonthlyDepositRoom = (
+  pot: SavingsPot,
+  transactions: Transaction[],
+  date: Date,
+  excludeId?: string
+): number | null => {
+  if (pot.accountType !== "regular-saver" || !pot.maxMonthlyDeposit) return null;
+
+  const deposited = transactions
+    .filter((t) => {
+      if (t.potId !== pot.id || t.id === excludeId || !isSameMonth(t.date, date)) return false;
+      const kind = getTransactionKind(t);
+      return kind === "deposit" || (kind === "transfer" && t.amount > 0);
+    })
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return Math.max(0, pot.maxMonthlyDeposit - deposited);
+};
+
+// e.g. "Fixed-rate bond · matures 5 Nov 2026"; null for easy access
+export const describeAccountType = (pot: SavingsPot): string | null => {
+  if (!pot.accountType || pot.accountType === "easy-access") return null;
+
+  const parts = [ACCOUNT_TYPE_LABELS[pot.accountType]];
+  if (pot.accountType === "notice" && pot.noticeDays) {
+    parts.push(`${pot.noticeDays} days' notice`);
+  }
+  if (pot.accountType === "regular-saver" && pot.maxMonthlyDeposit) {
+    parts.push(`up to ${formatMoney(pot.maxMonthlyDeposit, pot.currency)}/month`);
+  }
+  const maturity = getMaturityDate(pot);
+  if (maturity) {
+    parts.push(`${maturity <= new Date() ? "matured" : "matures"} ${formatDate(maturity, "PP")}`);
+  }
+  return parts.join(" · ");
+};
+
+export interface AccountRuleNotice {
+  severity: "error" | "info";
+  message: string;
+}
+
+// What to tell someone moving `amount` in or out of a pot on `date`: an error when
+// its account type doesn't allow it (the server refuses those), or how much a
+// regular saver still takes this month. NaN amounts are treated as not entered yet.
+export const checkAccountRules = (
+  pot: SavingsPot,
+  direction: "in" | "out",
+  amount: number,
+  date: Date,
+  transactions: Transaction[],
+  excludeId?: string
+): AccountRuleNotice | null => {
+  if (direction === "out") {
+    const restriction = getWithdrawalRestriction(pot, date);
+    return restriction ? { severity: "error", message: restriction } : null;
+  }
+
+  const room = getMonthlyDepositRoom(pot, transactions, date, excludeId);
+  if (room === null) return null;
+
+  const limit = formatMoney(pot.maxMonthlyDeposit || 0, pot.currency);
+  if (!isNaN(amount) && amount > room + 0.005) {
+    return {
+      severity: "error",
+      message: `${pot.name} only takes ${limit} a month, and there's ${formatMoney(room, pot.currency)} left for ${formatDate(date, "MMMM")}.`,
+    };
+  }
+  return {
+    severity: "info",
+    message: `${formatMoney(room, pot.currency)} of this regular saver's ${limit} monthly limit left for ${formatDate(date, "MMMM")}.`,
+  };
+};
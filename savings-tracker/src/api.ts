@@ -5,6 +5,7 @@ import {
   CreateSavingsPot,
   CreateTransaction,
   User,
+  Session,
   UpcomingSpend,
   CreateUpcomingSpend,
   ExpenseCategory,
@@ -12,6 +13,27 @@ import {
   BudgetAllocation,
   BudgetStream,
   CreateBudgetStream,
+  Transfer,
+  CreateTransfer,
+  RecurrenceException,
+  RecurrenceExceptionUpdate,
+  Scenario,
+  CreateScenario,
+  HouseholdSettings,
+  LocaleSettings,
+  FxRate,
+  CreateFxRate,
+  BalanceSnapshot,
+  ReconcileRequest,
+  ReconcileResult,
+  IntegrityReport,
+  Backup,
+  BackupRestoreResult,
+  StatementRow,
+  StatementAccountLink,
+  StatementImportResult,
+  ImportPreset,
+  CreateImportPreset,
 } from "./types";
 
 // Use relative URL for production (HA ingress), absolute URL only for local dev
@@ -56,6 +78,28 @@ export const fetchUsers = async (): Promise<User[]> => {
   }
 };
 
+// Update the signed-in user's profile
+export const updateProfile = async (
+  updates: Pick<User, "dateOfBirth">
+): Promise<User> => {
+  const { user } = await apiRequest<{ user: User }>("/me", {
+    method: "PUT",
+    body: JSON.stringify(updates),
+  });
+  return user;
+};
+
+// Set, change or remove (null) the signed-in user's PIN or password. Setting one signs out
+// the user's other devices; throws with the server's reason if it can't be changed.
+export const updatePin = async (
+  currentPin: string | null,
+  pin: string | null
+): Promise<{ hasPin: boolean; signedOut: number }> =>
+  apiRequest<{ hasPin: boolean; signedOut: number }>("/me/pin", {
+    method: "PUT",
+    body: JSON.stringify({ currentPin, pin }),
+  });
+
 // Load user-specific savings data
 export const loadSavingsData = async (): Promise<SavingsData> => {
   try {
@@ -113,6 +157,57 @@ export const deleteSavingsPot = async (id: string): Promise<boolean> => {
   }
 };
 
+// ==================== Sessions API ====================
+
+// Fetch the devices the signed-in user is signed in on
+export const fetchSessions = async (): Promise<Session[]> => {
+  try {
+    return await apiRequest<Session[]>("/sessions");
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return [];
+  }
+};
+
+// Sign out one of the user's other devices
+export const revokeSession = async (id: string): Promise<void> => {
+  await apiRequest<{ message: string }>(`/sessions/${id}`, { method: "DELETE" });
+};
+
+// Sign out all of the user's other devices, returning how many were signed out
+export const revokeOtherSessions = async (): Promise<number> => {
+  const { signedOut } = await apiRequest<{ signedOut: number }>("/sessions", { method: "DELETE" });
+  return signedOut;
+};
+
+// ==================== Reconciliation API ====================
+
+// The pot's ledger balance at the end of a YYYY-MM-DD statement date (null if it couldn't be loaded)
+export const fetchLedgerBalance = async (
+  potId: string,
+  statementDate: string
+): Promise<number | null> => {
+  try {
+    const result = await apiRequest<{ ledgerBalance: number }>(
+      `/pots/${potId}/reconciliation?date=${statementDate}`
+    );
+    return result.ledgerBalance;
+  } catch (error) {
+    console.error("Error fetching ledger balance:", error);
+    return null;
+  }
+};
+
+// Reconcile a pot to a statement, posting an adjustment for any difference
+export const reconcilePot = async (
+  potId: string,
+  request: ReconcileRequest
+): Promise<ReconcileResult> =>
+  apiRequest<ReconcileResult>(`/pots/${potId}/reconcile`, {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+
 // Transaction operations
 export const addTransaction = async (
   transaction: CreateTransaction
@@ -160,6 +255,18 @@ export const updateTransaction = async (
   }
 };
 
+// Import bank statement rows into a pot in one request (rows already in the pot are skipped).
+// Passing the statement's account ID remembers the pot for that account's next import.
+export const importTransactions = async (
+  potId: string,
+  rows: StatementRow[],
+  accountId?: string | null
+): Promise<StatementImportResult> =>
+  apiRequest<StatementImportResult>("/transactions/bulk", {
+    method: "POST",
+    body: JSON.stringify({ potId, rows, accountId }),
+  });
+
 export const deleteTransaction = async (id: string): Promise<boolean> => {
   try {
     await apiRequest(`/transactions/${id}`, {
@@ -172,6 +279,109 @@ export const deleteTransaction = async (id: string): Promise<boolean> => {
   }
 };
 
+// Skip, move or change the amount of one occurrence of a recurring series
+export const setRecurrenceException = async (
+  transactionId: string,
+  occurrenceDate: string,
+  exception: RecurrenceExceptionUpdate
+): Promise<RecurrenceException | null> => {
+  try {
+    return await apiRequest<RecurrenceException>(
+      `/transactions/${transactionId}/exceptions/${occurrenceDate}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(exception),
+      }
+    );
+  } catch (error) {
+    console.error("Error saving recurrence exception:", error);
+    return null;
+  }
+};
+
+export const deleteRecurrenceException = async (
+  transactionId: string,
+  occurrenceDate: string
+): Promise<boolean> => {
+  try {
+    await apiRequest(
+      `/transactions/${transactionId}/exceptions/${occurrenceDate}`,
+      {
+        method: "DELETE",
+      }
+    );
+    return true;
+  } catch (error) {
+    console.error("Error removing recurrence exception:", error);
+    return false;
+  }
+};
+
+// ==================== Transfers API ====================
+
+// Move money between two pots (destination can belong to another household member)
+export const addTransfer = async (transfer: CreateTransfer): Promise<Transfer> => {
+  const result = await apiRequest<any>("/transfers", {
+    method: "POST",
+    body: JSON.stringify({
+      ...transfer,
+      date: transfer.date.toISOString(),
+    }),
+  });
+
+  return {
+    ...result,
+    date: new Date(result.date),
+  };
+};
+
+export const updateTransfer = async (
+  transferId: string,
+  updates: Partial<
+    Pick<
+      Transfer,
+      | "amount"
+      | "date"
+      | "description"
+      | "repeatMonthly"
+      | "repeatWeekly"
+      | "recurrence"
+    >
+  >
+): Promise<Transfer | null> => {
+  try {
+    const updateData = { ...updates };
+    if (updates.date) {
+      (updateData as any).date = updates.date.toISOString();
+    }
+
+    const result = await apiRequest<any>(`/transfers/${transferId}`, {
+      method: "PUT",
+      body: JSON.stringify(updateData),
+    });
+
+    return {
+      ...result,
+      date: new Date(result.date),
+    };
+  } catch (error) {
+    console.error("Error updating transfer:", error);
+    return null;
+  }
+};
+
+export const deleteTransfer = async (transferId: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/transfers/${transferId}`, {
+      method: "DELETE",
+    });
+    return true;
+  } catch (error) {
+    console.error("Error deleting transfer:", error);
+    return false;
+  }
+};
+
 // ==================== Upcoming Spends API ====================
 
 // Fetch all upcoming spends (collaborative - all users see all)
@@ -323,6 +533,254 @@ export const deleteExpenseCategory = async (id: string): Promise<boolean> => {
   }
 };
 
+// ==================== Balance History API ====================
+
+// Fetch every pot's recorded daily closing balances from a YYYY-MM-DD date
+export const fetchBalanceHistory = async (from: string): Promise<BalanceSnapshot[]> => {
+  try {
+    return await apiRequest<BalanceSnapshot[]>(`/balance-history?from=${from}`);
+  } catch (error) {
+    console.error("Error fetching balance history:", error);
+    return [];
+  }
+};
+
+// ==================== Import Presets API ====================
+
+// Fetch all saved CSV column mappings
+export const fetchImportPresets = async (): Promise<ImportPreset[]> => {
+  try {
+    return await apiRequest<ImportPreset[]>("/import-presets");
+  } catch (error) {
+    console.error("Error fetching import presets:", error);
+    return [];
+  }
+};
+
+// Save a CSV column mapping for a bank
+export const createImportPreset = async (
+  preset: CreateImportPreset
+): Promise<ImportPreset | null> => {
+  try {
+    return await apiRequest<ImportPreset>("/import-presets", {
+      method: "POST",
+      body: JSON.stringify(preset),
+    });
+  } catch (error) {
+    console.error("Error creating import preset:", error);
+    return null;
+  }
+};
+
+// Delete a saved CSV column mapping
+export const deleteImportPreset = async (id: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/import-presets/${id}`, {
+      method: "DELETE",
+    });
+    return true;
+  } catch (error) {
+    console.error("Error deleting import preset:", error);
+    return false;
+  }
+};
+
+// Fetch which pot each of the user's statement accounts imports into
+export const fetchStatementAccounts = async (): Promise<StatementAccountLink[]> => {
+  try {
+    return await apiRequest<StatementAccountLink[]>("/statement-accounts");
+  } catch (error) {
+    console.error("Error fetching statement accounts:", error);
+    return [];
+  }
+};
+
+// ==================== Integrity API ====================
+
+// Check every pot's total against its ledger and look for orphaned rows
+export const fetchIntegrityReport = async (): Promise<IntegrityReport | null> => {
+  try {
+    return await apiRequest<IntegrityReport>("/integrity");
+  } catch (error) {
+    console.error("Error checking integrity:", error);
+    return null;
+  }
+};
+
+// Fix everything the integrity check finds and return a fresh report
+export const repairIntegrity = async (): Promise<IntegrityReport> => {
+  const { integrity } = await apiRequest<{ integrity: IntegrityReport }>("/integrity/repair", {
+    method: "POST",
+  });
+  return integrity;
+};
+
+// ==================== Backup API ====================
+
+// Fetch a full backup of every table
+export const fetchBackup = async (): Promise<Backup | null> => {
+  try {
+    return await apiRequest<Backup>("/backup");
+  } catch (error) {
+    console.error("Error fetching backup:", error);
+    return null;
+  }
+};
+
+// Replace all data with a backup (throws with the server's reason if it can't be restored)
+export const restoreBackup = async (backup: Backup): Promise<BackupRestoreResult> =>
+  apiRequest<BackupRestoreResult>("/backup/restore", {
+    method: "POST",
+    body: JSON.stringify(backup),
+  });
+
+// ==================== Household Settings API ====================
+
+// Fetch the household's shared assumptions
+export const fetchHouseholdSettings = async (): Promise<HouseholdSettings | null> => {
+  try {
+    return await apiRequest<HouseholdSettings>("/settings");
+  } catch (error) {
+    console.error("Error fetching household settings:", error);
+    return null;
+  }
+};
+
+// Update some of the household's shared assumptions
+export const updateHouseholdSettings = async (
+  updates: Partial<HouseholdSettings>
+): Promise<HouseholdSettings | null> => {
+  try {
+    return await apiRequest<HouseholdSettings>("/settings", {
+      method: "PUT",
+      body: JSON.stringify(updates),
+    });
+  } catch (error) {
+    console.error("Error updating household settings:", error);
+    return null;
+  }
+};
+
+// ==================== Locale API ====================
+
+// Fetch the household's locale (available before signing in)
+export const fetchLocaleSettings = async (): Promise<LocaleSettings | null> => {
+  try {
+    return await apiRequest<LocaleSettings>("/locale");
+  } catch (error) {
+    console.error("Error fetching locale settings:", error);
+    return null;
+  }
+};
+
+// ==================== Exchange Rates API ====================
+
+const parseFxRate = (rate: any): FxRate => ({
+  ...rate,
+  updatedAt: new Date(rate.updatedAt),
+});
+
+// Fetch every exchange rate the household has entered, newest first within each pair
+export const fetchFxRates = async (): Promise<FxRate[]> => {
+  try {
+    const rates = await apiRequest<any[]>("/fx-rates");
+    return rates.map(parseFxRate);
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error);
+    return [];
+  }
+};
+
+// Save exchange rates, replacing any for the same pair and day. Returns all rates
+// (throws with the server's reason if they can't be saved).
+export const saveFxRates = async (rates: CreateFxRate[]): Promise<FxRate[]> => {
+  const saved = await apiRequest<any[]>("/fx-rates", {
+    method: "POST",
+    body: JSON.stringify({ rates }),
+  });
+  return saved.map(parseFxRate);
+};
+
+export const deleteFxRate = async (id: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/fx-rates/${id}`, {
+      method: "DELETE",
+    });
+    return true;
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error);
+    return false;
+  }
+};
+
+// ==================== Scenarios API ====================
+
+// Fetch all saved what-if scenarios (collaborative - all users see all)
+export const fetchScenarios = async (): Promise<Scenario[]> => {
+  try {
+    const scenarios = await apiRequest<any[]>("/scenarios");
+    return scenarios.map((scenario) => ({
+      ...scenario,
+      createdAt: new Date(scenario.createdAt),
+      updatedAt: new Date(scenario.updatedAt),
+    }));
+  } catch (error) {
+    console.error("Error fetching scenarios:", error);
+    return [];
+  }
+};
+
+// Save a new scenario
+export const createScenario = async (
+  scenario: CreateScenario
+): Promise<Scenario> => {
+  const result = await apiRequest<any>("/scenarios", {
+    method: "POST",
+    body: JSON.stringify(scenario),
+  });
+
+  return {
+    ...result,
+    createdAt: new Date(result.createdAt),
+    updatedAt: new Date(result.updatedAt),
+  };
+};
+
+// Update a saved scenario
+export const updateScenario = async (
+  id: string,
+  updates: Partial<CreateScenario>
+): Promise<Scenario | null> => {
+  try {
+    const result = await apiRequest<any>(`/scenarios/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(updates),
+    });
+
+    return {
+      ...result,
+      createdAt: new Date(result.createdAt),
+      updatedAt: new Date(result.updatedAt),
+    };
+  } catch (error) {
+    console.error("Error updating scenario:", error);
+    return null;
+  }
+};
+
+// Delete a saved scenario
+export const deleteScenario = async (id: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/scenarios/${id}`, {
+      method: "DELETE",
+    });
+    return true;
+  } catch (error) {
+    console.error("Error deleting scenario:", error);
+    return false;
+  }
+};
+
 // ==================== Budget Allocation API ====================
 
 export interface BudgetWithStreams extends BudgetAllocation {
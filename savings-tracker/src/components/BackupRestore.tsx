@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Alert
+} from '@mui/material';
+import { Download, Restore } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { Backup } from '../types';
+import { fetchBackup, restoreBackup } from '../api';
+import { formatDate } from '../locale';
+
+interface BackupRestoreProps {
+  onRestored: () => void;
+}
+
+// Download everything as a JSON backup, or replace everything from one. Covers the whole household.
+const BackupRestore: React.FC<BackupRestoreProps> = ({ onRestored }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setIsBusy(true);
+    setError(null);
+    setResultMessage(null);
+    const backup = await fetchBackup();
+    if (backup) {
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `savings-backup-${format(new Date(backup.createdAt), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      setError('Failed to create the backup');
+    }
+    setIsBusy(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResultMessage(null);
+
+    let backup: Backup;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      setError("That file isn't a backup");
+      return;
+    }
+    const takenAt = backup.createdAt ? ` taken ${formatDate(new Date(backup.createdAt), 'PPp')}` : '';
+    if (!window.confirm(`Replace all accounts, transactions and settings with the backup${takenAt}? Everything added since will be lost.`)) return;
+
+    setIsBusy(true);
+    try {
+      const result = await restoreBackup(backup);
+      const transactionCount = result.restored.transactions || 0;
+      setResultMessage(
+        `Restored ${result.restored.savings_pots || 0} account${result.restored.savings_pots === 1 ? '' : 's'} and ` +
+        `${transactionCount} transaction${transactionCount === 1 ? '' : 's'}.`
+      );
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          When running in Home Assistant, a backup is also saved to the add-on's data folder each day,
+          so Home Assistant backups include it.
+        </Typography>
+
+        {resultMessage && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {resultMessage}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="outlined" startIcon={<Download />} onClick={handleDownload} disabled={isBusy}>
+            Download Backup
+          </Button>
+          <Button variant="outlined" color="warning" component="label" startIcon={<Restore />} disabled={isBusy}>
+            Restore from File
+            <input type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BackupRestore;
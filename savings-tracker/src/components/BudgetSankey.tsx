@@ -44,6 +44,7 @@ import {
   BudgetWithStreams,
 } from '../api';
 import { BudgetStream } from '../types';
+import { formatMoney, getCurrencySymbol } from '../currency';
 
 // Savings breakdown by pot
 export interface SavingsBreakdown {
@@ -60,6 +61,7 @@ export interface SavingsBreakdown {
 interface BudgetSankeyProps {
   totalRecurringMonthly: number;
   savingsBreakdown: SavingsBreakdown[];
+  currency: string; // The household's base currency, which savingsBreakdown is in
   onDataChange?: () => void;
 }
 
@@ -87,8 +89,10 @@ const NODE_COLORS: Record<string, string> = {
 const BudgetSankey: React.FC<BudgetSankeyProps> = ({
   totalRecurringMonthly,
   savingsBreakdown,
+  currency,
   onDataChange,
 }) => {
+  const currencySymbol = getCurrencySymbol(currency);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const isTablet = useMediaQuery(theme.breakpoints.down('md'));
@@ -497,7 +501,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                     value={netSalary}
                     onChange={(e) => setNetSalary(e.target.value)}
                     InputProps={{
-                      startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                      startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
                     }}
                     sx={{ width: 200 }}
                     autoFocus
@@ -523,7 +527,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
               ) : (
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                   <Typography variant="h5" sx={{ fontWeight: 600 }}>
-                    £{netSalaryValue.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                    {formatMoney(netSalaryValue, currency)}
                   </Typography>
                   <IconButton size="small" onClick={() => setEditingSalary(true)}>
                     <EditIcon fontSize="small" />
@@ -584,7 +588,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                       {getNodeLabel(node.id)}
                     </Typography>
                     <Typography variant="body2" sx={{ color: node.color, fontWeight: 600, mt: 0.5 }}>
-                      £{node.value.toLocaleString()}
+                      {formatMoney(node.value, currency)}
                     </Typography>
                   </Box>
                 )}
@@ -600,7 +604,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                       {getNodeLabel(link.source.id)} → {getNodeLabel(link.target.id)}
                     </Typography>
                     <Typography variant="body2" sx={{ color: link.target.color, fontWeight: 600, mt: 0.5 }}>
-                      £{link.value.toLocaleString()}
+                      {formatMoney(link.value, currency)}
                     </Typography>
                   </Box>
                 )}
@@ -632,7 +636,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
           <CardContent sx={{ textAlign: 'center' }}>
             <Typography variant="subtitle2" color="text.secondary">Total Allocated</Typography>
             <Typography variant="h5" sx={{ fontWeight: 600, color: 'primary.main' }}>
-              £{totalAllocated.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+              {formatMoney(totalAllocated, currency)}
             </Typography>
           </CardContent>
         </Card>
@@ -646,7 +650,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                 color: unallocated < 0 ? 'error.main' : unallocated === 0 ? 'success.main' : 'warning.main' 
               }}
             >
-              £{unallocated.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+              {formatMoney(unallocated, currency)}
             </Typography>
           </CardContent>
         </Card>
@@ -680,7 +684,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                     Monthly Savings
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
-                    £{totalRecurringMonthly.toLocaleString('en-GB', { minimumFractionDigits: 2 })} total across {savingsBreakdown.length} account{savingsBreakdown.length !== 1 ? 's' : ''}
+                    {formatMoney(totalRecurringMonthly, currency)} total across {savingsBreakdown.length} account{savingsBreakdown.length !== 1 ? 's' : ''}
                   </Typography>
                 </Box>
               </Box>
@@ -717,14 +721,14 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                       secondary={
                         <Box component="span">
                           <Typography component="span" variant="body2" sx={{ fontWeight: 600 }}>
-                            £{saving.totalMonthly.toLocaleString('en-GB', { minimumFractionDigits: 2 })}/month
+                            {formatMoney(saving.totalMonthly, currency)}/month
                           </Typography>
                           {' '}
                           <Typography component="span" variant="body2" color="text.secondary">
                             {saving.isMonthly && saving.isWeekly 
-                              ? `(£${saving.monthlyAmount.toFixed(0)} monthly + £${saving.weeklyAmount.toFixed(0)}/week)`
+                              ? `(${formatMoney(saving.monthlyAmount, currency, 0)} monthly + ${formatMoney(saving.weeklyAmount, currency, 0)}/week)`
                               : saving.isWeekly 
-                                ? `(£${saving.weeklyAmount.toFixed(0)}/week × ~4.3)`
+                                ? `(${formatMoney(saving.weeklyAmount, currency, 0)}/week × ~4.3)`
                                 : '(monthly)'
                             }
                           </Typography>
@@ -806,7 +810,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
                             )}
                           </Box>
                         }
-                        secondary={`£${stream.amount.toLocaleString('en-GB', { minimumFractionDigits: 2 })} / month`}
+                        secondary={`${formatMoney(stream.amount, currency)} / month`}
                         primaryTypographyProps={{ variant: 'body2' }}
                         secondaryTypographyProps={{ variant: 'caption' }}
                       />
@@ -878,7 +882,7 @@ const BudgetSankey: React.FC<BudgetSankeyProps> = ({
               onChange={(e) => setStreamAmount(e.target.value)}
               fullWidth
               InputProps={{
-                startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>,
               }}
             />
             <FormControl fullWidth>
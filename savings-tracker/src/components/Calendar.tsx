@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { SavingsData, Transaction, User } from '../types';
-import { addTransaction, deleteTransaction } from '../storage';
+import { BaseCurrencyReport, SavingsData, Transaction, TransactionKind, RecurrenceRule, User } from '../types';
+import { addTransaction, deleteTransaction, addTransfer, deleteTransfer, setRecurrenceException, deleteRecurrenceException } from '../storage';
 import { getProjectedRecurringTransactions } from '../projections';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, getDay, isBefore, startOfDay } from 'date-fns';
+import { IsaAllowance, getIsaAllowance, getTaxYearEnd, checkIsaAllowance } from '../isa';
+import { startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, getDay, isBefore, startOfDay } from 'date-fns';
 import {
   Card,
   CardContent,
@@ -24,21 +25,33 @@ import {
   Chip,
   FormControlLabel,
   Checkbox,
-  Avatar
+  Avatar,
+  Alert
 } from '@mui/material';
-import { ChevronLeft, ChevronRight, Delete, Add, Edit } from '@mui/icons-material';
+import { ChevronLeft, ChevronRight, Delete, Add, Edit, SwapHoriz, Restore, UploadFile } from '@mui/icons-material';
 import { useAuth } from '../AuthContext';
 import { updateTransaction } from '../storage';
+import { TRANSACTION_KINDS, TRANSACTION_KIND_LABELS, getSignedAmount, getTransactionKind, formatSignedAmount, collapseTransferLegs, getTransferCounterpart } from '../ledger';
+import { getRecurrenceRule, getRecurrenceFlags, getRecurrenceLabel, isRecurring, toDayKey, parseDayKey } from '../recurrence';
+import RecurrenceFields from './RecurrenceFields';
+import IsaAllowanceNotice from './IsaAllowanceNotice';
+import LisaPenaltyNotice from './LisaPenaltyNotice';
+import { isLifetimeIsa } from '../lisa';
+import { AccountRuleNotice, checkAccountRules, getMaturityDate } from '../accounts';
+import StatementImportDialog from './StatementImportDialog';
+import { formatMoney, getCurrencySymbol } from '../currency';
+import { formatDate, getWeekStartsOn, getWeekdayNames } from '../locale';
+import { getBalanceOnlyPots } from '../visibility';
 
 interface CalendarProps {
   data: SavingsData;
   combinedData: SavingsData;
+  reporting: BaseCurrencyReport;
   onDataChange: () => void;
   currentUser: User;
 }
 
-type RecurrenceType = 'none' | 'weekly' | 'monthly';
-type DialogMode = 'view' | 'add' | 'edit';
+type DialogMode = 'view' | 'add' | 'edit' | 'transfer' | 'occurrence';
 
 // Generate a consistent color for a user based on their index
 const getUserColor = (_userId: string, index: number): string => {
@@ -46,25 +59,56 @@ const getUserColor = (_userId: string, index: number): string => {
   return colors[index % colors.length];
 };
 
-const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, currentUser }) => {
+const Calendar: React.FC<CalendarProps> = ({ data, combinedData, reporting, onDataChange, currentUser }) => {
   const { otherUsers, allUsers } = useAuth();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogMode, setDialogMode] = useState<DialogMode>('view');
+  const [importOpen, setImportOpen] = useState(false);
   const [projectedTransactions, setProjectedTransactions] = useState<Transaction[]>([]);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
   const [transactionToEdit, setTransactionToEdit] = useState<Transaction | null>(null);
+  // A projected occurrence being changed on its own (skip, move or change amount)
+  const [occurrenceToEdit, setOccurrenceToEdit] = useState<Transaction | null>(null);
+  const [occurrenceForm, setOccurrenceForm] = useState({
+    amount: '',
+    date: '',
+    skipped: false
+  });
   // Track which users' data to display (current user always included)
   const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set([currentUser.id]));
   const [formData, setFormData] = useState({
     potId: data.pots[0]?.id || '',
     amount: '',
     description: '',
-    recurrence: 'none' as RecurrenceType
+    recurrence: null as RecurrenceRule | null,
+    kind: 'deposit' as TransactionKind
+  });
+  const [transferForm, setTransferForm] = useState({
+    fromPotId: '',
+    toPotId: '',
+    amount: '',
+    description: '',
+    recurrence: null as RecurrenceRule | null
   });
 
+  // Each transaction is shown in its pot's currency; day and month totals add up pots
+  // in different currencies, so they're in the base currency
+  const { baseCurrency, potRates } = reporting;
+  const getBaseAmount = (t: Transaction) => getSignedAmount(t) * (potRates[t.potId] ?? 0);
+  const getPotCurrency = (potId: string) => combinedData.pots.find(p => p.id === potId)?.currency;
+  // Transfers only go between pots in the same currency
+  const isSameCurrency = (potId: string, otherPotId: string) =>
+    combinedData.pots.find(p => p.id === potId)?.currency === combinedData.pots.find(p => p.id === otherPotId)?.currency;
+
+  // Other members' pots shown without their transactions, so missing from the calendar
+  const balanceOnlyPots = getBalanceOnlyPots(
+    combinedData.pots.filter(pot => selectedUserIds.has(pot.userId)),
+    currentUser.id
+  );
+
   // Build user color map
   const userColorMap = new Map<string, string>();
   allUsers.forEach((user, index) => {
@@ -73,7 +117,10 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
 
   useEffect(() => {
     const loadProjected = async () => {
-      const projected = await getProjectedRecurringTransactions();
+      // Far enough ahead to see what's still scheduled into ISAs this tax year
+      const sixMonths = addMonths(new Date(), 6);
+      const taxYearEnd = getTaxYearEnd(new Date());
+      const projected = await getProjectedRecurringTransactions(taxYearEnd > sixMonths ? taxYearEnd : sixMonths);
       setProjectedTransactions(projected);
     };
     loadProjected();
@@ -128,11 +175,78 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
     return [...actualTransactions, ...projectedForDate];
   };
 
+  // ISA allowance for a payment into `potId` on `date` (null when the pot isn't an ISA)
+  const getAllowanceFor = (potId: string, date: Date | null, excludeId?: string): IsaAllowance | null => {
+    const pot = combinedData.pots.find(p => p.id === potId);
+    if (!pot?.isaType || !date) return null;
+    return getIsaAllowance(pot.userId, combinedData.pots, combinedData.transactions, projectedTransactions, date, excludeId);
+  };
+
+  const transactionAllowance = formData.kind === 'deposit'
+    ? getAllowanceFor(formData.potId, transactionToEdit ? transactionToEdit.date : selectedDate, transactionToEdit?.id)
+    : null;
+  // Moving money between ISAs doesn't use allowance
+  const transferAllowance = combinedData.pots.find(p => p.id === transferForm.fromPotId)?.isaType
+    ? null
+    : getAllowanceFor(transferForm.toPotId, selectedDate);
+
+  // Taking money out of a Lifetime ISA, other than into another one, is charged
+  const isLifetimeIsaPot = (potId: string) => {
+    const pot = combinedData.pots.find(p => p.id === potId);
+    return !!pot && isLifetimeIsa(pot);
+  };
+  const showTransactionPenalty = formData.kind === 'withdrawal' && isLifetimeIsaPot(formData.potId);
+  const showTransferPenalty = isLifetimeIsaPot(transferForm.fromPotId) && !isLifetimeIsaPot(transferForm.toPotId);
+
+  // Account type rules (bond terms, notice periods, regular saver limits). Editing a
+  // withdrawal without moving it keeps the notice it was given, as on the server.
+  const getAccountRuleNotice = (potId: string, direction: 'in' | 'out', amount: number, date: Date | null, excludeId?: string) => {
+    const pot = combinedData.pots.find(p => p.id === potId);
+    if (!pot || !date) return null;
+    return checkAccountRules(pot, direction, amount, date, combinedData.transactions, excludeId);
+  };
+
+  const isUnmovedWithdrawal = !!transactionToEdit &&
+    getTransactionKind(transactionToEdit) === 'withdrawal' &&
+    transactionToEdit.potId === formData.potId;
+  const transactionRuleNotice = formData.kind === 'deposit' || (formData.kind === 'withdrawal' && !isUnmovedWithdrawal)
+    ? getAccountRuleNotice(
+        formData.potId,
+        formData.kind === 'deposit' ? 'in' : 'out',
+        parseFloat(formData.amount),
+        transactionToEdit ? transactionToEdit.date : selectedDate,
+        transactionToEdit?.id
+      )
+    : null;
+  const transferRuleNotice =
+    getAccountRuleNotice(transferForm.fromPotId, 'out', parseFloat(transferForm.amount), selectedDate) ||
+    getAccountRuleNotice(transferForm.toPotId, 'in', parseFloat(transferForm.amount), selectedDate);
+
+  const isBlocked = (notice: AccountRuleNotice | null) => notice?.severity === 'error';
+
+  const getMaturingPots = (date: Date) =>
+    activeData.pots.filter(pot => {
+      const maturity = getMaturityDate(pot);
+      return !!maturity && isSameDay(maturity, date);
+    });
+
+  const isOverAllowance = (allowance: IsaAllowance | null, amount: number) =>
+    !!allowance && checkIsaAllowance(allowance, amount) === 'over';
+
   const getPotName = (potId: string): string => {
     const pot = combinedData.pots.find(p => p.id === potId);
     return pot?.name || 'Unknown Account';
   };
 
+  // "From → To" label for a transfer leg (either leg can be passed in)
+  const getTransferLabel = (transaction: Transaction): string => {
+    const counterpart = getTransferCounterpart(transaction, combinedData.transactions);
+    const counterpartName = counterpart ? getPotName(counterpart.potId) : 'Unknown Account';
+    return transaction.amount < 0
+      ? `${getPotName(transaction.potId)} → ${counterpartName}`
+      : `${counterpartName} → ${getPotName(transaction.potId)}`;
+  };
+
   const getUserName = (userId: string): string => {
     const user = allUsers.find(u => u.id === userId);
     return user?.name || userId;
@@ -145,20 +259,70 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
   };
 
   const handleAddNew = () => {
-    setFormData({ potId: data.pots[0]?.id || '', amount: '', description: '', recurrence: 'none' });
+    setFormData({ potId: data.pots[0]?.id || '', amount: '', description: '', recurrence: null, kind: 'deposit' });
     setDialogMode('add');
   };
 
+  // Adjustments can correct a balance in either direction; everything else is entered as a positive amount
+  const isValidFormAmount = (amount: number, kind: TransactionKind): boolean => {
+    if (isNaN(amount)) return false;
+    return kind === 'adjustment' ? amount !== 0 : amount > 0;
+  };
+
+  const handleMoveMoney = () => {
+    const fromPotId = data.pots[0]?.id || '';
+    setTransferForm({
+      fromPotId,
+      toPotId: combinedData.pots.find(p => p.id !== fromPotId && isSameCurrency(p.id, fromPotId))?.id || '',
+      amount: '',
+      description: '',
+      recurrence: null
+    });
+    setDialogMode('transfer');
+  };
+
+  const handleSubmitTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(transferForm.amount);
+    if (
+      !selectedDate ||
+      !transferForm.fromPotId ||
+      !transferForm.toPotId ||
+      transferForm.fromPotId === transferForm.toPotId ||
+      isNaN(amount) ||
+      amount <= 0 ||
+      isOverAllowance(transferAllowance, amount) ||
+      isBlocked(transferRuleNotice)
+    ) {
+      return;
+    }
+
+    await addTransfer({
+      fromPotId: transferForm.fromPotId,
+      toPotId: transferForm.toPotId,
+      amount,
+      date: selectedDate,
+      description: transferForm.description || undefined,
+      ...getRecurrenceFlags(transferForm.recurrence),
+      recurrence: transferForm.recurrence
+    });
+
+    setDialogMode('view');
+    onDataChange();
+  };
+
   const handleBackToView = () => {
     setDialogMode('view');
     setTransactionToEdit(null);
+    setOccurrenceToEdit(null);
   };
 
   const handleSubmitTransaction = async (e: React.FormEvent) => {
     e.preventDefault();
 
     const amount = parseFloat(formData.amount);
-    if (!selectedDate || !formData.potId || isNaN(amount) || amount <= 0) {
+    if (!selectedDate || !formData.potId || !isValidFormAmount(amount, formData.kind) || isOverAllowance(transactionAllowance, amount) || isBlocked(transactionRuleNotice)) {
       return;
     }
 
@@ -167,8 +331,9 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
       amount,
       date: selectedDate,
       description: formData.description || undefined,
-      repeatMonthly: formData.recurrence === 'monthly',
-      repeatWeekly: formData.recurrence === 'weekly'
+      ...getRecurrenceFlags(formData.recurrence),
+      recurrence: formData.recurrence,
+      kind: formData.kind
     });
 
     setDialogMode('view');
@@ -183,7 +348,12 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
   const handleConfirmDelete = async () => {
     if (!transactionToDelete) return;
 
-    await deleteTransaction(transactionToDelete.id);
+    if (transactionToDelete.transferId) {
+      // Removes both legs of the transfer
+      await deleteTransfer(transactionToDelete.transferId);
+    } else {
+      await deleteTransaction(transactionToDelete.id);
+    }
     setDeleteConfirmOpen(false);
     setTransactionToDelete(null);
     onDataChange();
@@ -191,16 +361,12 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
 
   const handleEditClick = (transaction: Transaction) => {
     setTransactionToEdit(transaction);
-    // Determine recurrence type
-    let recurrence: RecurrenceType = 'none';
-    if (transaction.repeatWeekly) recurrence = 'weekly';
-    else if (transaction.repeatMonthly) recurrence = 'monthly';
-    
     setFormData({
       potId: transaction.potId,
       amount: transaction.amount.toString(),
       description: transaction.description || '',
-      recurrence
+      recurrence: getRecurrenceRule(transaction),
+      kind: getTransactionKind(transaction)
     });
     setDialogMode('edit');
   };
@@ -211,7 +377,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
     if (!transactionToEdit) return;
 
     const amount = parseFloat(formData.amount);
-    if (!formData.potId || isNaN(amount) || amount <= 0) {
+    if (!formData.potId || !isValidFormAmount(amount, formData.kind) || isOverAllowance(transactionAllowance, amount) || isBlocked(transactionRuleNotice)) {
       return;
     }
 
@@ -219,8 +385,9 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
       potId: formData.potId,
       amount,
       description: formData.description || undefined,
-      repeatMonthly: formData.recurrence === 'monthly',
-      repeatWeekly: formData.recurrence === 'weekly'
+      ...getRecurrenceFlags(formData.recurrence),
+      recurrence: formData.recurrence,
+      kind: formData.kind
     });
 
     setDialogMode('view');
@@ -228,25 +395,108 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
     onDataChange();
   };
 
+  // The recurring transaction a projected occurrence belongs to, and its exception (if any)
+  const getOccurrenceSeries = (occurrence: Transaction) => {
+    const series = combinedData.transactions.find(t => t.id === occurrence.occurrenceOf?.transactionId);
+    const exception = series?.exceptions?.find(e => e.occurrenceDate === occurrence.occurrenceOf?.date);
+    return { series, exception };
+  };
+
+  const handleEditOccurrenceClick = (occurrence: Transaction) => {
+    const { exception } = getOccurrenceSeries(occurrence);
+    setOccurrenceToEdit(occurrence);
+    setOccurrenceForm({
+      amount: (occurrence.transferId ? Math.abs(occurrence.amount) : occurrence.amount).toString(),
+      date: exception?.movedTo || occurrence.occurrenceOf?.date || '',
+      skipped: false
+    });
+    setDialogMode('occurrence');
+  };
+
+  const handleSubmitOccurrence = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { series, exception } = occurrenceToEdit ? getOccurrenceSeries(occurrenceToEdit) : { series: undefined, exception: undefined };
+    if (!occurrenceToEdit?.occurrenceOf || !series) return;
+
+    const { date } = occurrenceToEdit.occurrenceOf;
+    const amount = parseFloat(occurrenceForm.amount);
+    const isTransfer = !!series.transferId;
+    const kind = isTransfer ? 'deposit' : getTransactionKind(series);
+    if (!occurrenceForm.skipped && (!occurrenceForm.date || !isValidFormAmount(amount, kind))) {
+      return;
+    }
+
+    // Only store what differs from the series
+    const seriesAmount = isTransfer ? Math.abs(series.amount) : series.amount;
+    const amountOverride = !occurrenceForm.skipped && amount !== seriesAmount ? amount : null;
+    const movedTo = !occurrenceForm.skipped && occurrenceForm.date !== date ? occurrenceForm.date : null;
+
+    if (occurrenceForm.skipped || amountOverride !== null || movedTo !== null) {
+      await setRecurrenceException(series.id, date, {
+        skipped: occurrenceForm.skipped,
+        amount: amountOverride,
+        movedTo
+      });
+    } else if (exception) {
+      await deleteRecurrenceException(series.id, date);
+    }
+
+    setDialogMode('view');
+    setOccurrenceToEdit(null);
+    onDataChange();
+  };
+
+  const handleResetOccurrence = async () => {
+    if (!occurrenceToEdit?.occurrenceOf) return;
+    await deleteRecurrenceException(occurrenceToEdit.occurrenceOf.transactionId, occurrenceToEdit.occurrenceOf.date);
+    setDialogMode('view');
+    setOccurrenceToEdit(null);
+    onDataChange();
+  };
+
+  const handleRestoreOccurrence = async (series: Transaction, occurrenceDate: string) => {
+    await deleteRecurrenceException(series.id, occurrenceDate);
+    onDataChange();
+  };
+
   const handleCloseDialog = () => {
     setDialogOpen(false);
     setSelectedDate(null);
     setDialogMode('view');
     setTransactionToEdit(null);
+    setOccurrenceToEdit(null);
   };
 
   const nextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
   const prevMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
 
+  const combinedActualTotal = activeData.transactions
+    .filter(t => isSameMonth(t.date, currentMonth))
+    .reduce((sum, t) => sum + getBaseAmount(t), 0);
+  const combinedProjectedTotal = projectedTransactions
+    .filter(t => selectedUserIds.has(t.userId) && isSameMonth(t.date, currentMonth))
+    .reduce((sum, t) => sum + getBaseAmount(t), 0);
+
   const selectedDateTransactions = selectedDate ? getTransactionsForDate(selectedDate) : [];
   const isSelectedDatePast = selectedDate ? isBefore(selectedDate, startOfDay(new Date())) : false;
   // For past days, treat projected as actual (they should have happened)
-  const actualTransactionsForDialog = selectedDateTransactions.filter(t => 
+  // Transfers are listed once rather than as two legs
+  const actualTransactionsForDialog = collapseTransferLegs(selectedDateTransactions.filter(t => 
     !t.id.startsWith('projected-') || isSelectedDatePast
-  );
-  const projectedTransactionsForDialog = selectedDateTransactions.filter(t => 
+  ));
+  const projectedTransactionsForDialog = collapseTransferLegs(selectedDateTransactions.filter(t => 
     t.id.startsWith('projected-') && !isSelectedDatePast
-  );
+  ));
+  // Occurrences that were due on this day but have been skipped or moved elsewhere
+  const selectedDateKey = selectedDate ? toDayKey(selectedDate) : '';
+  const changedOccurrencesForDialog = selectedDate && !isSelectedDatePast
+    ? collapseTransferLegs(activeData.transactions).flatMap(series =>
+        (series.exceptions || [])
+          .filter(e => e.occurrenceDate === selectedDateKey && (e.skipped || e.movedTo))
+          .map(exception => ({ series, exception }))
+      )
+    : [];
 
   return (
     <Box sx={{
@@ -342,6 +592,12 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
           </Box>
         )}
 
+        {balanceOnlyPots.length > 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Transactions in {balanceOnlyPots.map(pot => pot.name).join(', ')} aren't shared, so they don't appear here.
+          </Alert>
+        )}
+
         <Box sx={{
           display: 'flex',
           justifyContent: 'space-between',
@@ -358,13 +614,21 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
             component="h2"
             sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }}
           >
-            {format(currentMonth, 'MMMM yyyy')}
+            {formatDate(currentMonth, 'MMMM yyyy')}
           </Typography>
           <IconButton onClick={nextMonth} size="small">
             <ChevronRight />
           </IconButton>
         </Box>
 
+        {data.pots.length > 0 && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+            <Button size="small" startIcon={<UploadFile />} onClick={() => setImportOpen(true)}>
+              Import Statement
+            </Button>
+          </Box>
+        )}
+
         {/* Monthly Summary when multiple users selected */}
         {selectedUserIds.size > 1 && (
           <Box sx={{
@@ -387,8 +651,8 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 t.userId === userId &&
                 isSameMonth(t.date, currentMonth)
               );
-              const actualTotal = userTransactions.reduce((sum, t) => sum + t.amount, 0);
-              const projectedTotal = userProjected.reduce((sum, t) => sum + t.amount, 0);
+              const actualTotal = userTransactions.reduce((sum, t) => sum + getBaseAmount(t), 0);
+              const projectedTotal = userProjected.reduce((sum, t) => sum + getBaseAmount(t), 0);
               const userColor = userColorMap.get(userId) || 'grey.500';
               
               return (
@@ -408,9 +672,11 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                       {getUserName(userId)}
                     </Typography>
                     <Typography variant="body2" sx={{ fontWeight: 'bold', lineHeight: 1.2 }}>
-                      <span style={{ color: '#4caf50' }}>£{actualTotal.toFixed(0)}</span>
-                      {projectedTotal > 0 && (
-                        <span style={{ color: '#667eea', fontStyle: 'italic' }}> + £{projectedTotal.toFixed(0)}</span>
+                      <span style={{ color: actualTotal < 0 ? '#f44336' : '#4caf50' }}>
+                        {formatMoney(actualTotal, baseCurrency, 0)}
+                      </span>
+                      {projectedTotal !== 0 && (
+                        <span style={{ color: '#667eea', fontStyle: 'italic' }}>{projectedTotal < 0 ? ' - ' : ' + '}{formatMoney(Math.abs(projectedTotal), baseCurrency, 0)}</span>
                       )}
                     </Typography>
                   </Box>
@@ -422,20 +688,11 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 Combined
               </Typography>
               <Typography variant="body2" sx={{ fontWeight: 'bold', lineHeight: 1.2, color: 'primary.main' }}>
-                £{activeData.transactions
-                  .filter(t => isSameMonth(t.date, currentMonth))
-                  .reduce((sum, t) => sum + t.amount, 0)
-                  .toFixed(0)}
-                {projectedTransactions.filter(t => 
-                  selectedUserIds.has(t.userId) && 
-                  isSameMonth(t.date, currentMonth)
-                ).reduce((sum, t) => sum + t.amount, 0) > 0 && (
+                {formatMoney(combinedActualTotal, baseCurrency, 0)}
+                {combinedProjectedTotal !== 0 && (
                   <span style={{ fontStyle: 'italic' }}>
-                    {' + £'}
-                    {projectedTransactions
-                      .filter(t => selectedUserIds.has(t.userId) && isSameMonth(t.date, currentMonth))
-                      .reduce((sum, t) => sum + t.amount, 0)
-                      .toFixed(0)}
+                    {combinedProjectedTotal < 0 ? ' - ' : ' + '}
+                    {formatMoney(Math.abs(combinedProjectedTotal), baseCurrency, 0)}
                   </span>
                 )}
               </Typography>
@@ -451,7 +708,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
             mb: 2
           }}
         >
-          {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+          {getWeekdayNames().map(day => (
             <Box
               key={day}
               sx={{
@@ -467,7 +724,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
           ))}
 
           {/* Empty cells for days before the 1st of the month to align grid with day headers */}
-          {Array.from({ length: getDay(monthStart) }).map((_, index) => (
+          {Array.from({ length: (getDay(monthStart) - getWeekStartsOn() + 7) % 7 }).map((_, index) => (
             <Box key={`empty-${index}`} sx={{ p: 1, minHeight: 80 }} />
           ))}
 
@@ -483,29 +740,35 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
             t.id.startsWith('projected-') && !isPastDay
           );
 
-          const hasActualMonthlyRecurring = actualTransactions.some(t => t.repeatMonthly);
-          const hasActualWeeklyRecurring = actualTransactions.some(t => t.repeatWeekly);
+          // One label per distinct schedule, e.g. "Weekly", "Quarterly"
+          const recurringRules = actualTransactions
+            .map(t => getRecurrenceRule(t))
+            .filter((rule): rule is RecurrenceRule => rule !== null);
+          const recurringLabels = new Map(recurringRules.map(rule => [getRecurrenceLabel(rule), rule.frequency]));
           const hasProjectedRecurring = projectedTransactionsForDay.length > 0;
-          const hasOneTime = actualTransactions.some(t => !t.repeatMonthly && !t.repeatWeekly);
+          const oneTimeCount = actualTransactions.filter(t => !isRecurring(t) && !t.transferId).length;
+          const transferCount = collapseTransferLegs(actualTransactions).filter(t => t.transferId).length;
+          const withdrawalCount = actualTransactions.filter(t => getTransactionKind(t) === 'withdrawal').length;
 
           // Calculate totals per user for display
           const totalsByUser = new Map<string, { actual: number; projected: number }>();
           actualTransactions.forEach(t => {
             const userId = t.userId;
             const existing = totalsByUser.get(userId) || { actual: 0, projected: 0 };
-            existing.actual += t.amount;
+            existing.actual += getBaseAmount(t);
             totalsByUser.set(userId, existing);
           });
           projectedTransactionsForDay.forEach(t => {
             const userId = t.userId;
             const existing = totalsByUser.get(userId) || { actual: 0, projected: 0 };
-            existing.projected += t.amount;
+            existing.projected += getBaseAmount(t);
             totalsByUser.set(userId, existing);
           });
 
-          const actualTotal = actualTransactions.reduce((sum, t) => sum + t.amount, 0);
-          const projectedTotal = projectedTransactionsForDay.reduce((sum, t) => sum + t.amount, 0);
+          const actualTotal = actualTransactions.reduce((sum, t) => sum + getBaseAmount(t), 0);
+          const projectedTotal = projectedTransactionsForDay.reduce((sum, t) => sum + getBaseAmount(t), 0);
           const showMultiUser = selectedUserIds.size > 1;
+          const maturingPots = getMaturingPots(day);
 
           return (
             <Box
@@ -526,9 +789,15 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
               }}
             >
               <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                {format(day, 'd')}
+                {formatDate(day, 'd')}
               </Typography>
 
+              {maturingPots.map(pot => (
+                <Typography key={pot.id} variant="caption" sx={{ color: 'warning.dark', fontWeight: 'bold' }}>
+                  🏁 {pot.name} matures
+                </Typography>
+              ))}
+
               {/* Show user-colored indicators when multiple users selected */}
               {showMultiUser && totalsByUser.size > 0 ? (
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25 }}>
@@ -547,15 +816,15 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                         variant="caption"
                         sx={{
                           fontWeight: 'bold',
-                          color: totals.actual > 0 ? 'success.main' : 'text.secondary',
+                          color: totals.actual > 0 ? 'success.main' : totals.actual < 0 ? 'error.main' : 'text.secondary',
                           fontSize: '0.7rem'
                         }}
                       >
-                        {totals.actual > 0 && `£${totals.actual.toFixed(0)}`}
-                        {totals.actual > 0 && totals.projected > 0 && ' + '}
-                        {totals.projected > 0 && (
+                        {totals.actual !== 0 && formatMoney(totals.actual, baseCurrency, 0)}
+                        {totals.actual !== 0 && totals.projected !== 0 && ' + '}
+                        {totals.projected !== 0 && (
                           <span style={{ fontStyle: 'italic', color: '#667eea' }}>
-                            £{totals.projected.toFixed(0)}
+                            {formatMoney(totals.projected, baseCurrency, 0)}
                           </span>
                         )}
                       </Typography>
@@ -565,16 +834,16 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
               ) : (
                 <>
                   {/* Single user view - show actual transactions */}
-                  {actualTotal > 0 && (
-                    <Typography variant="body2" color="success.main" sx={{ fontWeight: 'bold' }}>
-                      £{actualTotal.toFixed(2)}
+                  {actualTotal !== 0 && (
+                    <Typography variant="body2" color={actualTotal < 0 ? 'error.main' : 'success.main'} sx={{ fontWeight: 'bold' }}>
+                      {formatMoney(actualTotal, baseCurrency)}
                     </Typography>
                   )}
 
                   {/* Show projected transactions with different styling */}
-                  {projectedTotal > 0 && (
+                  {projectedTotal !== 0 && (
                     <Typography variant="body2" sx={{ color: 'primary.main', fontStyle: 'italic', fontSize: '0.75rem' }}>
-                      +£{projectedTotal.toFixed(2)} projected
+                      {formatSignedAmount(projectedTotal, 2, baseCurrency)} projected
                     </Typography>
                   )}
                 </>
@@ -582,24 +851,33 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
 
               {(actualTransactions.length > 0 || projectedTransactionsForDay.length > 0) && (
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.25 }}>
-                  {hasActualWeeklyRecurring && (
-                    <Typography variant="caption" sx={{ color: 'secondary.main', fontWeight: 'bold' }}>
-                      🔄 Weekly
-                    </Typography>
-                  )}
-                  {hasActualMonthlyRecurring && (
-                    <Typography variant="caption" sx={{ color: 'primary.main', fontWeight: 'bold' }}>
-                      🔄 Monthly
+                  {Array.from(recurringLabels.entries()).map(([label, frequency]) => (
+                    <Typography
+                      key={label}
+                      variant="caption"
+                      sx={{ color: frequency === 'weekly' ? 'secondary.main' : 'primary.main', fontWeight: 'bold' }}
+                    >
+                      🔄 {label}
                     </Typography>
-                  )}
+                  ))}
                   {hasProjectedRecurring && (
                     <Typography variant="caption" sx={{ color: 'primary.main', fontStyle: 'italic' }}>
                       📅 Upcoming
                     </Typography>
                   )}
-                  {hasOneTime && !showMultiUser && (
+                  {transferCount > 0 && !showMultiUser && (
+                    <Typography variant="caption" sx={{ color: 'info.main', fontWeight: 'bold' }}>
+                      ⇄ {transferCount} transfer{transferCount > 1 ? 's' : ''}
+                    </Typography>
+                  )}
+                  {withdrawalCount > 0 && !showMultiUser && (
+                    <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 'bold' }}>
+                      ↩ {withdrawalCount} withdrawal{withdrawalCount > 1 ? 's' : ''}
+                    </Typography>
+                  )}
+                  {oneTimeCount > 0 && !showMultiUser && (
                     <Typography variant="caption" color="text.secondary">
-                      {actualTransactions.filter(t => !t.repeatMonthly && !t.repeatWeekly).length} one-time
+                      {oneTimeCount} one-time
                     </Typography>
                   )}
                 </Box>
@@ -614,18 +892,28 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
       <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>
           {dialogMode === 'view' ? (
-            selectedDate ? format(selectedDate, 'EEEE, MMMM do, yyyy') : ''
+            selectedDate ? formatDate(selectedDate, 'PPPP') : ''
           ) : dialogMode === 'edit' ? (
             'Edit Recurring Transaction'
+          ) : dialogMode === 'transfer' ? (
+            `Move Money - ${selectedDate ? formatDate(selectedDate, 'PPP') : ''}`
+          ) : dialogMode === 'occurrence' ? (
+            'Change This Occurrence'
           ) : (
-            `Add Transaction - ${selectedDate ? format(selectedDate, 'PPP') : ''}`
+            `Add Transaction - ${selectedDate ? formatDate(selectedDate, 'PPP') : ''}`
           )}
         </DialogTitle>
 
         {dialogMode === 'view' ? (
           <>
             <DialogContent>
-              {actualTransactionsForDialog.length === 0 && projectedTransactionsForDialog.length === 0 ? (
+              {selectedDate && getMaturingPots(selectedDate).map(pot => (
+                <Alert key={pot.id} severity="warning" sx={{ mb: 2 }}>
+                  {pot.name} matures on this day{pot.interestRate ? ` and stops earning ${pot.interestRate}%` : ''}.
+                  It has {formatMoney(pot.currentTotal, pot.currency)} in it now.
+                </Alert>
+              ))}
+              {actualTransactionsForDialog.length === 0 && projectedTransactionsForDialog.length === 0 && changedOccurrencesForDialog.length === 0 ? (
                 <Typography color="text.secondary" align="center" sx={{ py: 2 }}>
                   No transactions on this day
                 </Typography>
@@ -641,6 +929,13 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                         {actualTransactionsForDialog.map((transaction) => {
                           const isOwnTransaction = transaction.userId === currentUser.id;
                           const transactionColor = userColorMap.get(transaction.userId) || 'grey.500';
+                          const kind = getTransactionKind(transaction);
+                          const isTransfer = !!transaction.transferId;
+                          const rule = getRecurrenceRule(transaction);
+                          // Transfers are shown as a single neutral movement
+                          const signedAmount = isTransfer ? Math.abs(transaction.amount) : getSignedAmount(transaction);
+                          // Only the sender can change a transfer
+                          const canModify = isOwnTransaction && (!isTransfer || transaction.amount < 0);
                           return (
                             <ListItem
                               key={transaction.id}
@@ -655,9 +950,17 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                               <ListItemText
                                 primary={
                                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
-                                    <Typography variant="body1" fontWeight="bold">
-                                      £{transaction.amount.toFixed(2)}
+                                    <Typography variant="body1" fontWeight="bold" color={signedAmount < 0 ? 'error.main' : 'text.primary'}>
+                                      {formatMoney(signedAmount, getPotCurrency(transaction.potId))}
                                     </Typography>
+                                    {kind !== 'deposit' && (
+                                      <Chip
+                                        label={TRANSACTION_KIND_LABELS[kind]}
+                                        size="small"
+                                        color={kind === 'withdrawal' ? 'error' : kind === 'transfer' ? 'info' : 'default'}
+                                        variant="outlined"
+                                      />
+                                    )}
                                     {selectedUserIds.size > 1 && (
                                       <Chip
                                         label={getUserName(transaction.userId)}
@@ -670,18 +973,19 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                                         }}
                                       />
                                     )}
-                                    {transaction.repeatWeekly && (
-                                      <Chip label="Weekly" size="small" color="secondary" />
-                                    )}
-                                    {transaction.repeatMonthly && (
-                                      <Chip label="Monthly" size="small" color="primary" />
+                                    {rule && (
+                                      <Chip
+                                        label={getRecurrenceLabel(rule)}
+                                        size="small"
+                                        color={rule.frequency === 'weekly' ? 'secondary' : 'primary'}
+                                      />
                                     )}
                                   </Box>
                                 }
                                 secondary={
                                   <>
                                     <Typography variant="body2" component="span">
-                                      {getPotName(transaction.potId)}
+                                      {isTransfer ? getTransferLabel(transaction) : getPotName(transaction.potId)}
                                     </Typography>
                                     {transaction.description && (
                                       <Typography variant="body2" component="span" color="text.secondary">
@@ -691,9 +995,9 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                                   </>
                                 }
                               />
-                              {isOwnTransaction && (
+                              {canModify && (
                                 <ListItemSecondaryAction>
-                                  {(transaction.repeatWeekly || transaction.repeatMonthly) && (
+                                  {rule && !isTransfer && (
                                     <IconButton
                                       edge="end"
                                       onClick={() => handleEditClick(transaction)}
@@ -731,6 +1035,9 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                       <List dense>
                         {projectedTransactionsForDialog.map((transaction) => {
                           const transactionColor = userColorMap.get(transaction.userId) || 'grey.500';
+                          const signedAmount = transaction.transferId ? Math.abs(transaction.amount) : getSignedAmount(transaction);
+                          const { exception } = getOccurrenceSeries(transaction);
+                          const canModify = transaction.userId === currentUser.id && (!transaction.transferId || transaction.amount < 0);
                           return (
                             <ListItem
                               key={transaction.id}
@@ -745,8 +1052,8 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                               <ListItemText
                                 primary={
                                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
-                                    <Typography variant="body1" fontWeight="bold" color="primary">
-                                      £{transaction.amount.toFixed(2)}
+                                    <Typography variant="body1" fontWeight="bold" color={signedAmount < 0 ? 'error' : 'primary'}>
+                                      {formatMoney(signedAmount, getPotCurrency(transaction.potId))}
                                     </Typography>
                                     {selectedUserIds.size > 1 && (
                                       <Chip
@@ -761,29 +1068,115 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                                       />
                                     )}
                                     <Chip label="Upcoming" size="small" variant="outlined" />
+                                    {transaction.transferId && (
+                                      <Chip label="Transfer" size="small" color="info" variant="outlined" />
+                                    )}
+                                    {exception?.movedTo && (
+                                      <Chip label={`Moved from ${formatDate(parseDayKey(exception.occurrenceDate), 'd MMM')}`} size="small" color="warning" variant="outlined" />
+                                    )}
+                                    {exception?.amount != null && (
+                                      <Chip label="Amount changed" size="small" color="warning" variant="outlined" />
+                                    )}
                                   </Box>
                                 }
                                 secondary={
                                   <Typography variant="body2">
-                                    {getPotName(transaction.potId)}
+                                    {transaction.transferId ? getTransferLabel(transaction) : getPotName(transaction.potId)}
                                     {transaction.description && ` — ${transaction.description}`}
                                   </Typography>
                                 }
                               />
+                              {canModify && transaction.occurrenceOf && (
+                                <ListItemSecondaryAction>
+                                  <IconButton
+                                    edge="end"
+                                    onClick={() => handleEditOccurrenceClick(transaction)}
+                                    color="primary"
+                                    size="small"
+                                    title="Change this occurrence only"
+                                  >
+                                    <Edit />
+                                  </IconButton>
+                                </ListItemSecondaryAction>
+                              )}
                             </ListItem>
                           );
                         })}
                       </List>
                       <Typography variant="caption" color="text.secondary">
-                        To remove projected transactions, delete the original recurring transaction
+                        Edit an upcoming payment to skip, move or change just that one. To stop the series, delete the original recurring transaction
                       </Typography>
                     </>
                   )}
+
+                  {/* Skipped/moved occurrences that would otherwise have been on this day */}
+                  {changedOccurrencesForDialog.length > 0 && (
+                    <>
+                      <Divider sx={{ my: 2 }} />
+                      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                        Skipped or Moved
+                      </Typography>
+                      <List dense>
+                        {changedOccurrencesForDialog.map(({ series, exception }) => {
+                          const canModify = series.userId === currentUser.id && (!series.transferId || series.amount < 0);
+                          return (
+                            <ListItem
+                              key={`${series.id}-${exception.occurrenceDate}`}
+                              sx={{ bgcolor: 'grey.50', borderRadius: 1, mb: 1, opacity: 0.7 }}
+                            >
+                              <ListItemText
+                                primary={
+                                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                                    <Typography variant="body1" sx={{ textDecoration: 'line-through' }}>
+                                      {formatMoney(Math.abs(series.amount), getPotCurrency(series.potId))}
+                                    </Typography>
+                                    <Chip
+                                      label={exception.skipped ? 'Skipped' : `Moved to ${formatDate(parseDayKey(exception.movedTo!), 'd MMM')}`}
+                                      size="small"
+                                      variant="outlined"
+                                    />
+                                  </Box>
+                                }
+                                secondary={
+                                  <Typography variant="body2">
+                                    {series.transferId ? getTransferLabel(series) : getPotName(series.potId)}
+                                    {series.description && ` — ${series.description}`}
+                                  </Typography>
+                                }
+                              />
+                              {canModify && (
+                                <ListItemSecondaryAction>
+                                  <IconButton
+                                    edge="end"
+                                    onClick={() => handleRestoreOccurrence(series, exception.occurrenceDate)}
+                                    color="primary"
+                                    size="small"
+                                    title="Put back on its usual date"
+                                  >
+                                    <Restore />
+                                  </IconButton>
+                                </ListItemSecondaryAction>
+                              )}
+                            </ListItem>
+                          );
+                        })}
+                      </List>
+                    </>
+                  )}
                 </>
               )}
             </DialogContent>
             <DialogActions>
               <Button onClick={handleCloseDialog}>Close</Button>
+              {data.pots.length > 0 && combinedData.pots.length > 1 && (
+                <Button
+                  variant="outlined"
+                  startIcon={<SwapHoriz />}
+                  onClick={handleMoveMoney}
+                >
+                  Move Money
+                </Button>
+              )}
               <Button
                 variant="contained"
                 startIcon={<Add />}
@@ -796,7 +1189,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
         ) : dialogMode === 'edit' ? (
           <form onSubmit={handleSubmitEdit}>
             <DialogContent>
-              {transactionToEdit && (transactionToEdit.repeatWeekly || transactionToEdit.repeatMonthly) && (
+              {transactionToEdit && isRecurring(transactionToEdit) && (
                 <Box sx={{ 
                   mb: 2, 
                   p: 1.5, 
@@ -806,10 +1199,25 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                   borderColor: 'info.200'
                 }}>
                   <Typography variant="body2" color="info.main">
-                    ✏️ Changes will apply to <strong>all future occurrences</strong> of this {transactionToEdit.repeatWeekly ? 'weekly' : 'monthly'} payment.
+                    ✏️ Changes will apply to <strong>all future occurrences</strong> of this {getRecurrenceLabel(getRecurrenceRule(transactionToEdit)!).toLowerCase()} payment.
                   </Typography>
                 </Box>
               )}
+              <TextField
+                select
+                fullWidth
+                label="Type"
+                value={formData.kind}
+                onChange={(e) => setFormData({...formData, kind: e.target.value as TransactionKind})}
+                sx={{ mb: 2 }}
+              >
+                {TRANSACTION_KINDS.map(kind => (
+                  <MenuItem key={kind} value={kind}>
+                    {TRANSACTION_KIND_LABELS[kind]}
+                  </MenuItem>
+                ))}
+              </TextField>
+
               <TextField
                 select
                 fullWidth
@@ -828,7 +1236,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
 
               <TextField
                 fullWidth
-                label="Amount (£)"
+                label={`Amount (${getCurrencySymbol(getPotCurrency(formData.potId))})`}
                 type="number"
                 value={formData.amount}
                 onChange={(e) => setFormData({...formData, amount: e.target.value})}
@@ -836,11 +1244,26 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 required
                 inputProps={{
                   step: "0.01",
-                  min: "0.01"
+                  min: formData.kind === 'adjustment' ? undefined : "0.01"
                 }}
+                helperText={formData.kind === 'adjustment' ? 'Use a negative amount to reduce the balance' : undefined}
                 sx={{ mb: 2 }}
               />
 
+              {transactionAllowance && (
+                <IsaAllowanceNotice allowance={transactionAllowance} amount={parseFloat(formData.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {showTransactionPenalty && (
+                <LisaPenaltyNotice amount={parseFloat(formData.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {transactionRuleNotice && (
+                <Alert severity={transactionRuleNotice.severity} sx={{ mb: 2 }}>
+                  {transactionRuleNotice.message}
+                </Alert>
+              )}
+
               <TextField
                 fullWidth
                 label="Description (optional)"
@@ -850,33 +1273,205 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 sx={{ mb: 2 }}
               />
 
+              <RecurrenceFields
+                value={formData.recurrence}
+                onChange={(recurrence) => setFormData({...formData, recurrence})}
+                startDate={transactionToEdit ? transactionToEdit.date : null}
+                helperText="Changing recurrence will affect future projections"
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={handleBackToView}>Cancel</Button>
+              <Button
+                type="submit"
+                variant="contained"
+                color="primary"
+                disabled={isOverAllowance(transactionAllowance, parseFloat(formData.amount)) || isBlocked(transactionRuleNotice)}
+              >
+                Save Changes
+              </Button>
+            </DialogActions>
+          </form>
+        ) : dialogMode === 'transfer' ? (
+          <form onSubmit={handleSubmitTransfer}>
+            <DialogContent>
               <TextField
                 select
                 fullWidth
-                label="Recurrence"
-                value={formData.recurrence}
-                onChange={(e) => setFormData({...formData, recurrence: e.target.value as RecurrenceType})}
-                helperText="Changing recurrence will affect future projections"
+                label="From"
+                value={transferForm.fromPotId}
+                onChange={(e) => {
+                  const fromPotId = e.target.value;
+                  const toPotId = isSameCurrency(transferForm.toPotId, fromPotId) ? transferForm.toPotId : '';
+                  setTransferForm({...transferForm, fromPotId, toPotId});
+                }}
+                required
+                sx={{ mb: 2 }}
               >
-                <MenuItem value="none">One-time (no repeat)</MenuItem>
-                <MenuItem value="weekly">
-                  Weekly (every {transactionToEdit ? format(transactionToEdit.date, 'EEEE') : 'week'})
-                </MenuItem>
-                <MenuItem value="monthly">
-                  Monthly (on the {transactionToEdit ? format(transactionToEdit.date, 'do') : 'same date'})
-                </MenuItem>
+                {data.pots.map(pot => (
+                  <MenuItem key={pot.id} value={pot.id}>
+                    {pot.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+
+              <TextField
+                select
+                fullWidth
+                label="To"
+                value={transferForm.toPotId}
+                onChange={(e) => setTransferForm({...transferForm, toPotId: e.target.value})}
+                required
+                sx={{ mb: 2 }}
+              >
+                {combinedData.pots
+                  .filter(pot => pot.id !== transferForm.fromPotId && isSameCurrency(pot.id, transferForm.fromPotId))
+                  .map(pot => (
+                    <MenuItem key={pot.id} value={pot.id}>
+                      {pot.userId === currentUser.id ? pot.name : `${pot.name} (${getUserName(pot.userId)})`}
+                    </MenuItem>
+                  ))}
               </TextField>
+
+              <TextField
+                fullWidth
+                label={`Amount (${getCurrencySymbol(getPotCurrency(transferForm.fromPotId))})`}
+                type="number"
+                value={transferForm.amount}
+                onChange={(e) => setTransferForm({...transferForm, amount: e.target.value})}
+                placeholder="0.00"
+                required
+                inputProps={{
+                  step: "0.01",
+                  min: "0.01"
+                }}
+                sx={{ mb: 2 }}
+              />
+
+              {transferAllowance && (
+                <IsaAllowanceNotice allowance={transferAllowance} amount={parseFloat(transferForm.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {showTransferPenalty && (
+                <LisaPenaltyNotice amount={parseFloat(transferForm.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {transferRuleNotice && (
+                <Alert severity={transferRuleNotice.severity} sx={{ mb: 2 }}>
+                  {transferRuleNotice.message}
+                </Alert>
+              )}
+
+              <TextField
+                fullWidth
+                label="Description (optional)"
+                value={transferForm.description}
+                onChange={(e) => setTransferForm({...transferForm, description: e.target.value})}
+                placeholder="e.g. Monthly sweep into ISA"
+              />
+
+              <RecurrenceFields
+                value={transferForm.recurrence}
+                onChange={(recurrence) => setTransferForm({...transferForm, recurrence})}
+                startDate={selectedDate}
+                helperText="Both accounts are updated together"
+                sx={{ mt: 2 }}
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={handleBackToView}>Back</Button>
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={isOverAllowance(transferAllowance, parseFloat(transferForm.amount)) || isBlocked(transferRuleNotice)}
+              >
+                Move Money
+              </Button>
+            </DialogActions>
+          </form>
+        ) : dialogMode === 'occurrence' ? (
+          <form onSubmit={handleSubmitOccurrence}>
+            <DialogContent>
+              {occurrenceToEdit?.occurrenceOf && (
+                <Box sx={{ 
+                  mb: 2, 
+                  p: 1.5, 
+                  bgcolor: 'info.50', 
+                  borderRadius: 1,
+                  border: '1px solid',
+                  borderColor: 'info.200'
+                }}>
+                  <Typography variant="body2" color="info.main">
+                    ✏️ Changes will apply to <strong>this occurrence only</strong> (due {formatDate(parseDayKey(occurrenceToEdit.occurrenceOf.date), 'PPP')}). The rest of the series is unchanged.
+                  </Typography>
+                </Box>
+              )}
+
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={occurrenceForm.skipped}
+                    onChange={(e) => setOccurrenceForm({...occurrenceForm, skipped: e.target.checked})}
+                  />
+                }
+                label="Skip this occurrence"
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                fullWidth
+                label={`Amount (${getCurrencySymbol(getPotCurrency(occurrenceToEdit?.potId || ''))})`}
+                type="number"
+                value={occurrenceForm.amount}
+                onChange={(e) => setOccurrenceForm({...occurrenceForm, amount: e.target.value})}
+                disabled={occurrenceForm.skipped}
+                required={!occurrenceForm.skipped}
+                inputProps={{ step: "0.01" }}
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                fullWidth
+                label="Date"
+                type="date"
+                value={occurrenceForm.date}
+                onChange={(e) => setOccurrenceForm({...occurrenceForm, date: e.target.value})}
+                disabled={occurrenceForm.skipped}
+                required={!occurrenceForm.skipped}
+                InputLabelProps={{ shrink: true }}
+                helperText="Move this payment to another day"
+              />
             </DialogContent>
             <DialogActions>
               <Button onClick={handleBackToView}>Cancel</Button>
+              {occurrenceToEdit && getOccurrenceSeries(occurrenceToEdit).exception && (
+                <Button onClick={handleResetOccurrence} startIcon={<Restore />}>
+                  Reset
+                </Button>
+              )}
               <Button type="submit" variant="contained" color="primary">
-                Save Changes
+                Save
               </Button>
             </DialogActions>
           </form>
         ) : (
           <form onSubmit={handleSubmitTransaction}>
             <DialogContent>
+              <TextField
+                select
+                fullWidth
+                label="Type"
+                value={formData.kind}
+                onChange={(e) => setFormData({...formData, kind: e.target.value as TransactionKind})}
+                sx={{ mb: 2 }}
+              >
+                {TRANSACTION_KINDS.map(kind => (
+                  <MenuItem key={kind} value={kind}>
+                    {TRANSACTION_KIND_LABELS[kind]}
+                  </MenuItem>
+                ))}
+              </TextField>
+
               <TextField
                 select
                 fullWidth
@@ -895,7 +1490,7 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
 
               <TextField
                 fullWidth
-                label="Amount (£)"
+                label={`Amount (${getCurrencySymbol(getPotCurrency(formData.potId))})`}
                 type="number"
                 value={formData.amount}
                 onChange={(e) => setFormData({...formData, amount: e.target.value})}
@@ -903,11 +1498,26 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 required
                 inputProps={{
                   step: "0.01",
-                  min: "0.01"
+                  min: formData.kind === 'adjustment' ? undefined : "0.01"
                 }}
+                helperText={formData.kind === 'adjustment' ? 'Use a negative amount to reduce the balance' : undefined}
                 sx={{ mb: 2 }}
               />
 
+              {transactionAllowance && (
+                <IsaAllowanceNotice allowance={transactionAllowance} amount={parseFloat(formData.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {showTransactionPenalty && (
+                <LisaPenaltyNotice amount={parseFloat(formData.amount)} sx={{ mb: 2 }} />
+              )}
+
+              {transactionRuleNotice && (
+                <Alert severity={transactionRuleNotice.severity} sx={{ mb: 2 }}>
+                  {transactionRuleNotice.message}
+                </Alert>
+              )}
+
               <TextField
                 fullWidth
                 label="Description (optional)"
@@ -916,27 +1526,23 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
                 placeholder="What did you save for?"
               />
 
-              <TextField
-                select
-                fullWidth
-                label="Recurrence"
+              <RecurrenceFields
                 value={formData.recurrence}
-                onChange={(e) => setFormData({...formData, recurrence: e.target.value as RecurrenceType})}
-                sx={{ mt: 2 }}
+                onChange={(recurrence) => setFormData({...formData, recurrence})}
+                startDate={selectedDate}
                 helperText="Recurring transactions will appear in your calendar and projections"
-              >
-                <MenuItem value="none">One-time (no repeat)</MenuItem>
-                <MenuItem value="weekly">
-                  Weekly (every {selectedDate ? format(selectedDate, 'EEEE') : 'week'})
-                </MenuItem>
-                <MenuItem value="monthly">
-                  Monthly (on the {selectedDate ? format(selectedDate, 'do') : 'same date'})
-                </MenuItem>
-              </TextField>
+                sx={{ mt: 2 }}
+              />
             </DialogContent>
             <DialogActions>
               <Button onClick={handleBackToView}>Back</Button>
-              <Button type="submit" variant="contained">Add Transaction</Button>
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={isOverAllowance(transactionAllowance, parseFloat(formData.amount)) || isBlocked(transactionRuleNotice)}
+              >
+                Add Transaction
+              </Button>
             </DialogActions>
           </form>
         )}
@@ -949,9 +1555,11 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
           {transactionToDelete && (
             <>
               <Typography>
-                Are you sure you want to delete this £{transactionToDelete.amount.toFixed(2)} transaction?
+                {transactionToDelete.transferId
+                  ? `Are you sure you want to delete this ${formatMoney(Math.abs(transactionToDelete.amount), getPotCurrency(transactionToDelete.potId))} transfer? Both accounts will be updated.`
+                  : `Are you sure you want to delete this ${formatMoney(transactionToDelete.amount, getPotCurrency(transactionToDelete.potId))} transaction?`}
               </Typography>
-              {(transactionToDelete.repeatWeekly || transactionToDelete.repeatMonthly) && (
+              {isRecurring(transactionToDelete) && (
                 <Typography color="warning.main" sx={{ mt: 2 }}>
                   ⚠️ This is a recurring transaction. Deleting it will remove this payment and all future occurrences.
                 </Typography>
@@ -962,10 +1570,19 @@ const Calendar: React.FC<CalendarProps> = ({ data, combinedData, onDataChange, c
         <DialogActions>
           <Button onClick={() => setDeleteConfirmOpen(false)}>Cancel</Button>
           <Button onClick={handleConfirmDelete} color="error" variant="contained">
-            Delete{transactionToDelete?.repeatWeekly || transactionToDelete?.repeatMonthly ? ' All' : ''}
+            Delete{transactionToDelete && isRecurring(transactionToDelete) ? ' All' : ''}
           </Button>
         </DialogActions>
       </Dialog>
+
+      <StatementImportDialog
+        open={importOpen}
+        pots={data.pots}
+        transactions={data.transactions}
+        currentUser={currentUser}
+        onClose={() => setImportOpen(false)}
+        onImported={onDataChange}
+      />
       </Card>
     </Box>
   );
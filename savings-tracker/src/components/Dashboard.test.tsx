@@ -1,7 +1,7 @@
 import { describe, it, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import Dashboard from './Dashboard'
-import { SavingsData, SavingsProjection, User } from '../types'
+import { BaseCurrencyReport, SavingsData, SavingsProjection, User } from '../types'
 
 // Mock the child components
 vi.mock('./SavingsPotCard', () => ({
@@ -34,6 +34,7 @@ describe('Dashboard', () => {
       currentTotal: 500,
       targetAmount: 1000,
       color: '#667eea',
+      currency: 'GBP',
       createdAt: new Date(),
       updatedAt: new Date()
     },
@@ -45,6 +46,7 @@ describe('Dashboard', () => {
       currentTotal: 200,
       targetAmount: 500,
       color: '#764ba2',
+      currency: 'GBP',
       createdAt: new Date(),
       updatedAt: new Date()
     },
@@ -56,6 +58,7 @@ describe('Dashboard', () => {
       currentTotal: 800,
       targetAmount: 2000,
       color: '#f093fb',
+      currency: 'GBP',
       createdAt: new Date(),
       updatedAt: new Date()
     },
@@ -67,6 +70,7 @@ describe('Dashboard', () => {
       currentTotal: 300,
       targetAmount: 10000,
       color: '#f5576c',
+      currency: 'GBP',
       createdAt: new Date(),
       updatedAt: new Date()
     }
@@ -112,11 +116,21 @@ describe('Dashboard', () => {
 
   const mockOnDataChange = vi.fn()
 
+  // Everything is already in pounds
+  const makeReporting = (data: SavingsData, projections: SavingsProjection[]): BaseCurrencyReport => ({
+    baseCurrency: 'GBP',
+    data,
+    projections,
+    potRates: Object.fromEntries(data.pots.map(pot => [pot.id, 1])),
+    unconvertedPots: []
+  })
+
   it('should display both users\' pots when Alex is logged in', () => {
     render(
       <Dashboard
         data={mockData}
         projections={mockProjections}
+        reporting={makeReporting(mockData, mockProjections)}
         onDataChange={mockOnDataChange}
         currentUser={mockUser}
       />
@@ -140,6 +154,7 @@ describe('Dashboard', () => {
       <Dashboard
         data={mockData}
         projections={mockProjections}
+        reporting={makeReporting(mockData, mockProjections)}
         onDataChange={mockOnDataChange}
         currentUser={mockOtherUser}
       />
@@ -163,6 +178,7 @@ describe('Dashboard', () => {
       <Dashboard
         data={mockData}
         projections={mockProjections}
+        reporting={makeReporting(mockData, mockProjections)}
         onDataChange={mockOnDataChange}
         currentUser={mockUser}
       />
@@ -180,6 +196,7 @@ describe('Dashboard', () => {
       <Dashboard
         data={mockData}
         projections={mockProjections}
+        reporting={makeReporting(mockData, mockProjections)}
         onDataChange={mockOnDataChange}
         currentUser={mockUser}
       />
@@ -194,6 +211,7 @@ describe('Dashboard', () => {
       <Dashboard
         data={mockData}
         projections={[]}
+        reporting={makeReporting(mockData, [])}
         onDataChange={mockOnDataChange}
         currentUser={mockUser}
       />
@@ -213,6 +231,7 @@ describe('Dashboard', () => {
       <Dashboard
         data={emptyData}
         projections={[]}
+        reporting={makeReporting(emptyData, [])}
         onDataChange={mockOnDataChange}
         currentUser={mockUser}
       />
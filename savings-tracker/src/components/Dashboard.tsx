@@ -1,13 +1,18 @@
 import React from 'react';
-import { SavingsData, SavingsProjection, User } from '../types';
+import { BaseCurrencyReport, SavingsData, SavingsProjection, User } from '../types';
 import SavingsPotCard from './SavingsPotCard';
-import ProjectionChart from './ProjectionChart';
+import ScenarioSandbox from './ScenarioSandbox';
 import UpcomingSpends from './UpcomingSpends';
 import RecurringExpenses from './RecurringExpenses';
-import { Card, CardContent, Typography, Box } from '@mui/material';
+import { Card, CardContent, Typography, Box, Alert } from '@mui/material';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
-import { format, addMonths, startOfMonth, endOfMonth, getDay } from 'date-fns';
+import { addMonths } from 'date-fns';
 import { useAuth } from '../AuthContext';
+import { isContribution } from '../ledger';
+import { getMonthlyRecurringAmount, isRecurring } from '../recurrence';
+import { isReconcileStale, RECONCILE_STALE_DAYS } from '../reconciliation';
+import { formatMoney } from '../currency';
+import { formatDate, t } from '../locale';
 
 // Reusable Summary Card Component
 interface SummaryCardProps {
@@ -82,56 +87,30 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, sublabel, icon,
 interface DashboardProps {
   data: SavingsData;
   projections: SavingsProjection[];
+  reporting: BaseCurrencyReport; // data and projections in the base currency, for household totals
+  horizonMonths?: number;
+  onHorizonChange?: (months: number) => void;
   onDataChange: () => void;
   currentUser: User;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange, currentUser }) => {
+const Dashboard: React.FC<DashboardProps> = ({ data, projections, reporting, horizonMonths, onHorizonChange, onDataChange, currentUser }) => {
   const { otherUsers } = useAuth();
-  const totalSavings = data.pots.reduce((sum, pot) => sum + pot.currentTotal, 0);
+  // Totals add up every account, so they're worked out in the base currency
+  const { baseCurrency, unconvertedPots } = reporting;
+  const totalSavings = reporting.data.pots.reduce((sum, pot) => sum + pot.currentTotal, 0);
 
   // Calculate total recurring contributions for this month (both users)
-  // This includes monthly recurring (once per month) and weekly recurring (multiple times per month)
-  const countWeekdayOccurrencesInMonth = (targetDay: number, month: Date): number => {
-    const monthStart = startOfMonth(month);
-    const monthEnd = endOfMonth(month);
-    let count = 0;
-    const current = new Date(monthStart);
-    
-    // Move to first occurrence of target day
-    while (getDay(current) !== targetDay && current <= monthEnd) {
-      current.setDate(current.getDate() + 1);
-    }
-    
-    // Count occurrences
-    while (current <= monthEnd) {
-      count++;
-      current.setDate(current.getDate() + 7);
-    }
-    
-    return count;
-  };
-
+  // Weekly-based series count their occurrences this month; monthly, quarterly
+  // and annual series are spread evenly (recurring withdrawals are netted off)
   const now = new Date();
-  
-  // Sum all monthly recurring transactions
-  const monthlyRecurringTotal = data.transactions
-    .filter(t => t.repeatMonthly)
-    .reduce((sum, t) => sum + t.amount, 0);
-  
-  // Sum all weekly recurring transactions (multiplied by occurrences this month)
-  const weeklyRecurringTotal = data.transactions
-    .filter(t => t.repeatWeekly)
-    .reduce((sum, t) => {
-      const dayOfWeek = getDay(t.date);
-      const occurrences = countWeekdayOccurrencesInMonth(dayOfWeek, now);
-      return sum + (t.amount * occurrences);
-    }, 0);
-  
-  const totalRecurringMonthly = monthlyRecurringTotal + weeklyRecurringTotal;
+  const totalRecurringMonthly = reporting.data.transactions
+    .filter(t => isRecurring(t) && isContribution(t))
+    .reduce((sum, t) => sum + getMonthlyRecurringAmount(t, now), 0);
 
   // Separate pots by user
   const currentUserPots = data.pots.filter(pot => pot.userId === currentUser.id);
+  const stalePots = currentUserPots.filter(pot => isReconcileStale(pot));
 
   // Calculate next month's projected total from projections
   const potUserMap = new Map<string, string>();
@@ -144,8 +123,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
   const nextMonthByUser = new Map<string, number>();
   let nextMonthTotal = 0;
 
-  if (projections.length > 0 && projections[0]?.data?.length > 1) {
-    projections.forEach(proj => {
+  if (reporting.projections.length > 0 && reporting.projections[0]?.data?.length > 1) {
+    reporting.projections.forEach(proj => {
       const nextMonthData = proj.data[1]; // Index 1 is next month
       if (nextMonthData) {
         const userId = potUserMap.get(proj.potId);
@@ -157,10 +136,17 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
     });
   }
 
+  // Goals with a deadline that are reached or projected to be reached in time
+  const goalProjections = projections.filter(p => p.goalStatus && p.goalStatus !== 'reached');
+  const goalsOnTrack = goalProjections.filter(p => p.goalStatus === 'on-track').length;
+  const goalsSublabel = goalProjections.length > 0
+    ? t('dashboard.goalsOnTrack', { onTrack: goalsOnTrack, count: goalProjections.length })
+    : undefined;
+
   // Build sublabel with all users' projected amounts
   const allUsers = [currentUser, ...otherUsers];
   const nextMonthSublabel = allUsers
-    .map(u => `${u.name}: £${(nextMonthByUser.get(u.id) || 0).toLocaleString('en-GB', { minimumFractionDigits: 0 })}`)
+    .map(u => `${u.name}: ${formatMoney(nextMonthByUser.get(u.id) || 0, baseCurrency, 0)}`)
     .join(' · ');
 
   return (
@@ -176,30 +162,50 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
         mb: 3
       }}>
         <SummaryCard
-          label="Total Savings"
-          value={`£${totalSavings.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+          label={t('dashboard.totalSavings')}
+          value={formatMoney(totalSavings, baseCurrency)}
         />
         <SummaryCard
-          label="Active Accounts"
+          label={t('dashboard.activeAccounts')}
           value={data.pots.length}
+          sublabel={goalsSublabel}
         />
         <SummaryCard
-          label="Monthly Recurring"
-          value={`£${totalRecurringMonthly.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+          label={t('dashboard.monthlyRecurring')}
+          value={formatMoney(totalRecurringMonthly, baseCurrency)}
         />
         <SummaryCard
-          label={`Expected ${format(nextMonthDate, 'MMM yyyy')}`}
-          value={`£${nextMonthTotal.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+          label={t('dashboard.expected', { month: formatDate(nextMonthDate, 'MMM yyyy') })}
+          value={formatMoney(nextMonthTotal, baseCurrency)}
           sublabel={nextMonthSublabel}
           icon={<TrendingUpIcon sx={{ fontSize: { xs: 14, sm: 16 }, opacity: 0.9 }} />}
           gradient
         />
       </Box>
 
+      {unconvertedPots.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {t('dashboard.unconverted', {
+            pots: unconvertedPots.map(pot => `${pot.name} (${pot.currency})`).join(', '),
+            count: unconvertedPots.length,
+            currency: baseCurrency
+          })}
+        </Alert>
+      )}
+
       <Box sx={{ mb: 4 }}>
         <Typography variant="h5" component="h2" gutterBottom>
-          Your Accounts
+          {t('dashboard.yourAccounts')}
         </Typography>
+        {stalePots.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('dashboard.stale', {
+              pots: stalePots.map(pot => pot.name).join(', '),
+              count: stalePots.length,
+              days: RECONCILE_STALE_DAYS
+            })}
+          </Alert>
+        )}
         <Box sx={{
           display: 'flex',
           flexWrap: 'wrap',
@@ -210,7 +216,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
               <Card>
                 <CardContent>
                   <Typography variant="body1" color="text.secondary" align="center">
-                    No accounts yet. Add your first account to get started!
+                    {t('dashboard.getStarted')}
                   </Typography>
                 </CardContent>
               </Card>
@@ -222,6 +228,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
                   pot={pot}
                   onUpdate={onDataChange}
                   currentUser={currentUser}
+                  projection={projections.find(p => p.potId === pot.id)}
+                  transactions={data.transactions}
                 />
               </Box>
             ))
@@ -234,7 +242,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
         return (
           <Box key={otherUser.id} sx={{ mb: 4 }}>
             <Typography variant="h5" component="h2" gutterBottom>
-              {otherUser.name}'s Accounts
+              {t('dashboard.userAccounts', { name: otherUser.name })}
             </Typography>
             <Box sx={{
               display: 'flex',
@@ -246,7 +254,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
                   <Card>
                     <CardContent>
                       <Typography variant="body1" color="text.secondary" align="center">
-                        No accounts yet.
+                        {t('dashboard.noAccounts')}
                       </Typography>
                     </CardContent>
                   </Card>
@@ -258,6 +266,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
                       pot={pot}
                       onUpdate={onDataChange}
                       currentUser={currentUser}
+                      projection={projections.find(p => p.potId === pot.id)}
+                      transactions={data.transactions}
                     />
                   </Box>
                 ))
@@ -267,14 +277,20 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
         );
       })}
 
-      {projections.length > 0 && (
+      {reporting.projections.length > 0 && (
         <Box sx={{ mb: 4 }}>
           <Typography variant="h5" component="h2" gutterBottom>
-            Savings Projections
+            {t('dashboard.projections')}
           </Typography>
           <Card>
             <CardContent>
-              <ProjectionChart projections={projections} pots={data.pots} />
+              <ScenarioSandbox
+                data={data}
+                reporting={reporting}
+                currentUser={currentUser}
+                horizonMonths={horizonMonths}
+                onHorizonChange={onHorizonChange}
+              />
             </CardContent>
           </Card>
         </Box>
@@ -283,15 +299,15 @@ const Dashboard: React.FC<DashboardProps> = ({ data, projections, onDataChange,
       {/* Collaborative Expenses Section */}
       <Box>
         <Typography variant="h5" component="h2" gutterBottom>
-          Shared Expenses
+          {t('dashboard.sharedExpenses')}
         </Typography>
         <Box sx={{ 
           display: 'grid', 
           gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, 
           gap: 3 
         }}>
-          <UpcomingSpends currentUser={currentUser} />
-          <RecurringExpenses currentUser={currentUser} />
+          <UpcomingSpends currentUser={currentUser} currency={baseCurrency} />
+          <RecurringExpenses currentUser={currentUser} currency={baseCurrency} />
         </Box>
       </Box>
     </Box>
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Alert,
+  TextField,
+  MenuItem,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { Delete, UploadFile } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { FxRate } from '../types';
+import { fetchFxRates, saveFxRates, deleteFxRate } from '../api';
+import { useHouseholdSettings } from '../hooks/useHouseholdSettings';
+import { CURRENCIES, parseFxRatesCsv } from '../currency';
+import { formatDate } from '../locale';
+
+interface ExchangeRatesProps {
+  onChange: () => void;
+}
+
+// The household's base currency and the exchange rates used to convert into it. Rates are
+// entered by hand or imported from CSV; each is for one unit of a currency in the base currency.
+const ExchangeRates: React.FC<ExchangeRatesProps> = ({ onChange }) => {
+  const { settings, updateSettings } = useHouseholdSettings();
+  const baseCurrency = settings.baseCurrency;
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [form, setForm] = useState({ currency: '', rate: '', rateDate: today });
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const otherCurrencies = CURRENCIES.filter(currency => currency !== baseCurrency);
+
+  useEffect(() => {
+    fetchFxRates().then(setRates);
+  }, []);
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    await updateSettings({ baseCurrency: currency });
+    onChange();
+  };
+
+  const save = async (newRates: Parameters<typeof saveFxRates>[0], message: string) => {
+    setIsBusy(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      setRates(await saveFxRates(newRates));
+      setResultMessage(message);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the exchange rates');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(form.rate);
+    if (!form.currency || isNaN(rate) || rate <= 0 || !form.rateDate) return;
+    await save(
+      [{ currency: form.currency, quoteCurrency: baseCurrency, rate, rateDate: form.rateDate }],
+      `Saved 1 ${form.currency} = ${rate} ${baseCurrency}.`
+    );
+    setForm({ currency: form.currency, rate: '', rateDate: today });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: imported, invalidCount } = parseFxRatesCsv(await file.text(), baseCurrency, today);
+    if (imported.length === 0) {
+      setResultMessage(null);
+      setError(`No rates found. Each line should be "currency,rate" or "currency,rate,YYYY-MM-DD", in ${baseCurrency}.`);
+      return;
+    }
+    const skipped = invalidCount > 0 ? ` ${invalidCount} line${invalidCount === 1 ? " couldn't" : "s couldn't"} be read.` : '';
+    await save(imported, `Imported ${imported.length} rate${imported.length === 1 ? '' : 's'}.${skipped}`);
+  };
+
+  const handleDelete = async (rate: FxRate) => {
+    if (await deleteFxRate(rate.id)) {
+      setRates(rates.filter(r => r.id !== rate.id));
+      onChange();
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <TextField
+          select
+          label="Base Currency"
+          value={baseCurrency}
+          onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+          helperText="Household totals and projections are shown in this currency"
+          sx={{ mb: 2, minWidth: 200 }}
+        >
+          {(CURRENCIES.includes(baseCurrency) ? CURRENCIES : [...CURRENCIES, baseCurrency]).map(currency => (
+            <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+          ))}
+        </TextField>
+
+        {rates.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            No exchange rates yet. Accounts in other currencies are left out of totals until they have one.
+          </Typography>
+        ) : (
+          <List dense sx={{ mb: 1 }}>
+            {rates.map(rate => (
+              <ListItem
+                key={rate.id}
+                disableGutters
+                secondaryAction={
+                  <IconButton edge="end" size="small" onClick={() => handleDelete(rate)} aria-label="Delete rate">
+                    <Delete fontSize="small" />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={`1 ${rate.currency} = ${rate.rate} ${rate.quoteCurrency}`}
+                  secondary={formatDate(new Date(`${rate.rateDate}T12:00:00`), 'PP')}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {resultMessage && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {resultMessage}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box component="form" onSubmit={handleAdd} sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Currency"
+            value={form.currency}
+            onChange={(e) => setForm({ ...form, currency: e.target.value })}
+            sx={{ minWidth: 110 }}
+          >
+            {otherCurrencies.map(currency => (
+              <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label={`Rate (${baseCurrency})`}
+            type="number"
+            value={form.rate}
+            onChange={(e) => setForm({ ...form, rate: e.target.value })}
+            inputProps={{ step: 'any', min: '0' }}
+            sx={{ width: 140 }}
+          />
+          <TextField
+            size="small"
+            label="Date"
+            type="date"
+            value={form.rateDate}
+            onChange={(e) => setForm({ ...form, rateDate: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ max: today }}
+          />
+          <Button type="submit" variant="contained" disabled={isBusy || !form.currency || !form.rate}>
+            Add Rate
+          </Button>
+        </Box>
+
+        <Button variant="outlined" component="label" startIcon={<UploadFile />} disabled={isBusy}>
+          Import CSV
+          <input type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRates;
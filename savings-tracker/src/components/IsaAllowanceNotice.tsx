@@ -0,0 +1,46 @@
+import React from 'react';
+import { Alert, SxProps, Theme } from '@mui/material';
+import { IsaAllowance, ISA_ALLOWANCE, checkIsaAllowance } from '../isa';
+import { formatMoney } from '../currency';
+
+interface IsaAllowanceNoticeProps {
+  allowance: IsaAllowance;
+  amount: number; // NaN while the amount field is empty
+  sx?: SxProps<Theme>;
+}
+
+// ISAs are always held in pounds
+const formatPounds = (value: number) => formatMoney(value, 'GBP');
+
+// Shows how much ISA allowance is left when paying into an ISA, warning when a
+// payment would go over it once scheduled payments are made and erroring when it
+// goes over outright (the server refuses those)
+const IsaAllowanceNotice: React.FC<IsaAllowanceNoticeProps> = ({ allowance, amount, sx }) => {
+  const check = isNaN(amount) ? 'ok' : checkIsaAllowance(allowance, amount);
+  const { taxYear, subscribed, scheduled, remaining } = allowance;
+
+  if (check === 'over') {
+    return (
+      <Alert severity="error" sx={sx}>
+        This is more than the {formatPounds(Math.max(0, ISA_ALLOWANCE - subscribed))} of ISA allowance left for {taxYear}.
+      </Alert>
+    );
+  }
+
+  if (check === 'over-with-scheduled') {
+    return (
+      <Alert severity="warning" sx={sx}>
+        With {formatPounds(scheduled)} of recurring payments still to come, this would go over the ISA allowance for {taxYear} ({formatPounds(remaining)} left after them).
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert severity="info" sx={sx}>
+      {formatPounds(remaining)} of the {formatMoney(ISA_ALLOWANCE, 'GBP', 0)} ISA allowance left for {taxYear}
+      {scheduled > 0 && ` after ${formatPounds(scheduled)} of scheduled payments`}.
+    </Alert>
+  );
+};
+
+export default IsaAllowanceNotice;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Alert,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { IntegrityReport } from '../types';
+import { fetchIntegrityReport, repairIntegrity } from '../api';
+import { useAuth } from '../AuthContext';
+import { formatSignedAmount, TRANSACTION_KIND_LABELS } from '../ledger';
+import { formatMoney } from '../currency';
+import { formatDate, formatNumber } from '../locale';
+
+interface LedgerIntegrityProps {
+  onRepaired: () => void;
+}
+
+// Lists any pot whose total has drifted from its ledger and any orphaned rows the
+// backend finds, with a button to repair them. Covers the whole household, though problems
+// in accounts other members don't share in full are only counted, and only backup admins
+// can repair other members' accounts.
+const LedgerIntegrity: React.FC<LedgerIntegrityProps> = ({ onRepaired }) => {
+  const { user } = useAuth();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setIsBusy(true);
+    setError(null);
+    const loaded = await fetchIntegrityReport();
+    if (loaded) {
+      setReport(loaded);
+    } else {
+      setError('Failed to check the ledger');
+    }
+    setIsBusy(false);
+  };
+
+  useEffect(() => {
+    runCheck();
+  }, []);
+
+  const handleRepair = async () => {
+    if (!window.confirm('Repair these problems? Account totals will be reset to their ledger balances and orphaned records deleted.')) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      setReport(await repairIntegrity());
+      onRepaired();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to repair the ledger');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const canRepairAll = !!user?.canManageBackups;
+  // Orphaned transactions are only listed to their owner, and scheduler records have none
+  const canRepair = !!report && (
+    report.balanceMismatches.some(mismatch => canRepairAll || mismatch.userId === user?.id) ||
+    report.orphanedTransactions.length > 0 ||
+    (canRepairAll && report.orphanedProcessedRecurring.length > 0)
+  );
+
+  return (
+    <Card>
+      <CardContent>
+        {report?.ok && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Every account total matches its transactions and nothing is orphaned.
+          </Alert>
+        )}
+
+        {report && report.balanceMismatches.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">Totals that don't match their transactions</Typography>
+            <List dense>
+              {report.balanceMismatches.map(mismatch => (
+                <ListItem key={mismatch.potId} disableGutters>
+                  <ListItemText
+                    primary={`${mismatch.potName}: ${formatMoney(mismatch.currentTotal, mismatch.currency)} shown, ${formatMoney(mismatch.ledgerBalance, mismatch.currency)} in the ledger`}
+                    secondary={canRepairAll || mismatch.userId === user?.id
+                      ? `${formatSignedAmount(mismatch.difference, 2, mismatch.currency)} out; repairing resets the total to the ledger balance`
+                      : `${formatSignedAmount(mismatch.difference, 2, mismatch.currency)} out; only its owner or a backup admin can repair it`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+
+        {report && report.orphanedTransactions.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">Transactions for accounts that no longer exist</Typography>
+            <List dense>
+              {report.orphanedTransactions.map(transaction => (
+                <ListItem key={transaction.transactionId} disableGutters>
+                  <ListItemText
+                    primary={`${TRANSACTION_KIND_LABELS[transaction.kind] || transaction.kind} of ${formatNumber(Math.abs(transaction.amount))} on ${formatDate(new Date(transaction.date), 'PP')}`}
+                    secondary={transaction.description || 'No description'}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+
+        {report && report.orphanedProcessedRecurring.length > 0 && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {report.orphanedProcessedRecurring.length} scheduler record{report.orphanedProcessedRecurring.length === 1 ? '' : 's'} left
+            behind by deleted recurring transactions
+          </Typography>
+        )}
+
+        {report && report.hiddenProblems > 0 && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {report.hiddenProblems} problem{report.hiddenProblems === 1 ? '' : 's'} in accounts other members
+            don't share in full
+          </Typography>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Button variant="outlined" onClick={runCheck} disabled={isBusy}>
+            Check Again
+          </Button>
+          {canRepair && (
+            <Button variant="contained" color="warning" onClick={handleRepair} disabled={isBusy}>
+              Repair
+            </Button>
+          )}
+          {report && (
+            <Typography variant="caption" color="text.secondary">
+              Checked {formatDate(new Date(report.checkedAt), 'PPp')}
+            </Typography>
+          )}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LedgerIntegrity;
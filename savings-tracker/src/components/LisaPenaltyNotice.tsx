@@ -0,0 +1,28 @@
+import React from 'react';
+import { Alert, SxProps, Theme } from '@mui/material';
+import { getLisaWithdrawalPenalty, LISA_PENALTY_RATE } from '../lisa';
+import { formatMoney } from '../currency';
+
+interface LisaPenaltyNoticeProps {
+  amount: number; // NaN while the amount field is empty
+  sx?: SxProps<Theme>;
+}
+
+// ISAs are always held in pounds
+const formatPounds = (value: number) => formatMoney(value, 'GBP');
+
+// Warns that taking money out of a Lifetime ISA costs a withdrawal charge, unless
+// it's for a first home or the owner is 60 or over
+const LisaPenaltyNotice: React.FC<LisaPenaltyNoticeProps> = ({ amount, sx }) => {
+  const penalty = isNaN(amount) ? 0 : getLisaWithdrawalPenalty(amount);
+
+  return (
+    <Alert severity="warning" sx={sx}>
+      Withdrawals from a Lifetime ISA lose {LISA_PENALTY_RATE * 100}% of the amount
+      {penalty > 0 && ` (${formatPounds(penalty)}, leaving you ${formatPounds(Math.abs(amount) - penalty)})`}
+      {' '}unless they're for a first home or you're 60 or over.
+    </Alert>
+  );
+};
+
+export default LisaPenaltyNotice;
@@ -1,24 +1,46 @@
 import React, { useState } from 'react';
-import { Button, Card, CardContent, Typography, Box, Alert, CircularProgress } from '@mui/material';
+import { Button, Card, CardContent, Typography, Box, Alert, CircularProgress, TextField } from '@mui/material';
 import { useAuth } from '../AuthContext';
+import { t } from '../locale';
 
 const Login: React.FC = () => {
   const { login, allUsers, isLoading: isAuthLoading } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pinUserId, setPinUserId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
 
-  const handleLogin = async (userId: string) => {
+  // Users with a PIN or password are asked for it after choosing their name
+  const pinUser = allUsers.find(user => user.id === pinUserId && user.hasPin);
+
+  const handleLogin = async (userId: string, userPin?: string) => {
     try {
       setIsLoading(true);
       setError(null);
-      await login(userId);
+      await login(userId, userPin);
     } catch (err) {
-      setError('Login failed. Please try again.');
+      setPinUserId(userId);
+      setError(userPin !== undefined && err instanceof Error ? err.message : t('login.failed'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleChooseUser = (userId: string, hasPin?: boolean) => {
+    setError(null);
+    setPin('');
+    if (hasPin) {
+      setPinUserId(userId);
+    } else {
+      handleLogin(userId);
+    }
+  };
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pinUser && pin) handleLogin(pinUser.id, pin);
+  };
+
   return (
     <Box
       sx={{
@@ -35,10 +57,10 @@ const Login: React.FC = () => {
       <Card sx={{ maxWidth: 400, width: '100%' }}>
         <CardContent sx={{ p: 4 }}>
           <Typography variant="h4" component="h1" gutterBottom align="center">
-            Savings Tracker
+            {t('app.title')}
           </Typography>
           <Typography variant="body1" color="text.secondary" align="center" sx={{ mb: 4 }}>
-            Choose your account to continue
+            {t('login.prompt')}
           </Typography>
 
           {error && (
@@ -54,19 +76,46 @@ const Login: React.FC = () => {
               </Box>
             ) : allUsers.length === 0 ? (
               <Alert severity="warning">
-                No users configured. Please add users in the add-on configuration.
+                {t('login.noUsers')}
               </Alert>
+            ) : pinUser ? (
+              <Box component="form" onSubmit={handlePinSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {t('login.pinPrompt', { name: pinUser.name })}
+                </Typography>
+                <TextField
+                  label={t('login.pin')}
+                  type="password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  autoComplete="current-password"
+                  autoFocus
+                  fullWidth
+                />
+                <Button type="submit" variant="contained" size="large" disabled={isLoading || !pin} sx={{ py: 1.5 }}>
+                  {isLoading ? t('login.signingIn') : t('login.signIn')}
+                </Button>
+                <Button
+                  onClick={() => {
+                    setPinUserId(null);
+                    setError(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  {t('login.back')}
+                </Button>
+              </Box>
             ) : (
               allUsers.map(user => (
                 <Button
                   key={user.id}
                   variant="contained"
                   size="large"
-                  onClick={() => handleLogin(user.id)}
+                  onClick={() => handleChooseUser(user.id, user.hasPin)}
                   disabled={isLoading}
                   sx={{ py: 1.5 }}
                 >
-                  {isLoading ? 'Signing in...' : `Sign in as ${user.name}`}
+                  {isLoading ? t('login.signingIn') : t('login.signInAs', { name: user.name })}
                 </Button>
               ))
             )}
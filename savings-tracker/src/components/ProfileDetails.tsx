@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert
+} from '@mui/material';
+import { useAuth } from '../AuthContext';
+import { getAge, isLisaBonusEligible } from '../lisa';
+
+// The signed-in user's own details. Only the date of birth for now, which
+// decides whether their Lifetime ISA subscriptions still earn the bonus.
+const ProfileDetails: React.FC = () => {
+  const { user, updateProfile } = useAuth();
+  const [dateOfBirth, setDateOfBirth] = useState(user?.dateOfBirth || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDateOfBirth(user?.dateOfBirth || '');
+  }, [user?.dateOfBirth]);
+
+  if (!user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateProfile({ dateOfBirth: dateOfBirth || null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const today = new Date();
+  const isChanged = dateOfBirth !== (user.dateOfBirth || '');
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" component="h3" gutterBottom>
+          👤 {user.name}
+        </Typography>
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <TextField
+            label="Date of Birth"
+            type="date"
+            value={dateOfBirth}
+            onChange={(e) => setDateOfBirth(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ max: today.toISOString().split('T')[0] }}
+            helperText={
+              user.dateOfBirth
+                ? `Age ${getAge(user.dateOfBirth, today)} · ${
+                    isLisaBonusEligible(user, today)
+                      ? 'Lifetime ISA payments earn the bonus'
+                      : 'Lifetime ISA payments no longer earn the bonus'
+                  }`
+                : 'Used to check Lifetime ISA bonus eligibility (18 to 49)'
+            }
+            size="small"
+          />
+          <Button type="submit" variant="outlined" disabled={!isChanged || isSaving} sx={{ mt: 0.25 }}>
+            Save
+          </Button>
+        </Box>
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileDetails;
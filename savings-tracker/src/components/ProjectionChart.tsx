@@ -1,17 +1,56 @@
-import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
-import { SavingsProjection, SavingsPot } from '../types';
-import { format, isAfter, startOfDay } from 'date-fns';
-import { Box, Typography, useTheme, useMediaQuery } from '@mui/material';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
+import { SavingsProjection, SavingsPot, SimulationBand } from '../types';
+import { isAfter, startOfDay } from 'date-fns';
+import {
+  Box,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
+  TextField,
+  InputAdornment,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
 import SavingsIcon from '@mui/icons-material/Savings';
 import AccountBalanceIcon from '@mui/icons-material/AccountBalance';
 import { useAuth } from '../AuthContext';
+import { useHouseholdSettings } from '../hooks/useHouseholdSettings';
+import { useBalanceHistory } from '../hooks/useBalanceHistory';
+import {
+  PROJECTION_HORIZONS,
+  DEFAULT_PROJECTION_HORIZON,
+  getHorizonLabel,
+  getProjectionGranularity,
+  aggregateByGranularity,
+  deflateProjections,
+  getRealInterestGrowth
+} from '../projections';
+import { isVolatile } from '../simulation';
+import { getMonthlyHistory } from '../history';
+import { convertSnapshots, formatCompactMoney, formatMoney } from '../currency';
+import { formatDate, t } from '../locale';
+import { getBalanceOnlyPots } from '../visibility';
+
+// A what-if scenario's projections, drawn over the baseline
+export interface ScenarioOverlay {
+  name: string;
+  projections: SavingsProjection[];
+}
 
 interface ProjectionChartProps {
   projections: SavingsProjection[];
   pots: SavingsPot[];
+  currency: string; // What projections and pots are in
+  potRates: Record<string, number>; // Converts each pot's recorded balances into `currency`
+  scenarios?: ScenarioOverlay[];
+  simulation?: SimulationBand[]; // Monte Carlo percentiles for the volatile pots, one per month
+  horizonMonths?: number;
+  onHorizonChange?: (months: number) => void; // Shows the horizon picker when set
 }
 
 interface ChartDataPoint {
@@ -19,17 +58,28 @@ interface ChartDataPoint {
   fullDate: Date;
   byUser: Record<string, number>;
   total: number;
+  scenarioTotals: number[]; // Combined total under each scenario, in `scenarios` order
+  range?: [number, number]; // 10th-90th percentile of the total when some pots are volatile
+  median?: number;
   isProjected: boolean;
+  isHistory?: boolean; // A past month end, from recorded balances
+  actual?: number; // Recorded total, on history points and the current point they lead up to
 }
 
 // Colors for different users in the tooltip
 const userColors = ['#2196f3', '#e91e63', '#4caf50', '#ff9800', '#9c27b0', '#00bcd4'];
 
+// Colors for scenario lines
+export const scenarioColors = ['#f5576c', '#43e97b', '#fa709a', '#4facfe', '#fee140', '#764ba2'];
+
 interface CustomTooltipProps extends TooltipProps<number, string> {
   userNames: Record<string, string>;
+  scenarioNames: string[];
+  realTerms: boolean;
+  currency: string;
 }
 
-const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, label, userNames }) => {
+const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, label, userNames, scenarioNames, realTerms, currency }) => {
   if (active && payload && payload.length > 0) {
     const data = payload[0].payload as ChartDataPoint;
     const userIds = Object.keys(data.byUser);
@@ -49,11 +99,20 @@ const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, label, u
           borderBottom: '1px solid #eee',
           paddingBottom: '8px'
         }}>
-          {label} {data.isProjected && <span style={{ color: '#667eea', fontSize: '0.85em' }}>(Projected)</span>}
+          {label} {data.isProjected && (
+            <span style={{ color: '#667eea', fontSize: '0.85em' }}>
+              (Projected{realTerms && ", in today's money"})
+            </span>
+          )}
+          {data.isHistory && (
+            <span style={{ color: '#4a5568', fontSize: '0.85em' }}>
+              (Actual{realTerms && ", in today's money"})
+            </span>
+          )}
         </p>
         {userIds.map((userId, index) => (
           <p key={userId} style={{ margin: '4px 0', color: userColors[index % userColors.length] }}>
-            {userNames[userId] || userId}: £{(data.byUser[userId] || 0).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            {userNames[userId] || userId}: {formatMoney(data.byUser[userId] || 0, currency)}
           </p>
         ))}
         <p style={{ 
@@ -63,8 +122,24 @@ const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, label, u
           borderTop: '1px solid #eee',
           paddingTop: '8px'
         }}>
-          Total: £{data.total.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          Total: {formatMoney(data.total, currency)}
         </p>
+        {data.range && data.isProjected && (
+          <p style={{ margin: '4px 0 0 0', color: '#667eea', fontSize: '0.85em' }}>
+            Likely range: {formatMoney(data.range[0], currency, 0)}
+            {' '}– {formatMoney(data.range[1], currency, 0)}
+            {' '}(median {formatMoney(data.median || 0, currency, 0)})
+          </p>
+        )}
+        {!data.isHistory && scenarioNames.map((name, index) => {
+          const difference = data.scenarioTotals[index] - data.total;
+          return (
+            <p key={`scenario-${index}`} style={{ margin: '4px 0 0 0', color: scenarioColors[index % scenarioColors.length] }}>
+              {name}: {formatMoney(data.scenarioTotals[index], currency)}
+              {' '}({difference >= 0 ? '+' : '-'}{formatMoney(Math.abs(difference), currency, 0)})
+            </p>
+          );
+        })}
       </div>
     );
   }
@@ -146,10 +221,38 @@ const StatCard: React.FC<StatCardProps> = ({ icon, label, value, sublabel, color
   </Box>
 );
 
-const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots }) => {
+const ProjectionChart: React.FC<ProjectionChartProps> = ({
+  projections,
+  pots,
+  currency,
+  potRates,
+  scenarios = [],
+  simulation = [],
+  horizonMonths = DEFAULT_PROJECTION_HORIZON,
+  onHorizonChange
+}) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const { allUsers } = useAuth();
+  const { user: currentUser, allUsers } = useAuth();
+  const { settings, updateSettings } = useHouseholdSettings();
+  const recordedSnapshots = useBalanceHistory(horizonMonths);
+  const snapshots = useMemo(() => convertSnapshots(recordedSnapshots, potRates), [recordedSnapshots, potRates]);
+  const [realTerms, setRealTerms] = useState(false);
+  const [inflationInput, setInflationInput] = useState(settings.inflationRate.toString());
+  const inflationRate = settings.inflationRate;
+
+  useEffect(() => {
+    setInflationInput(settings.inflationRate.toString());
+  }, [settings.inflationRate]);
+
+  const handleInflationBlur = () => {
+    const value = parseFloat(inflationInput);
+    if (isNaN(value) || value < 0 || value > 100) {
+      setInflationInput(inflationRate.toString());
+    } else if (value !== inflationRate) {
+      updateSettings({ inflationRate: value });
+    }
+  };
 
   // Create maps for quick lookup
   const potUserMap = new Map<string, string>();
@@ -162,13 +265,23 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
     userNames[user.id] = user.name;
   });
 
+  // Shared without their transactions, rates or payments, so they stay at their current balance
+  const balanceOnlyPots = currentUser ? getBalanceOnlyPots(pots, currentUser.id) : [];
+
+  const volatilePotIds = new Set(pots.filter(isVolatile).map(pot => pot.id));
+
   // Get unique user IDs from pots
   const userIds = [...new Set(pots.map(pot => pot.userId))];
 
   const currentDate = startOfDay(new Date());
 
-  // Combine all projections into chart data with per-user breakdown
-  const chartData: ChartDataPoint[] = projections[0]?.data.map((point, index) => {
+  // Combine all projections into chart data with per-user breakdown (one point per month).
+  // Volatile pots' simulated percentiles are added to the steady pots' projected total.
+  const buildChartData = (
+    source: SavingsProjection[],
+    overlays: ScenarioOverlay[],
+    bands: SimulationBand[]
+  ): ChartDataPoint[] => source[0]?.data.map((point, index) => {
     const byUser: Record<string, number> = {};
     
     // Initialize all users to 0
@@ -176,7 +289,7 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
       byUser[userId] = 0;
     });
 
-    projections.forEach(proj => {
+    source.forEach(proj => {
       const potData = proj.data[index];
       if (potData) {
         const userId = potUserMap.get(proj.potId);
@@ -187,24 +300,81 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
     });
 
     const total = Object.values(byUser).reduce((sum, val) => sum + val, 0);
+    const scenarioTotals = overlays.map(scenario =>
+      scenario.projections.reduce((sum, proj) => sum + (proj.data[index]?.amount || 0), 0)
+    );
     const isProjected = isAfter(startOfDay(point.date), currentDate);
 
+    // Bands from a different horizon may still be in flight from the worker
+    const band = bands.length === source[0].data.length ? bands[index] : undefined;
+    const steadyTotal = source
+      .filter(proj => !volatilePotIds.has(proj.potId))
+      .reduce((sum, proj) => sum + (proj.data[index]?.amount || 0), 0);
+
     return {
-      date: format(point.date, 'MMM yyyy'),
+      date: formatDate(point.date, 'MMM yyyy'),
       fullDate: point.date,
       byUser,
       total,
+      scenarioTotals,
+      range: band && [steadyTotal + band.p10, steadyTotal + band.p90],
+      median: band && steadyTotal + band.p50,
       isProjected
     };
   }) || [];
 
+  // Nominal figures drive the monthly savings and interest insights; the chart and totals
+  // can be shown in today's money instead
+  const nominalData = buildChartData(projections, scenarios, simulation);
+  const monthlyData = realTerms
+    ? buildChartData(
+        deflateProjections(projections, inflationRate),
+        scenarios.map(scenario => ({ ...scenario, projections: deflateProjections(scenario.projections, inflationRate) })),
+        simulation.map((band, index) => {
+          const factor = Math.pow(1 + inflationRate / 100, index / 12);
+          return { ...band, p10: band.p10 / factor, p50: band.p50 / factor, p90: band.p90 / factor };
+        })
+      )
+    : nominalData;
+  const hasSimulation = monthlyData.some(point => point.range);
+
+  // Long horizons are plotted a year at a time
+  const granularity = getProjectionGranularity(horizonMonths);
+  const chartData = aggregateByGranularity(monthlyData, granularity);
+  const horizonLabel = getHorizonLabel(horizonMonths);
+
+  // Recorded month-end balances lead up to the projection, looking back as far as it looks ahead
+  // (a year at a time for long horizons). In today's money, past balances are inflated instead.
+  const historyData: ChartDataPoint[] = getMonthlyHistory(snapshots, pots, horizonMonths)
+    .filter(point => granularity === 'monthly' || point.monthsAgo % 12 === 0)
+    .map(point => {
+      const factor = realTerms ? Math.pow(1 + inflationRate / 100, point.monthsAgo / 12) : 1;
+      const byUser: Record<string, number> = {};
+      Object.entries(point.byUser).forEach(([userId, amount]) => {
+        byUser[userId] = amount * factor;
+      });
+      return {
+        date: formatDate(point.date, 'MMM yyyy'),
+        fullDate: point.date,
+        byUser,
+        total: point.total * factor,
+        scenarioTotals: [],
+        isProjected: false,
+        isHistory: true,
+        actual: point.total * factor
+      };
+    });
+  const plottedData = historyData.length > 0 && chartData.length > 0
+    ? [...historyData, { ...chartData[0], actual: chartData[0].total }, ...chartData.slice(1)]
+    : chartData;
+
   // Calculate insights from the data
   const currentTotal = chartData[0]?.total || 0;
-  const projectedIn12Months = chartData[chartData.length - 1]?.total || 0;
+  const projectedAtHorizon = chartData[chartData.length - 1]?.total || 0;
   
   // Calculate monthly contribution by looking at the change between two consecutive 
   // fully-projected months (this gives the true recurring monthly amount)
-  const projectedMonths = chartData.filter(d => d.isProjected);
+  const projectedMonths = nominalData.filter(d => d.isProjected);
   let monthlyContribution = 0;
   const monthlyContributionByUser: Record<string, number> = {};
   userIds.forEach(userId => {
@@ -221,20 +391,20 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
       monthlyContributionByUser[userId] = 
         (projectedMonths[idx].byUser[userId] || 0) - (projectedMonths[prevIdx].byUser[userId] || 0);
     });
-  } else if (projectedMonths.length === 1 && chartData.length >= 2) {
+  } else if (projectedMonths.length === 1 && nominalData.length >= 2) {
     // Fallback: use difference from current to first projected
     monthlyContribution = projectedMonths[0].total - currentTotal;
     userIds.forEach(userId => {
       monthlyContributionByUser[userId] = 
-        (projectedMonths[0].byUser[userId] || 0) - (chartData[0]?.byUser[userId] || 0);
+        (projectedMonths[0].byUser[userId] || 0) - (nominalData[0]?.byUser[userId] || 0);
     });
   }
 
-  const formatCurrency = (value: number) => {
-    if (value >= 1000) {
-      return `£${(value / 1000).toFixed(1)}k`;
+  const formatCurrency = (value: number): string => {
+    if (Math.abs(value) >= 1000) {
+      return formatCompactMoney(value, currency, Math.abs(value) >= 1000000 ? 2 : 1);
     }
-    return `£${value.toFixed(0)}`;
+    return formatMoney(value, currency, 0);
   };
 
   // Build sublabel for monthly savings
@@ -242,51 +412,141 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
     .map(userId => `${userNames[userId] || userId}: ${formatCurrency(monthlyContributionByUser[userId] || 0)}`)
     .join(' · ');
   
-  // Calculate yearly growth
-  const yearlyGrowth = projectedIn12Months - currentTotal;
-  const yearlyGrowthPercent = currentTotal > 0 
-    ? ((yearlyGrowth / currentTotal) * 100).toFixed(1)
+  // Calculate growth over the chosen horizon
+  const horizonGrowth = projectedAtHorizon - currentTotal;
+  const horizonGrowthPercent = currentTotal > 0 
+    ? ((horizonGrowth / currentTotal) * 100).toFixed(1)
     : '0';
 
+  // How much of the interest earned over the horizon beats inflation
+  const interestGrowth = projections
+    .map(proj => getRealInterestGrowth(proj, inflationRate))
+    .reduce(
+      (sum, growth) => ({
+        interest: sum.interest + growth.interest,
+        keepingPace: sum.keepingPace + growth.keepingPace,
+        real: sum.real + growth.real
+      }),
+      { interest: 0, keepingPace: 0, real: 0 }
+    );
+
   const chartHeight = isMobile ? 280 : 400;
   const chartMargins = isMobile 
     ? { top: 10, right: 10, left: -10, bottom: 5 }
     : { top: 10, right: 30, left: 10, bottom: 5 };
 
+  // Roughly the same number of axis labels whatever the horizon
+  const tickInterval = Math.max(0, Math.ceil(plottedData.length / (isMobile ? 5 : 7)) - 1);
+
   return (
     <Box sx={{ width: '100%' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={realTerms} onChange={(e) => setRealTerms(e.target.checked)} />}
+            label={<Typography variant="body2">Today's money</Typography>}
+          />
+          {realTerms && (
+            <TextField
+              size="small"
+              type="number"
+              label="Inflation"
+              value={inflationInput}
+              onChange={(e) => setInflationInput(e.target.value)}
+              onBlur={handleInflationBlur}
+              InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+              inputProps={{ step: '0.1', min: '0', max: '100' }}
+              sx={{ width: 110 }}
+            />
+          )}
+        </Box>
+        {onHorizonChange && (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={horizonMonths}
+            onChange={(_, value: number | null) => value && onHorizonChange(value)}
+          >
+            {PROJECTION_HORIZONS.map(months => (
+              <ToggleButton key={months} value={months} sx={{ px: { xs: 1, sm: 1.5 } }}>
+                {months / 12}y
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        )}
+      </Box>
+
       {/* Chart */}
       <Box sx={{ width: '100%', overflowX: 'hidden', mb: 3 }}>
         <ResponsiveContainer width="100%" height={chartHeight}>
-          <LineChart data={chartData} margin={chartMargins}>
+          <ComposedChart data={plottedData} margin={chartMargins}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
             <XAxis 
               dataKey="date" 
               tick={{ fontSize: isMobile ? 10 : 12 }}
               tickMargin={8}
-              interval={isMobile ? 2 : 1}
+              interval={tickInterval}
             />
             <YAxis 
-              tickFormatter={(value) => `£${(value / 1000).toFixed(0)}k`}
+              tickFormatter={(value) => formatCompactMoney(value, currency, value >= 1000000 ? 1 : 0)}
               tick={{ fontSize: isMobile ? 10 : 12 }}
               width={isMobile ? 45 : 60}
             />
-            <Tooltip content={<CustomTooltip userNames={userNames} />} />
+            <Tooltip
+              content={<CustomTooltip userNames={userNames} scenarioNames={scenarios.map(s => s.name)} realTerms={realTerms} currency={currency} />}
+            />
             <Legend 
               wrapperStyle={{ 
                 fontSize: isMobile ? '12px' : '14px',
                 paddingTop: '10px'
               }}
             />
+            {hasSimulation && (
+              <Area
+                type="monotone"
+                dataKey={(point: ChartDataPoint) => point.range}
+                name="Likely range (10th–90th percentile)"
+                stroke="none"
+                fill="#667eea"
+                fillOpacity={0.15}
+                activeDot={false}
+              />
+            )}
+            {hasSimulation && (
+              <Line
+                type="monotone"
+                dataKey={(point: ChartDataPoint) => point.median}
+                name="Median outcome"
+                stroke="#667eea"
+                strokeWidth={1}
+                strokeDasharray="2 3"
+                dot={false}
+                activeDot={false}
+              />
+            )}
+            {historyData.length > 0 && (
+              <Line
+                type="monotone"
+                dataKey="actual"
+                name="Actual Savings"
+                stroke="#4a5568"
+                strokeWidth={isMobile ? 2 : 3}
+                dot={false}
+                activeDot={{ r: isMobile ? 5 : 6 }}
+              />
+            )}
             <Line
               type="monotone"
-              dataKey="total"
+              dataKey={(point: ChartDataPoint) => (point.isHistory ? undefined : point.total)}
               name="Total Combined Savings"
               stroke="#667eea"
               strokeWidth={isMobile ? 2 : 3}
               dot={(props: any) => {
                 const { cx, cy, payload } = props;
                 const dotRadius = isMobile ? 3 : 4;
+                if (payload.isHistory) {
+                  return <g key={`dot-${payload.date}`} />;
+                }
                 if (!payload.isProjected) {
                   return <circle key={`dot-${payload.date}`} cx={cx} cy={cy} r={dotRadius} fill="#667eea" stroke="#667eea" />;
                 }
@@ -294,7 +554,19 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
               }}
               activeDot={{ r: isMobile ? 5 : 6 }}
             />
-          </LineChart>
+            {scenarios.map((scenario, index) => (
+              <Line
+                key={`scenario-${index}`}
+                type="monotone"
+                dataKey={(point: ChartDataPoint) => point.scenarioTotals[index]}
+                name={scenario.name}
+                stroke={scenarioColors[index % scenarioColors.length]}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </Box>
 
@@ -322,20 +594,48 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
         />
         <StatCard
           icon={<TrendingUpIcon sx={{ fontSize: { xs: 20, sm: 24 } }} />}
-          label="12-Month Growth"
-          value={formatCurrency(yearlyGrowth)}
-          sublabel={`+${yearlyGrowthPercent}%`}
+          label={t('projections.growth', { horizon: horizonLabel })}
+          value={formatCurrency(horizonGrowth)}
+          sublabel={`${horizonGrowth >= 0 ? '+' : ''}${horizonGrowthPercent}%${realTerms ? ' after inflation' : ''}`}
           color="#43e97b"
         />
         <StatCard
           icon={<AccountBalanceIcon sx={{ fontSize: { xs: 20, sm: 24 } }} />}
           label="Projected Total"
-          value={formatCurrency(projectedIn12Months)}
-          sublabel={chartData[chartData.length - 1]?.date}
+          value={formatCurrency(projectedAtHorizon)}
+          sublabel={`${chartData[chartData.length - 1]?.date || ''}${realTerms ? " in today's money" : ''}`}
           color="#764ba2"
         />
       </Box>
 
+      {balanceOnlyPots.length > 0 && (
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+          {balanceOnlyPots.map(pot => pot.name).join(', ')} {balanceOnlyPots.length === 1 ? 'is' : 'are'} only
+          shared as a balance, so {balanceOnlyPots.length === 1 ? "it's" : "they're"} projected at {balanceOnlyPots.length === 1 ? 'its' : 'their'} current balance.
+        </Typography>
+      )}
+
+      {/* Real vs inflation-matching interest */}
+      {interestGrowth.interest > 0 && (
+        <Box sx={{
+          mt: 2,
+          p: 1,
+          bgcolor: 'success.50',
+          borderRadius: 1,
+          border: '1px solid',
+          borderColor: 'success.200'
+        }}>
+          <Typography variant="body2" sx={{ color: 'success.main', fontWeight: 500 }}>
+            📈 {t('projections.interestOver', { amount: formatCurrency(interestGrowth.interest), horizon: horizonLabel })}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {interestGrowth.real >= 0
+              ? `${formatCurrency(interestGrowth.real)} is real growth; ${formatCurrency(interestGrowth.keepingPace)} just keeps pace with ${inflationRate}% inflation`
+              : `Falls ${formatCurrency(-interestGrowth.real)} short of keeping pace with ${inflationRate}% inflation`}
+          </Typography>
+        </Box>
+      )}
+
       {/* Monthly Breakdown Table */}
       {!isMobile && chartData.length > 0 && (
         <Box sx={{ mt: 3 }}>
@@ -347,7 +647,7 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
               fontWeight: 600 
             }}
           >
-            Monthly Projection Breakdown
+            {granularity === 'yearly' ? 'Yearly' : 'Monthly'} Projection Breakdown
           </Typography>
           <Box sx={{
             display: 'grid',
@@ -357,7 +657,7 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
             borderRadius: 2,
             p: 2
           }}>
-            {chartData.slice(0, 12).map((point, index) => {
+            {(granularity === 'yearly' ? chartData : chartData.slice(0, 12)).map((point, index) => {
               const prevTotal = index > 0 ? chartData[index - 1].total : point.total;
               const monthlyChange = point.total - prevTotal;
               
@@ -391,7 +691,7 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
                       fontSize: '0.8rem'
                     }}
                   >
-                    £{(point.total / 1000).toFixed(1)}k
+                    {formatCompactMoney(point.total, currency)}
                   </Typography>
                   {index > 0 && monthlyChange > 0 && (
                     <Typography 
@@ -401,7 +701,7 @@ const ProjectionChart: React.FC<ProjectionChartProps> = ({ projections, pots })
                         fontSize: '0.6rem'
                       }}
                     >
-                      +£{monthlyChange.toFixed(0)}
+                      +{formatMoney(monthlyChange, currency, 0)}
                     </Typography>
                   )}
                 </Box>
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  InputAdornment,
+  Alert
+} from '@mui/material';
+import { format } from 'date-fns';
+import { SavingsPot } from '../types';
+import { fetchLedgerBalance, reconcilePot } from '../api';
+import { describeLastReconciled, getReconcileDifference } from '../reconciliation';
+import { formatSignedAmount } from '../ledger';
+import { formatMoney, getCurrencySymbol } from '../currency';
+import { formatDate } from '../locale';
+
+interface ReconcileDialogProps {
+  open: boolean;
+  pot: SavingsPot;
+  onClose: () => void;
+  onReconciled: () => void;
+}
+
+// Check a pot against the balance on a bank statement. Any gap with the ledger (the opening
+// balance plus transactions up to the statement date) is posted as an adjustment with a reason.
+const ReconcileDialog: React.FC<ReconcileDialogProps> = ({ open, pot, onClose, onReconciled }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [statementDate, setStatementDate] = useState(today);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [reason, setReason] = useState('');
+  const [ledgerBalance, setLedgerBalance] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setStatementDate(today);
+      setStatementBalance('');
+      setReason('');
+      setError(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !statementDate) return;
+    let cancelled = false;
+    setLedgerBalance(null);
+    fetchLedgerBalance(pot.id, statementDate).then((balance) => {
+      if (!cancelled) setLedgerBalance(balance);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, pot.id, statementDate]);
+
+  const balance = parseFloat(statementBalance);
+  const difference = ledgerBalance !== null && !isNaN(balance) ? getReconcileDifference(balance, ledgerBalance) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (difference === null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await reconcilePot(pot.id, {
+        statementBalance: balance,
+        statementDate,
+        reason: difference !== 0 ? reason.trim() : undefined
+      });
+      onReconciled();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reconcile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Reconcile {pot.name}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {describeLastReconciled(pot)}. Enter the balance from your bank for a date to check it against this account.
+          </Typography>
+          <TextField
+            fullWidth
+            label="Statement Date"
+            type="date"
+            value={statementDate}
+            onChange={(e) => setStatementDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            inputProps={{ max: today }}
+            required
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            autoFocus
+            fullWidth
+            label="Statement Balance"
+            type="number"
+            value={statementBalance}
+            onChange={(e) => setStatementBalance(e.target.value)}
+            required
+            InputProps={{
+              startAdornment: <InputAdornment position="start">{getCurrencySymbol(pot.currency)}</InputAdornment>
+            }}
+            inputProps={{ step: "0.01" }}
+            helperText={ledgerBalance !== null ? `Ledger balance: ${formatMoney(ledgerBalance, pot.currency)}` : 'Loading ledger balance…'}
+            sx={{ mb: 2 }}
+          />
+          {difference !== null && difference === 0 && (
+            <Alert severity="success">The ledger matches your statement.</Alert>
+          )}
+          {difference !== null && difference !== 0 && (
+            <>
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Your statement is {formatSignedAmount(difference, 2, pot.currency)} against the ledger. An adjustment for
+                the difference will be added on {formatDate(new Date(`${statementDate}T12:00:00`), 'PP')}.
+              </Alert>
+              <TextField
+                fullWidth
+                label="Reason for the adjustment"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Interest not recorded, bank fee"
+                required
+              />
+            </>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={difference === null || isSaving}>
+            {difference ? 'Adjust & Reconcile' : 'Reconcile'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default ReconcileDialog;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { describeRecurrence } from '../recurrence';
+import { formatDate } from '../locale';
+import { format } from 'date-fns';
+import {
+  Box,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  SxProps,
+  Theme
+} from '@mui/material';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date | null;
+  helperText?: string;
+  sx?: SxProps<Theme>;
+}
+
+type Preset =
+  | 'none'
+  | 'weekly'
+  | 'fortnightly'
+  | 'four-weekly'
+  | 'monthly'
+  | 'last-working-day'
+  | 'quarterly'
+  | 'annual'
+  | 'custom';
+
+type EndType = 'never' | 'until' | 'count';
+
+const PRESET_RULES: Record<Exclude<Preset, 'none' | 'custom'>, RecurrenceRule> = {
+  weekly: { frequency: 'weekly', interval: 1 },
+  fortnightly: { frequency: 'weekly', interval: 2 },
+  'four-weekly': { frequency: 'weekly', interval: 4 },
+  monthly: { frequency: 'monthly', interval: 1 },
+  'last-working-day': { frequency: 'monthly', interval: 1, lastWorkingDay: true },
+  quarterly: { frequency: 'monthly', interval: 3 },
+  annual: { frequency: 'yearly', interval: 1 }
+};
+
+const getPreset = (rule: RecurrenceRule | null): Preset => {
+  if (!rule) return 'none';
+  const match = (Object.keys(PRESET_RULES) as (keyof typeof PRESET_RULES)[]).find(key => {
+    const preset = PRESET_RULES[key];
+    return (
+      preset.frequency === rule.frequency &&
+      preset.interval === rule.interval &&
+      !!preset.lastWorkingDay === !!rule.lastWorkingDay
+    );
+  });
+  return match || 'custom';
+};
+
+const getEndType = (rule: RecurrenceRule | null): EndType => {
+  if (rule?.until) return 'until';
+  if (rule?.count) return 'count';
+  return 'never';
+};
+
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, startDate, helperText, sx }) => {
+  // Custom stays selected even if the numbers happen to match a preset
+  const [isCustom, setIsCustom] = useState(getPreset(value) === 'custom');
+  const [endType, setEndType] = useState<EndType>(getEndType(value));
+  const preset = isCustom && value ? 'custom' : getPreset(value);
+
+  const handlePresetChange = (next: Preset) => {
+    setIsCustom(next === 'custom');
+    if (next === 'none') {
+      onChange(null);
+    } else if (next === 'custom') {
+      onChange(value || { frequency: 'weekly', interval: 1 });
+    } else {
+      onChange({ ...PRESET_RULES[next], until: value?.until ?? null, count: value?.count ?? null });
+    }
+  };
+
+  const handleEndTypeChange = (next: EndType) => {
+    setEndType(next);
+    if (!value) return;
+    onChange({
+      ...value,
+      until: next === 'until' ? value.until || (startDate ? format(startDate, 'yyyy-MM-dd') : null) : null,
+      count: next === 'count' ? value.count || 12 : null
+    });
+  };
+
+  const weekday = startDate ? formatDate(startDate, 'EEEE') : 'week';
+  const dayOfMonth = startDate ? formatDate(startDate, 'do') : 'same date';
+
+  return (
+    <Box sx={sx}>
+      <TextField
+        select
+        fullWidth
+        label="Recurrence"
+        value={preset}
+        onChange={(e) => handlePresetChange(e.target.value as Preset)}
+        helperText={value && startDate ? describeRecurrence(value, startDate) : helperText}
+      >
+        <MenuItem value="none">One-time (no repeat)</MenuItem>
+        <MenuItem value="weekly">Weekly (every {weekday})</MenuItem>
+        <MenuItem value="fortnightly">Fortnightly (every other {weekday})</MenuItem>
+        <MenuItem value="four-weekly">Every 4 weeks</MenuItem>
+        <MenuItem value="monthly">Monthly (on the {dayOfMonth})</MenuItem>
+        <MenuItem value="last-working-day">Monthly (last working day)</MenuItem>
+        <MenuItem value="quarterly">Quarterly (every 3 months on the {dayOfMonth})</MenuItem>
+        <MenuItem value="annual">Annually (every {startDate ? formatDate(startDate, 'd MMMM') : 'year'})</MenuItem>
+        <MenuItem value="custom">Custom…</MenuItem>
+      </TextField>
+
+      {preset === 'custom' && value && (
+        <Box sx={{ display: 'flex', gap: 2, mt: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <TextField
+            label="Every"
+            type="number"
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            inputProps={{ min: 1, step: 1 }}
+            sx={{ width: 100 }}
+          />
+          <TextField
+            select
+            label="Unit"
+            value={value.frequency}
+            onChange={(e) => {
+              const frequency = e.target.value as RecurrenceFrequency;
+              onChange({ ...value, frequency, lastWorkingDay: frequency === 'weekly' ? false : value.lastWorkingDay });
+            }}
+            sx={{ minWidth: 120 }}
+          >
+            <MenuItem value="weekly">Weeks</MenuItem>
+            <MenuItem value="monthly">Months</MenuItem>
+            <MenuItem value="yearly">Years</MenuItem>
+          </TextField>
+          {value.frequency !== 'weekly' && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!value.lastWorkingDay}
+                  onChange={(e) => onChange({ ...value, lastWorkingDay: e.target.checked })}
+                />
+              }
+              label="Last working day"
+            />
+          )}
+        </Box>
+      )}
+
+      {value && (
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            select
+            label="Ends"
+            value={endType}
+            onChange={(e) => handleEndTypeChange(e.target.value as EndType)}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="never">Never</MenuItem>
+            <MenuItem value="until">On date</MenuItem>
+            <MenuItem value="count">After…</MenuItem>
+          </TextField>
+          {endType === 'until' && (
+            <TextField
+              fullWidth
+              label="Last payment on or before"
+              type="date"
+              value={value.until || ''}
+              onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+          {endType === 'count' && (
+            <TextField
+              fullWidth
+              label="Number of payments"
+              type="number"
+              value={value.count || ''}
+              onChange={(e) => onChange({ ...value, count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              inputProps={{ min: 1, step: 1 }}
+            />
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RecurrenceFields;
@@ -35,9 +35,11 @@ import {
   fetchExpenseCategories
 } from '../api';
 import { useAuth } from '../AuthContext';
+import { formatMoney, getCurrencySymbol } from '../currency';
 
 interface RecurringExpensesProps {
   currentUser: User;
+  currency: string; // Shared expenses are in the household's base currency
 }
 
 // Recurrence interval options
@@ -47,7 +49,8 @@ const RECURRENCE_OPTIONS = [
   { value: 'yearly', label: 'Yearly' },
 ];
 
-const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser }) => {
+const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser, currency }) => {
+  const currencySymbol = getCurrencySymbol(currency);
   const { allUsers } = useAuth();
   const [expenses, setExpenses] = useState<UpcomingSpend[]>([]);
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
@@ -251,7 +254,7 @@ const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser }) =>
                       </Typography>
                     )}
                     <Typography variant="caption" color="text.secondary">
-                      ~£{categoryTotal.toFixed(0)}/mo
+                      ~{formatMoney(categoryTotal, currency, 0)}/mo
                     </Typography>
                   </Box>
 
@@ -297,7 +300,7 @@ const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser }) =>
                             }
                             secondary={
                               <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'warning.dark' }}>
-                                £{expense.amount.toFixed(2)}
+                                {formatMoney(expense.amount, currency)}
                                 <Typography component="span" variant="caption" color="text.secondary">
                                   {expense.recurrenceInterval === 'weekly' && '/week'}
                                   {expense.recurrenceInterval === 'monthly' && '/month'}
@@ -339,7 +342,7 @@ const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser }) =>
                 Estimated monthly total:
               </Typography>
               <Typography variant="h6" sx={{ fontWeight: 'bold', color: 'warning.dark' }}>
-                ~£{monthlyTotal.toFixed(0)}/mo
+                ~{formatMoney(monthlyTotal, currency, 0)}/mo
               </Typography>
             </Box>
           </>
@@ -371,7 +374,7 @@ const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ currentUser }) =>
                 placeholder="0.00"
                 required
                 InputProps={{
-                  startAdornment: <InputAdornment position="start">£</InputAdornment>
+                  startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>
                 }}
                 inputProps={{
                   step: "0.01",
@@ -1,16 +1,30 @@
 import React, { useState } from 'react';
-import { SavingsPot, User } from '../types';
-import { updateSavingsPot } from '../storage';
-import { Card, CardContent, Typography, Box, TextField, Button, LinearProgress, Chip } from '@mui/material';
+import { SavingsPot, SavingsProjection, GoalStatus, Transaction, User } from '../types';
+import { Card, CardContent, Typography, Box, LinearProgress, Chip } from '@mui/material';
 import { useAuth } from '../AuthContext';
+import { describeAccountType } from '../accounts';
+import { isLifetimeIsa, getLisaBonusThisTaxYear, LISA_BONUS_LIMIT, LISA_BONUS_RATE } from '../lisa';
+import { describeLastReconciled, isReconcileStale } from '../reconciliation';
+import ReconcileDialog from './ReconcileDialog';
+import { formatMoney } from '../currency';
+import { formatDate } from '../locale';
+import { getPotVisibility, getPotVisibilityLabel } from '../visibility';
 
 interface SavingsPotCardProps {
   pot: SavingsPot;
   onUpdate: () => void;
   currentUser?: User;
+  projection?: SavingsProjection;
+  transactions?: Transaction[];
 }
 
-const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentUser }) => {
+const GOAL_STATUS_CHIPS: Record<GoalStatus, { label: string; color: 'success' | 'warning' }> = {
+  reached: { label: 'Reached', color: 'success' },
+  'on-track': { label: 'On track', color: 'success' },
+  behind: { label: 'Behind', color: 'warning' }
+};
+
+const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentUser, projection, transactions = [] }) => {
   const { allUsers } = useAuth();
   // Safety check - don't render if pot is invalid
   if (!pot || typeof pot.currentTotal !== 'number') {
@@ -19,22 +33,7 @@ const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentU
   }
 
   const isCurrentUser = currentUser && pot.userId === currentUser.id;
-  const [isEditing, setIsEditing] = useState(false);
-  const [editAmount, setEditAmount] = useState(pot.currentTotal.toString());
-
-  const handleSaveAmount = () => {
-    const newAmount = parseFloat(editAmount);
-    if (!isNaN(newAmount) && newAmount >= 0) {
-      updateSavingsPot(pot.id, { currentTotal: newAmount });
-      setIsEditing(false);
-      onUpdate();
-    }
-  };
-
-  const handleCancelEdit = () => {
-    setEditAmount(pot.currentTotal.toString());
-    setIsEditing(false);
-  };
+  const [isReconciling, setIsReconciling] = useState(false);
 
   const progressPercentage = pot.targetAmount && pot.currentTotal
     ? Math.min((pot.currentTotal / pot.targetAmount) * 100, 100)
@@ -60,6 +59,13 @@ const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentU
                 sx={{ fontSize: '0.7rem' }}
               />
             )}
+            {getPotVisibility(pot) !== 'full' && (
+              <Chip
+                label={getPotVisibilityLabel(getPotVisibility(pot))}
+                size="small"
+                sx={{ fontSize: '0.7rem' }}
+              />
+            )}
           </Box>
           <Box
             sx={{
@@ -72,61 +78,35 @@ const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentU
         </Box>
 
         {pot.description && (
-          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: describeAccountType(pot) ? 0.5 : 2 }}>
             {pot.description}
           </Typography>
         )}
 
+        {describeAccountType(pot) && (
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>
+            {describeAccountType(pot)}
+          </Typography>
+        )}
+
         <Box sx={{ mb: 2 }}>
-          {isEditing && isCurrentUser ? (
-            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
-              <Typography variant="body1">£</Typography>
-              <TextField
-                size="small"
-                type="number"
-                value={editAmount}
-                onChange={(e) => setEditAmount(e.target.value)}
-                autoFocus
-                inputProps={{
-                  step: "0.01",
-                  min: "0"
-                }}
-                sx={{ flex: 1 }}
-              />
-              <Button
-                size="small"
-                variant="contained"
-                color="primary"
-                onClick={handleSaveAmount}
-              >
-                Save
-              </Button>
-              <Button
-                size="small"
-                variant="outlined"
-                onClick={handleCancelEdit}
-              >
-                Cancel
-              </Button>
-            </Box>
-          ) : (
-            <Box
-              onClick={() => isCurrentUser && setIsEditing(true)}
-              sx={{
-                cursor: isCurrentUser ? 'pointer' : 'default',
-                p: 1,
-                borderRadius: 1,
-                '&:hover': isCurrentUser ? { backgroundColor: 'action.hover' } : {}
-              }}
-            >
-              <Typography variant="h5" component="div" color="primary">
-                £{(pot?.currentTotal ?? 0).toFixed(2)}
-              </Typography>
-              <Typography variant="caption" color="text.secondary">
-                {isCurrentUser ? 'Click to edit' : 'Read-only'}
-              </Typography>
-            </Box>
-          )}
+          <Box
+            onClick={() => isCurrentUser && setIsReconciling(true)}
+            sx={{
+              cursor: isCurrentUser ? 'pointer' : 'default',
+              p: 1,
+              borderRadius: 1,
+              '&:hover': isCurrentUser ? { backgroundColor: 'action.hover' } : {}
+            }}
+          >
+            <Typography variant="h5" component="div" color="primary">
+              {formatMoney(pot?.currentTotal ?? 0, pot.currency)}
+            </Typography>
+            <Typography variant="caption" color={isReconcileStale(pot) ? 'warning.main' : 'text.secondary'}>
+              {describeLastReconciled(pot)}
+              {isCurrentUser ? ' · Click to reconcile' : ' · Read-only'}
+            </Typography>
+          </Box>
         </Box>
 
         {pot.targetAmount && (
@@ -143,9 +123,32 @@ const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentU
                 }
               }}
             />
-            <Typography variant="body2" color="text.secondary">
-              {progressPercentage.toFixed(1)}% of £{pot.targetAmount.toFixed(2)} target
-            </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                {progressPercentage.toFixed(1)}% of {formatMoney(pot.targetAmount, pot.currency)} target
+              </Typography>
+              {projection?.goalStatus && (
+                <Chip
+                  label={GOAL_STATUS_CHIPS[projection.goalStatus].label}
+                  color={GOAL_STATUS_CHIPS[projection.goalStatus].color}
+                  size="small"
+                  variant="outlined"
+                />
+              )}
+            </Box>
+            {projection && projection.goalStatus !== 'reached' && (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+                {projection.targetDate
+                  ? `Projected to reach it in ${formatDate(projection.targetDate, 'MMM yyyy')}`
+                  : 'Not projected to reach it at the current rate'}
+                {pot.goalDate && projection.monthlyContribution !== undefined && (
+                  <>
+                    <br />
+                    Need {formatMoney(projection.monthlyContribution, pot.currency)}/month to reach it by {formatDate(new Date(`${pot.goalDate}T12:00:00`), 'MMM yyyy')}
+                  </>
+                )}
+              </Typography>
+            )}
           </Box>
         )}
 
@@ -165,11 +168,41 @@ const SavingsPotCard: React.FC<SavingsPotCardProps> = ({ pot, onUpdate, currentU
               📈 {pot.interestRate}% p.a.
             </Typography>
             <Typography variant="caption" color="text.secondary">
-              ~£{((pot.currentTotal * pot.interestRate) / 100).toFixed(0)}/year growth
+              ~{formatMoney((pot.currentTotal * pot.interestRate) / 100, pot.currency, 0)}/year growth
+              {pot.interestPayment && `, paid ${pot.interestPayment === 'annual' ? 'annually' : 'monthly'}`}
+            </Typography>
+          </Box>
+        )}
+
+        {isLifetimeIsa(pot) && (
+          <Box sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1,
+            mt: 1,
+            p: 1,
+            bgcolor: 'primary.50',
+            borderRadius: 1,
+            border: '1px solid',
+            borderColor: 'primary.200'
+          }}>
+            <Typography variant="body2" sx={{ color: 'primary.main', fontWeight: 500 }}>
+              🏠 {formatMoney(getLisaBonusThisTaxYear(pot, transactions), 'GBP')} bonus earned this year
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              of up to {formatMoney(LISA_BONUS_LIMIT * LISA_BONUS_RATE, 'GBP', 0)}
             </Typography>
           </Box>
         )}
       </CardContent>
+      {isCurrentUser && (
+        <ReconcileDialog
+          open={isReconciling}
+          pot={pot}
+          onClose={() => setIsReconciling(false)}
+          onReconciled={onUpdate}
+        />
+      )}
     </Card>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { SavingsPot } from '../types';
+import { SavingsPot, InterestPayment, IsaType, AccountType, BaseCurrencyReport, PotVisibility } from '../types';
 import { addSavingsPot, updateSavingsPot, deleteSavingsPot } from '../storage';
 import {
   Card,
@@ -12,6 +12,7 @@ import {
   DialogContent,
   DialogActions,
   TextField,
+  MenuItem,
   IconButton,
   LinearProgress,
   Fab,
@@ -20,14 +21,24 @@ import {
 } from '@mui/material';
 import { Add, Edit, Delete } from '@mui/icons-material';
 import ExpenseCategories from './ExpenseCategories';
+import ProfileDetails from './ProfileDetails';
+import SignInSecurity from './SignInSecurity';
+import LedgerIntegrity from './LedgerIntegrity';
+import BackupRestore from './BackupRestore';
+import ExchangeRates from './ExchangeRates';
 import { useAuth } from '../AuthContext';
+import { ISA_ALLOWANCE, ISA_TYPES, getIsaTypeLabel } from '../isa';
+import { ACCOUNT_TYPE_LABELS, describeAccountType, hasFixedTerm } from '../accounts';
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, getCurrencySymbol } from '../currency';
+import { POT_VISIBILITIES, getPotVisibility, getPotVisibilityDescription, getPotVisibilityLabel } from '../visibility';
 
 interface SavingsPotsProps {
   pots: SavingsPot[];
+  reporting: BaseCurrencyReport;
   onDataChange: () => void;
 }
 
-const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
+const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, reporting, onDataChange }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const { user } = useAuth();
@@ -38,8 +49,18 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
     description: '',
     currentTotal: '0',
     targetAmount: '',
+    goalDate: '',
     interestRate: '',
-    color: '#667eea'
+    volatility: '',
+    isaType: 'none' as IsaType | 'none',
+    accountType: 'easy-access' as AccountType,
+    maturityDate: '',
+    noticeDays: '',
+    maxMonthlyDeposit: '',
+    interestPayment: 'none' as InterestPayment | 'none',
+    visibility: 'full' as PotVisibility,
+    color: '#667eea',
+    currency: DEFAULT_CURRENCY
   });
 
   const colors = [
@@ -54,8 +75,18 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
       description: '',
       currentTotal: '0',
       targetAmount: '',
+      goalDate: '',
       interestRate: '',
-      color: '#667eea'
+      volatility: '',
+      isaType: 'none',
+      accountType: 'easy-access',
+      maturityDate: '',
+      noticeDays: '',
+      maxMonthlyDeposit: '',
+      interestPayment: 'none',
+      visibility: 'full',
+      color: '#667eea',
+      currency: DEFAULT_CURRENCY
     });
   };
 
@@ -65,6 +96,11 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
     const currentTotal = parseFloat(formData.currentTotal);
     const targetAmount = formData.targetAmount ? parseFloat(formData.targetAmount) : undefined;
     const interestRate = formData.interestRate ? parseFloat(formData.interestRate) : undefined;
+    const volatility = formData.volatility ? parseFloat(formData.volatility) : undefined;
+    const noticeDays = formData.accountType === 'notice' && formData.noticeDays ? parseInt(formData.noticeDays, 10) : null;
+    const maxMonthlyDeposit = formData.accountType === 'regular-saver' && formData.maxMonthlyDeposit
+      ? parseFloat(formData.maxMonthlyDeposit)
+      : null;
 
     if (!formData.name.trim() || isNaN(currentTotal) || currentTotal < 0) {
       return;
@@ -78,14 +114,49 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
       return;
     }
 
+    if (volatility !== undefined && (isNaN(volatility) || volatility < 0 || volatility > 100)) {
+      return;
+    }
+
+    if (noticeDays !== null && (isNaN(noticeDays) || noticeDays < 0)) {
+      return;
+    }
+
+    if (maxMonthlyDeposit !== null && (isNaN(maxMonthlyDeposit) || maxMonthlyDeposit <= 0)) {
+      return;
+    }
+
+    // Each account type only keeps the settings that apply to it
+    const accountSettings = {
+      accountType: formData.accountType,
+      maturityDate: hasFixedTerm(formData) ? formData.maturityDate || null : null,
+      noticeDays,
+      maxMonthlyDeposit
+    };
+
+    // A goal date only means something alongside a target
+    const goalDate = targetAmount !== undefined ? formData.goalDate || null : null;
+
+    // Interest can only be paid in if there's a rate to accrue at
+    const interestPayment = interestRate && formData.interestPayment !== 'none'
+      ? formData.interestPayment
+      : null;
+
     if (editingPot) {
       updateSavingsPot(editingPot.id, {
         name: formData.name.trim(),
         description: formData.description.trim() || undefined,
         currentTotal,
         targetAmount,
+        goalDate,
         interestRate: interestRate ?? null,
-        color: formData.color
+        volatility: volatility || null,
+        isaType: formData.isaType !== 'none' ? formData.isaType : null,
+        ...accountSettings,
+        interestPayment,
+        visibility: formData.visibility,
+        color: formData.color,
+        currency: formData.isaType !== 'none' ? 'GBP' : formData.currency
       });
       setEditingPot(null);
     } else {
@@ -94,8 +165,15 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
         description: formData.description.trim() || undefined,
         currentTotal,
         targetAmount,
+        goalDate,
         interestRate: interestRate ?? null,
-        color: formData.color
+        volatility: volatility || null,
+        isaType: formData.isaType !== 'none' ? formData.isaType : null,
+        ...accountSettings,
+        interestPayment,
+        visibility: formData.visibility,
+        color: formData.color,
+        currency: formData.isaType !== 'none' ? 'GBP' : formData.currency
       });
       setShowAddForm(false);
     }
@@ -111,8 +189,18 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
       description: pot.description || '',
       currentTotal: pot.currentTotal.toString(),
       targetAmount: pot.targetAmount?.toString() || '',
+      goalDate: pot.goalDate || '',
       interestRate: pot.interestRate?.toString() || '',
-      color: pot.color
+      volatility: pot.volatility?.toString() || '',
+      isaType: pot.isaType || 'none',
+      accountType: pot.accountType || 'easy-access',
+      maturityDate: pot.maturityDate || '',
+      noticeDays: pot.noticeDays?.toString() || '',
+      maxMonthlyDeposit: pot.maxMonthlyDeposit?.toString() || '',
+      interestPayment: pot.interestPayment || 'none',
+      visibility: getPotVisibility(pot),
+      color: pot.color,
+      currency: pot.currency || DEFAULT_CURRENCY
     });
   };
 
@@ -129,7 +217,12 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
     resetForm();
   };
 
-  const totalSaved = pots.reduce((sum, pot) => sum + pot.currentTotal, 0);
+  // Added up in the base currency; accounts with no exchange rate to it are left out
+  const potIds = new Set(pots.map(pot => pot.id));
+  const convertedPots = reporting.data.pots.filter(pot => potIds.has(pot.id));
+  const totalSaved = convertedPots.reduce((sum, pot) => sum + pot.currentTotal, 0);
+  const formSymbol = getCurrencySymbol(formData.currency);
+  const currencyOptions = CURRENCIES.includes(formData.currency) ? CURRENCIES : [...CURRENCIES, formData.currency];
 
   return (
     <Box sx={{ position: 'relative', minHeight: '60vh' }}>
@@ -151,10 +244,10 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
           }}>
             <Box>
               <Typography variant="body2" sx={{ opacity: 0.9, mb: 0.5 }}>
-                Total across {pots.length} account{pots.length !== 1 ? 's' : ''}
+                Total across {convertedPots.length} account{convertedPots.length !== 1 ? 's' : ''}
               </Typography>
               <Typography variant="h4" sx={{ fontWeight: 700 }}>
-                £{totalSaved.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                {formatMoney(totalSaved, reporting.baseCurrency)}
               </Typography>
             </Box>
             {!isMobile && (
@@ -216,14 +309,32 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
               sx={{ mb: 2 }}
             />
 
+            <TextField
+              select
+              fullWidth
+              label="Currency"
+              value={formData.currency}
+              onChange={(e) => setFormData({...formData, currency: e.target.value})}
+              disabled={formData.isaType !== 'none'}
+              helperText={formData.isaType !== 'none'
+                ? 'ISAs are held in GBP'
+                : 'Everything in this account is in this currency. Totals are converted using your exchange rates'}
+              sx={{ mb: 2 }}
+            >
+              {currencyOptions.map(currency => (
+                <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+              ))}
+            </TextField>
+
             <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
               <TextField
                 fullWidth
-                label="Current Total (£)"
+                label={`Current Total (${formSymbol})`}
                 type="number"
                 value={formData.currentTotal}
                 onChange={(e) => setFormData({...formData, currentTotal: e.target.value})}
                 required
+                helperText={editingPot ? 'To match your bank, reconcile from the Dashboard instead' : undefined}
                 inputProps={{
                   step: "0.01",
                   min: "0"
@@ -232,7 +343,7 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
 
               <TextField
                 fullWidth
-                label="Target (£)"
+                label={`Target (${formSymbol})`}
                 type="number"
                 value={formData.targetAmount}
                 onChange={(e) => setFormData({...formData, targetAmount: e.target.value})}
@@ -244,6 +355,96 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
               />
             </Box>
 
+            <TextField
+              fullWidth
+              label="Goal Date"
+              type="date"
+              value={formData.goalDate}
+              onChange={(e) => setFormData({...formData, goalDate: e.target.value})}
+              disabled={!formData.targetAmount}
+              helperText="Optional - When you'd like to reach the target, to work out what to save each month"
+              InputLabelProps={{ shrink: true }}
+              sx={{ mb: 2 }}
+            />
+
+            <TextField
+              select
+              fullWidth
+              label="ISA"
+              value={formData.isaType}
+              onChange={(e) => {
+                const isaType = e.target.value as IsaType | 'none';
+                setFormData({...formData, isaType, currency: isaType !== 'none' ? 'GBP' : formData.currency});
+              }}
+              helperText={`Deposits into ISAs count towards your ${formatMoney(ISA_ALLOWANCE, 'GBP', 0)} allowance each tax year`}
+              sx={{ mb: 2 }}
+            >
+              <MenuItem value="none">Not an ISA</MenuItem>
+              {ISA_TYPES.map(isaType => (
+                <MenuItem key={isaType} value={isaType}>{getIsaTypeLabel(isaType)}</MenuItem>
+              ))}
+            </TextField>
+
+            <TextField
+              select
+              fullWidth
+              label="Account Type"
+              value={formData.accountType}
+              onChange={(e) => setFormData({...formData, accountType: e.target.value as AccountType})}
+              sx={{ mb: 2 }}
+            >
+              {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(accountType => (
+                <MenuItem key={accountType} value={accountType}>{ACCOUNT_TYPE_LABELS[accountType]}</MenuItem>
+              ))}
+            </TextField>
+
+            {formData.accountType === 'notice' && (
+              <TextField
+                fullWidth
+                label="Notice Period (days)"
+                type="number"
+                value={formData.noticeDays}
+                onChange={(e) => setFormData({...formData, noticeDays: e.target.value})}
+                helperText="Withdrawals have to be booked at least this many days ahead"
+                inputProps={{
+                  step: "1",
+                  min: "0"
+                }}
+                sx={{ mb: 2 }}
+              />
+            )}
+
+            {formData.accountType === 'regular-saver' && (
+              <TextField
+                fullWidth
+                label={`Maximum Monthly Deposit (${formSymbol})`}
+                type="number"
+                value={formData.maxMonthlyDeposit}
+                onChange={(e) => setFormData({...formData, maxMonthlyDeposit: e.target.value})}
+                helperText="Most you can pay in each calendar month"
+                inputProps={{
+                  step: "0.01",
+                  min: "0.01"
+                }}
+                sx={{ mb: 2 }}
+              />
+            )}
+
+            {hasFixedTerm(formData) && (
+              <TextField
+                fullWidth
+                label="Maturity Date"
+                type="date"
+                value={formData.maturityDate}
+                onChange={(e) => setFormData({...formData, maturityDate: e.target.value})}
+                helperText={formData.accountType === 'fixed-rate-bond'
+                  ? "When the term ends. Withdrawals aren't allowed before then, and the rate stops"
+                  : 'When the term ends and the rate stops'}
+                InputLabelProps={{ shrink: true }}
+                sx={{ mb: 2 }}
+              />
+            )}
+
             <TextField
               fullWidth
               label="Expected Annual Growth Rate (%)"
@@ -260,6 +461,51 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
               sx={{ mb: 2 }}
             />
 
+            <TextField
+              fullWidth
+              label="Volatility (%)"
+              type="number"
+              value={formData.volatility}
+              onChange={(e) => setFormData({...formData, volatility: e.target.value})}
+              placeholder="e.g., 15 for a global equity fund"
+              helperText="Optional - For investments, how much returns vary year to year. Shows a range of outcomes on the projections chart"
+              inputProps={{
+                step: "1",
+                min: "0",
+                max: "100"
+              }}
+              sx={{ mb: 2 }}
+            />
+
+            <TextField
+              select
+              fullWidth
+              label="Interest Paid"
+              value={formData.interestPayment}
+              onChange={(e) => setFormData({...formData, interestPayment: e.target.value as InterestPayment | 'none'})}
+              disabled={!formData.interestRate}
+              helperText="Accrue interest daily and pay it into this account automatically"
+              sx={{ mb: 2 }}
+            >
+              <MenuItem value="none">Not tracked (forecast only)</MenuItem>
+              <MenuItem value="monthly">Monthly</MenuItem>
+              <MenuItem value="annual">Annually (in the month the account was opened)</MenuItem>
+            </TextField>
+
+            <TextField
+              select
+              fullWidth
+              label="Who Can See It"
+              value={formData.visibility}
+              onChange={(e) => setFormData({...formData, visibility: e.target.value as PotVisibility})}
+              helperText={getPotVisibilityDescription(formData.visibility)}
+              sx={{ mb: 2 }}
+            >
+              {POT_VISIBILITIES.map(visibility => (
+                <MenuItem key={visibility} value={visibility}>{getPotVisibilityLabel(visibility)}</MenuItem>
+              ))}
+            </TextField>
+
             <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
               Choose a color
             </Typography>
@@ -403,6 +649,18 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
                       </IconButton>
                     </Box>
                   </Box>
+
+                  {pot.isaType && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                      {getIsaTypeLabel(pot.isaType)}
+                    </Typography>
+                  )}
+
+                  {describeAccountType(pot) && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                      {describeAccountType(pot)}
+                    </Typography>
+                  )}
                   
                   {pot.description && (
                     <Typography 
@@ -428,7 +686,7 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
                       mb: pot.targetAmount ? 1.5 : 0
                     }}
                   >
-                    £{pot.currentTotal.toLocaleString('en-GB', { minimumFractionDigits: 2 })}
+                    {formatMoney(pot.currentTotal, pot.currency)}
                   </Typography>
 
                   {pot.targetAmount && (
@@ -456,7 +714,7 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
                           {progressPercentage.toFixed(0)}% complete
                         </Typography>
                         <Typography variant="caption" color="text.secondary">
-                          £{pot.targetAmount.toLocaleString('en-GB')} goal
+                          {formatMoney(pot.targetAmount, pot.currency)} goal
                         </Typography>
                       </Box>
                     </Box>
@@ -476,6 +734,16 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
                       <Typography variant="body2" sx={{ color: 'success.main', fontWeight: 500 }}>
                         📈 {pot.interestRate}% p.a.
                       </Typography>
+                      {pot.volatility && (
+                        <Typography variant="caption" color="text.secondary">
+                          ±{pot.volatility}% volatility
+                        </Typography>
+                      )}
+                      {pot.interestPayment && (
+                        <Typography variant="caption" color="text.secondary">
+                          paid {pot.interestPayment === 'annual' ? 'annually' : 'monthly'}
+                        </Typography>
+                      )}
                     </Box>
                   )}
                 </CardContent>
@@ -485,6 +753,79 @@ const SavingsPots: React.FC<SavingsPotsProps> = ({ pots, onDataChange }) => {
         </Box>
       )}
 
+      {/* Profile Section */}
+      {user && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ 
+            fontWeight: 600,
+            color: 'text.primary'
+          }}>
+            Your Details
+          </Typography>
+          <ProfileDetails />
+        </Box>
+      )}
+
+      {/* Sign-in Section */}
+      {user && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ 
+            fontWeight: 600,
+            color: 'text.primary'
+          }}>
+            Sign-in &amp; Devices
+          </Typography>
+          <SignInSecurity />
+        </Box>
+      )}
+
+      {/* Ledger Integrity Section */}
+      {user && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ 
+            fontWeight: 600,
+            color: 'text.primary'
+          }}>
+            Ledger Check
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Checks that every account's total matches its transactions. Covers all users' accounts, though only backup admins can repair other users' ones.
+          </Typography>
+          <LedgerIntegrity onRepaired={onDataChange} />
+        </Box>
+      )}
+
+      {user?.canManageBackups && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ 
+            fontWeight: 600,
+            color: 'text.primary'
+          }}>
+            Backup &amp; Restore
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Download or restore a copy of everything. Covers all users' accounts, including private ones.
+          </Typography>
+          <BackupRestore onRestored={onDataChange} />
+        </Box>
+      )}
+
+      {/* Currencies Section */}
+      {user && (
+        <Box sx={{ mt: 4 }}>
+          <Typography variant="h5" component="h2" gutterBottom sx={{ 
+            fontWeight: 600,
+            color: 'text.primary'
+          }}>
+            Currencies
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Totals and projections are shown in the base currency, converted with the latest rate below. Shared with all users.
+          </Typography>
+          <ExchangeRates onChange={onDataChange} />
+        </Box>
+      )}
+
       {/* Expense Categories Section */}
       {user && (
         <Box sx={{ mt: 4 }}>
@@ -0,0 +1,461 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  TextField,
+  MenuItem,
+  Checkbox,
+  Chip
+} from '@mui/material';
+import { Add, Delete, Edit, Close } from '@mui/icons-material';
+import { addDays } from 'date-fns';
+import {
+  BaseCurrencyReport,
+  RecurrenceRule,
+  SavingsData,
+  SavingsProjection,
+  Scenario,
+  ScenarioChange,
+  User
+} from '../types';
+import { fetchScenarios, createScenario, updateScenario, deleteScenario } from '../api';
+import { calculateScenarioProjections, describeScenarioChange } from '../scenarios';
+import { DEFAULT_PROJECTION_HORIZON } from '../projections';
+import { parseDayKey, toDayKey } from '../recurrence';
+import { useAuth } from '../AuthContext';
+import { useInvestmentSimulation } from '../hooks/useInvestmentSimulation';
+import { convertProjections, formatMoney, getCurrencySymbol } from '../currency';
+import { formatDate } from '../locale';
+import ProjectionChart, { ScenarioOverlay, scenarioColors } from './ProjectionChart';
+import RecurrenceFields from './RecurrenceFields';
+
+interface ScenarioSandboxProps {
+  data: SavingsData; // Scenario changes are in each pot's own currency
+  reporting: BaseCurrencyReport; // What's charted and totalled, in the base currency
+  currentUser: User;
+  horizonMonths?: number;
+  onHorizonChange?: (months: number) => void;
+}
+
+// A scenario being built or edited; nothing is saved until the user asks
+interface DraftScenario {
+  id?: string; // Set when editing a saved scenario
+  name: string;
+  changes: ScenarioChange[];
+}
+
+const getEmptyChangeForm = () => ({
+  type: 'payment' as ScenarioChange['type'],
+  potId: '',
+  kind: 'deposit' as 'deposit' | 'withdrawal',
+  amount: '',
+  // Changes can only affect the future
+  date: toDayKey(addDays(new Date(), 1)),
+  recurrence: null as RecurrenceRule | null,
+  interestRate: ''
+});
+
+// Combined total at the end of the chart, and how many goals with a deadline are on track
+const summariseProjections = (projections: SavingsProjection[]) => {
+  const goals = projections.filter(p => p.goalStatus && p.goalStatus !== 'reached');
+  return {
+    total: projections.reduce((sum, p) => sum + (p.data[p.data.length - 1]?.amount || 0), 0),
+    goals: goals.length,
+    goalsOnTrack: goals.filter(p => p.goalStatus === 'on-track').length
+  };
+};
+
+const ScenarioSandbox: React.FC<ScenarioSandboxProps> = ({
+  data,
+  reporting,
+  currentUser,
+  horizonMonths = DEFAULT_PROJECTION_HORIZON,
+  onHorizonChange
+}) => {
+  const { projections, baseCurrency, potRates } = reporting;
+  const formatTotal = (value: number) => formatMoney(value, baseCurrency);
+  const { allUsers } = useAuth();
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [draft, setDraft] = useState<DraftScenario | null>(null);
+  const [changeForm, setChangeForm] = useState(getEmptyChangeForm());
+  const simulation = useInvestmentSimulation(reporting.data, horizonMonths, allUsers);
+
+  const loadScenarios = async () => {
+    setScenarios(await fetchScenarios());
+  };
+
+  useEffect(() => {
+    loadScenarios();
+  }, []);
+
+  // The draft is always shown; saved scenarios only when ticked (the one being edited is replaced by the draft)
+  const overlays: ScenarioOverlay[] = useMemo(() => {
+    const result: ScenarioOverlay[] = [];
+    if (draft && draft.changes.length > 0) {
+      result.push({
+        name: draft.name.trim() || 'Unsaved scenario',
+        projections: convertProjections(calculateScenarioProjections(data, draft.changes, horizonMonths, allUsers), potRates)
+      });
+    }
+    scenarios
+      .filter(s => comparedIds.includes(s.id) && s.id !== draft?.id)
+      .forEach(s => {
+        result.push({
+          name: s.name,
+          projections: convertProjections(calculateScenarioProjections(data, s.changes, horizonMonths, allUsers), potRates)
+        });
+      });
+    return result;
+  }, [data, potRates, draft, scenarios, comparedIds, horizonMonths, allUsers]);
+
+  const getPotLabel = (potId: string) => {
+    const pot = data.pots.find(p => p.id === potId);
+    if (!pot) return potId;
+    if (pot.userId === currentUser.id) return pot.name;
+    return `${pot.name} (${allUsers.find(u => u.id === pot.userId)?.name || pot.userId})`;
+  };
+
+  const handleToggleCompare = (id: string) => {
+    setComparedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  const handleNewScenario = () => {
+    setDraft({ name: '', changes: [] });
+    setChangeForm(getEmptyChangeForm());
+  };
+
+  const handleEditScenario = (scenario: Scenario) => {
+    setDraft({ id: scenario.id, name: scenario.name, changes: scenario.changes });
+    setChangeForm(getEmptyChangeForm());
+  };
+
+  const handleAddChange = () => {
+    if (!draft || !changeForm.potId) return;
+
+    let change: ScenarioChange;
+    if (changeForm.type === 'interest-rate') {
+      const interestRate = parseFloat(changeForm.interestRate);
+      if (isNaN(interestRate) || interestRate < 0 || interestRate > 100) return;
+      change = { type: 'interest-rate', potId: changeForm.potId, interestRate };
+    } else {
+      const amount = parseFloat(changeForm.amount);
+      if (isNaN(amount) || amount <= 0 || !changeForm.date) return;
+      change = {
+        type: 'payment',
+        potId: changeForm.potId,
+        kind: changeForm.kind,
+        amount,
+        date: changeForm.date,
+        recurrence: changeForm.recurrence
+      };
+    }
+
+    setDraft({ ...draft, changes: [...draft.changes, change] });
+    setChangeForm({ ...getEmptyChangeForm(), potId: changeForm.potId });
+  };
+
+  const handleRemoveChange = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, changes: draft.changes.filter((_, i) => i !== index) });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft || !draft.name.trim() || draft.changes.length === 0) return;
+
+    const saved = draft.id
+      ? await updateScenario(draft.id, { name: draft.name.trim(), changes: draft.changes })
+      : await createScenario({ name: draft.name.trim(), changes: draft.changes });
+
+    if (saved && !comparedIds.includes(saved.id)) {
+      setComparedIds([...comparedIds, saved.id]);
+    }
+    setDraft(null);
+    loadScenarios();
+  };
+
+  const handleDeleteScenario = async (scenario: Scenario) => {
+    await deleteScenario(scenario.id);
+    setComparedIds(ids => ids.filter(id => id !== scenario.id));
+    if (draft?.id === scenario.id) setDraft(null);
+    loadScenarios();
+  };
+
+  const baseline = summariseProjections(projections);
+  const endMonth = projections[0]?.data[projections[0].data.length - 1]?.date;
+
+  return (
+    <Box>
+      <ProjectionChart
+        projections={projections}
+        pots={reporting.data.pots}
+        currency={baseCurrency}
+        potRates={potRates}
+        scenarios={overlays}
+        simulation={simulation}
+        horizonMonths={horizonMonths}
+        onHorizonChange={onHorizonChange}
+      />
+
+      <Box sx={{ mt: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+          <Typography variant="subtitle2" sx={{ color: 'text.secondary', fontWeight: 600 }}>
+            What If…
+          </Typography>
+          {!draft && (
+            <Button variant="outlined" size="small" startIcon={<Add />} onClick={handleNewScenario}>
+              New scenario
+            </Button>
+          )}
+        </Box>
+
+        {scenarios.length === 0 && !draft && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Try out a change before making it, e.g. an extra £100/month into an ISA, a lower rate or a big withdrawal.
+            Scenarios are only projected and never touch your accounts.
+          </Typography>
+        )}
+
+        {scenarios.map(scenario => {
+          const isOwner = scenario.userId === currentUser.id;
+          return (
+            <Box
+              key={scenario.id}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                p: 0.5,
+                mb: 0.5,
+                bgcolor: 'grey.50',
+                borderRadius: 1
+              }}
+            >
+              <Checkbox
+                size="small"
+                checked={comparedIds.includes(scenario.id)}
+                onChange={() => handleToggleCompare(scenario.id)}
+                disabled={draft?.id === scenario.id}
+              />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                  {scenario.name}
+                  {!isOwner && (
+                    <Chip
+                      label={allUsers.find(u => u.id === scenario.userId)?.name || scenario.userId}
+                      size="small"
+                      variant="outlined"
+                      sx={{ ml: 1, height: 20, fontSize: '0.65rem' }}
+                    />
+                  )}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }} noWrap>
+                  {scenario.changes.map(change => describeScenarioChange(change, data.pots)).join(' · ')}
+                </Typography>
+              </Box>
+              {isOwner && (
+                <>
+                  <IconButton size="small" onClick={() => handleEditScenario(scenario)}>
+                    <Edit fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" onClick={() => handleDeleteScenario(scenario)}>
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </>
+              )}
+            </Box>
+          );
+        })}
+
+        {draft && (
+          <Box sx={{ mt: 2, p: 2, border: '1px dashed', borderColor: 'divider', borderRadius: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Scenario Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., Extra £100/month into the ISA"
+              />
+              <IconButton size="small" onClick={() => setDraft(null)}>
+                <Close fontSize="small" />
+              </IconButton>
+            </Box>
+
+            {draft.changes.map((change, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Typography variant="body2" sx={{ flex: 1 }}>
+                  {describeScenarioChange(change, data.pots)}
+                </Typography>
+                <IconButton size="small" onClick={() => handleRemoveChange(index)}>
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+
+            <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap' }}>
+              <TextField
+                select
+                size="small"
+                label="Change"
+                value={changeForm.type}
+                onChange={(e) => setChangeForm({ ...changeForm, type: e.target.value as ScenarioChange['type'] })}
+                sx={{ minWidth: 160 }}
+              >
+                <MenuItem value="payment">Payment</MenuItem>
+                <MenuItem value="interest-rate">Interest rate</MenuItem>
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="Account"
+                value={changeForm.potId}
+                onChange={(e) => setChangeForm({ ...changeForm, potId: e.target.value })}
+                sx={{ minWidth: 200, flex: 1 }}
+              >
+                {data.pots.map(pot => (
+                  <MenuItem key={pot.id} value={pot.id}>{getPotLabel(pot.id)}</MenuItem>
+                ))}
+              </TextField>
+            </Box>
+
+            {changeForm.type === 'interest-rate' ? (
+              <TextField
+                fullWidth
+                size="small"
+                label="New Annual Rate (%)"
+                type="number"
+                value={changeForm.interestRate}
+                onChange={(e) => setChangeForm({ ...changeForm, interestRate: e.target.value })}
+                inputProps={{ step: '0.1', min: '0', max: '100' }}
+                sx={{ mt: 2 }}
+              />
+            ) : (
+              <>
+                <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap' }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Type"
+                    value={changeForm.kind}
+                    onChange={(e) => setChangeForm({ ...changeForm, kind: e.target.value as 'deposit' | 'withdrawal' })}
+                    sx={{ minWidth: 160 }}
+                  >
+                    <MenuItem value="deposit">Deposit</MenuItem>
+                    <MenuItem value="withdrawal">Withdrawal</MenuItem>
+                  </TextField>
+                  <TextField
+                    size="small"
+                    label={`Amount (${getCurrencySymbol(data.pots.find(p => p.id === changeForm.potId)?.currency)})`}
+                    type="number"
+                    value={changeForm.amount}
+                    onChange={(e) => setChangeForm({ ...changeForm, amount: e.target.value })}
+                    inputProps={{ step: '0.01', min: '0.01' }}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Date"
+                    type="date"
+                    value={changeForm.date}
+                    onChange={(e) => setChangeForm({ ...changeForm, date: e.target.value })}
+                    inputProps={{ min: getEmptyChangeForm().date }}
+                    InputLabelProps={{ shrink: true }}
+                    sx={{ flex: 1 }}
+                  />
+                </Box>
+                <RecurrenceFields
+                  value={changeForm.recurrence}
+                  onChange={(recurrence) => setChangeForm({ ...changeForm, recurrence })}
+                  startDate={changeForm.date ? parseDayKey(changeForm.date) : null}
+                  sx={{ mt: 2 }}
+                />
+              </>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', mt: 2 }}>
+              <Button size="small" startIcon={<Add />} onClick={handleAddChange} disabled={!changeForm.potId}>
+                Add change
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={handleSaveDraft}
+                disabled={!draft.name.trim() || draft.changes.length === 0}
+              >
+                {draft.id ? 'Save changes' : 'Save scenario'}
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {/* Side-by-side comparison with the baseline */}
+        {overlays.length > 0 && (
+          <Box sx={{
+            display: 'grid',
+            gridTemplateColumns: `minmax(120px, auto) repeat(${overlays.length + 1}, minmax(0, 1fr))`,
+            gap: 1,
+            mt: 2,
+            p: 2,
+            backgroundColor: '#f8f9fa',
+            borderRadius: 2,
+            overflowX: 'auto'
+          }}>
+            <Box />
+            <Typography variant="caption" sx={{ fontWeight: 600, color: '#667eea' }}>Current plan</Typography>
+            {overlays.map((overlay, index) => (
+              <Typography
+                key={`name-${index}`}
+                variant="caption"
+                sx={{ fontWeight: 600, color: scenarioColors[index % scenarioColors.length] }}
+              >
+                {overlay.name}
+              </Typography>
+            ))}
+
+            <Typography variant="caption" color="text.secondary">
+              {endMonth ? `Total by ${formatDate(endMonth, 'MMM yyyy')}` : 'Projected total'}
+            </Typography>
+            <Typography variant="body2">{formatTotal(baseline.total)}</Typography>
+            {overlays.map((overlay, index) => {
+              const { total } = summariseProjections(overlay.projections);
+              const difference = total - baseline.total;
+              return (
+                <Typography key={`total-${index}`} variant="body2">
+                  {formatTotal(total)}
+                  <Typography
+                    component="span"
+                    variant="caption"
+                    sx={{ display: 'block', color: difference >= 0 ? 'success.main' : 'error.main' }}
+                  >
+                    {difference >= 0 ? '+' : '-'}{formatTotal(Math.abs(difference))}
+                  </Typography>
+                </Typography>
+              );
+            })}
+
+            {baseline.goals > 0 && (
+              <>
+                <Typography variant="caption" color="text.secondary">Goals on track</Typography>
+                <Typography variant="body2">{baseline.goalsOnTrack} of {baseline.goals}</Typography>
+                {overlays.map((overlay, index) => {
+                  const { goals, goalsOnTrack } = summariseProjections(overlay.projections);
+                  return (
+                    <Typography key={`goals-${index}`} variant="body2">
+                      {goalsOnTrack} of {goals}
+                    </Typography>
+                  );
+                })}
+              </>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ScenarioSandbox;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { Logout } from '@mui/icons-material';
+import { Session } from '../types';
+import { fetchSessions, revokeSession, revokeOtherSessions } from '../api';
+import { useAuth } from '../AuthContext';
+import { describeUserAgent } from '../sessions';
+import { formatDate } from '../locale';
+
+// The signed-in user's PIN or password and the devices they're signed in on. Without a PIN
+// anyone who can open the app can sign in as them.
+const SignInSecurity: React.FC = () => {
+  const { user, updatePin } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions().then(setSessions);
+  }, []);
+
+  if (!user) return null;
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      setResultMessage(await action());
+      setSessions(await fetchSessions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const signedOutText = (count: number) =>
+    count > 0 ? ` ${count} other device${count === 1 ? ' was' : 's were'} signed out.` : '';
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const signedOut = await updatePin(currentPin || null, newPin);
+      setCurrentPin('');
+      setNewPin('');
+      return `${user.hasPin ? 'PIN changed.' : 'PIN set.'}${signedOutText(signedOut)}`;
+    });
+  };
+
+  const handleRemovePin = () => {
+    run(async () => {
+      await updatePin(currentPin || null, null);
+      setCurrentPin('');
+      setNewPin('');
+      return 'PIN removed. Anyone who can open the app can now sign in as you.';
+    });
+  };
+
+  const handleRevoke = (session: Session) => {
+    run(async () => {
+      await revokeSession(session.id);
+      return `Signed out ${describeUserAgent(session.userAgent)}.`;
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    run(async () => {
+      const signedOut = await revokeOtherSessions();
+      return `Signed out ${signedOut} other device${signedOut === 1 ? '' : 's'}.`;
+    });
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="subtitle1" gutterBottom>
+          {user.hasPin ? '🔒 PIN or password' : '🔓 No PIN or password'}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {user.hasPin
+            ? 'You need it to sign in. Changing it signs out your other devices.'
+            : 'Anyone who can open the app can sign in as you. Set one to stop that; your other devices will be signed out.'}
+        </Typography>
+        <Box component="form" onSubmit={handlePinSubmit} sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+          {user.hasPin && (
+            <TextField
+              size="small"
+              label="Current PIN or password"
+              type="password"
+              value={currentPin}
+              onChange={(e) => setCurrentPin(e.target.value)}
+              autoComplete="current-password"
+            />
+          )}
+          <TextField
+            size="small"
+            label={user.hasPin ? 'New PIN or password' : 'PIN or password'}
+            type="password"
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value)}
+            autoComplete="new-password"
+            inputProps={{ minLength: 4, maxLength: 128 }}
+            helperText="At least 4 characters"
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isBusy || newPin.length < 4 || (user.hasPin && !currentPin)}
+            sx={{ alignSelf: 'flex-start' }}
+          >
+            {user.hasPin ? 'Change' : 'Set PIN'}
+          </Button>
+          {user.hasPin && (
+            <Button
+              color="error"
+              onClick={handleRemovePin}
+              disabled={isBusy || !currentPin}
+              sx={{ alignSelf: 'flex-start' }}
+            >
+              Remove
+            </Button>
+          )}
+        </Box>
+
+        <Typography variant="subtitle1" gutterBottom>
+          Signed-in devices
+        </Typography>
+        <List dense sx={{ mb: 1 }}>
+          {sessions.map(session => (
+            <ListItem
+              key={session.id}
+              disableGutters
+              secondaryAction={
+                !session.current && (
+                  <IconButton
+                    edge="end"
+                    size="small"
+                    onClick={() => handleRevoke(session)}
+                    disabled={isBusy}
+                    aria-label="Sign out device"
+                  >
+                    <Logout fontSize="small" />
+                  </IconButton>
+                )
+              }
+            >
+              <ListItemText
+                primary={`${describeUserAgent(session.userAgent)}${session.current ? ' (this device)' : ''}`}
+                secondary={`Signed in ${formatDate(new Date(session.createdAt), 'PP')} · last used ${formatDate(new Date(session.lastUsedAt), 'PPp')}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+        {otherSessions.length > 0 && (
+          <Button variant="outlined" color="error" onClick={handleRevokeOthers} disabled={isBusy} sx={{ mb: 2 }}>
+            Sign Out Other Devices
+          </Button>
+        )}
+
+        {resultMessage && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {resultMessage}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error">
+            {error}
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignInSecurity;
@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  IconButton
+} from '@mui/material';
+import { UploadFile, Delete } from '@mui/icons-material';
+import {
+  DecimalSeparator,
+  ImportDateFormat,
+  ImportPreset,
+  SavingsPot,
+  StatementAccount,
+  StatementAccountLink,
+  StatementColumnMapping,
+  StatementFormat,
+  Transaction,
+  User
+} from '../types';
+import { fetchImportPresets, createImportPreset, deleteImportPreset, importTransactions, fetchStatementAccounts } from '../api';
+import { IMPORT_DATE_FORMATS, DECIMAL_SEPARATORS, parseCsv, guessColumnMapping, mapStatementRows, findDuplicateRows } from '../csvImport';
+import { detectStatementFormat, parseOfx, parseQif } from '../statementFormats';
+import { formatSignedAmount } from '../ledger';
+import { formatDate } from '../locale';
+
+interface StatementImportDialogProps {
+  open: boolean;
+  pots: SavingsPot[]; // The signed-in user's pots
+  transactions: Transaction[];
+  currentUser: User;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// How many rows the preview lists
+const PREVIEW_ROWS = 50;
+
+// Import a bank statement into pots. CSV files need their columns mapped (or a saved preset for
+// the bank); OFX and QIF files can hold several accounts, each imported into the pot it was last
+// imported into. The rows are previewed and the new ones posted with one request per account.
+// Rows already in the pot are skipped.
+const StatementImportDialog: React.FC<StatementImportDialogProps> = ({ open, pots, transactions, currentUser, onClose, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [statementFormat, setStatementFormat] = useState<StatementFormat | null>(null);
+  const [fileText, setFileText] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<StatementColumnMapping>(guessColumnMapping([]));
+  const [qifDateFormat, setQifDateFormat] = useState<ImportDateFormat>('dd/MM/yyyy');
+  // Pots chosen in this dialog, keyed by statement account ID ('' for a file that doesn't name one)
+  const [chosenPotIds, setChosenPotIds] = useState<Record<string, string>>({});
+  const [accountLinks, setAccountLinks] = useState<StatementAccountLink[]>([]);
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    clearFile();
+    setChosenPotIds({});
+    setPresetId('');
+    setPresetName('');
+    setError(null);
+    setResultMessage(null);
+    fetchImportPresets().then(setPresets);
+    fetchStatementAccounts().then(setAccountLinks);
+  }, [open]);
+
+  const clearFile = () => {
+    setFileName('');
+    setStatementFormat(null);
+    setFileText('');
+    setCsvRows([]);
+  };
+
+  const headers = csvRows[0] || [];
+  let accounts: StatementAccount[] = [];
+  let invalidMessage: string | null = null;
+  if (statementFormat === 'csv') {
+    const { rows, invalidLines } = mapStatementRows(csvRows, mapping);
+    accounts = rows.length > 0 ? [{ accountId: null, rows }] : [];
+    if (invalidLines.length > 0) {
+      invalidMessage = `${invalidLines.length} line${invalidLines.length === 1 ? '' : 's'} couldn't be read and will be left out ` +
+        `(line${invalidLines.length === 1 ? '' : 's'} ${invalidLines.slice(0, 10).join(', ')}${invalidLines.length > 10 ? '…' : ''}). ` +
+        'Check the columns and date format.';
+    }
+  } else if (statementFormat) {
+    const statement = statementFormat === 'ofx' ? parseOfx(fileText) : parseQif(fileText, qifDateFormat);
+    accounts = statement.accounts;
+    if (statement.invalidCount > 0) {
+      invalidMessage = `${statement.invalidCount} transaction${statement.invalidCount === 1 ? '' : 's'} couldn't be read and will be left out.` +
+        (statementFormat === 'qif' ? ' Check the date format.' : '');
+    }
+  }
+
+  // The pot an account imports into: this dialog's choice, then the pot it was last imported into
+  const getAccountPotId = (accountId: string | null) => {
+    const chosen = chosenPotIds[accountId || ''];
+    if (chosen) return chosen;
+    const linked = accountLinks.find(link => link.accountId === accountId);
+    return linked && pots.some(pot => pot.id === linked.potId) ? linked.potId : pots[0]?.id || '';
+  };
+
+  const accountImports = accounts.map(account => {
+    const potId = getAccountPotId(account.accountId);
+    const duplicates = findDuplicateRows(account.rows, transactions.filter(t => t.potId === potId));
+    return { account, potId, duplicates, newRowCount: duplicates.filter(isDuplicate => !isDuplicate).length };
+  });
+  const rowCount = accounts.reduce((sum, account) => sum + account.rows.length, 0);
+  const newRowCount = accountImports.reduce((sum, item) => sum + item.newRowCount, 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const detected = detectStatementFormat(file.name, text);
+    setFileName(file.name);
+    setStatementFormat(detected);
+    setFileText(text);
+    setResultMessage(null);
+    setError(null);
+
+    if (detected === 'csv') {
+      const parsed = parseCsv(text);
+      setCsvRows(parsed);
+      if (parsed.length < 2) setError('That file has no rows to import');
+
+      // Keep the chosen preset if its columns are all in this file, otherwise guess
+      const preset = presets.find(p => p.id === presetId);
+      const fileHeaders = parsed[0] || [];
+      const presetColumns = preset ? [preset.dateColumn, preset.amountColumn, preset.paidOutColumn] : [];
+      if (!preset || presetColumns.some(column => column && !fileHeaders.includes(column))) {
+        setPresetId('');
+        setMapping(guessColumnMapping(fileHeaders, parsed.slice(1)));
+      }
+    } else {
+      setCsvRows([]);
+      const statement = detected === 'ofx' ? parseOfx(text) : parseQif(text, qifDateFormat);
+      if (statement.accounts.length === 0 && statement.invalidCount === 0) {
+        setError('That file has no transactions to import');
+      }
+    }
+    e.target.value = '';
+  };
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) {
+      setMapping({
+        dateColumn: preset.dateColumn,
+        amountColumn: preset.amountColumn,
+        paidOutColumn: preset.paidOutColumn,
+        descriptionColumn: preset.descriptionColumn,
+        dateFormat: preset.dateFormat,
+        decimalSeparator: preset.decimalSeparator
+      });
+    }
+  };
+
+  const handleSavePreset = async () => {
+    const saved = await createImportPreset({ name: presetName.trim(), ...mapping });
+    if (saved) {
+      setPresets(current => [...current, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetId(saved.id);
+      setPresetName('');
+    } else {
+      setError('Failed to save the preset');
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (await deleteImportPreset(presetId)) {
+      setPresets(current => current.filter(p => p.id !== presetId));
+      setPresetId('');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    let importedCount = 0;
+    let skippedCount = 0;
+    const potNames: string[] = [];
+    try {
+      for (const { account, potId, newRowCount: accountNewRows } of accountImports) {
+        if (accountNewRows === 0) continue;
+        const result = await importTransactions(potId, account.rows, account.accountId);
+        importedCount += result.importedCount;
+        skippedCount += result.skippedCount;
+        const potName = pots.find(pot => pot.id === potId)?.name || 'the account';
+        if (!potNames.includes(potName)) potNames.push(potName);
+      }
+      setResultMessage(
+        `Imported ${importedCount} transaction${importedCount === 1 ? '' : 's'} into ${potNames.join(', ')}` +
+        (skippedCount > 0 ? `; ${skippedCount} already there were skipped.` : '.')
+      );
+      clearFile();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the statement');
+    } finally {
+      setIsImporting(false);
+      if (importedCount > 0) onImported();
+    }
+  };
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Bank Statement</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mt: 1, mb: 2 }}>
+          <Button variant="outlined" component="label" startIcon={<UploadFile />}>
+            Choose File
+            <input type="file" accept=".csv,.ofx,.qfx,.qif,text/csv" hidden onChange={handleFileChange} />
+          </Button>
+          <Typography variant="body2" color="text.secondary">
+            {fileName || 'CSV, OFX, QFX or QIF'}
+          </Typography>
+        </Box>
+
+        {statementFormat === 'qif' && (
+          <TextField
+            select
+            fullWidth
+            label="Date Format"
+            value={qifDateFormat}
+            onChange={(e) => setQifDateFormat(e.target.value as ImportDateFormat)}
+            helperText="QIF files don't say whether the day or month comes first"
+            sx={{ mb: 2 }}
+          >
+            {IMPORT_DATE_FORMATS.map(dateFormat => <MenuItem key={dateFormat} value={dateFormat}>{dateFormat}</MenuItem>)}
+          </TextField>
+        )}
+
+        {statementFormat === 'csv' && headers.length > 0 && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+              <TextField
+                select
+                fullWidth
+                label="Bank Preset"
+                value={presetId}
+                onChange={(e) => handlePresetChange(e.target.value)}
+              >
+                <MenuItem value="">Custom mapping</MenuItem>
+                {presets.map(preset => (
+                  <MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>
+                ))}
+              </TextField>
+              {selectedPreset?.userId === currentUser.id && (
+                <IconButton onClick={handleDeletePreset} aria-label="Delete preset">
+                  <Delete />
+                </IconButton>
+              )}
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 2, mb: 2 }}>
+              <TextField
+                select
+                label="Date Column"
+                value={mapping.dateColumn}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, dateColumn: e.target.value }); }}
+              >
+                {headers.map(header => <MenuItem key={header} value={header}>{header}</MenuItem>)}
+              </TextField>
+              <TextField
+                select
+                label="Date Format"
+                value={mapping.dateFormat}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, dateFormat: e.target.value as ImportDateFormat }); }}
+              >
+                {IMPORT_DATE_FORMATS.map(dateFormat => <MenuItem key={dateFormat} value={dateFormat}>{dateFormat}</MenuItem>)}
+              </TextField>
+              <TextField
+                select
+                label={mapping.paidOutColumn ? 'Paid In Column' : 'Amount Column'}
+                value={mapping.amountColumn}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, amountColumn: e.target.value }); }}
+                helperText={mapping.paidOutColumn ? undefined : 'Money in positive, out negative'}
+              >
+                {headers.map(header => <MenuItem key={header} value={header}>{header}</MenuItem>)}
+              </TextField>
+              <TextField
+                select
+                label="Paid Out Column"
+                value={mapping.paidOutColumn || ''}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, paidOutColumn: e.target.value || null }); }}
+                helperText="If money out has its own column"
+              >
+                <MenuItem value="">None</MenuItem>
+                {headers.map(header => <MenuItem key={header} value={header}>{header}</MenuItem>)}
+              </TextField>
+              <TextField
+                select
+                label="Decimal Separator"
+                value={mapping.decimalSeparator}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, decimalSeparator: e.target.value as DecimalSeparator }); }}
+              >
+                {DECIMAL_SEPARATORS.map(separator => (
+                  <MenuItem key={separator} value={separator}>
+                    {separator === '.' ? 'Point (1,234.56)' : 'Comma (1.234,56)'}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Description Column"
+                value={mapping.descriptionColumn || ''}
+                onChange={(e) => { setPresetId(''); setMapping({ ...mapping, descriptionColumn: e.target.value || null }); }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {headers.map(header => <MenuItem key={header} value={header}>{header}</MenuItem>)}
+              </TextField>
+            </Box>
+
+            {!presetId && (
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+                <TextField
+                  size="small"
+                  label="Save mapping as"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="e.g., Nationwide"
+                  sx={{ flex: 1 }}
+                />
+                <Button
+                  onClick={handleSavePreset}
+                  disabled={!presetName.trim() || !mapping.dateColumn || !mapping.amountColumn}
+                >
+                  Save Preset
+                </Button>
+              </Box>
+            )}
+          </>
+        )}
+
+        {invalidMessage && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {invalidMessage}
+          </Alert>
+        )}
+
+        {accountImports.length > 1 && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {accountImports.length} accounts · {rowCount} rows · {newRowCount} to import
+          </Typography>
+        )}
+
+        {accountImports.map(({ account, potId, duplicates, newRowCount: accountNewRows }) => (
+          <Box key={account.accountId || ''} sx={{ mb: 3 }}>
+            <TextField
+              select
+              fullWidth
+              label={account.accountId ? `Import Account ${account.accountId} Into` : 'Import Into'}
+              value={potId}
+              onChange={(e) => setChosenPotIds({ ...chosenPotIds, [account.accountId || '']: e.target.value })}
+              helperText={account.accountId && accountLinks.some(link => link.accountId === account.accountId && link.potId === potId)
+                ? 'Where this account was imported last time'
+                : undefined}
+              sx={{ mb: 1 }}
+            >
+              {pots.map(pot => (
+                <MenuItem key={pot.id} value={pot.id}>{pot.name}</MenuItem>
+              ))}
+            </TextField>
+
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              {account.rows.length} row{account.rows.length === 1 ? '' : 's'} · {accountNewRows} to import
+              {account.rows.length > accountNewRows && ` · ${account.rows.length - accountNewRows} already in this account`}
+            </Typography>
+
+            <Box sx={{ maxHeight: 300, overflowY: 'auto', border: '1px solid', borderColor: 'grey.200', borderRadius: 1 }}>
+              {account.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <Box
+                  key={index}
+                  sx={{
+                    display: 'flex',
+                    gap: 2,
+                    alignItems: 'center',
+                    px: 1.5,
+                    py: 0.75,
+                    borderBottom: '1px solid',
+                    borderColor: 'grey.100',
+                    opacity: duplicates[index] ? 0.5 : 1
+                  }}
+                >
+                  <Typography variant="body2" sx={{ minWidth: 90 }}>
+                    {formatDate(new Date(`${row.date}T12:00:00`), 'PP')}
+                  </Typography>
+                  <Typography variant="body2" sx={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {row.description || '—'}
+                  </Typography>
+                  {duplicates[index] && <Chip label="Already imported" size="small" variant="outlined" />}
+                  <Typography variant="body2" sx={{ minWidth: 80, textAlign: 'right', color: row.amount > 0 ? 'success.main' : 'error.main' }}>
+                    {formatSignedAmount(row.amount, 2, pots.find(pot => pot.id === potId)?.currency)}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+            {account.rows.length > PREVIEW_ROWS && (
+              <Typography variant="caption" color="text.secondary">
+                Showing the first {PREVIEW_ROWS} rows
+              </Typography>
+            )}
+          </Box>
+        ))}
+
+        {resultMessage && (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            {resultMessage}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{resultMessage ? 'Done' : 'Cancel'}</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={newRowCount === 0 || isImporting}
+        >
+          Import {newRowCount > 0 ? newRowCount : ''}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StatementImportDialog;
@@ -33,9 +33,11 @@ import {
   deleteUpcomingSpend
 } from '../api';
 import { useAuth } from '../AuthContext';
+import { formatMoney, getCurrencySymbol } from '../currency';
 
 interface UpcomingSpendsProps {
   currentUser: User;
+  currency: string; // Shared expenses are in the household's base currency
 }
 
 // Generate a consistent color for a user based on their index
@@ -45,7 +47,8 @@ const getUserColor = (userId: string, allUsers: User[]): string => {
   return colors[index >= 0 ? index % colors.length : 0];
 };
 
-const UpcomingSpends: React.FC<UpcomingSpendsProps> = ({ currentUser }) => {
+const UpcomingSpends: React.FC<UpcomingSpendsProps> = ({ currentUser, currency }) => {
+  const currencySymbol = getCurrencySymbol(currency);
   const { allUsers } = useAuth();
   const [spends, setSpends] = useState<UpcomingSpend[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -202,7 +205,7 @@ const UpcomingSpends: React.FC<UpcomingSpendsProps> = ({ currentUser }) => {
                       }
                       secondary={
                         <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'error.main' }}>
-                          £{spend.amount.toFixed(2)}
+                          {formatMoney(spend.amount, currency)}
                         </Typography>
                       }
                     />
@@ -236,7 +239,7 @@ const UpcomingSpends: React.FC<UpcomingSpendsProps> = ({ currentUser }) => {
                 Total upcoming:
               </Typography>
               <Typography variant="h6" sx={{ fontWeight: 'bold', color: 'error.main' }}>
-                £{totalAmount.toFixed(2)}
+                {formatMoney(totalAmount, currency)}
               </Typography>
             </Box>
           </>
@@ -268,7 +271,7 @@ const UpcomingSpends: React.FC<UpcomingSpendsProps> = ({ currentUser }) => {
                 placeholder="0.00"
                 required
                 InputProps={{
-                  startAdornment: <InputAdornment position="start">£</InputAdornment>
+                  startAdornment: <InputAdornment position="start">{currencySymbol}</InputAdornment>
                 }}
                 inputProps={{
                   step: "0.01",
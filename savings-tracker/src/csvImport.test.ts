@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  parseStatementAmount,
+  parseStatementDate,
+  guessColumnMapping,
+  guessDecimalSeparator,
+  mapStatementRows,
+  findDuplicateRows
+} from './csvImport';
+import { Transaction } from './types';
+import { makeTransaction as makeDefaultTransaction } from './test/factories';
+
+const makeTransaction = (overrides: Partial<Transaction> = {}) => makeDefaultTransaction({ amount: 5, kind: 'withdrawal', description: 'Coffee', ...overrides });
+
+describe('parseCsv', () => {
+  it('should handle quoted cells, CRLF line endings and blank lines', () => {
+    const text = '\uFEFFDate,Description,Amount\r\n01/05/2025,"Smith, J ""rent""",-500.00\r\n\r\n2/5/2025,Salary,"1,250.00"\n';
+    expect(parseCsv(text)).toEqual([
+      ['Date', 'Description', 'Amount'],
+      ['01/05/2025', 'Smith, J "rent"', '-500.00'],
+      ['2/5/2025', 'Salary', '1,250.00']
+    ]);
+  });
+});
+
+describe('statement values', () => {
+  it('should read dates in the chosen format', () => {
+    expect(parseStatementDate('01/05/2025', 'dd/MM/yyyy')).toBe('2025-05-01');
+    expect(parseStatementDate('1/5/2025', 'dd/MM/yyyy')).toBe('2025-05-01');
+    expect(parseStatementDate('05/01/2025', 'MM/dd/yyyy')).toBe('2025-05-01');
+    expect(parseStatementDate('2025-05-01', 'dd/MM/yyyy')).toBeNull();
+  });
+
+  it('should read amounts with currency symbols, thousands separators and brackets', () => {
+    expect(parseStatementAmount('£1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('-12.5')).toBe(-12.5);
+    expect(parseStatementAmount('(12.50)')).toBe(-12.5);
+    expect(parseStatementAmount('n/a')).toBeNull();
+  });
+
+  it('should read amounts with a decimal comma', () => {
+    expect(parseStatementAmount('12,50', ',')).toBe(12.5);
+    expect(parseStatementAmount('-1.234,56 €', ',')).toBe(-1234.56);
+    expect(parseStatementAmount('1 234,56', ',')).toBe(1234.56);
+  });
+
+  it('should reject amounts that do not fit the decimal separator', () => {
+    expect(parseStatementAmount('12,50')).toBeNull();
+    expect(parseStatementAmount('1.234,56')).toBeNull();
+    expect(parseStatementAmount('12.50', ',')).toBeNull();
+    expect(parseStatementAmount('1,234.56', ',')).toBeNull();
+  });
+
+  it('should guess a decimal comma only when amounts end in one', () => {
+    expect(guessDecimalSeparator(['-12,50', '1.234,5', '100'])).toBe(',');
+    expect(guessDecimalSeparator(['1,234', '12.50'])).toBe('.');
+    expect(guessDecimalSeparator(['100', ''])).toBe('.');
+  });
+});
+
+describe('mapStatementRows', () => {
+  const csvRows = [
+    ['Transaction Date', 'Details', 'Amount'],
+    ['01/05/2025', 'Coffee', '-5.00'],
+    ['bad date', 'Coffee', '-5.00'],
+    ['01/05/2025', 'Coffee', '-5.00'],
+    ['02/05/2025', '', '250']
+  ];
+
+  it('should map rows using the guessed columns and list unreadable lines', () => {
+    const mapping = guessColumnMapping(csvRows[0]);
+    expect(mapping).toEqual({
+      dateColumn: 'Transaction Date',
+      amountColumn: 'Amount',
+      paidOutColumn: null,
+      descriptionColumn: 'Details',
+      dateFormat: 'dd/MM/yyyy',
+      decimalSeparator: '.'
+    });
+
+    const { rows, invalidLines } = mapStatementRows(csvRows, mapping);
+    expect(rows).toEqual([
+      { date: '2025-05-01', amount: -5, description: 'Coffee' },
+      { date: '2025-05-01', amount: -5, description: 'Coffee' },
+      { date: '2025-05-02', amount: 250, description: null }
+    ]);
+    expect(invalidLines).toEqual([3]);
+  });
+
+  it('should match each existing transaction to one row', () => {
+    const { rows } = mapStatementRows(csvRows, guessColumnMapping(csvRows[0]));
+    // One coffee is already recorded, so the second identical one still imports
+    expect(findDuplicateRows(rows, [makeTransaction({ description: 'coffee ' })])).toEqual([true, false, false]);
+  });
+
+  it('should combine separate paid in and paid out columns', () => {
+    const splitRows = [
+      ['Date', 'Description', 'Paid out', 'Paid in'],
+      ['01/05/2025', 'Coffee', '3,50', ''],
+      ['02/05/2025', 'Refund', '', '12,00'],
+      ['03/05/2025', 'Nothing', '', '']
+    ];
+    const mapping = guessColumnMapping(splitRows[0], splitRows.slice(1));
+    expect(mapping).toMatchObject({ amountColumn: 'Paid in', paidOutColumn: 'Paid out', decimalSeparator: ',' });
+
+    const { rows, invalidLines } = mapStatementRows(splitRows, mapping);
+    expect(rows.map(row => row.amount)).toEqual([-3.5, 12]);
+    expect(invalidLines).toEqual([4]);
+  });
+});
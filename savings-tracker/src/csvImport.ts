@@ -0,0 +1,188 @@
+import { DecimalSeparator, ImportDateFormat, StatementColumnMapping, StatementRow, Transaction } from "./types";
+import { getSignedAmount } from "./ledger";
+import { format, isValid, parse } from "date-fns";
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ["dd/MM/yyyy", "MM/dd/yyyy", "yyyy-MM-dd"];
+
+export const DECIMAL_SEPARATORS: DecimalSeparator[] = [".", ","];
+
+// Split CSV text into rows of cells. Handles quoted cells (with commas, newlines and
+// doubled quotes inside), CRLF line endings and a leading byte order mark; blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value !== ""));
+};
+
+// A statement date as YYYY-MM-DD, or null if it can't be read. Day and month may be one digit.
+export const parseStatementDate = (value: string, dateFormat: ImportDateFormat): string | null => {
+  const date = parse(value.trim(), dateFormat.replace("dd", "d").replace("MM", "M"), new Date(2000, 0, 1, 12));
+  return isValid(date) ? format(date, "yyyy-MM-dd") : null;
+};
+
+// Amounts written with each decimal separator: digits, optionally grouped in thousands by the
+// other separator, then optionally the decimal part
+const AMOUNT_PATTERNS: Record<DecimalSeparator, RegExp> = {
+  ".": /^(\d+|\d{1,3}(,\d{3})+)?(\.\d+)?$/,
+  ",": /^(\d+|\d{1,3}(\.\d{3})+)?(,\d+)?$/,
+};
+
+// A statement amount such as "-12.50", "£1,234.56" or "(12.50)" (negative), or null. With a
+// decimal comma, "-12,50" or "1.234,56". Amounts that don't fit the separator, such as "12,50"
+// with a decimal point, are rejected rather than read as a different number.
+export const parseStatementAmount = (value: string, decimalSeparator: DecimalSeparator = "."): number | null => {
+  let text = value.trim().replace(/[£$€\s]/g, "");
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/^[-+]/.test(text)) {
+    if (text[0] === "-") sign = -sign;
+    text = text.slice(1);
+  }
+  if (!/\d/.test(text) || !AMOUNT_PATTERNS[decimalSeparator].test(text)) return null;
+  const groupSeparator = decimalSeparator === "." ? "," : ".";
+  return sign * parseFloat(text.split(groupSeparator).join("").replace(decimalSeparator, "."));
+};
+
+// A decimal comma if any amount ends in one with one or two digits after it ("12,50") and none
+// end that way with a point; otherwise a decimal point
+export const guessDecimalSeparator = (values: string[]): DecimalSeparator => {
+  const endsWith = (pattern: RegExp) => values.some((value) => pattern.test(value.trim()));
+  return endsWith(/,\d{1,2}\)?$/) && !endsWith(/\.\d{1,2}\)?$/) ? "," : ".";
+};
+
+// Best guess at which header is which, for a statement without a saved preset. Separate
+// "Paid in" and "Paid out" (or credit and debit) columns are used when there are both.
+// `lines` are the rows after the headers, to guess the decimal separator from.
+export const guessColumnMapping = (headers: string[], lines: string[][] = []): StatementColumnMapping => {
+  const find = (pattern: RegExp) => headers.find((header) => pattern.test(header)) || "";
+  const paidIn = find(/paid in|money in|credit/i);
+  const paidOut = find(/paid out|money out|debit/i);
+  const isSplit = !!paidIn && !!paidOut;
+  const amountColumn = isSplit ? paidIn : find(/amount|value/i);
+  const paidOutColumn = isSplit ? paidOut : null;
+  const amountIndexes = [amountColumn, paidOutColumn]
+    .map((column) => (column ? headers.indexOf(column) : -1))
+    .filter((index) => index >= 0);
+  return {
+    dateColumn: find(/date/i),
+    amountColumn,
+    paidOutColumn,
+    descriptionColumn: find(/description|name|details|memo|reference|payee/i) || null,
+    dateFormat: "dd/MM/yyyy",
+    decimalSeparator: guessDecimalSeparator(lines.flatMap((cells) => amountIndexes.map((index) => cells[index] || ""))),
+  };
+};
+
+// Turn parsed CSV rows (the first being the headers) into statement rows. Rows whose date or
+// amount can't be read, or with a zero amount, are listed by line number (1 = the header line).
+// With a paid out column, a row's amount is what's paid in less what's paid out; either may be
+// blank, and paid out amounts count as money out whichever sign they're written with.
+export const mapStatementRows = (
+  csvRows: string[][],
+  mapping: StatementColumnMapping
+): { rows: StatementRow[]; invalidLines: number[] } => {
+  const [headers = [], ...lines] = csvRows;
+  const dateIndex = headers.indexOf(mapping.dateColumn);
+  const amountIndex = headers.indexOf(mapping.amountColumn);
+  const paidOutIndex = mapping.paidOutColumn ? headers.indexOf(mapping.paidOutColumn) : -1;
+  const descriptionIndex = mapping.descriptionColumn ? headers.indexOf(mapping.descriptionColumn) : -1;
+
+  const readAmount = (value: string, paidOut: string | null): number | null => {
+    if (paidOut === null) return parseStatementAmount(value, mapping.decimalSeparator);
+    const amountIn = value.trim() ? parseStatementAmount(value, mapping.decimalSeparator) : 0;
+    const amountOut = paidOut.trim() ? parseStatementAmount(paidOut, mapping.decimalSeparator) : 0;
+    if (amountIn === null || amountOut === null) return null;
+    return Math.round((Math.abs(amountIn) - Math.abs(amountOut)) * 100) / 100;
+  };
+
+  const rows: StatementRow[] = [];
+  const invalidLines: number[] = [];
+  lines.forEach((cells, index) => {
+    const date = dateIndex >= 0 ? parseStatementDate(cells[dateIndex] || "", mapping.dateFormat) : null;
+    const amount = amountIndex >= 0 ? readAmount(cells[amountIndex] || "", paidOutIndex >= 0 ? cells[paidOutIndex] || "" : null) : null;
+    if (!date || !amount) {
+      invalidLines.push(index + 2);
+      return;
+    }
+    rows.push({
+      date,
+      amount,
+      description: descriptionIndex >= 0 ? cells[descriptionIndex] || null : null,
+    });
+  });
+  return { rows, invalidLines };
+};
+
+const getDuplicateKey = (date: string, signedAmount: number, description?: string | null) =>
+  `${date}|${signedAmount.toFixed(2)}|${(description || "").trim().toLowerCase()}`;
+
+// Which rows are already in the pot. A row with an external ID (OFX FITID) is a duplicate if the
+// pot or an earlier row has that ID. Other rows match a transaction without one on day, amount and
+// description, each existing transaction once so repeated identical payments still import.
+// The server applies the same rules.
+export const findDuplicateRows = (
+  rows: StatementRow[],
+  potTransactions: Transaction[]
+): boolean[] => {
+  const externalIds = new Set<string>();
+  const counts = new Map<string, number>();
+  potTransactions.forEach((t) => {
+    if (t.externalId) {
+      externalIds.add(t.externalId);
+      return;
+    }
+    const key = getDuplicateKey(format(t.date, "yyyy-MM-dd"), getSignedAmount(t), t.description);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return rows.map((row) => {
+    if (row.externalId) {
+      if (externalIds.has(row.externalId)) return true;
+      externalIds.add(row.externalId);
+      return false;
+    }
+    const key = getDuplicateKey(row.date, row.amount, row.description);
+    const matches = counts.get(key) || 0;
+    if (matches === 0) return false;
+    counts.set(key, matches - 1);
+    return true;
+  });
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertProjections,
+  convertSavingsData,
+  formatMoney,
+  getExchangeRate,
+  parseFxRatesCsv
+} from './currency';
+import { FxRate } from './types';
+import { makePot, makeTransaction } from './test/factories';
+
+const makeRate = (currency: string, quoteCurrency: string, rate: number, rateDate: string): FxRate => ({
+  id: `${currency}-${quoteCurrency}-${rateDate}`,
+  currency,
+  quoteCurrency,
+  rate,
+  rateDate,
+  updatedAt: new Date('2025-05-01T12:00:00')
+});
+
+describe('formatMoney', () => {
+  it('should use symbols where there is one and the code otherwise', () => {
+    expect(formatMoney(1234.5, 'GBP')).toBe('£1,234.50');
+    expect(formatMoney(-5, 'EUR')).toBe('-€5.00');
+    expect(formatMoney(12, 'CHF', 0)).toBe('CHF\u00a012');
+  });
+});
+
+describe('getExchangeRate', () => {
+  const rates = [
+    makeRate('EUR', 'GBP', 0.84, '2025-04-01'),
+    makeRate('EUR', 'GBP', 0.86, '2025-05-01'),
+    makeRate('GBP', 'USD', 1.25, '2025-05-01')
+  ];
+
+  it('should use the latest rate for the pair, or the inverse of the other direction', () => {
+    expect(getExchangeRate('EUR', 'GBP', rates)).toBe(0.86);
+    expect(getExchangeRate('USD', 'GBP', rates)).toBe(0.8);
+    expect(getExchangeRate('GBP', 'GBP', [])).toBe(1);
+  });
+
+  it('should go through a common currency when there is no rate for the pair', () => {
+    expect(getExchangeRate('EUR', 'USD', rates)).toBeCloseTo(1.075);
+    expect(getExchangeRate('CHF', 'GBP', rates)).toBeNull();
+  });
+});
+
+describe('convertSavingsData', () => {
+  it('should scale each pot and its transactions, leaving out pots with no rate', () => {
+    const data = {
+      pots: [
+        makePot({ id: 'gbp' }),
+        makePot({ id: 'eur', currency: 'EUR', targetAmount: 2000 }),
+        makePot({ id: 'chf', currency: 'CHF' })
+      ],
+      transactions: [
+        makeTransaction({ id: 't1', potId: 'eur', exceptions: [{ id: 'x', occurrenceDate: '2025-06-01', skipped: false, amount: 50 }] }),
+        makeTransaction({ id: 't2', potId: 'chf' })
+      ]
+    };
+
+    const result = convertSavingsData(data, 'GBP', [makeRate('EUR', 'GBP', 0.5, '2025-05-01')]);
+
+    expect(result.potRates).toEqual({ gbp: 1, eur: 0.5 });
+    expect(result.unconvertedPots.map(pot => pot.id)).toEqual(['chf']);
+    expect(result.data.pots[1]).toMatchObject({ currency: 'GBP', currentTotal: 500, targetAmount: 1000 });
+    expect(result.data.transactions).toHaveLength(1);
+    expect(result.data.transactions[0].amount).toBe(50);
+    expect(result.data.transactions[0].exceptions?.[0].amount).toBe(25);
+  });
+
+  it('should scale projections by their pot rate', () => {
+    const projections = [
+      { potId: 'eur', data: [{ date: new Date('2025-05-01T12:00:00'), amount: 100, projected: false }] },
+      { potId: 'chf', data: [{ date: new Date('2025-05-01T12:00:00'), amount: 100, projected: false }] }
+    ];
+    const converted = convertProjections(projections, { eur: 0.5 });
+    expect(converted).toHaveLength(1);
+    expect(converted[0].data[0].amount).toBe(50);
+  });
+});
+
+describe('parseFxRatesCsv', () => {
+  it('should skip a header, default the date and count unreadable lines', () => {
+    const text = 'Currency,Rate,Date\nEUR,0.86\nusd,0.79,2025-04-30\nGBP,1\nJPY,abc\n';
+    expect(parseFxRatesCsv(text, 'GBP', '2025-05-01')).toEqual({
+      rates: [
+        { currency: 'EUR', quoteCurrency: 'GBP', rate: 0.86, rateDate: '2025-05-01' },
+        { currency: 'USD', quoteCurrency: 'GBP', rate: 0.79, rateDate: '2025-04-30' }
+      ],
+      invalidCount: 2
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  BalanceSnapshot,
+  CreateFxRate,
+  FxRate,
+  SavingsData,
+  SavingsPot,
+  SavingsProjection,
+} from "./types";
+import { getLocale } from "./locale";
+
+// Pots without a currency set are in pounds
+export const DEFAULT_CURRENCY = "GBP";
+
+// Currencies offered when creating a pot or choosing the base currency
+export const CURRENCIES = ["GBP", "EUR", "USD", "CHF", "JPY", "CAD", "AUD", "NZD", "SEK", "NOK", "DKK", "PLN"];
+
+// The symbol the locale uses for a currency, e.g. "£", "€" or "CHF"
+export const getCurrencySymbol = (currency: string = DEFAULT_CURRENCY): string =>
+  new Intl.NumberFormat(getLocale(), { style: "currency", currency })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value || currency;
+
+// An amount with its currency, formatted for the locale, e.g. "£1,234.50" or "1.234,50 €".
+// Without fractionDigits it has as many decimal places as the currency uses.
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY, fractionDigits?: number): string =>
+  new Intl.NumberFormat(getLocale(), {
+    style: "currency",
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+
+// A shortened amount for charts and summaries, e.g. "£12.5K" or "1,25 Mio. €"
+export const formatCompactMoney = (amount: number, currency: string = DEFAULT_CURRENCY, fractionDigits = 1): string =>
+  new Intl.NumberFormat(getLocale(), {
+    style: "currency",
+    currency,
+    notation: "compact",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+
+// Latest stored rate for one unit of `from` in `to`, using the rate for the other
+// direction (inverted) when that's all there is
+const getPairRate = (from: string, to: string, rates: FxRate[]): number | null => {
+  const latest = (currency: string, quoteCurrency: string) =>
+    rates
+      .filter((rate) => rate.currency === currency && rate.quoteCurrency === quoteCurrency)
+      .sort((a, b) => b.rateDate.localeCompare(a.rateDate))[0];
+
+  const direct = latest(from, to);
+  const inverse = latest(to, from);
+  if (direct && (!inverse || direct.rateDate >= inverse.rateDate)) return direct.rate;
+  if (inverse) return 1 / inverse.rate;
+  return null;
+};
+
+// How many units of `to` one unit of `from` is worth: from a rate for the pair, or failing
+// that through a currency both have a rate against (e.g. EUR -> USD via GBP). Null if neither.
+export const getExchangeRate = (from: string, to: string, rates: FxRate[]): number | null => {
+  if (from === to) return 1;
+  const pairRate = getPairRate(from, to, rates);
+  if (pairRate !== null) return pairRate;
+
+  const others = new Set(rates.flatMap((rate) => [rate.currency, rate.quoteCurrency]));
+  for (const via of others) {
+    if (via === from || via === to) continue;
+    const first = getPairRate(from, via, rates);
+    const second = getPairRate(via, to, rates);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+// Household data with every amount in the base currency. Pots with no rate to it are left out
+// (with their transactions) rather than added up as if they were already in it.
+export const convertSavingsData = (
+  data: SavingsData,
+  baseCurrency: string,
+  rates: FxRate[]
+): { data: SavingsData; potRates: Record<string, number>; unconvertedPots: SavingsPot[] } => {
+  const potRates: Record<string, number> = {};
+  const unconvertedPots: SavingsPot[] = [];
+  const pots: SavingsPot[] = [];
+
+  data.pots.forEach((pot) => {
+    const rate = getExchangeRate(pot.currency || DEFAULT_CURRENCY, baseCurrency, rates);
+    if (rate === null) {
+      unconvertedPots.push(pot);
+      return;
+    }
+    potRates[pot.id] = rate;
+    pots.push({
+      ...pot,
+      currency: baseCurrency,
+      currentTotal: pot.currentTotal * rate,
+      targetAmount: pot.targetAmount != null ? pot.targetAmount * rate : pot.targetAmount,
+      maxMonthlyDeposit: pot.maxMonthlyDeposit != null ? pot.maxMonthlyDeposit * rate : pot.maxMonthlyDeposit,
+    });
+  });
+
+  const transactions = data.transactions
+    .filter((transaction) => potRates[transaction.potId] !== undefined)
+    .map((transaction) => {
+      const rate = potRates[transaction.potId];
+      return {
+        ...transaction,
+        amount: transaction.amount * rate,
+        exceptions: transaction.exceptions?.map((exception) => ({
+          ...exception,
+          amount: exception.amount != null ? exception.amount * rate : exception.amount,
+        })),
+      };
+    });
+
+  return { data: { pots, transactions }, potRates, unconvertedPots };
+};
+
+// Per-pot projections in the base currency, dropping pots with no rate
+export const convertProjections = (
+  projections: SavingsProjection[],
+  potRates: Record<string, number>
+): SavingsProjection[] =>
+  projections
+    .filter((projection) => potRates[projection.potId] !== undefined)
+    .map((projection) => {
+      const rate = potRates[projection.potId];
+      return {
+        ...projection,
+        data: projection.data.map((point) => ({
+          ...point,
+          amount: point.amount * rate,
+          interest: point.interest !== undefined ? point.interest * rate : undefined,
+        })),
+        monthlyContribution:
+          projection.monthlyContribution !== undefined ? projection.monthlyContribution * rate : undefined,
+      };
+    });
+
+// Recorded balances in the base currency, at today's rates, dropping pots with no rate
+export const convertSnapshots = (
+  snapshots: BalanceSnapshot[],
+  potRates: Record<string, number>
+): BalanceSnapshot[] =>
+  snapshots
+    .filter((snapshot) => potRates[snapshot.potId] !== undefined)
+    .map((snapshot) => ({ ...snapshot, balance: snapshot.balance * potRates[snapshot.potId] }));
+
+// Read exchange rates from CSV lines of "currency,rate" or "currency,rate,YYYY-MM-DD", each
+// giving the worth of one unit of the currency in `quoteCurrency`. Rates without a date are
+// for `defaultDate`. A header line is skipped; other lines that can't be read are counted.
+export const parseFxRatesCsv = (
+  text: string,
+  quoteCurrency: string,
+  defaultDate: string
+): { rates: CreateFxRate[]; invalidCount: number } => {
+  const rates: CreateFxRate[] = [];
+  let invalidCount = 0;
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, index) => {
+      const [rawCurrency = "", rawRate = "", rawDate = ""] = line
+        .split(/[,;\t]/)
+        .map((cell) => cell.trim().replace(/^"|"$/g, ""));
+      const currency = rawCurrency.toUpperCase();
+      const rate = Number(rawRate);
+      const rateDate = rawDate || defaultDate;
+
+      if (index === 0 && (!/^[A-Z]{3}$/.test(currency) || isNaN(rate))) return;
+      if (
+        !/^[A-Z]{3}$/.test(currency) ||
+        currency === quoteCurrency ||
+        !rawRate ||
+        !isFinite(rate) ||
+        rate <= 0 ||
+        !/^\d{4}-\d{2}-\d{2}$/.test(rateDate)
+      ) {
+        invalidCount++;
+        return;
+      }
+      rates.push({ currency, quoteCurrency, rate, rateDate });
+    });
+
+  return { rates, invalidCount };
+};
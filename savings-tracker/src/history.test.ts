@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getMonthlyHistory } from './history';
+import { BalanceSnapshot, SavingsPot } from './types';
+import { makePot as makeDefaultPot } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ currentTotal: 0, createdAt: new Date('2025-01-01T12:00:00'), updatedAt: new Date('2025-01-01T12:00:00'), ...overrides });
+
+describe('getMonthlyHistory', () => {
+  const today = new Date('2025-06-15T12:00:00');
+  const pots = [
+    makePot({}),
+    makePot({ id: 'pot-2', userId: 'sam' })
+  ];
+
+  it('should use the last snapshot on or before each month end', () => {
+    const snapshots: BalanceSnapshot[] = [
+      { potId: 'pot-1', date: '2025-03-31', balance: 300 },
+      { potId: 'pot-1', date: '2025-03-10', balance: 100 },
+      { potId: 'pot-1', date: '2025-05-02', balance: 500 },
+      { potId: 'pot-2', date: '2025-04-30', balance: 40 },
+      // The current month isn't history yet
+      { potId: 'pot-1', date: '2025-06-01', balance: 900 }
+    ];
+
+    const history = getMonthlyHistory(snapshots, pots, 4, today);
+
+    // February has no snapshots at all, so the history starts in March
+    expect(history.map(point => point.monthsAgo)).toEqual([3, 2, 1]);
+    expect(history.map(point => point.total)).toEqual([300, 340, 540]);
+    expect(history[1].byUser).toEqual({ alex: 300, sam: 40 });
+    expect(history[2].date.getDate()).toBe(31);
+  });
+
+  it('should leave out pots that are not shown', () => {
+    const snapshots: BalanceSnapshot[] = [
+      { potId: 'pot-1', date: '2025-05-20', balance: 200 },
+      { potId: 'deleted-pot', date: '2025-05-20', balance: 1000 }
+    ];
+
+    expect(getMonthlyHistory(snapshots, pots, 2, today).map(point => point.total)).toEqual([200]);
+    expect(getMonthlyHistory(snapshots, [pots[1]], 2, today)).toEqual([]);
+  });
+});
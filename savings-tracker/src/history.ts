@@ -0,0 +1,50 @@
+import { BalanceSnapshot, SavingsPot } from "./types";
+import { endOfMonth, format, setHours, subMonths } from "date-fns";
+
+// What the household actually held at the end of a past month
+export interface HistoryPoint {
+  date: Date; // Noon on the last day of the month
+  monthsAgo: number;
+  byUser: Record<string, number>;
+  total: number;
+}
+
+// Month-end balances of `pots` for up to `months` whole months before today, oldest
+// first, from their recorded snapshots. Each pot counts its last snapshot on or before
+// the month end (nothing if it didn't exist yet); months before any pot has a
+// snapshot are left out.
+export const getMonthlyHistory = (
+  snapshots: BalanceSnapshot[],
+  pots: SavingsPot[],
+  months: number,
+  today: Date = new Date()
+): HistoryPoint[] => {
+  const snapshotsByPot = new Map<string, BalanceSnapshot[]>();
+  snapshots.forEach((snapshot) => {
+    const list = snapshotsByPot.get(snapshot.potId) || [];
+    list.push(snapshot);
+    snapshotsByPot.set(snapshot.potId, list);
+  });
+  snapshotsByPot.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const points: HistoryPoint[] = [];
+  for (let monthsAgo = months; monthsAgo >= 1; monthsAgo--) {
+    const monthEnd = setHours(endOfMonth(subMonths(today, monthsAgo)), 12);
+    const key = format(monthEnd, "yyyy-MM-dd");
+
+    const byUser: Record<string, number> = {};
+    let hasData = false;
+    pots.forEach((pot) => {
+      const latest = (snapshotsByPot.get(pot.id) || []).filter((s) => s.date <= key).pop();
+      if (!latest) return;
+      hasData = true;
+      byUser[pot.userId] = (byUser[pot.userId] || 0) + latest.balance;
+    });
+
+    if (hasData) {
+      const total = Object.values(byUser).reduce((sum, value) => sum + value, 0);
+      points.push({ date: monthEnd, monthsAgo, byUser, total });
+    }
+  }
+  return points;
+};
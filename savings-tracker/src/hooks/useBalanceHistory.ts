@@ -0,0 +1,22 @@
+import { useState, useEffect } from "react";
+import { format, startOfMonth, subMonths } from "date-fns";
+import { BalanceSnapshot } from "../types";
+import { fetchBalanceHistory } from "../api";
+
+// Recorded daily balances of every pot over the last `months` months (empty until loaded)
+export const useBalanceHistory = (months: number): BalanceSnapshot[] => {
+  const [snapshots, setSnapshots] = useState<BalanceSnapshot[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = format(startOfMonth(subMonths(new Date(), months)), "yyyy-MM-dd");
+    fetchBalanceHistory(from).then((loaded) => {
+      if (!cancelled) setSnapshots(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [months]);
+
+  return snapshots;
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import { HouseholdSettings } from "../types";
+import { fetchHouseholdSettings, updateHouseholdSettings } from "../api";
+import { DEFAULT_INFLATION_RATE } from "../projections";
+import { DEFAULT_CURRENCY } from "../currency";
+
+interface UseHouseholdSettingsResult {
+  settings: HouseholdSettings;
+  updateSettings: (updates: Partial<HouseholdSettings>) => Promise<void>;
+}
+
+const defaultSettings: HouseholdSettings = {
+  inflationRate: DEFAULT_INFLATION_RATE,
+  baseCurrency: DEFAULT_CURRENCY,
+};
+
+// Shared household assumptions, falling back to the defaults until loaded (or if loading fails)
+export const useHouseholdSettings = (): UseHouseholdSettingsResult => {
+  const [settings, setSettings] = useState<HouseholdSettings>(defaultSettings);
+
+  useEffect(() => {
+    fetchHouseholdSettings().then((loaded) => {
+      if (loaded) setSettings(loaded);
+    });
+  }, []);
+
+  const updateSettings = async (updates: Partial<HouseholdSettings>) => {
+    setSettings((current) => ({ ...current, ...updates }));
+    const saved = await updateHouseholdSettings(updates);
+    if (saved) setSettings(saved);
+  };
+
+  return { settings, updateSettings };
+};
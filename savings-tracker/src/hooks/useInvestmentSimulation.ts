@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef } from "react";
+import { SavingsData, SimulationBand, User } from "../types";
+import { isVolatile, simulateInvestmentBands } from "../simulation";
+import type { SimulationRequest, SimulationResponse } from "../simulation.worker";
+
+// Percentile bands for the household's volatile pots, simulated in a web worker.
+// Only the latest request's result is kept, so changing the horizon quickly doesn't
+// show stale bands. Falls back to the main thread where workers aren't available.
+export const useInvestmentSimulation = (
+  data: SavingsData,
+  monthsAhead: number,
+  users: User[] = []
+): SimulationBand[] => {
+  const [bands, setBands] = useState<SimulationBand[]>([]);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") return;
+
+    const worker = new Worker(new URL("../simulation.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      if (event.data.id === requestRef.current) setBands(event.data.bands);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const id = ++requestRef.current;
+    if (!data.pots.some(isVolatile)) {
+      setBands([]);
+      return;
+    }
+
+    if (workerRef.current) {
+      const request: SimulationRequest = { id, data, monthsAhead, users };
+      workerRef.current.postMessage(request);
+    } else {
+      setBands(simulateInvestmentBands(data, monthsAhead, users));
+    }
+  }, [data, monthsAhead, users]);
+
+  return bands;
+};
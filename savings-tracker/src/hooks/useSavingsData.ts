@@ -1,12 +1,18 @@
-import { useState, useEffect, useRef } from "react";
-import { SavingsData, SavingsProjection, User } from "../types";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { BaseCurrencyReport, FxRate, SavingsData, SavingsProjection, User } from "../types";
 import { loadSavingsData, loadSavingsDataForUser } from "../storage";
-import { calculateAllProjections } from "../projections";
+import { fetchFxRates, fetchHouseholdSettings } from "../api";
+import { DEFAULT_CURRENCY, convertProjections, convertSavingsData } from "../currency";
+import {
+  calculateAllProjections,
+  DEFAULT_PROJECTION_HORIZON,
+} from "../projections";
 
 interface UseSavingsDataResult {
   data: SavingsData;
   combinedData: SavingsData;
   projections: SavingsProjection[];
+  reporting: BaseCurrencyReport; // combinedData and projections in the household's base currency
   isLoading: boolean;
   error: string | null;
   refreshData: () => Promise<void>;
@@ -14,14 +20,17 @@ interface UseSavingsDataResult {
 
 export const useSavingsData = (
   userId: string | null,
-  otherUsers: User[] = []
+  otherUsers: User[] = [],
+  monthsAhead: number = DEFAULT_PROJECTION_HORIZON,
+  users: User[] = []
 ): UseSavingsDataResult => {
   const [data, setData] = useState<SavingsData>({ pots: [], transactions: [] });
   const [combinedData, setCombinedData] = useState<SavingsData>({
     pots: [],
     transactions: [],
   });
-  const [projections, setProjections] = useState<SavingsProjection[]>([]);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -60,9 +69,10 @@ export const useSavingsData = (
       console.log("Combined data pots:", combinedDataObj.pots);
       setCombinedData(combinedDataObj);
 
-      const proj = calculateAllProjections(combinedDataObj);
-      console.log("Projections:", proj);
-      setProjections(proj);
+      // Rates and the base currency can change in settings, so they're reloaded with the data
+      const [rates, settings] = await Promise.all([fetchFxRates(), fetchHouseholdSettings()]);
+      setFxRates(rates);
+      if (settings) setBaseCurrency(settings.baseCurrency);
     } catch (error) {
       console.error("Error loading data:", error);
       setError("Failed to load data. Please try refreshing.");
@@ -83,10 +93,28 @@ export const useSavingsData = (
     }
   }, [userId, otherUsers.length]);
 
+  // Recalculated when the horizon or profiles change without reloading the data
+  const projections = useMemo<SavingsProjection[]>(
+    () => calculateAllProjections(combinedData, monthsAhead, users),
+    [combinedData, monthsAhead, users]
+  );
+
+  const reporting = useMemo<BaseCurrencyReport>(() => {
+    const converted = convertSavingsData(combinedData, baseCurrency, fxRates);
+    return {
+      baseCurrency,
+      data: converted.data,
+      projections: convertProjections(projections, converted.potRates),
+      potRates: converted.potRates,
+      unconvertedPots: converted.unconvertedPots,
+    };
+  }, [combinedData, projections, baseCurrency, fxRates]);
+
   return {
     data,
     combinedData,
     projections,
+    reporting,
     isLoading,
     error,
     refreshData,
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getTaxYearLabel, getTaxYearStart, getIsaAllowance } from './isa';
+import { SavingsPot, Transaction } from './types';
+import { makePot as makeDefaultPot, makeTransaction as makeDefaultTransaction } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ currentTotal: 0, isaType: 'cash', ...overrides });
+
+const makeTransaction = (overrides: Partial<Transaction> = {}) => makeDefaultTransaction({ amount: 1000, ...overrides });
+
+describe('tax years', () => {
+  it('should start on 6 April', () => {
+    expect(getTaxYearStart(new Date('2025-04-05T12:00:00'))).toEqual(new Date(2024, 3, 6));
+    expect(getTaxYearStart(new Date('2025-04-06T12:00:00'))).toEqual(new Date(2025, 3, 6));
+    expect(getTaxYearLabel(new Date('2026-01-15T12:00:00'))).toBe('2025/26');
+  });
+});
+
+describe('getIsaAllowance', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count deposits and transfers in from outside ISAs', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00'));
+
+    const pots = [
+      makePot({}),
+      makePot({ id: 'pot-2', name: 'S&S ISA', isaType: 'stocks-and-shares' }),
+      makePot({ id: 'pot-3', name: 'Current', isaType: null })
+    ];
+    const transactions = [
+      makeTransaction({}),
+      makeTransaction({ id: 'old', date: new Date('2025-04-05T12:00:00') }),
+      makeTransaction({ id: 'w', kind: 'withdrawal', amount: 500 }),
+      makeTransaction({ id: 'in-1', kind: 'transfer', amount: 2000, transferId: 't1' }),
+      makeTransaction({ id: 'out-1', potId: 'pot-3', kind: 'transfer', amount: -2000, transferId: 't1' }),
+      makeTransaction({ id: 'in-2', potId: 'pot-2', kind: 'transfer', amount: 300, transferId: 't2' }),
+      makeTransaction({ id: 'out-2', kind: 'transfer', amount: -300, transferId: 't2' }),
+      makeTransaction({ id: 'other', potId: 'pot-3', amount: 5000 })
+    ];
+
+    const allowance = getIsaAllowance('alex', pots, transactions, []);
+
+    expect(allowance.taxYear).toBe('2025/26');
+    expect(allowance.subscribed).toBe(3000);
+    expect(allowance.remaining).toBe(17000);
+  });
+
+  it('should include recurring payments still to come this tax year', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-10T12:00:00'));
+
+    const projected = ['2026-02-01', '2026-03-01', '2026-04-01', '2026-05-01'].map((day, index) =>
+      makeTransaction({
+        id: `projected-${index}`,
+        date: new Date(`${day}T12:00:00`),
+        occurrenceOf: { transactionId: 'series', date: day }
+      })
+    );
+
+    const allowance = getIsaAllowance('alex', [makePot({})], [], projected);
+
+    expect(allowance.scheduled).toBe(2000);
+    expect(allowance.remaining).toBe(18000);
+    expect(getIsaAllowance('alex', [makePot({})], [], projected, new Date(), 'series').scheduled).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { IsaType, SavingsPot, Transaction } from "./types";
+import { getTransactionKind, getTransferCounterpart } from "./ledger";
+import { endOfDay, isAfter } from "date-fns";
+import { t } from "./locale";
+
+// Shared across all of a user's ISAs each tax year
+export const ISA_ALLOWANCE = 20000;
+
+export const ISA_TYPES: IsaType[] = ["cash", "stocks-and-shares", "lifetime"];
+
+export const getIsaTypeLabel = (isaType: IsaType): string => t(`isa.type.${isaType}`);
+
+// UK tax years run from 6 April to 5 April
+export const getTaxYearStart = (date: Date): Date => {
+  const afterApril5 = date.getMonth() > 3 || (date.getMonth() === 3 && date.getDate() >= 6);
+  return new Date(afterApril5 ? date.getFullYear() : date.getFullYear() - 1, 3, 6);
+};
+
+export const getTaxYearEnd = (date: Date): Date => {
+  const start = getTaxYearStart(date);
+  return endOfDay(new Date(start.getFullYear() + 1, 3, 5));
+};
+
+// e.g. "2026/27"
+export const getTaxYearLabel = (date: Date): string => {
+  const year = getTaxYearStart(date).getFullYear();
+  return `${year}/${String((year + 1) % 100).padStart(2, "0")}`;
+};
+
+// Deposits into an ISA use allowance, as do transfers in from a pot that isn't an
+// ISA. Withdrawals don't give it back, and moving money between ISAs isn't a new
+// subscription. Matches getIsaSubscriptions in the backend.
+export const isIsaSubscription = (
+  transaction: Transaction,
+  pots: SavingsPot[],
+  transactions: Transaction[]
+): boolean => {
+  const pot = pots.find((p) => p.id === transaction.potId);
+  if (!pot?.isaType) return false;
+
+  const kind = getTransactionKind(transaction);
+  if (kind === "deposit") return true;
+  if (kind !== "transfer" || transaction.amount <= 0) return false;
+
+  const counterpart = getTransferCounterpart(transaction, transactions);
+  const source = counterpart && pots.find((p) => p.id === counterpart.potId);
+  return !source?.isaType;
+};
+
+export interface IsaAllowance {
+  taxYear: string;
+  subscribed: number; // Already paid in this tax year
+  scheduled: number; // Recurring payments still to come before the tax year ends
+  remaining: number; // Left after both
+}
+
+// How much of a user's allowance is used in the tax year containing `date`.
+// `projected` are recurring occurrences from getProjectedRecurringTransactions;
+// only those after today count, as earlier ones are already in the ledger.
+// `excludeId` leaves out a transaction that's being edited.
+export const getIsaAllowance = (
+  userId: string,
+  pots: SavingsPot[],
+  transactions: Transaction[],
+  projected: Transaction[],
+  date: Date = new Date(),
+  excludeId?: string
+): IsaAllowance => {
+  const start = getTaxYearStart(date);
+  const end = getTaxYearEnd(date);
+  const today = endOfDay(new Date());
+  const userPots = pots.filter((pot) => pot.userId === userId);
+
+  const inTaxYear = (t: Transaction) =>
+    t.date >= start && t.date <= end && t.id !== excludeId && isIsaSubscription(t, userPots, transactions);
+
+  const subscribed = transactions
+    .filter(inTaxYear)
+    .reduce((sum, t) => sum + t.amount, 0);
+  const scheduled = projected
+    .filter((t) => isAfter(t.date, today) && t.occurrenceOf?.transactionId !== excludeId && inTaxYear(t))
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    taxYear: getTaxYearLabel(date),
+    subscribed,
+    scheduled,
+    remaining: Math.max(0, ISA_ALLOWANCE - subscribed - scheduled),
+  };
+};
+
+// "over" when a payment is more than the ledger leaves (it would be refused);
+// "over-with-scheduled" when it only goes over once scheduled payments are made
+export type IsaAllowanceCheck = "ok" | "over-with-scheduled" | "over";
+
+export const checkIsaAllowance = (
+  allowance: IsaAllowance,
+  amount: number
+): IsaAllowanceCheck => {
+  if (amount > ISA_ALLOWANCE - allowance.subscribed + 0.005) return "over";
+  if (amount > allowance.remaining + 0.005) return "over-with-scheduled";
+  return "ok";
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSignedAmount,
+  getTransactionKind,
+  isContribution,
+  collapseTransferLegs,
+  getTransferCounterpart,
+} from './ledger';
+
+describe('getSignedAmount', () => {
+  it('should treat transactions without a kind as deposits', () => {
+    expect(getTransactionKind({})).toBe('deposit');
+    expect(getSignedAmount({ amount: 50 })).toBe(50);
+  });
+
+  it('should always make withdrawals reduce the balance', () => {
+    expect(getSignedAmount({ kind: 'withdrawal', amount: 20 })).toBe(-20);
+    // Legacy rows may have been stored negative already
+    expect(getSignedAmount({ kind: 'withdrawal', amount: -20 })).toBe(-20);
+  });
+
+  it('should keep the sign of adjustments', () => {
+    expect(getSignedAmount({ kind: 'adjustment', amount: -12.5 })).toBe(-12.5);
+    expect(getSignedAmount({ kind: 'adjustment', amount: 3 })).toBe(3);
+  });
+
+  it('should add interest to the balance', () => {
+    expect(getSignedAmount({ kind: 'interest', amount: 1.23 })).toBe(1.23);
+  });
+});
+
+describe('isContribution', () => {
+  it('should only count deposits and withdrawals as saving', () => {
+    expect(isContribution({ kind: 'deposit' })).toBe(true);
+    expect(isContribution({ kind: 'withdrawal' })).toBe(true);
+    expect(isContribution({ kind: 'interest' })).toBe(false);
+    expect(isContribution({ kind: 'adjustment' })).toBe(false);
+  });
+});
+
+describe('transfers', () => {
+  const date = new Date('2024-12-13T12:00:00');
+  const base = { userId: 'alex', date, createdAt: date, kind: 'transfer' as const, transferId: 't1' };
+  const outLeg = { ...base, id: 'out', potId: 'easy-access', amount: -100 };
+  const inLeg = { ...base, id: 'in', userId: 'beth', potId: 'isa', amount: 100 };
+  const deposit = { id: 'd1', userId: 'alex', potId: 'isa', amount: 20, date, createdAt: date };
+
+  it('should not count transfers as contributions', () => {
+    expect(isContribution(outLeg)).toBe(false);
+    expect(getSignedAmount(outLeg) + getSignedAmount(inLeg)).toBe(0);
+  });
+
+  it('should collapse both legs into the outgoing one', () => {
+    const collapsed = collapseTransferLegs([inLeg, deposit, outLeg]);
+    expect(collapsed.map(t => t.id)).toEqual(['d1', 'out']);
+  });
+
+  it('should keep the incoming leg when the outgoing one is not in the list', () => {
+    expect(collapseTransferLegs([inLeg]).map(t => t.id)).toEqual(['in']);
+  });
+
+  it('should find the other leg of a transfer', () => {
+    expect(getTransferCounterpart(outLeg, [deposit, outLeg, inLeg])?.id).toBe('in');
+    expect(getTransferCounterpart(deposit, [deposit, outLeg, inLeg])).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { Transaction, TransactionKind } from "./types";
+import { DEFAULT_CURRENCY, formatMoney } from "./currency";
+
+export const TRANSACTION_KINDS: TransactionKind[] = [
+  "deposit",
+  "withdrawal",
+  "interest",
+  "adjustment",
+];
+
+export const TRANSACTION_KIND_LABELS: Record<TransactionKind, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  interest: "Interest",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+  bonus: "LISA Bonus",
+};
+
+export const getTransactionKind = (
+  transaction: Pick<Transaction, "kind">
+): TransactionKind => transaction.kind || "deposit";
+
+// Signed effect of a transaction on its pot's balance
+// Withdrawals always reduce the balance; adjustments and transfer legs keep their own sign
+export const getSignedAmount = (
+  transaction: Pick<Transaction, "kind" | "amount">
+): number => {
+  if (getTransactionKind(transaction) === "withdrawal") {
+    return -Math.abs(transaction.amount);
+  }
+  return transaction.amount;
+};
+
+// Contributions are money the household chose to move in or out of a pot.
+// Interest and adjustments change the balance but aren't "saving", and transfers
+// only move money that was already saved.
+export const isContribution = (transaction: Pick<Transaction, "kind">): boolean => {
+  const kind = getTransactionKind(transaction);
+  return kind === "deposit" || kind === "withdrawal";
+};
+
+// Format a signed amount for display, e.g. "+£50.00" / "-€20.00"
+export const formatSignedAmount = (amount: number, fractionDigits = 2, currency = DEFAULT_CURRENCY): string =>
+  `${amount < 0 ? "-" : "+"}${formatMoney(Math.abs(amount), currency, fractionDigits)}`;
+
+export const isTransferLeg = (transaction: Pick<Transaction, "transferId">): boolean =>
+  !!transaction.transferId;
+
+// Find the other leg of a transfer (may belong to another household member)
+export const getTransferCounterpart = (
+  transaction: Transaction,
+  transactions: Transaction[]
+): Transaction | undefined => {
+  if (!transaction.transferId) return undefined;
+  return transactions.find(
+    (t) =>
+      t.transferId === transaction.transferId &&
+      t.id !== transaction.id &&
+      Math.sign(t.amount) !== Math.sign(transaction.amount)
+  );
+};
+
+// Show each transfer as a single movement: when both legs are in the list keep
+// only the outgoing one. Legs are matched per date so projected occurrences of a
+// recurring transfer collapse too.
+export const collapseTransferLegs = (transactions: Transaction[]): Transaction[] => {
+  const outgoingKeys = new Set(
+    transactions
+      .filter((t) => t.transferId && t.amount < 0)
+      .map((t) => `${t.transferId}|${t.date.toDateString()}`)
+  );
+  return transactions.filter(
+    (t) =>
+      !t.transferId ||
+      t.amount < 0 ||
+      !outgoingKeys.has(`${t.transferId}|${t.date.toDateString()}`)
+  );
+};
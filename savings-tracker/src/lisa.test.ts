@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getAge, getLisaWithdrawalPenalty, isLisaBonusEligible } from './lisa';
+import { getLisaBonusFlows } from './projections';
+import { SavingsPot, Transaction } from './types';
+import { makePot as makeDefaultPot, makeTransaction as makeDefaultTransaction } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ currentTotal: 0, isaType: 'lifetime', ...overrides });
+
+const makeTransaction = (overrides: Partial<Transaction> = {}) => makeDefaultTransaction({ amount: 500, ...overrides });
+
+describe('Lifetime ISA eligibility', () => {
+  it('should only pay the bonus from 18 until the 50th birthday', () => {
+    expect(getAge('1975-06-15', new Date('2025-06-14T12:00:00'))).toBe(49);
+    expect(getAge('1975-06-15', new Date('2025-06-15T12:00:00'))).toBe(50);
+    expect(isLisaBonusEligible({ id: 'alex', name: 'Alex', dateOfBirth: '2008-01-01' }, new Date('2025-06-01T12:00:00'))).toBe(false);
+    expect(isLisaBonusEligible({ id: 'alex', name: 'Alex', dateOfBirth: '1990-01-01' }, new Date('2025-06-01T12:00:00'))).toBe(true);
+    expect(isLisaBonusEligible({ id: 'alex', name: 'Alex' }, new Date('2025-06-01T12:00:00'))).toBe(true);
+  });
+
+  it('should charge a quarter of unauthorised withdrawals', () => {
+    expect(getLisaWithdrawalPenalty(-1000)).toBe(250);
+    expect(getLisaWithdrawalPenalty(33.33)).toBe(8.33);
+  });
+});
+
+describe('getLisaBonusFlows', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const transactions = [
+    makeTransaction({ id: 'lump', amount: 3000, date: new Date('2025-04-10T12:00:00') }),
+    makeTransaction({ id: 'monthly', recurrence: { frequency: 'monthly', interval: 1 } })
+  ];
+
+  it('should pay 25% the month after, up to £4,000 of subscriptions a tax year', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-05-20T12:00:00'));
+
+    // £3,000 already paid in this tax year leaves £1,000 to earn the bonus
+    expect(getLisaBonusFlows(makePot({}), transactions, 3)).toEqual([0, 125, 125, 0]);
+    expect(getLisaBonusFlows(makePot({ isaType: 'cash' }), transactions, 3)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should stop once the owner turns 50', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-05-20T12:00:00'));
+
+    const owner = { id: 'alex', name: 'Alex', dateOfBirth: '1975-06-01' };
+    expect(getLisaBonusFlows(makePot({}), transactions, 3, owner)).toEqual([0, 125, 0, 0]);
+  });
+});
@@ -0,0 +1,52 @@
+import { SavingsPot, Transaction, User } from "./types";
+import { getTransactionKind } from "./ledger";
+import { getTaxYearStart } from "./isa";
+
+// 25% government bonus on up to £4,000 of subscriptions each tax year
+export const LISA_BONUS_RATE = 0.25;
+export const LISA_BONUS_LIMIT = 4000;
+
+// Withdrawals for anything but a first home (or after 60) lose a quarter of the amount
+export const LISA_PENALTY_RATE = 0.25;
+
+export const isLifetimeIsa = (pot: Pick<SavingsPot, "isaType">): boolean =>
+  pot.isaType === "lifetime";
+
+// Age in whole years on a date, from a YYYY-MM-DD date of birth
+export const getAge = (dateOfBirth: string, on: Date): number => {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  const hadBirthday =
+    on.getMonth() + 1 > month || (on.getMonth() + 1 === month && on.getDate() >= day);
+  return on.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
+// Subscriptions earn the bonus while the owner is 18 to 49. Without a date of
+// birth they're assumed to be eligible, as the scheduler does; the app only has
+// the signed-in user's own, so other members' pots are always projected that way.
+export const isLisaBonusEligible = (owner: User | undefined, date: Date): boolean => {
+  if (!owner?.dateOfBirth) return true;
+  const age = getAge(owner.dateOfBirth, date);
+  return age >= 18 && age < 50;
+};
+
+// Money paid into a Lifetime ISA that earns the bonus. Without the other pots to
+// hand, transfers in count whichever pot they came from.
+export const isLisaSubscription = (transaction: Pick<Transaction, "kind" | "amount">): boolean => {
+  const kind = getTransactionKind(transaction);
+  return kind === "deposit" || (kind === "transfer" && transaction.amount > 0);
+};
+
+// Bonus paid into a pot so far this tax year
+export const getLisaBonusThisTaxYear = (
+  pot: SavingsPot,
+  transactions: Transaction[],
+  today: Date = new Date()
+): number => {
+  const start = getTaxYearStart(today);
+  return transactions
+    .filter((t) => t.potId === pot.id && t.kind === "bonus" && t.date >= start && t.date <= today)
+    .reduce((sum, t) => sum + t.amount, 0);
+};
+
+export const getLisaWithdrawalPenalty = (amount: number): number =>
+  Math.round(Math.abs(amount) * LISA_PENALTY_RATE * 100) / 100;
@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatDate, formatNumber, getWeekdayNames, getWeekStartsOn, setLocale, t } from './locale';
+import { formatMoney } from './currency';
+import { formatSignedAmount } from './ledger';
+import { getIsaTypeLabel } from './isa';
+import { getPotVisibilityLabel } from './visibility';
+import { getHorizonLabel } from './projections';
+
+describe('setLocale', () => {
+  afterEach(() => {
+    setLocale({});
+  });
+
+  it('should default to en-GB, with weeks starting on Monday', () => {
+    expect(getWeekStartsOn()).toBe(1);
+    expect(getWeekdayNames()[0]).toBe('Mon');
+    expect(formatDate(new Date('2025-06-01T12:00:00'), 'PP')).toBe('1 Jun 2025');
+    expect(formatNumber(1234.5)).toBe('1,234.50');
+  });
+
+  it('should format amounts and dates for the locale', () => {
+    setLocale({ locale: 'de-DE', weekStartsOn: null });
+    expect(formatMoney(1234.5, 'EUR')).toBe('1.234,50 €');
+    expect(formatSignedAmount(-20, 2, 'EUR')).toBe('-20,00 €');
+    expect(formatDate(new Date('2025-06-01T12:00:00'), 'MMMM yyyy')).toBe('Juni 2025');
+    expect(getWeekStartsOn()).toBe(1);
+  });
+
+  it('should let the options override the first day of the week', () => {
+    setLocale({ locale: 'en-US', weekStartsOn: null });
+    expect(getWeekdayNames()[0]).toBe('Sun');
+    setLocale({ locale: 'en-GB', weekStartsOn: 6 });
+    expect(getWeekdayNames()).toEqual(['Sat', 'Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+  });
+
+  it('should fall back to en-GB for locales it cannot read', () => {
+    setLocale({ locale: 'not a locale' });
+    expect(formatMoney(5)).toBe('£5.00');
+  });
+});
+
+describe('t', () => {
+  afterEach(() => {
+    setLocale({});
+  });
+
+  it('should fill in placeholders and pick the plural form', () => {
+    expect(t('login.signInAs', { name: 'Alex' })).toBe('Sign in as Alex');
+    expect(t('dashboard.goalsOnTrack', { onTrack: 1, count: 1 })).toBe('1 of 1 goal on track');
+    expect(t('dashboard.goalsOnTrack', { onTrack: 1, count: 3 })).toBe('1 of 3 goals on track');
+  });
+
+  it('should translate, falling back to English for text without a translation', () => {
+    setLocale({ locale: 'de-DE' });
+    expect(t('nav.calendar')).toBe('Kalender');
+    expect(t('app.title')).toBe('Savings Tracker');
+    setLocale({ locale: 'fr-FR' });
+    expect(t('nav.calendar')).toBe('Calendar');
+  });
+
+  it('should translate account labels and projection periods', () => {
+    expect(getIsaTypeLabel('stocks-and-shares')).toBe('Stocks & Shares ISA');
+    expect(getHorizonLabel(12)).toBe('1 year');
+    expect(getHorizonLabel(60)).toBe('5 years');
+    setLocale({ locale: 'de-DE' });
+    expect(getPotVisibilityLabel('balance')).toBe('Nur Kontostand');
+    expect(getHorizonLabel(60)).toBe('5 Jahre');
+  });
+});
@@ -0,0 +1,101 @@
+import { Day, Locale, format } from "date-fns";
+import { de, enGB, enUS, es, fr, it, nl } from "date-fns/locale";
+import { LocaleSettings } from "./types";
+import en, { Messages } from "./locales/en";
+import deMessages from "./locales/de";
+
+export const DEFAULT_LOCALE = "en-GB";
+
+// Month and day names for dates, by full locale first and then by language
+const DATE_LOCALES: Record<string, Locale> = {
+  "en-GB": enGB,
+  "en-US": enUS,
+  en: enGB,
+  de,
+  es,
+  fr,
+  it,
+  nl,
+};
+
+// Translated text by language; keys a language leaves out are shown in English
+const MESSAGES: Record<string, Partial<Messages>> = {
+  en,
+  de: deMessages,
+};
+
+// Plural messages are looked up by their key without the _one/_other ending
+type BaseKey<K> = K extends `${infer Base}_other` ? Base : K extends `${string}_one` ? never : K;
+export type MessageKey = BaseKey<keyof Messages>;
+
+interface ActiveLocale {
+  locale: string;
+  dateLocale: Locale;
+  weekStartsOn: Day;
+  messages: Partial<Messages>;
+}
+
+let active: ActiveLocale = {
+  locale: DEFAULT_LOCALE,
+  dateLocale: enGB,
+  weekStartsOn: 1,
+  messages: en,
+};
+
+// Switch the whole app to the household's locale. Anything missing or not understood
+// falls back to en-GB, so the app still works if the settings can't be loaded.
+export const setLocale = (settings: Partial<LocaleSettings>): void => {
+  let locale = DEFAULT_LOCALE;
+  try {
+    locale = Intl.getCanonicalLocales(settings.locale || DEFAULT_LOCALE)[0];
+  } catch {
+    // Not a locale tag; keep the default
+  }
+  const language = locale.split("-")[0];
+  const dateLocale = DATE_LOCALES[locale] || DATE_LOCALES[language] || enGB;
+
+  active = {
+    locale,
+    dateLocale,
+    weekStartsOn: settings.weekStartsOn ?? dateLocale.options?.weekStartsOn ?? 1,
+    messages: MESSAGES[language] || en,
+  };
+};
+
+export const getLocale = (): string => active.locale;
+
+export const getWeekStartsOn = (): Day => active.weekStartsOn;
+
+// Format a date with a date-fns pattern, in the locale's language
+export const formatDate = (date: Date | number, pattern: string): string =>
+  format(date, pattern, { locale: active.dateLocale, weekStartsOn: active.weekStartsOn });
+
+// A plain number formatted for the locale, e.g. "1,234.50" or "1.234,50"
+export const formatNumber = (value: number, fractionDigits = 2): string =>
+  value.toLocaleString(active.locale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+
+// Short day names in week order, starting from the locale's first day
+export const getWeekdayNames = (): string[] =>
+  Array.from({ length: 7 }, (_, index) =>
+    active.dateLocale.localize.day(((active.weekStartsOn + index) % 7) as Day, { width: "abbreviated" })
+  );
+
+// Text in the locale's language with its {placeholders} filled in. A numeric `count`
+// picks between the _one and _other forms of the message.
+export const t = (key: MessageKey, values: Record<string, string | number> = {}): string => {
+  const lookup = (messageKey: string): string | undefined =>
+    active.messages[messageKey as keyof Messages] ?? en[messageKey as keyof Messages];
+
+  let text = lookup(key);
+  if (typeof values.count === "number") {
+    const plural = new Intl.PluralRules(active.locale).select(values.count);
+    text = lookup(`${key}_${plural}`) ?? lookup(`${key}_other`);
+  }
+
+  return (text ?? key).replace(/\{(\w+)\}/g, (match, name) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+};
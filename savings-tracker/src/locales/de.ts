@@ -0,0 +1,57 @@
+import { Messages } from "./en";
+
+// German text for the web app
+const de: Partial<Messages> = {
+  "nav.dashboard": "Übersicht",
+  "nav.calendar": "Kalender",
+  "nav.accounts": "Konten",
+  "nav.budget": "Budget",
+  "page.dashboard.subtitle": "Überblick über deinen Sparfortschritt",
+  "page.calendar.subtitle": "Verfolge deine monatlichen Einzahlungen",
+  "page.accounts.subtitle": "Verwalte deine Sparkonten",
+  "page.budget.subtitle": "So verteilt sich dein Gehalt",
+  "login.prompt": "Wähle dein Konto, um fortzufahren",
+  "login.failed": "Anmeldung fehlgeschlagen. Bitte versuche es erneut.",
+  "login.noUsers": "Keine Benutzer eingerichtet. Bitte füge Benutzer in der Add-on-Konfiguration hinzu.",
+  "login.signingIn": "Anmeldung läuft...",
+  "login.signInAs": "Als {name} anmelden",
+  "login.pin": "PIN oder Passwort",
+  "login.pinPrompt": "Gib die PIN oder das Passwort für {name} ein",
+  "login.signIn": "Anmelden",
+  "login.back": "Jemand anderen auswählen",
+  "dashboard.totalSavings": "Gesamtersparnis",
+  "dashboard.activeAccounts": "Aktive Konten",
+  "dashboard.monthlyRecurring": "Monatlich wiederkehrend",
+  "dashboard.expected": "Erwartet {month}",
+  "dashboard.goalsOnTrack_one": "{onTrack} von {count} Ziel im Plan",
+  "dashboard.goalsOnTrack_other": "{onTrack} von {count} Zielen im Plan",
+  "dashboard.unconverted_one":
+    "{pots} ist nicht in den Summen und Prognosen enthalten, da es keinen Wechselkurs zu {currency} gibt. Füge unter Konten einen hinzu.",
+  "dashboard.unconverted_other":
+    "{pots} sind nicht in den Summen und Prognosen enthalten, da es keinen Wechselkurs zu {currency} gibt. Füge unter Konten einen hinzu.",
+  "dashboard.yourAccounts": "Deine Konten",
+  "dashboard.userAccounts": "Konten von {name}",
+  "dashboard.stale_one":
+    "{pots} wurde seit über {days} Tagen nicht mit der Bank abgeglichen. Klicke auf einen Kontostand, um ihn mit deinem Kontoauszug zu vergleichen.",
+  "dashboard.stale_other":
+    "{pots} wurden seit über {days} Tagen nicht mit der Bank abgeglichen. Klicke auf einen Kontostand, um ihn mit deinem Kontoauszug zu vergleichen.",
+  "dashboard.getStarted": "Noch keine Konten. Lege dein erstes Konto an, um loszulegen!",
+  "dashboard.noAccounts": "Noch keine Konten.",
+  "dashboard.projections": "Sparprognosen",
+  "dashboard.sharedExpenses": "Gemeinsame Ausgaben",
+  "projections.horizon_one": "{count} Jahr",
+  "projections.horizon_other": "{count} Jahre",
+  "projections.growth": "Wachstum in {horizon}",
+  "projections.interestOver": "{amount} Zinsen in {horizon}",
+  "isa.type.cash": "Cash-ISA",
+  "isa.type.stocks-and-shares": "Aktien-ISA",
+  "isa.type.lifetime": "Lifetime-ISA",
+  "visibility.full": "Geteilt",
+  "visibility.full.description": "Alle im Haushalt sehen dieses Konto und seine Umsätze",
+  "visibility.balance": "Nur Kontostand",
+  "visibility.balance.description": "Andere sehen Namen und Kontostand, aber keine Umsätze oder Details",
+  "visibility.private": "Privat",
+  "visibility.private.description": "Nur du siehst dieses Konto; es fehlt in den Summen aller anderen",
+};
+
+export default de;
@@ -0,0 +1,59 @@
+// English text for the web app. Other languages translate these keys; any they leave out are
+// shown in English. Keys ending in _one/_other are picked by the {count} value.
+const en = {
+  "app.title": "Savings Tracker",
+  "nav.dashboard": "Dashboard",
+  "nav.calendar": "Calendar",
+  "nav.accounts": "Accounts",
+  "nav.budget": "Budget",
+  "page.dashboard.subtitle": "Overview of your savings progress",
+  "page.calendar.subtitle": "Track your monthly contributions",
+  "page.accounts.subtitle": "Manage your savings accounts",
+  "page.budget.subtitle": "Visualize your salary allocation",
+  "login.prompt": "Choose your account to continue",
+  "login.failed": "Login failed. Please try again.",
+  "login.noUsers": "No users configured. Please add users in the add-on configuration.",
+  "login.signingIn": "Signing in...",
+  "login.signInAs": "Sign in as {name}",
+  "login.pin": "PIN or password",
+  "login.pinPrompt": "Enter the PIN or password for {name}",
+  "login.signIn": "Sign in",
+  "login.back": "Choose someone else",
+  "dashboard.totalSavings": "Total Savings",
+  "dashboard.activeAccounts": "Active Accounts",
+  "dashboard.monthlyRecurring": "Monthly Recurring",
+  "dashboard.expected": "Expected {month}",
+  "dashboard.goalsOnTrack_one": "{onTrack} of {count} goal on track",
+  "dashboard.goalsOnTrack_other": "{onTrack} of {count} goals on track",
+  "dashboard.unconverted_one":
+    "{pots} isn't included in the totals and projections as there's no exchange rate to {currency}. Add one under Accounts.",
+  "dashboard.unconverted_other":
+    "{pots} aren't included in the totals and projections as there's no exchange rate to {currency}. Add one under Accounts.",
+  "dashboard.yourAccounts": "Your Accounts",
+  "dashboard.userAccounts": "{name}'s Accounts",
+  "dashboard.stale_one":
+    "{pots} hasn't been reconciled with the bank in over {days} days. Click a balance to check it against your statement.",
+  "dashboard.stale_other":
+    "{pots} haven't been reconciled with the bank in over {days} days. Click a balance to check it against your statement.",
+  "dashboard.getStarted": "No accounts yet. Add your first account to get started!",
+  "dashboard.noAccounts": "No accounts yet.",
+  "dashboard.projections": "Savings Projections",
+  "dashboard.sharedExpenses": "Shared Expenses",
+  "projections.horizon_one": "{count} year",
+  "projections.horizon_other": "{count} years",
+  "projections.growth": "{horizon} Growth",
+  "projections.interestOver": "{amount} interest over {horizon}",
+  "isa.type.cash": "Cash ISA",
+  "isa.type.stocks-and-shares": "Stocks & Shares ISA",
+  "isa.type.lifetime": "Lifetime ISA",
+  "visibility.full": "Shared",
+  "visibility.full.description": "Everyone in the household sees this account and its transactions",
+  "visibility.balance": "Balance only",
+  "visibility.balance.description": "Others see its name and balance, but not its transactions or details",
+  "visibility.private": "Private",
+  "visibility.private.description": "Only you see this account; it's left out of everyone else's totals",
+};
+
+export type Messages = typeof en;
+
+export default en;
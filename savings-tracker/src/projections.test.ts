@@ -1,6 +1,16 @@
-import { describe, it, expect } from 'vitest';
-import { normalizeToNoon } from './projections';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  normalizeToNoon,
+  calculateProjection,
+  getRequiredMonthlyContribution,
+  getProjectionGranularity,
+  aggregateByGranularity,
+  deflateProjections,
+  getRealInterestGrowth
+} from './projections';
+import { SavingsPot, Transaction } from './types';
 import { getDay, format, addWeeks } from 'date-fns';
+import { makePot as makeDefaultPot } from './test/factories';
 
 describe('normalizeToNoon', () => {
   it('should normalize a date to noon', () => {
@@ -156,3 +166,284 @@ describe('date-fns addWeeks function', () => {
   });
 });
 
+
+describe('Interest payment frequency in projections', () => {
+  const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({
+    interestRate: 12,
+    createdAt: new Date('2024-03-10T12:00:00'),
+    updatedAt: new Date('2024-03-10T12:00:00'),
+    ...overrides
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should compound monthly-paid interest every month', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const projection = calculateProjection(makePot({ interestPayment: 'monthly' }), [], 12);
+    const monthlyMultiplier = Math.pow(1.12, 1 / 12);
+
+    expect(projection.data[1].amount).toBeCloseTo(1000 * monthlyMultiplier, 6);
+    expect(projection.data[2].amount).toBeCloseTo(1000 * monthlyMultiplier ** 2, 6);
+  });
+
+  it('should only credit annually-paid interest in the month the pot was opened', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const projection = calculateProjection(makePot({ interestPayment: 'annual' }), [], 12);
+    const monthlyGrowth = Math.pow(1.12, 1 / 12) - 1;
+
+    // February: interest is building up but not yet paid
+    expect(projection.data[1].amount).toBe(1000);
+    // March (anniversary month): Feb and Mar interest paid in, on the unpaid balance
+    expect(projection.data[2].amount).toBeCloseTo(1000 + 2 * 1000 * monthlyGrowth, 6);
+  });
+
+  it('should stop compounding once a fixed-term pot matures', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const bond = makePot({ interestPayment: 'monthly', accountType: 'fixed-rate-bond', maturityDate: '2025-03-10' });
+    const projection = calculateProjection(bond, [], 12);
+    const monthlyMultiplier = Math.pow(1.12, 1 / 12);
+
+    expect(projection.data[2].amount).toBeCloseTo(1000 * monthlyMultiplier ** 2, 6);
+    expect(projection.data[12].amount).toBeCloseTo(projection.data[2].amount, 6);
+
+    // Easy access pots ignore a leftover maturity date
+    const easyAccess = calculateProjection({ ...bond, accountType: 'easy-access' }, [], 12);
+    expect(easyAccess.data[12].amount).toBeCloseTo(1120, 6);
+  });
+
+  it('should pay annual interest still owed when a pot matures', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const bond = makePot({ interestPayment: 'annual', accountType: 'fixed-rate-bond', maturityDate: '2025-02-20' });
+    const projection = calculateProjection(bond, [], 12);
+    const monthlyGrowth = Math.pow(1.12, 1 / 12) - 1;
+
+    expect(projection.data[1].amount).toBe(1000);
+    expect(projection.data[2].amount).toBeCloseTo(1000 + 1000 * monthlyGrowth, 6);
+    expect(projection.data[12].amount).toBeCloseTo(projection.data[2].amount, 6);
+  });
+});
+
+describe('Recurrence rules in projections', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only add quarterly payments in the months they fall in', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const pot: SavingsPot = {
+      id: 'pot-1',
+      userId: 'alex',
+      name: 'ISA',
+      currentTotal: 1000,
+      color: '#667eea',
+      currency: 'GBP',
+      createdAt: new Date('2024-01-01T12:00:00'),
+      updatedAt: new Date('2024-01-01T12:00:00')
+    };
+    const quarterly: Transaction = {
+      id: 'txn-1',
+      userId: 'alex',
+      potId: 'pot-1',
+      amount: 300,
+      date: new Date('2025-01-15T12:00:00'),
+      recurrence: { frequency: 'monthly', interval: 3 },
+      createdAt: new Date('2025-01-15T12:00:00')
+    };
+
+    const projection = calculateProjection(pot, [quarterly], 6);
+    const amounts = projection.data.map(d => d.amount);
+
+    // Jan (actual), Feb, Mar, Apr (+300), May, Jun, Jul (+300)
+    expect(amounts).toEqual([1000, 1000, 1000, 1300, 1300, 1300, 1600]);
+  });
+
+  it('should respect skipped, moved and changed occurrences', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const pot: SavingsPot = {
+      id: 'pot-1',
+      userId: 'alex',
+      name: 'Easy Access',
+      currentTotal: 1000,
+      color: '#667eea',
+      currency: 'GBP',
+      createdAt: new Date('2024-01-01T12:00:00'),
+      updatedAt: new Date('2024-01-01T12:00:00')
+    };
+    const monthly: Transaction = {
+      id: 'txn-1',
+      userId: 'alex',
+      potId: 'pot-1',
+      amount: 100,
+      date: new Date('2025-01-15T12:00:00'),
+      repeatMonthly: true,
+      exceptions: [
+        { id: 'e1', occurrenceDate: '2025-02-15', skipped: true },
+        { id: 'e2', occurrenceDate: '2025-03-15', skipped: false, movedTo: '2025-04-02' },
+        { id: 'e3', occurrenceDate: '2025-04-15', skipped: false, amount: 50 }
+      ],
+      createdAt: new Date('2025-01-15T12:00:00')
+    };
+
+    const projection = calculateProjection(pot, [monthly], 4);
+    const amounts = projection.data.map(d => d.amount);
+
+    // Feb skipped, March's payment lands in April alongside a reduced April payment
+    expect(amounts).toEqual([1000, 1000, 1000, 1150, 1250]);
+  });
+});
+
+describe('Goal projections', () => {
+  const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ targetAmount: 2000, ...overrides });
+  const monthly: Transaction = {
+    id: 'txn-1',
+    userId: 'alex',
+    potId: 'pot-1',
+    amount: 100,
+    date: new Date('2025-01-15T12:00:00'),
+    repeatMonthly: true,
+    createdAt: new Date('2025-01-15T12:00:00')
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should work out the contribution needed with and without interest', () => {
+    expect(getRequiredMonthlyContribution(1000, 2200, 12)).toBe(100);
+    expect(getRequiredMonthlyContribution(3000, 2000, 12)).toBe(0);
+    expect(getRequiredMonthlyContribution(1000, 2000, 0)).toBe(1000);
+
+    // Paying the result in each month at 5% should land exactly on the target
+    const contribution = getRequiredMonthlyContribution(1000, 5000, 24, 5);
+    const monthlyRate = Math.pow(1.05, 1 / 12) - 1;
+    let balance = 1000;
+    for (let month = 0; month < 24; month++) {
+      balance = balance * (1 + monthlyRate) + contribution;
+    }
+    expect(balance).toBeCloseTo(5000, 6);
+  });
+
+  it('should find the completion month beyond the chart horizon', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    // 1000 + 100/month reaches 2000 with the tenth payment, in November
+    const projection = calculateProjection(makePot({}), [monthly], 6);
+
+    expect(projection.data).toHaveLength(7);
+    expect(format(projection.targetDate!, 'yyyy-MM')).toBe('2025-11');
+    expect(projection.goalStatus).toBeUndefined();
+  });
+
+  it('should compare the completion month with the goal date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const onTrack = calculateProjection(makePot({ goalDate: '2025-12-01' }), [monthly], 12);
+    const behind = calculateProjection(makePot({ goalDate: '2025-06-30' }), [monthly], 12);
+
+    expect(onTrack.goalStatus).toBe('on-track');
+    expect(behind.goalStatus).toBe('behind');
+    // Five months (Feb-Jun) to find the remaining 1000
+    expect(behind.monthlyContribution).toBe(200);
+  });
+
+  it('should mark a pot that has already reached its target', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const projection = calculateProjection(makePot({ currentTotal: 2500, goalDate: '2024-12-31' }), [], 12);
+
+    expect(projection.goalStatus).toBe('reached');
+    expect(projection.monthlyContribution).toBeUndefined();
+  });
+});
+
+describe('Projection horizons', () => {
+  it('should switch to yearly points beyond five years', () => {
+    expect(getProjectionGranularity(12)).toBe('monthly');
+    expect(getProjectionGranularity(60)).toBe('monthly');
+    expect(getProjectionGranularity(120)).toBe('yearly');
+  });
+
+  it('should keep the current month and one point a year', () => {
+    const points = Array.from({ length: 121 }, (_, index) => index);
+    expect(aggregateByGranularity(points, 'yearly')).toEqual([0, 12, 24, 36, 48, 60, 72, 84, 96, 108, 120]);
+    expect(aggregateByGranularity(points.slice(0, 30), 'yearly')).toEqual([0, 12, 24, 29]);
+    expect(aggregateByGranularity(points.slice(0, 13), 'monthly')).toHaveLength(13);
+  });
+
+  it('should project the full horizon', () => {
+    const pot: SavingsPot = {
+      id: 'pot-1',
+      userId: 'alex',
+      name: 'Pension',
+      currentTotal: 1000,
+      color: '#667eea',
+      currency: 'GBP',
+      createdAt: new Date('2024-01-01T12:00:00'),
+      updatedAt: new Date('2024-01-01T12:00:00')
+    };
+    expect(calculateProjection(pot, [], 360).data).toHaveLength(361);
+  });
+});
+
+describe('Inflation-adjusted projections', () => {
+  const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({
+    createdAt: new Date('2024-03-10T12:00:00'),
+    updatedAt: new Date('2024-03-10T12:00:00'),
+    ...overrides
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should express projected amounts in today\'s money', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const [projection] = deflateProjections([calculateProjection(makePot({}), [], 24)], 2.5);
+
+    expect(projection.data[0].amount).toBe(1000);
+    expect(projection.data[12].amount).toBeCloseTo(1000 / 1.025, 6);
+    expect(projection.data[24].amount).toBeCloseTo(1000 / 1.025 ** 2, 6);
+  });
+
+  it('should find no real growth when interest only matches inflation', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const projection = calculateProjection(makePot({ interestRate: 5, interestPayment: 'monthly' }), [], 12);
+    const growth = getRealInterestGrowth(projection, 5);
+
+    expect(growth.interest).toBeCloseTo(50, 6);
+    expect(growth.keepingPace).toBeCloseTo(50, 6);
+    expect(growth.real).toBeCloseTo(0, 6);
+  });
+
+  it('should report real growth above inflation and a shortfall below it', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00'));
+
+    const projection = calculateProjection(makePot({ interestRate: 5, interestPayment: 'monthly' }), [], 12);
+
+    expect(getRealInterestGrowth(projection, 2).real).toBeGreaterThan(25);
+    expect(getRealInterestGrowth(projection, 8).real).toBeLessThan(0);
+    expect(getRealInterestGrowth(calculateProjection(makePot({}), [], 12), 2.5).interest).toBe(0);
+  });
+});
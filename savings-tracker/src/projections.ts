@@ -3,18 +3,37 @@ import {
   Transaction,
   ProjectionData,
   SavingsProjection,
+  GoalStatus,
+  User,
 } from "./types";
 import { loadSavingsData } from "./storage";
+import { getSignedAmount, isContribution } from "./ledger";
+import { t } from "./locale";
+import { getTaxYearStart } from "./isa";
+import { getMaturityDate } from "./accounts";
+import {
+  LISA_BONUS_LIMIT,
+  LISA_BONUS_RATE,
+  isLifetimeIsa,
+  isLisaBonusEligible,
+  isLisaSubscription,
+} from "./lisa";
+import {
+  getRecurrenceRule,
+  getRecurrenceFlags,
+  getEffectiveOccurrencesBetween,
+  isRecurring,
+  toDayKey,
+} from "./recurrence";
 import {
   startOfMonth,
   endOfMonth,
   eachMonthOfInterval,
   addMonths,
+  addDays,
+  differenceInCalendarMonths,
   isAfter,
   isBefore,
-  isSameMonth,
-  getDate,
-  getDay,
 } from "date-fns";
 
 // Normalize a date to noon local time to avoid edge cases
@@ -25,68 +44,206 @@ export const normalizeToNoon = (date: Date): Date => {
   return result;
 };
 
-// Add weeks while preserving the exact day of week
-// Uses simple arithmetic: add weeks * 7 days
-const addWeeksFromOriginal = (originalDate: Date, weeks: number): Date => {
-  const normalized = normalizeToNoon(originalDate);
-  const result = new Date(normalized);
-  result.setDate(result.getDate() + weeks * 7);
-  return result;
+// Horizons offered on the projections chart (months ahead)
+export const PROJECTION_HORIZONS = [12, 24, 60, 120, 360];
+export const DEFAULT_PROJECTION_HORIZON = 12;
+
+export type ProjectionGranularity = "monthly" | "yearly";
+
+export const getHorizonLabel = (monthsAhead: number): string =>
+  t("projections.horizon", { count: monthsAhead / 12 });
+
+// Monthly points get too dense to read beyond five years, so longer horizons are shown yearly
+export const getProjectionGranularity = (
+  monthsAhead: number
+): ProjectionGranularity => (monthsAhead > 60 ? "yearly" : "monthly");
+
+// Reduce monthly points (starting with the current month) to the given granularity.
+// Yearly keeps the current month and every 12th month after it, plus the final month.
+export const aggregateByGranularity = <T>(
+  points: T[],
+  granularity: ProjectionGranularity
+): T[] =>
+  granularity === "monthly"
+    ? points
+    : points.filter((_, index) => index % 12 === 0 || index === points.length - 1);
+
+export const DEFAULT_INFLATION_RATE = 2.5;
+
+// Express projected amounts in today's money. Point 0 is now, so it's unchanged;
+// interest stays nominal (see getRealInterestGrowth).
+export const deflateProjections = (
+  projections: SavingsProjection[],
+  annualInflation: number
+): SavingsProjection[] =>
+  projections.map((projection) => ({
+    ...projection,
+    data: projection.data.map((point, index) => ({
+      ...point,
+      amount: point.amount / Math.pow(1 + annualInflation / 100, index / 12),
+    })),
+  }));
+
+// Split the interest a projection earns into what merely keeps pace with inflation
+// (the value the pot's balance loses each month) and the real growth on top.
+// `real` is negative when the rate doesn't keep up with inflation.
+export const getRealInterestGrowth = (
+  projection: SavingsProjection,
+  annualInflation: number
+): { interest: number; keepingPace: number; real: number } => {
+  const points = projection.data;
+  const interest = points[points.length - 1]?.interest || 0;
+  if (interest <= 0) return { interest: 0, keepingPace: 0, real: 0 };
+
+  const monthlyInflation = Math.pow(1 + annualInflation / 100, 1 / 12) - 1;
+  const erosion = points
+    .slice(1)
+    .reduce((sum, _, index) => sum + Math.max(0, points[index].amount) * monthlyInflation, 0);
+
+  return {
+    interest,
+    keepingPace: Math.min(interest, erosion),
+    real: interest - erosion,
+  };
 };
 
-// Count how many times a specific day of week occurs between two dates
-const countWeekdayOccurrences = (
-  startDate: Date,
-  endDate: Date,
-  targetDay: number
+// How far ahead to look for the month a pot reaches its target
+const GOAL_HORIZON_MONTHS = 50 * 12;
+
+// Monthly amount needed to grow `current` to `target` over `months` months, with the
+// balance compounding monthly at `annualRate` (%) and contributions made each month
+export const getRequiredMonthlyContribution = (
+  current: number,
+  target: number,
+  months: number,
+  annualRate: number = 0
 ): number => {
-  let count = 0;
-  // Normalize dates to noon to avoid timezone issues
-  let current = normalizeToNoon(new Date(startDate));
-  const end = normalizeToNoon(new Date(endDate));
-
-  // Move to first occurrence of target day
-  while (getDay(current) !== targetDay && current <= end) {
-    current.setDate(current.getDate() + 1);
+  const remaining = target - current;
+  if (remaining <= 0) return 0;
+  if (months <= 0) return remaining;
+
+  const monthlyRate = annualRate > 0 ? Math.pow(1 + annualRate / 100, 1 / 12) - 1 : 0;
+  if (monthlyRate === 0) return remaining / months;
+
+  // Future value of the current balance plus an annuity of the contribution
+  const growth = Math.pow(1 + monthlyRate, months);
+  return Math.max(0, ((target - current * growth) * monthlyRate) / (growth - 1));
+};
+
+// Sum of a pot's recurring occurrences (after the original transaction, which is
+// already in the pot's total) falling between two dates, with skipped, moved and
+// changed occurrences taken into account. What-if payments aren't in the total,
+// so their own date counts as well. `include` narrows which transactions count.
+const createRecurringSummer = (
+  pot: SavingsPot,
+  transactions: Transaction[],
+  include: (t: Transaction) => boolean = () => true
+) => {
+  const recurringTxns = transactions.filter(
+    (t) => t.potId === pot.id && (isRecurring(t) || t.hypothetical) && include(t)
+  );
+
+  return (from: Date, to: Date): number =>
+    recurringTxns.reduce((sum, t) => {
+      const first =
+        t.hypothetical && t.date >= from && t.date <= to ? getSignedAmount(t) : 0;
+      return getEffectiveOccurrencesBetween(t, from, to).reduce(
+        (total, o) => total + getSignedAmount({ kind: t.kind, amount: o.amount }),
+        sum + first
+      );
+    }, 0);
+};
+
+// Government bonus paid into a Lifetime ISA in each projection month, starting with the
+// current month (always 0): 25% of the previous month's subscriptions, on up to £4,000
+// of them per tax year. The first payment modelled is next month's, for this month's
+// subscriptions so far plus any still scheduled. Tax years change with April here.
+export const getLisaBonusFlows = (
+  pot: SavingsPot,
+  transactions: Transaction[],
+  monthsAhead: number = 12,
+  owner?: User
+): number[] => {
+  const flows = new Array<number>(monthsAhead + 1).fill(0);
+  if (!isLifetimeIsa(pot)) return flows;
+
+  const currentDate = normalizeToNoon(new Date());
+  const firstMonth = startOfMonth(currentDate);
+  const sumSubscriptionsBetween = createRecurringSummer(pot, transactions, isLisaSubscription);
+  const sumActualBetween = (from: Date, to: Date): number =>
+    transactions
+      .filter(
+        (t) =>
+          t.potId === pot.id &&
+          !t.hypothetical &&
+          isLisaSubscription(t) &&
+          t.date >= from &&
+          t.date <= to
+      )
+      .reduce((sum, t) => sum + t.amount, 0);
+
+  // Subscriptions earlier in the tax year have already used up some of the £4,000
+  let taxYearStart = getTaxYearStart(endOfMonth(firstMonth));
+  let used = sumActualBetween(taxYearStart, addDays(firstMonth, -1));
+
+  for (let index = 0; index < monthsAhead; index++) {
+    const month = addMonths(firstMonth, index);
+    const monthTaxYear = getTaxYearStart(endOfMonth(month));
+    if (monthTaxYear.getTime() !== taxYearStart.getTime()) {
+      taxYearStart = monthTaxYear;
+      used = 0;
+    }
+
+    const subscriptions =
+      index === 0
+        ? sumActualBetween(firstMonth, currentDate) +
+          sumSubscriptionsBetween(addDays(currentDate, 1), endOfMonth(currentDate))
+        : sumSubscriptionsBetween(startOfMonth(month), endOfMonth(month));
+    const eligible = isLisaBonusEligible(owner, month)
+      ? Math.min(subscriptions, Math.max(0, LISA_BONUS_LIMIT - used))
+      : 0;
+    used += subscriptions;
+    flows[index + 1] = eligible * LISA_BONUS_RATE;
   }
 
-  // Count occurrences
-  while (current <= end) {
-    count++;
-    current.setDate(current.getDate() + 7);
+  return flows;
+};
+
+// Net recurring payments into a pot for each projection month, starting with the
+// current month (always 0, as the balance is already known). The first future month
+// also carries what's still to come in the current month. Lifetime ISA bonuses count too.
+export const getMonthlyFlows = (
+  pot: SavingsPot,
+  transactions: Transaction[],
+  monthsAhead: number = 12,
+  owner?: User
+): number[] => {
+  const currentDate = normalizeToNoon(new Date());
+  const sumRecurringBetween = createRecurringSummer(pot, transactions);
+  const bonusFlows = getLisaBonusFlows(pot, transactions, monthsAhead, owner);
+  const flows = [0];
+
+  for (let index = 1; index <= monthsAhead; index++) {
+    const month = addMonths(startOfMonth(currentDate), index);
+    let flow = sumRecurringBetween(startOfMonth(month), endOfMonth(month));
+    if (index === 1) {
+      flow += sumRecurringBetween(addDays(currentDate, 1), endOfMonth(currentDate));
+    }
+    flows.push(flow + bonusFlows[index]);
   }
 
-  return count;
+  return flows;
 };
 
 export const calculateProjection = (
   pot: SavingsPot,
   transactions: Transaction[],
-  monthsAhead: number = 12
+  monthsAhead: number = 12,
+  owner?: User
 ): SavingsProjection => {
-  const currentDate = new Date();
-  const currentDay = currentDate.getDate();
-
-  // Get monthly recurring transactions for this pot
-  const monthlyRecurringTxns = transactions.filter(
-    (t) => t.potId === pot.id && t.repeatMonthly
-  );
-
-  // Get weekly recurring transactions for this pot
-  const weeklyRecurringTxns = transactions.filter(
-    (t) => t.potId === pot.id && t.repeatWeekly
-  );
-
-  // Calculate total monthly recurring amount
-  const monthlyRecurringTotal = monthlyRecurringTxns.reduce(
-    (sum, t) => sum + t.amount,
-    0
-  );
+  const currentDate = normalizeToNoon(new Date());
 
-  // Calculate outstanding monthly payments for current month (scheduled for days after today)
-  const outstandingMonthlyThisMonth = monthlyRecurringTxns
-    .filter((t) => t.date.getDate() > currentDay)
-    .reduce((sum, t) => sum + t.amount, 0);
+  const sumRecurringBetween = createRecurringSummer(pot, transactions);
 
   // Calculate monthly growth rate from annual interest rate
   // Monthly rate = (1 + annual_rate/100)^(1/12) - 1
@@ -94,18 +251,38 @@ export const calculateProjection = (
   const monthlyGrowthMultiplier =
     annualRate > 0 ? Math.pow(1 + annualRate / 100, 1 / 12) : 1;
 
+  // Pots paid annually only receive their interest in the month they were opened,
+  // matching when the scheduler posts it; until then it builds up here
+  const paysAnnually = pot.interestPayment === "annual";
+  const annualPaymentMonth = new Date(pot.createdAt).getMonth();
+  let pendingInterest = 0;
+  let interestEarned = 0;
+
+  // Fixed-term pots stop earning their rate when they mature; anything still
+  // pending is paid then
+  const maturityDate = getMaturityDate(pot);
+
   // Start with the pot's actual current total
   let cumulativeAmount = pot.currentTotal;
 
   const data: ProjectionData[] = [];
 
+  // Pots with a target keep being projected past the chart to find when it's reached
+  const target = pot.targetAmount || 0;
+  let targetIndex: number | undefined;
+
   // Generate months from current month onwards
   const months = eachMonthOfInterval({
     start: startOfMonth(currentDate),
-    end: addMonths(currentDate, monthsAhead),
+    end: addMonths(currentDate, target > 0 ? Math.max(monthsAhead, GOAL_HORIZON_MONTHS) : monthsAhead),
   });
 
-  months.forEach((month, index) => {
+  // Lifetime ISA bonuses arrive the month after the subscriptions that earn them
+  const bonusFlows = getLisaBonusFlows(pot, transactions, months.length - 1, owner);
+
+  for (let index = 0; index < months.length; index++) {
+    if (index > monthsAhead && (target <= 0 || targetIndex !== undefined)) break;
+    const month = months[index];
     const isCurrentMonth = index === 0;
     const monthStart = startOfMonth(month);
     const monthEnd = endOfMonth(month);
@@ -116,97 +293,110 @@ export const calculateProjection = (
         date: month,
         amount: cumulativeAmount,
         projected: false,
+        interest: 0,
       });
     } else {
       // Apply monthly compound growth from interest/returns (applied to balance at start of month)
-      if (annualRate > 0) {
-        cumulativeAmount *= monthlyGrowthMultiplier;
+      const hasMatured = !!maturityDate && isAfter(monthStart, maturityDate);
+      if (hasMatured) {
+        cumulativeAmount += pendingInterest;
+        interestEarned += pendingInterest;
+        pendingInterest = 0;
+      } else if (annualRate > 0) {
+        const growth = cumulativeAmount * (monthlyGrowthMultiplier - 1);
+        if (paysAnnually) {
+          pendingInterest += growth;
+          if (month.getMonth() === annualPaymentMonth) {
+            cumulativeAmount += pendingInterest;
+            interestEarned += pendingInterest;
+            pendingInterest = 0;
+          }
+        } else {
+          cumulativeAmount += growth;
+          interestEarned += growth;
+        }
       }
 
-      // Calculate weekly recurring for this month
-      let weeklyTotal = 0;
-      weeklyRecurringTxns.forEach((t) => {
-        const txnDayOfWeek = getDay(t.date);
-        const occurrences = countWeekdayOccurrences(
-          monthStart,
-          monthEnd,
-          txnDayOfWeek
-        );
-        weeklyTotal += t.amount * occurrences;
-      });
-
       if (index === 1) {
-        // First future month: add outstanding monthly + full month recurring + weekly
-        // Also add remaining weekly occurrences from current month
-        let remainingWeeklyThisMonth = 0;
-        weeklyRecurringTxns.forEach((t) => {
-          const txnDayOfWeek = getDay(t.date);
-          const tomorrow = new Date(currentDate);
-          tomorrow.setDate(tomorrow.getDate() + 1);
-          const occurrences = countWeekdayOccurrences(
-            tomorrow,
-            endOfMonth(currentDate),
-            txnDayOfWeek
-          );
-          remainingWeeklyThisMonth += t.amount * occurrences;
-        });
+        // First future month: also add what's still to come in the current month
+        const tomorrow = addDays(currentDate, 1);
+        cumulativeAmount += sumRecurringBetween(tomorrow, endOfMonth(currentDate));
+      }
 
-        cumulativeAmount +=
-          outstandingMonthlyThisMonth +
-          monthlyRecurringTotal +
-          remainingWeeklyThisMonth +
-          weeklyTotal;
-      } else {
-        // Subsequent future months: add monthly + weekly recurring
-        cumulativeAmount += monthlyRecurringTotal + weeklyTotal;
+      cumulativeAmount += sumRecurringBetween(monthStart, monthEnd) + bonusFlows[index];
+
+      if (index <= monthsAhead) {
+        data.push({
+          date: month,
+          amount: cumulativeAmount,
+          projected: true,
+          interest: interestEarned,
+        });
       }
+    }
 
-      data.push({
-        date: month,
-        amount: cumulativeAmount,
-        projected: true,
-      });
+    if (target > 0 && targetIndex === undefined && cumulativeAmount >= target) {
+      targetIndex = index;
     }
-  });
+  }
+
+  if (target <= 0) {
+    return {
+      potId: pot.id,
+      data,
+    };
+  }
+
+  const targetDate =
+    targetIndex === 0 ? currentDate : targetIndex !== undefined ? months[targetIndex] : undefined;
+  let goalStatus: GoalStatus | undefined = targetIndex === 0 ? "reached" : undefined;
+  let monthlyContribution: number | undefined;
+
+  if (pot.goalDate && targetIndex !== 0) {
+    // Contributions can still be made in every month up to and including the deadline's
+    const monthsLeft = differenceInCalendarMonths(new Date(`${pot.goalDate}T12:00:00`), currentDate);
+    monthlyContribution = getRequiredMonthlyContribution(
+      pot.currentTotal,
+      target,
+      monthsLeft,
+      annualRate
+    );
+    goalStatus =
+      targetIndex !== undefined && targetIndex <= monthsLeft ? "on-track" : "behind";
+  }
 
   return {
     potId: pot.id,
     data,
+    targetDate,
+    monthlyContribution,
+    goalStatus,
   };
 };
 
+// `users` supplies pot owners' profiles (for Lifetime ISA bonus eligibility)
 export const calculateAllProjections = (
   data: { pots: SavingsPot[]; transactions: Transaction[] },
-  monthsAhead: number = 12
+  monthsAhead: number = 12,
+  users: User[] = []
 ): SavingsProjection[] => {
   const { pots, transactions } = data;
 
-  return pots.map((pot) => calculateProjection(pot, transactions, monthsAhead));
+  return pots.map((pot) =>
+    calculateProjection(
+      pot,
+      transactions,
+      monthsAhead,
+      users.find((user) => user.id === pot.userId)
+    )
+  );
 };
 
+// Pot totals are the single source of truth for balances: the backend keeps each one equal
+// to its opening balance plus its transactions, and its integrity check reports any drift
 export const getTotalSavings = async (): Promise<number> => {
-  const { transactions, pots } = await loadSavingsData();
-
-  // Calculate actual totals from real transactions (exclude projected ones)
-  const actualTotals: { [potId: string]: number } = {};
-
-  // Initialize with 0 for all pots
-  pots.forEach((pot) => {
-    actualTotals[pot.id] = 0;
-  });
-
-  // Sum up actual transactions only
-  transactions.forEach((transaction) => {
-    if (!transaction.id.startsWith("projected-")) {
-      actualTotals[transaction.potId] =
-        (actualTotals[transaction.potId] || 0) + transaction.amount;
-    }
-  });
-
-  return Object.values(actualTotals).reduce(
-    (total, potTotal) => total + potTotal,
-    0
-  );
+  const { pots } = await loadSavingsData();
+  return pots.reduce((total, pot) => total + pot.currentTotal, 0);
 };
 
 export const getMonthlySavingsRate = async (): Promise<number> => {
@@ -214,95 +404,60 @@ export const getMonthlySavingsRate = async (): Promise<number> => {
   const currentDate = new Date();
   const threeMonthsAgo = addMonths(currentDate, -3);
 
+  // Only deposits and withdrawals count as saving; interest and adjustments don't
   const recentTransactions = transactions.filter(
-    (t) => !isBefore(t.date, threeMonthsAgo) && !isAfter(t.date, currentDate)
+    (t) =>
+      isContribution(t) &&
+      !isBefore(t.date, threeMonthsAgo) &&
+      !isAfter(t.date, currentDate)
   );
 
-  const totalRecent = recentTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const totalRecent = recentTransactions.reduce(
+    (sum, t) => sum + getSignedAmount(t),
+    0
+  );
   return totalRecent / 3; // Average monthly savings over last 3 months
 };
 
-// Get projected recurring transactions for display (without creating database entries)
-export const getProjectedRecurringTransactions = async (): Promise<
-  Transaction[]
-> => {
+// Get projected recurring transactions for display (without creating database entries),
+// up to `until` (six months ahead by default)
+export const getProjectedRecurringTransactions = async (
+  until?: Date
+): Promise<Transaction[]> => {
   const { transactions } = await loadSavingsData();
   const currentDate = normalizeToNoon(new Date());
   // Show projections from start of current month (so past-due ones in current month still show)
   const monthStart = startOfMonth(currentDate);
+  const horizon = until || addMonths(currentDate, 6);
   const projectedTransactions: Transaction[] = [];
 
-  // Find all monthly recurring transactions
-  const monthlyRecurringTransactions = transactions.filter(
-    (t) => t.repeatMonthly
-  );
-
-  for (const recurring of monthlyRecurringTransactions) {
-    // Normalize the original date to noon and get the day of month
-    const originalDate = normalizeToNoon(new Date(recurring.date));
-    const recurringDayOfMonth = getDate(originalDate); // Day of month (1-31)
-
-    // Generate projected recurring transactions for the next 6 months
-    for (let i = 1; i <= 6; i++) {
-      // Add months from the original date to ensure consistency
-      const nextDate = normalizeToNoon(addMonths(originalDate, i));
-
-      // Include projections from start of current month (to show past-due ones)
-      if (isBefore(nextDate, monthStart)) continue;
-
-      // Check if a transaction already exists for this month
-      const existingTransaction = transactions.find(
-        (t) =>
-          t.potId === recurring.potId &&
-          t.repeatMonthly &&
-          isSameMonth(t.date, nextDate) &&
-          getDate(normalizeToNoon(t.date)) === recurringDayOfMonth
-      );
-
-      if (!existingTransaction) {
-        // Create a projected transaction for display only
-        projectedTransactions.push({
-          id: `projected-monthly-${recurring.id}-${i}`,
-          userId: recurring.userId,
-          potId: recurring.potId,
-          amount: recurring.amount,
-          date: nextDate,
-          description: recurring.description,
-          repeatMonthly: true,
-          createdAt: recurring.createdAt,
-        });
-      }
-    }
-  }
-
-  // Find all weekly recurring transactions
-  const weeklyRecurringTransactions = transactions.filter(
-    (t) => t.repeatWeekly
-  );
-
-  for (const recurring of weeklyRecurringTransactions) {
-    // Normalize the original transaction date to noon to avoid timezone issues
-    const originalDate = normalizeToNoon(new Date(recurring.date));
-
-    // Generate projected weekly transactions for the next 26 weeks (6 months)
-    for (let i = 1; i <= 26; i++) {
-      // Calculate the next occurrence by adding weeks from the original date
-      // This ensures we always land on the same day of the week
-      const nextDate = addWeeksFromOriginal(originalDate, i);
+  for (const recurring of transactions) {
+    const rule = getRecurrenceRule(recurring);
+    if (!rule) continue;
 
-      // Include projections from start of current month (to show past-due ones)
-      // Skip dates before the start of this month
-      if (isBefore(nextDate, monthStart)) continue;
+    const occurrences = getEffectiveOccurrencesBetween(
+      recurring,
+      monthStart,
+      horizon
+    );
 
+    for (const occurrence of occurrences) {
       // Create a projected transaction for display only
       projectedTransactions.push({
-        id: `projected-weekly-${recurring.id}-${i}`,
+        id: `projected-${rule.frequency}-${recurring.id}-${occurrence.index}`,
         userId: recurring.userId,
         potId: recurring.potId,
-        amount: recurring.amount,
-        date: nextDate,
+        amount: occurrence.amount,
+        date: occurrence.date,
         description: recurring.description,
-        repeatWeekly: true,
+        ...getRecurrenceFlags(rule),
+        recurrence: rule,
+        occurrenceOf: {
+          transactionId: recurring.id,
+          date: toDayKey(occurrence.scheduledDate),
+        },
+        kind: recurring.kind,
+        transferId: recurring.transferId,
         createdAt: recurring.createdAt,
       });
     }
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getDaysSinceReconciled, isReconcileStale, describeLastReconciled, getReconcileDifference } from './reconciliation';
+import { SavingsPot } from './types';
+import { makePot as makeDefaultPot } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ createdAt: new Date('2025-01-01T12:00:00'), updatedAt: new Date('2025-01-01T12:00:00'), ...overrides });
+
+describe('reconciliation', () => {
+  const today = new Date('2025-06-15T12:00:00');
+
+  it('should count from the last statement date, or when the pot was added', () => {
+    expect(getDaysSinceReconciled(makePot({ lastReconciledDate: '2025-06-01' }), today)).toBe(14);
+    expect(getDaysSinceReconciled(makePot({ createdAt: new Date('2025-06-10T09:00:00') }), today)).toBe(5);
+  });
+
+  it('should flag pots not reconciled for over 35 days', () => {
+    expect(isReconcileStale(makePot({ lastReconciledDate: '2025-05-11' }), today)).toBe(false);
+    expect(isReconcileStale(makePot({ lastReconciledDate: '2025-05-10' }), today)).toBe(true);
+    expect(isReconcileStale(makePot({}), today)).toBe(true);
+    expect(describeLastReconciled(makePot({}))).toBe('Never reconciled');
+    expect(describeLastReconciled(makePot({ lastReconciledDate: '2025-05-10' }))).toBe('Reconciled 10 May 2025');
+  });
+
+  it('should ignore sub-penny differences', () => {
+    expect(getReconcileDifference(1000.004, 1000)).toBe(0);
+    expect(getReconcileDifference(990, 1000.5)).toBe(-10.5);
+  });
+});
@@ -0,0 +1,28 @@
+import { SavingsPot } from "./types";
+import { differenceInCalendarDays } from "date-fns";
+import { formatDate } from "./locale";
+
+// A monthly statement plus a few days' grace; pots left longer are flagged on the dashboard
+export const RECONCILE_STALE_DAYS = 35;
+
+// Days since the pot was last checked against a statement (or since it was added, if never)
+export const getDaysSinceReconciled = (pot: SavingsPot, today: Date = new Date()): number => {
+  const since = pot.lastReconciledDate ? new Date(`${pot.lastReconciledDate}T12:00:00`) : pot.createdAt;
+  return differenceInCalendarDays(today, since);
+};
+
+export const isReconcileStale = (pot: SavingsPot, today: Date = new Date()): boolean =>
+  getDaysSinceReconciled(pot, today) > RECONCILE_STALE_DAYS;
+
+// e.g. "Reconciled 3 Oct 2026" or "Never reconciled"
+export const describeLastReconciled = (pot: SavingsPot): string =>
+  pot.lastReconciledDate
+    ? `Reconciled ${formatDate(new Date(`${pot.lastReconciledDate}T12:00:00`), "PP")}`
+    : "Never reconciled";
+
+// The adjustment a statement balance needs against the ledger, ignoring sub-penny rounding.
+// Matches getReconcileDifference in the backend.
+export const getReconcileDifference = (statementBalance: number, ledgerBalance: number): number => {
+  const difference = Math.round((statementBalance - ledgerBalance) * 100) / 100;
+  return Math.abs(difference) < 0.005 ? 0 : difference;
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import {
+  getRecurrenceRule,
+  getRecurrenceFlags,
+  getOccurrenceDate,
+  getOccurrencesBetween,
+  getEffectiveOccurrencesBetween,
+  getMonthlyRecurringAmount,
+  getRecurrenceLabel,
+} from './recurrence';
+import { RecurrenceRule, Transaction } from './types';
+import { makeTransaction as makeDefaultTransaction } from './test/factories';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const makeTransaction = (overrides: Partial<Transaction> = {}) => makeDefaultTransaction({ date: new Date('2025-01-10T12:00:00'), kind: undefined, createdAt: new Date('2025-01-10T12:00:00'), ...overrides });
+
+describe('getRecurrenceRule', () => {
+  it('should fall back to the legacy weekly/monthly flags', () => {
+    expect(getRecurrenceRule({ repeatWeekly: true })).toEqual({ frequency: 'weekly', interval: 1 });
+    expect(getRecurrenceRule({ repeatMonthly: true })).toEqual({ frequency: 'monthly', interval: 1 });
+    expect(getRecurrenceRule({})).toBeNull();
+  });
+
+  it('should prefer an explicit rule over the flags', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 3 };
+    expect(getRecurrenceRule({ recurrence: rule, repeatMonthly: true })).toBe(rule);
+  });
+
+  it('should keep the legacy flags in step with a rule', () => {
+    expect(getRecurrenceFlags({ frequency: 'weekly', interval: 2 })).toEqual({ repeatMonthly: false, repeatWeekly: true });
+    expect(getRecurrenceFlags({ frequency: 'yearly', interval: 1 })).toEqual({ repeatMonthly: true, repeatWeekly: false });
+    expect(getRecurrenceFlags(null)).toEqual({ repeatMonthly: false, repeatWeekly: false });
+  });
+});
+
+describe('getOccurrenceDate', () => {
+  it('should step fortnightly from the start date', () => {
+    const start = new Date('2025-01-10T12:00:00'); // Friday
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2 };
+    expect(day(getOccurrenceDate(rule, start, 1))).toBe('2025-01-24');
+    expect(day(getOccurrenceDate(rule, start, 2))).toBe('2025-02-07');
+  });
+
+  it('should clamp month-end dates in shorter months', () => {
+    const start = new Date('2025-01-31T12:00:00');
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1 };
+    expect(day(getOccurrenceDate(rule, start, 1))).toBe('2025-02-28');
+    expect(day(getOccurrenceDate(rule, start, 2))).toBe('2025-03-31');
+  });
+
+  it('should step quarterly and annually', () => {
+    const start = new Date('2025-01-15T12:00:00');
+    expect(day(getOccurrenceDate({ frequency: 'monthly', interval: 3 }, start, 1))).toBe('2025-04-15');
+    expect(day(getOccurrenceDate({ frequency: 'yearly', interval: 1 }, start, 2))).toBe('2027-01-15');
+  });
+
+  it('should move to the last working day of the month', () => {
+    const start = new Date('2025-05-30T12:00:00');
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, lastWorkingDay: true };
+    // 31 May 2025 is a Saturday, 30 June a Monday, 31 August a Sunday
+    expect(day(getOccurrenceDate(rule, start, 0))).toBe('2025-05-30');
+    expect(day(getOccurrenceDate(rule, start, 1))).toBe('2025-06-30');
+    expect(day(getOccurrenceDate(rule, start, 3))).toBe('2025-08-29');
+  });
+});
+
+describe('getOccurrencesBetween', () => {
+  const start = new Date('2025-01-06T12:00:00'); // Monday
+
+  it('should only return occurrences inside the range', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 4 };
+    const occurrences = getOccurrencesBetween(
+      rule,
+      start,
+      new Date('2025-03-01T00:00:00'),
+      new Date('2025-04-30T23:59:59')
+    );
+    expect(occurrences.map((o) => day(o.date))).toEqual(['2025-03-03', '2025-03-31', '2025-04-28']);
+    expect(occurrences.map((o) => o.index)).toEqual([2, 3, 4]);
+  });
+
+  it('should stop after the occurrence count', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, count: 3 };
+    const occurrences = getOccurrencesBetween(rule, start, start, new Date('2025-12-31T12:00:00'));
+    expect(occurrences.map((o) => day(o.date))).toEqual(['2025-01-06', '2025-02-06', '2025-03-06']);
+  });
+
+  it('should stop at the until date (inclusive)', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, until: '2025-01-20' };
+    const occurrences = getOccurrencesBetween(rule, start, start, new Date('2025-12-31T12:00:00'));
+    expect(occurrences.map((o) => day(o.date))).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+  });
+});
+
+describe('getEffectiveOccurrencesBetween', () => {
+  const from = new Date('2025-02-01T00:00:00');
+  const to = new Date('2025-04-30T23:59:59');
+
+  it('should drop skipped occurrences and override amounts', () => {
+    const transaction = makeTransaction({
+      repeatMonthly: true,
+      exceptions: [
+        { id: 'e1', occurrenceDate: '2025-02-10', skipped: true },
+        { id: 'e2', occurrenceDate: '2025-03-10', skipped: false, amount: 250 },
+      ],
+    });
+    const occurrences = getEffectiveOccurrencesBetween(transaction, from, to);
+    expect(occurrences.map((o) => day(o.date))).toEqual(['2025-03-10', '2025-04-10']);
+    expect(occurrences.map((o) => o.amount)).toEqual([250, 100]);
+  });
+
+  it('should show a moved occurrence on its new date only', () => {
+    const transaction = makeTransaction({
+      repeatMonthly: true,
+      exceptions: [{ id: 'e1', occurrenceDate: '2025-03-10', skipped: false, movedTo: '2025-03-14' }],
+    });
+    const occurrences = getEffectiveOccurrencesBetween(transaction, from, to);
+    expect(occurrences.map((o) => day(o.date))).toEqual(['2025-02-10', '2025-03-14', '2025-04-10']);
+    expect(day(occurrences[1].scheduledDate)).toBe('2025-03-10');
+    expect(occurrences[1].index).toBe(2);
+  });
+
+  it('should keep the sign of a transfer out leg when overriding', () => {
+    const transaction = makeTransaction({
+      kind: 'transfer',
+      amount: -100,
+      transferId: 'tr-1',
+      repeatMonthly: true,
+      exceptions: [{ id: 'e1', occurrenceDate: '2025-02-10', skipped: false, amount: 40 }],
+    });
+    expect(getEffectiveOccurrencesBetween(transaction, from, to)[0].amount).toBe(-40);
+  });
+});
+
+describe('getMonthlyRecurringAmount', () => {
+  const month = new Date('2025-03-15T12:00:00');
+
+  it('should count weekly occurrences in the month', () => {
+    // March 2025 has five Mondays
+    const transaction = makeTransaction({ date: new Date('2025-01-06T12:00:00'), repeatWeekly: true });
+    expect(getMonthlyRecurringAmount(transaction, month)).toBe(500);
+  });
+
+  it('should spread quarterly and annual amounts across months', () => {
+    const quarterly = makeTransaction({ amount: 300, recurrence: { frequency: 'monthly', interval: 3 } });
+    const annual = makeTransaction({ amount: 1200, recurrence: { frequency: 'yearly', interval: 1 } });
+    expect(getMonthlyRecurringAmount(quarterly, month)).toBeCloseTo(100);
+    expect(getMonthlyRecurringAmount(annual, month)).toBeCloseTo(100);
+  });
+
+  it('should net off withdrawals and ignore finished series', () => {
+    const withdrawal = makeTransaction({ kind: 'withdrawal', amount: 40, repeatMonthly: true });
+    const finished = makeTransaction({ recurrence: { frequency: 'monthly', interval: 1, until: '2025-02-28' } });
+    expect(getMonthlyRecurringAmount(withdrawal, month)).toBe(-40);
+    expect(getMonthlyRecurringAmount(finished, month)).toBe(0);
+  });
+});
+
+describe('getRecurrenceLabel', () => {
+  it('should name common schedules', () => {
+    expect(getRecurrenceLabel({ frequency: 'weekly', interval: 2 })).toBe('Fortnightly');
+    expect(getRecurrenceLabel({ frequency: 'monthly', interval: 3 })).toBe('Quarterly');
+    expect(getRecurrenceLabel({ frequency: 'yearly', interval: 1 })).toBe('Annual');
+    expect(getRecurrenceLabel({ frequency: 'weekly', interval: 3 })).toBe('Every 3 weeks');
+  });
+});
@@ -0,0 +1,296 @@
+import { RecurrenceException, RecurrenceRule, Transaction } from "./types";
+import { getSignedAmount } from "./ledger";
+import { format } from "date-fns";
+import { formatDate } from "./locale";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RecurrenceSource = Pick<
+  Transaction,
+  "recurrence" | "repeatMonthly" | "repeatWeekly"
+>;
+
+export interface Occurrence {
+  date: Date;
+  index: number; // 0 is the transaction itself
+}
+
+// An occurrence after the series' exceptions have been applied
+export interface EffectiveOccurrence extends Occurrence {
+  scheduledDate: Date; // Differs from `date` when the occurrence was moved
+  amount: number; // Same sign convention as Transaction.amount
+  exception?: RecurrenceException;
+}
+
+const toNoon = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(12, 0, 0, 0);
+  return result;
+};
+
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((toNoon(to).getTime() - toNoon(from).getTime()) / DAY_MS);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(year, month + 1, 0).getDate();
+
+// Last Monday-Friday of a month (bank holidays aren't taken into account)
+const getLastWorkingDay = (year: number, month: number): Date => {
+  const date = new Date(year, month + 1, 0, 12);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() - 1);
+  }
+  return date;
+};
+
+const parseUntil = (until: string): Date => new Date(`${until}T12:00:00`);
+
+// Local YYYY-MM-DD key identifying an occurrence (matches RecurrenceException.occurrenceDate)
+export const toDayKey = (date: Date): string => format(date, "yyyy-MM-dd");
+
+export const parseDayKey = (key: string): Date => new Date(`${key}T12:00:00`);
+
+// The rule for a transaction, falling back to the legacy weekly/monthly flags
+export const getRecurrenceRule = (
+  transaction: RecurrenceSource
+): RecurrenceRule | null => {
+  if (transaction.recurrence) return transaction.recurrence;
+  if (transaction.repeatWeekly) return { frequency: "weekly", interval: 1 };
+  if (transaction.repeatMonthly) return { frequency: "monthly", interval: 1 };
+  return null;
+};
+
+export const isRecurring = (transaction: RecurrenceSource): boolean =>
+  getRecurrenceRule(transaction) !== null;
+
+// Legacy flags to store alongside a rule so older clients still see the series as recurring
+export const getRecurrenceFlags = (
+  rule: RecurrenceRule | null
+): { repeatMonthly: boolean; repeatWeekly: boolean } => ({
+  repeatMonthly: !!rule && rule.frequency !== "weekly",
+  repeatWeekly: !!rule && rule.frequency === "weekly",
+});
+
+// Date of the nth occurrence (0 = the start date's own period).
+// Monthly/yearly dates are clamped to the end of shorter months (31st -> 30th/28th).
+export const getOccurrenceDate = (
+  rule: RecurrenceRule,
+  start: Date,
+  index: number
+): Date => {
+  const origin = toNoon(start);
+  const interval = Math.max(1, rule.interval || 1);
+
+  if (rule.frequency === "weekly") {
+    const result = new Date(origin);
+    result.setDate(result.getDate() + index * 7 * interval);
+    return result;
+  }
+
+  const monthOffset =
+    rule.frequency === "yearly" ? index * interval * 12 : index * interval;
+  const target = new Date(origin.getFullYear(), origin.getMonth() + monthOffset, 1, 12);
+
+  if (rule.lastWorkingDay) {
+    return getLastWorkingDay(target.getFullYear(), target.getMonth());
+  }
+
+  const day = Math.min(
+    origin.getDate(),
+    daysInMonth(target.getFullYear(), target.getMonth())
+  );
+  target.setDate(day);
+  return target;
+};
+
+// Whether the series has no occurrences on or after `date`
+export const hasRecurrenceEnded = (
+  rule: RecurrenceRule,
+  start: Date,
+  date: Date
+): boolean => {
+  const day = toNoon(date);
+  if (rule.until && parseUntil(rule.until) < day) return true;
+  if (rule.count && getOccurrenceDate(rule, start, rule.count - 1) < day) return true;
+  return false;
+};
+
+// All occurrences falling between two dates (inclusive), respecting until/count
+export const getOccurrencesBetween = (
+  rule: RecurrenceRule,
+  start: Date,
+  from: Date,
+  to: Date
+): Occurrence[] => {
+  const rangeStart = toNoon(from);
+  const rangeEnd = toNoon(to);
+  const until = rule.until ? parseUntil(rule.until) : null;
+  const interval = Math.max(1, rule.interval || 1);
+  const origin = toNoon(start);
+
+  // Skip straight to just before the range rather than walking from the start date
+  let index = 0;
+  if (rangeStart > origin) {
+    const elapsed =
+      rule.frequency === "weekly"
+        ? daysBetween(origin, rangeStart) / 7
+        : (rangeStart.getFullYear() - origin.getFullYear()) * 12 +
+          rangeStart.getMonth() -
+          origin.getMonth();
+    const perStep = rule.frequency === "yearly" ? interval * 12 : interval;
+    index = Math.max(0, Math.floor(elapsed / perStep) - 1);
+  }
+
+  const occurrences: Occurrence[] = [];
+  for (; ; index++) {
+    if (rule.count && index >= rule.count) break;
+    const date = getOccurrenceDate(rule, start, index);
+    if (until && date > until) break;
+    if (date > rangeEnd) break;
+    if (date >= rangeStart) occurrences.push({ date, index });
+  }
+  return occurrences;
+};
+
+// Occurrences of a transaction's series between two dates (inclusive) after applying its
+// exceptions: skipped ones are dropped, moved ones appear on their new date and amounts
+// are overridden. Occurrence 0 (the transaction itself) is never included.
+export const getEffectiveOccurrencesBetween = (
+  transaction: Transaction,
+  from: Date,
+  to: Date
+): EffectiveOccurrence[] => {
+  const rule = getRecurrenceRule(transaction);
+  if (!rule) return [];
+
+  const exceptions = transaction.exceptions || [];
+  const findException = (date: Date) =>
+    exceptions.find((e) => e.occurrenceDate === toDayKey(date));
+  // Overrides are the amount moved, so a transfer's out leg keeps its negative sign
+  const amountFor = (exception?: RecurrenceException) =>
+    exception?.amount != null
+      ? transaction.amount < 0 ? -exception.amount : exception.amount
+      : transaction.amount;
+
+  const result: EffectiveOccurrence[] = [];
+
+  for (const occurrence of getOccurrencesBetween(rule, transaction.date, from, to)) {
+    if (occurrence.index === 0) continue;
+    const exception = findException(occurrence.date);
+    if (exception?.skipped || exception?.movedTo) continue;
+    result.push({
+      ...occurrence,
+      scheduledDate: occurrence.date,
+      amount: amountFor(exception),
+      exception,
+    });
+  }
+
+  // Occurrences moved into the range from elsewhere
+  const rangeStart = toNoon(from);
+  const rangeEnd = toNoon(to);
+  for (const exception of exceptions) {
+    if (exception.skipped || !exception.movedTo) continue;
+    const date = parseDayKey(exception.movedTo);
+    if (date < rangeStart || date > rangeEnd) continue;
+
+    const scheduledDate = parseDayKey(exception.occurrenceDate);
+    const [scheduled] = getOccurrencesBetween(rule, transaction.date, scheduledDate, scheduledDate);
+    if (!scheduled || scheduled.index === 0) continue;
+
+    result.push({
+      date,
+      index: scheduled.index,
+      scheduledDate,
+      amount: amountFor(exception),
+      exception,
+    });
+  }
+
+  return result.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Signed amount a recurring transaction contributes to a typical month.
+// Weekly-based rules count the occurrences that fall in `month` (4 or 5 for weekly);
+// monthly/yearly rules are spread evenly (quarterly = a third each month).
+export const getMonthlyRecurringAmount = (
+  transaction: Transaction,
+  month: Date
+): number => {
+  const rule = getRecurrenceRule(transaction);
+  if (!rule) return 0;
+
+  const monthStart = new Date(month.getFullYear(), month.getMonth(), 1, 12);
+  if (hasRecurrenceEnded(rule, transaction.date, monthStart)) return 0;
+
+  const interval = Math.max(1, rule.interval || 1);
+  let factor: number;
+
+  if (rule.frequency === "weekly") {
+    // Count days in the month on the series' cycle (extended backwards, so a series
+    // that starts mid-month still counts as a full month's commitment)
+    const cycle = 7 * interval;
+    factor = 0;
+    for (let day = 1; day <= daysInMonth(month.getFullYear(), month.getMonth()); day++) {
+      const date = new Date(month.getFullYear(), month.getMonth(), day, 12);
+      const offset = daysBetween(transaction.date, date);
+      if (((offset % cycle) + cycle) % cycle === 0) factor++;
+    }
+  } else if (rule.frequency === "yearly") {
+    factor = 1 / (12 * interval);
+  } else {
+    factor = 1 / interval;
+  }
+
+  return getSignedAmount(transaction) * factor;
+};
+
+// Short label for chips, e.g. "Fortnightly", "Quarterly", "Every 3 weeks"
+export const getRecurrenceLabel = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  if (rule.frequency === "weekly") {
+    if (interval === 1) return "Weekly";
+    if (interval === 2) return "Fortnightly";
+    if (interval === 4) return "4-weekly";
+    return `Every ${interval} weeks`;
+  }
+  if (rule.frequency === "monthly") {
+    if (interval === 1) return "Monthly";
+    if (interval === 3) return "Quarterly";
+    if (interval === 6) return "Half-yearly";
+    return `Every ${interval} months`;
+  }
+  return interval === 1 ? "Annual" : `Every ${interval} years`;
+};
+
+// Full description for forms, e.g. "Every 2 weeks on Friday, 10 times"
+export const describeRecurrence = (rule: RecurrenceRule, start: Date): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  if (rule.frequency === "weekly") {
+    const every = interval === 1 ? "Weekly" : `Every ${interval} weeks`;
+    description = `${every} on ${formatDate(start, "EEEE")}`;
+  } else {
+    const unit = rule.frequency === "yearly" ? "year" : "month";
+    const every =
+      interval === 1
+        ? rule.frequency === "yearly" ? "Yearly" : "Monthly"
+        : `Every ${interval} ${unit}s`;
+    const on = rule.lastWorkingDay
+      ? rule.frequency === "yearly"
+        ? `the last working day of ${formatDate(start, "MMMM")}`
+        : "the last working day"
+      : rule.frequency === "yearly"
+        ? formatDate(start, "d MMMM")
+        : `the ${formatDate(start, "do")}`;
+    description = `${every} on ${on}`;
+  }
+
+  if (rule.until) {
+    description += `, until ${formatDate(parseUntil(rule.until), "PP")}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+  return description;
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { applyScenario, calculateScenarioProjections, describeScenarioChange } from './scenarios';
+import { SavingsData, SavingsPot } from './types';
+import { makePot as makeDefaultPot } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ name: 'ISA', ...overrides });
+
+describe('applyScenario', () => {
+  it('should layer changes over the data without modifying it', () => {
+    const data: SavingsData = { pots: [makePot({ interestRate: 5 })], transactions: [] };
+
+    const result = applyScenario(data, [
+      { type: 'interest-rate', potId: 'pot-1', interestRate: 3 },
+      { type: 'payment', potId: 'pot-1', kind: 'deposit', amount: 100, date: '2025-02-01' },
+      { type: 'payment', potId: 'missing', kind: 'deposit', amount: 100, date: '2025-02-01' }
+    ]);
+
+    expect(result.pots[0].interestRate).toBe(3);
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0].hypothetical).toBe(true);
+    expect(data.pots[0].interestRate).toBe(5);
+    expect(data.transactions).toHaveLength(0);
+  });
+});
+
+describe('calculateScenarioProjections', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count a one-off withdrawal in the month it happens', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const data: SavingsData = { pots: [makePot({})], transactions: [] };
+    const [projection] = calculateScenarioProjections(
+      data,
+      [{ type: 'payment', potId: 'pot-1', kind: 'withdrawal', amount: 400, date: '2025-03-10' }],
+      4
+    );
+
+    expect(projection.data.map(d => d.amount)).toEqual([1000, 1000, 600, 600, 600]);
+  });
+
+  it('should include the first payment of a hypothetical series', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const data: SavingsData = { pots: [makePot({})], transactions: [] };
+    const [projection] = calculateScenarioProjections(
+      data,
+      [{
+        type: 'payment',
+        potId: 'pot-1',
+        kind: 'deposit',
+        amount: 100,
+        date: '2025-01-25',
+        recurrence: { frequency: 'monthly', interval: 1 }
+      }],
+      3
+    );
+
+    // January's payment is still to come, so it shows up in February's figure
+    expect(projection.data.map(d => d.amount)).toEqual([1000, 1200, 1300, 1400]);
+  });
+});
+
+describe('describeScenarioChange', () => {
+  it('should summarise payments and rate changes', () => {
+    const pots = [makePot({})];
+    expect(describeScenarioChange(
+      { type: 'payment', potId: 'pot-1', kind: 'deposit', amount: 100, date: '2025-02-01', recurrence: { frequency: 'monthly', interval: 1 } },
+      pots
+    )).toBe('Add £100.00 to ISA monthly from 1 Feb 2025');
+    expect(describeScenarioChange(
+      { type: 'payment', potId: 'pot-1', kind: 'withdrawal', amount: 5000, date: '2025-06-01' },
+      pots
+    )).toBe('Withdraw £5,000.00 from ISA on 1 Jun 2025');
+    expect(describeScenarioChange({ type: 'interest-rate', potId: 'pot-1', interestRate: 3 }, pots))
+      .toBe('Change ISA rate to 3%');
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  SavingsData,
+  SavingsPot,
+  SavingsProjection,
+  ScenarioChange,
+  Transaction,
+  User,
+} from "./types";
+import { calculateAllProjections } from "./projections";
+import { getRecurrenceFlags, getRecurrenceLabel, parseDayKey } from "./recurrence";
+import { formatMoney } from "./currency";
+import { formatDate } from "./locale";
+
+// Layer a scenario's hypothetical changes over the live data without saving anything.
+// Payments become hypothetical transactions and rate changes replace the pot's rate;
+// changes for pots that no longer exist are ignored. `data` itself is left untouched.
+export const applyScenario = (
+  data: SavingsData,
+  changes: ScenarioChange[]
+): SavingsData => {
+  const potsById = new Map(data.pots.map((pot) => [pot.id, pot]));
+  const rates = new Map<string, number>();
+  const payments: Transaction[] = [];
+
+  changes.forEach((change, index) => {
+    const pot = potsById.get(change.potId);
+    if (!pot) return;
+
+    if (change.type === "interest-rate") {
+      rates.set(pot.id, change.interestRate);
+      return;
+    }
+
+    const date = parseDayKey(change.date);
+    const recurrence = change.recurrence ?? null;
+    payments.push({
+      id: `scenario-${index}`,
+      userId: pot.userId,
+      potId: pot.id,
+      amount: change.amount,
+      date,
+      description: "What if",
+      kind: change.kind,
+      ...getRecurrenceFlags(recurrence),
+      recurrence,
+      hypothetical: true,
+      createdAt: date,
+    });
+  });
+
+  return {
+    pots: data.pots.map((pot) =>
+      rates.has(pot.id) ? { ...pot, interestRate: rates.get(pot.id) } : pot
+    ),
+    transactions: [...data.transactions, ...payments],
+  };
+};
+
+export const calculateScenarioProjections = (
+  data: SavingsData,
+  changes: ScenarioChange[],
+  monthsAhead: number = 12,
+  users: User[] = []
+): SavingsProjection[] =>
+  calculateAllProjections(applyScenario(data, changes), monthsAhead, users);
+
+// One-line summary for lists, e.g. "Add £100.00 to ISA monthly from 1 Nov 2026"
+export const describeScenarioChange = (
+  change: ScenarioChange,
+  pots: SavingsPot[]
+): string => {
+  const pot = pots.find((p) => p.id === change.potId);
+  const potName = pot?.name || "a deleted account";
+
+  if (change.type === "interest-rate") {
+    return `Change ${potName} rate to ${change.interestRate}%`;
+  }
+
+  const amount = formatMoney(change.amount, pot?.currency);
+  const action =
+    change.kind === "deposit" ? `Add ${amount} to ${potName}` : `Withdraw ${amount} from ${potName}`;
+  const date = formatDate(parseDayKey(change.date), "PP");
+  return change.recurrence
+    ? `${action} ${getRecurrenceLabel(change.recurrence).toLowerCase()} from ${date}`
+    : `${action} on ${date}`;
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { describeUserAgent } from './sessions';
+
+describe('describeUserAgent', () => {
+  it('should name the browser and system', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:131.0) Gecko/20100101 Firefox/131.0'
+    )).toBe('Firefox on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36 Edg/130.0.0.0'
+    )).toBe('Edge on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS');
+  });
+
+  it('should fall back for devices it cannot tell', () => {
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device');
+    expect(describeUserAgent(null)).toBe('Unknown device');
+  });
+});
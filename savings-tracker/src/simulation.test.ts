@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { simulateInvestmentBands } from './simulation';
+import { calculateProjection } from './projections';
+import { SavingsData, SavingsPot } from './types';
+import { makePot as makeDefaultPot } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ currentTotal: 10000, ...overrides });
+
+describe('simulateInvestmentBands', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should skip pots without a volatility', () => {
+    const data: SavingsData = { pots: [makePot({ interestRate: 5 })], transactions: [] };
+    expect(simulateInvestmentBands(data, 12)).toEqual([]);
+  });
+
+  it('should spread outcomes around the expected return', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-20T12:00:00'));
+
+    const pot = makePot({ interestRate: 6, volatility: 15 });
+    const data: SavingsData = {
+      pots: [pot],
+      transactions: [{
+        id: 'txn-1',
+        userId: 'alex',
+        potId: 'pot-1',
+        amount: 200,
+        date: new Date('2025-01-05T12:00:00'),
+        repeatMonthly: true,
+        createdAt: new Date('2025-01-05T12:00:00')
+      }]
+    };
+
+    const bands = simulateInvestmentBands(data, 24, [], 2000);
+    const expected = calculateProjection(pot, data.transactions, 24).data;
+
+    expect(bands).toHaveLength(25);
+    expect(bands[0]).toMatchObject({ p10: 10000, p50: 10000, p90: 10000 });
+    bands.slice(1).forEach((band) => {
+      expect(band.p10).toBeLessThan(band.p50);
+      expect(band.p50).toBeLessThan(band.p90);
+    });
+    // The median sits close to the deterministic projection
+    expect(Math.abs(bands[24].p50 - expected[24].amount) / expected[24].amount).toBeLessThan(0.05);
+    expect(bands[24].p90 - bands[24].p10).toBeGreaterThan(bands[12].p90 - bands[12].p10);
+  });
+
+  it('should give the same bands for the same seed', () => {
+    const data: SavingsData = { pots: [makePot({ interestRate: 6, volatility: 15 })], transactions: [] };
+    expect(simulateInvestmentBands(data, 12, [], 200, 7)).toEqual(simulateInvestmentBands(data, 12, [], 200, 7));
+  });
+});
@@ -0,0 +1,89 @@
+import { SavingsData, SavingsPot, SimulationBand, User } from "./types";
+import { getMonthlyFlows, normalizeToNoon } from "./projections";
+import { addMonths, startOfMonth } from "date-fns";
+
+export const SIMULATION_RUNS = 1000;
+
+// Pots with a volatility get a range of outcomes instead of a single line
+export const isVolatile = (pot: SavingsPot): boolean => (pot.volatility || 0) > 0;
+
+// Small seeded generator (mulberry32) so the bands don't jitter between renders
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draws via Box-Muller
+const createNormal = (random: () => number) => (): number => {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const percentile = (sorted: Float64Array, p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Monte Carlo simulation of the combined balance of volatile pots. Each month a pot's
+// balance gets a lognormal return whose average matches its expected annual return
+// (interestRate) and whose spread matches its volatility, then its recurring payments
+// are added. Pots move independently of each other. Returns the 10th, 50th and 90th
+// percentiles for each month, starting with the current month (the actual balance).
+// `users` supplies pot owners' profiles, as for calculateAllProjections.
+export const simulateInvestmentBands = (
+  data: SavingsData,
+  monthsAhead: number = 12,
+  users: User[] = [],
+  runs: number = SIMULATION_RUNS,
+  seed: number = 1
+): SimulationBand[] => {
+  const pots = data.pots.filter(isVolatile);
+  if (pots.length === 0) return [];
+
+  const flows = pots.map((pot) =>
+    getMonthlyFlows(pot, data.transactions, monthsAhead, users.find((user) => user.id === pot.userId))
+  );
+  const returns = pots.map((pot) => {
+    const sigma = (pot.volatility || 0) / 100 / Math.sqrt(12);
+    const mu = Math.log(1 + (pot.interestRate || 0) / 100) / 12 - (sigma * sigma) / 2;
+    return { mu, sigma };
+  });
+
+  const normal = createNormal(createRandom(seed));
+  const totals = Array.from({ length: monthsAhead + 1 }, () => new Float64Array(runs));
+
+  for (let run = 0; run < runs; run++) {
+    pots.forEach((pot, p) => {
+      const { mu, sigma } = returns[p];
+      let balance = pot.currentTotal;
+      totals[0][run] += balance;
+
+      for (let month = 1; month <= monthsAhead; month++) {
+        // Only money that's invested can rise or fall
+        const growth = Math.exp(mu + sigma * normal());
+        balance = (balance > 0 ? balance * growth : balance) + flows[p][month];
+        totals[month][run] += balance;
+      }
+    });
+  }
+
+  const start = startOfMonth(normalizeToNoon(new Date()));
+  return totals.map((values, month) => {
+    const sorted = values.sort();
+    return {
+      date: addMonths(start, month),
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+};
@@ -0,0 +1,26 @@
+import { simulateInvestmentBands } from "./simulation";
+import { SavingsData, SimulationBand, User } from "./types";
+
+export interface SimulationRequest {
+  id: number;
+  data: SavingsData;
+  monthsAhead: number;
+  users: User[];
+}
+
+export interface SimulationResponse {
+  id: number;
+  bands: SimulationBand[];
+}
+
+// Runs the Monte Carlo simulation off the main thread; long horizons take a while
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, data, monthsAhead, users } = event.data;
+  const response: SimulationResponse = {
+    id,
+    bands: simulateInvestmentBands(data, monthsAhead, users),
+  };
+  worker.postMessage(response);
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { detectStatementFormat, parseOfx, parseQif, parseQifDate } from './statementFormats';
+import { findDuplicateRows } from './csvImport';
+import { Transaction } from './types';
+import { makeTransaction as makeDefaultTransaction } from './test/factories';
+
+const makeTransaction = (overrides: Partial<Transaction> = {}) => makeDefaultTransaction({ amount: 5, kind: 'withdrawal', description: 'Coffee', ...overrides });
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP
+<BANKACCTFROM><BANKID>400000<ACCTID>12345678<ACCTTYPE>SAVINGS</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250501120000[0:GMT]<TRNAMT>250.00<FITID>A1<NAME>Salary &amp; bonus</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250502<TRNAMT>-5,00<FITID>A2<MEMO>Coffee
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>unknown<TRNAMT>-1.00<FITID>A3
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const XML_OFX = `<?xml version="1.0"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><DTPOSTED>20250503</DTPOSTED><TRNAMT>-12.50</TRNAMT><FITID>C1</FITID><NAME>Books</NAME></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+describe('detectStatementFormat', () => {
+  it('should use the extension, then the contents', () => {
+    expect(detectStatementFormat('May.QFX', '')).toBe('ofx');
+    expect(detectStatementFormat('may.qif', '')).toBe('qif');
+    expect(detectStatementFormat('download', XML_OFX)).toBe('ofx');
+    expect(detectStatementFormat('download', '!Type:Bank\n')).toBe('qif');
+    expect(detectStatementFormat('download', 'Date,Amount\n')).toBe('csv');
+  });
+});
+
+describe('parseOfx', () => {
+  it('should read SGML statements, keeping FITIDs and counting unreadable transactions', () => {
+    expect(parseOfx(SGML_OFX)).toEqual({
+      accounts: [{
+        accountId: '12345678',
+        rows: [
+          { date: '2025-05-01', amount: 250, description: 'Salary & bonus', externalId: 'A1' },
+          { date: '2025-05-02', amount: -5, description: 'Coffee', externalId: 'A2' }
+        ]
+      }],
+      invalidCount: 1
+    });
+  });
+
+  it('should read XML credit card statements', () => {
+    expect(parseOfx(XML_OFX).accounts).toEqual([{
+      accountId: '4111',
+      rows: [{ date: '2025-05-03', amount: -12.5, description: 'Books', externalId: 'C1' }]
+    }]);
+  });
+});
+
+describe('parseQif', () => {
+  it('should read dates with apostrophes and two-digit years in the chosen order', () => {
+    expect(parseQifDate("1/5'25", 'dd/MM/yyyy')).toBe('2025-05-01');
+    expect(parseQifDate(' 5/ 1/99', 'MM/dd/yyyy')).toBe('1999-05-01');
+    expect(parseQifDate('May 1', 'dd/MM/yyyy')).toBeNull();
+  });
+
+  it('should read transactions, grouping them by !Account name', () => {
+    const text = [
+      '!Option:AutoSwitch',
+      '!Account', 'NCurrent', 'TBank', '^',
+      '!Type:Bank',
+      'D01/05/2025', 'T-1,000.00', 'PRent', 'LHousing', '^',
+      'D02/05/2025', 'T25.00', 'MInterest', '^',
+      '!Account', 'NSaver', 'TBank', '^',
+      '!Type:Bank',
+      'D03/05/2025', 'T100', '^',
+      'Dnot a date', 'T1', '^',
+      '!Type:Cat',
+      'NHousing', '^'
+    ].join('\r\n');
+
+    expect(parseQif(text, 'dd/MM/yyyy')).toEqual({
+      accounts: [
+        {
+          accountId: 'Current',
+          rows: [
+            { date: '2025-05-01', amount: -1000, description: 'Rent' },
+            { date: '2025-05-02', amount: 25, description: 'Interest' }
+          ]
+        },
+        { accountId: 'Saver', rows: [{ date: '2025-05-03', amount: 100, description: null }] }
+      ],
+      invalidCount: 1
+    });
+  });
+});
+
+describe('findDuplicateRows with FITIDs', () => {
+  it('should skip known FITIDs and repeats in the file, whatever the description', () => {
+    const rows = [
+      { date: '2025-05-01', amount: -5, description: 'COFFEE SHOP', externalId: 'A1' },
+      { date: '2025-05-01', amount: -5, description: 'Coffee', externalId: 'A2' },
+      { date: '2025-05-01', amount: -5, description: 'Coffee', externalId: 'A2' }
+    ];
+    const existing = [makeTransaction({ externalId: 'A1', description: 'Renamed' })];
+    expect(findDuplicateRows(rows, existing)).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,200 @@
+import { ImportDateFormat, StatementAccount, StatementFormat } from "./types";
+import { parseStatementAmount, parseStatementDate } from "./csvImport";
+
+// The accounts read from an OFX or QIF file, and how many transactions couldn't be read
+export interface ParsedStatement {
+  accounts: StatementAccount[];
+  invalidCount: number;
+}
+
+// Work out a statement file's format from its extension, falling back to its contents
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (extension === "csv") return "csv";
+  if (/<OFX>/i.test(text)) return "ofx";
+  if (/^\s*!(Type|Account)/i.test(text)) return "qif";
+  return "csv";
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+// Read an OFX (or Quicken QFX) file, in either the older SGML form where leaf elements
+// aren't closed or the newer XML form. Each bank or credit card statement becomes one account,
+// keyed by its ACCTID; each STMTTRN becomes a row carrying its FITID.
+export const parseOfx = (text: string): ParsedStatement => {
+  const accounts: StatementAccount[] = [];
+  let invalidCount = 0;
+  let account: StatementAccount | null = null;
+  let inAccountFrom = false;
+  let transaction: Record<string, string> | null = null;
+
+  const startAccount = () => {
+    account = { accountId: null, rows: [] };
+    accounts.push(account);
+    return account;
+  };
+
+  const finishTransaction = (fields: Record<string, string>) => {
+    // DTPOSTED is YYYYMMDD, optionally followed by a time and time zone
+    const posted = /^(\d{4})(\d{2})(\d{2})/.exec(fields.DTPOSTED || "");
+    const date = posted ? parseStatementDate(`${posted[1]}-${posted[2]}-${posted[3]}`, "yyyy-MM-dd") : null;
+    const amount = parseStatementAmount((fields.TRNAMT || "").replace(/^([-+]?\d+),(\d+)$/, "$1.$2"));
+    if (!date || !amount) {
+      invalidCount++;
+      return;
+    }
+    const name = fields.NAME || fields.PAYEE || "";
+    (account || startAccount()).rows.push({
+      date,
+      amount,
+      description: name || fields.MEMO || null,
+      externalId: fields.FITID || null,
+    });
+  };
+
+  const tagPattern = /<(\/?)([A-Za-z0-9.]+)>([^<]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const [, closing, rawTag, rawValue] = match;
+    const tag = rawTag.toUpperCase();
+    const value = decodeEntities(rawValue.trim());
+
+    if (closing) {
+      if (tag === "STMTTRN" && transaction) {
+        finishTransaction(transaction);
+        transaction = null;
+      } else if (tag === "BANKACCTFROM" || tag === "CCACCTFROM") {
+        inAccountFrom = false;
+      } else if (tag === "STMTRS" || tag === "CCSTMTRS") {
+        account = null;
+      }
+      continue;
+    }
+
+    if (tag === "STMTRS" || tag === "CCSTMTRS") {
+      startAccount();
+    } else if (tag === "BANKACCTFROM" || tag === "CCACCTFROM") {
+      inAccountFrom = true;
+    } else if (tag === "STMTTRN") {
+      // SGML files may leave out the closing tag, so a new STMTTRN also ends the last one
+      if (transaction) finishTransaction(transaction);
+      transaction = {};
+    } else if (value && transaction) {
+      transaction[tag] = value;
+    } else if (value && tag === "ACCTID" && inAccountFrom) {
+      (account || startAccount()).accountId = value;
+    }
+  }
+  if (transaction) finishTransaction(transaction);
+
+  return { accounts: mergeAccounts(accounts), invalidCount };
+};
+
+// QIF sections that hold transactions; category lists, memorised payments and
+// investment accounts are ignored
+const QIF_TRANSACTION_TYPES = ["bank", "cash", "ccard", "oth a", "oth l"];
+
+// A QIF date such as "01/05/2025", " 1/ 5/25" or "1/5'25" as YYYY-MM-DD. QIF files don't say
+// whether the day or month comes first, so the caller picks; two-digit years are read as 19xx from 70.
+export const parseQifDate = (value: string, dateFormat: ImportDateFormat): string | null => {
+  const parts = value.replace(/\s/g, "").split(/[/'.-]/);
+  if (parts.length !== 3) return null;
+  const yearIndex = dateFormat === "yyyy-MM-dd" ? 0 : 2;
+  if (/^\d{2}$/.test(parts[yearIndex])) {
+    const year = parseInt(parts[yearIndex], 10);
+    parts[yearIndex] = String(year < 70 ? 2000 + year : 1900 + year);
+  }
+  return parseStatementDate(parts.join(dateFormat === "yyyy-MM-dd" ? "-" : "/"), dateFormat);
+};
+
+// Read a QIF file. Transactions after an !Account block belong to the account it names;
+// a file without one (the usual single-account export) gives one account with no ID.
+export const parseQif = (text: string, dateFormat: ImportDateFormat): ParsedStatement => {
+  const accounts: StatementAccount[] = [];
+  let invalidCount = 0;
+  let accountName: string | null = null;
+  let account: StatementAccount | null = null;
+  let inAccountBlock = false;
+  let inTransactions = false;
+  let fields: Record<string, string> = {};
+
+  const finishTransaction = () => {
+    if (Object.keys(fields).length === 0) return;
+    const date = fields.D ? parseQifDate(fields.D, dateFormat) : null;
+    const amount = parseStatementAmount(fields.T || fields.U || "");
+    if (!date || !amount) {
+      invalidCount++;
+    } else {
+      if (!account) {
+        account = { accountId: accountName, rows: [] };
+        accounts.push(account);
+      }
+      account.rows.push({ date, amount, description: fields.P || fields.M || null });
+    }
+    fields = {};
+  };
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n|\r/)
+    .forEach((rawLine) => {
+      const line = rawLine.trim();
+      if (!line) return;
+
+      if (line.startsWith("!")) {
+        finishTransaction();
+        const header = line.toLowerCase();
+        if (header === "!account") {
+          inAccountBlock = true;
+          inTransactions = false;
+          accountName = null;
+          account = null;
+        } else if (header.startsWith("!type:")) {
+          inTransactions = QIF_TRANSACTION_TYPES.includes(header.slice("!type:".length).trim());
+        }
+        // Other headers (such as !Option:AutoSwitch) don't change where transactions go
+        return;
+      }
+
+      const code = line[0];
+      const value = line.slice(1).trim();
+      if (inAccountBlock) {
+        if (code === "N") accountName = value || null;
+        if (code === "^") inAccountBlock = false;
+        return;
+      }
+      if (!inTransactions) return;
+
+      if (code === "^") {
+        finishTransaction();
+      } else {
+        fields[code] = value;
+      }
+    });
+  finishTransaction();
+
+  return { accounts: mergeAccounts(accounts), invalidCount };
+};
+
+// Join statements for the same account (a file can repeat one) and drop empty ones
+const mergeAccounts = (accounts: StatementAccount[]): StatementAccount[] => {
+  const merged: StatementAccount[] = [];
+  accounts.forEach((account) => {
+    const existing = merged.find((other) => other.accountId === account.accountId);
+    if (existing) {
+      existing.rows.push(...account.rows);
+    } else {
+      merged.push({ accountId: account.accountId, rows: [...account.rows] });
+    }
+  });
+  return merged.filter((account) => account.rows.length > 0);
+};
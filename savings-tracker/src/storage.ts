@@ -4,8 +4,13 @@ import {
   Transaction,
   CreateSavingsPot,
   CreateTransaction,
+  Transfer,
+  CreateTransfer,
+  RecurrenceException,
+  RecurrenceExceptionUpdate,
 } from "./types";
 import * as api from "./api";
+import { getSignedAmount } from "./ledger";
 
 const defaultData: SavingsData = {
   pots: [],
@@ -217,7 +222,7 @@ export const addTransaction = async (
     // Update the pot's current total
     const pot = data.pots.find((p) => p.id === transaction.potId);
     if (pot) {
-      pot.currentTotal += transaction.amount;
+      pot.currentTotal += getSignedAmount(transaction);
       pot.updatedAt = new Date();
     }
 
@@ -241,15 +246,14 @@ export const updateTransaction = async (
     const oldTransaction = data.transactions[transactionIndex];
     const newTransaction = { ...oldTransaction, ...updates };
 
-    // Update pot totals if amount changed
-    if (
-      updates.amount !== undefined &&
-      oldTransaction.amount !== updates.amount
-    ) {
+    // Update pot totals if amount or kind changed
+    const oldSigned = getSignedAmount(oldTransaction);
+    const newSigned = getSignedAmount(newTransaction);
+    if (oldSigned !== newSigned) {
       const pot = data.pots.find((p) => p.id === oldTransaction.potId);
       if (pot) {
-        pot.currentTotal -= oldTransaction.amount;
-        pot.currentTotal += updates.amount!;
+        pot.currentTotal -= oldSigned;
+        pot.currentTotal += newSigned;
         pot.updatedAt = new Date();
       }
     }
@@ -274,7 +278,7 @@ export const deleteTransaction = async (id: string): Promise<boolean> => {
     // Update pot total
     const pot = data.pots.find((p) => p.id === transaction.potId);
     if (pot) {
-      pot.currentTotal -= transaction.amount;
+      pot.currentTotal -= getSignedAmount(transaction);
       pot.updatedAt = new Date();
     }
 
@@ -285,3 +289,140 @@ export const deleteTransaction = async (id: string): Promise<boolean> => {
 
   return api.deleteTransaction(id);
 };
+
+// Exceptions live on the series' transaction (the out leg for transfers, but both legs
+// carry them so either can be shown)
+const getSeriesLegs = (data: SavingsData, transactionId: string): Transaction[] => {
+  const transaction = data.transactions.find((t) => t.id === transactionId);
+  if (!transaction) return [];
+  if (!transaction.transferId) return [transaction];
+  return data.transactions.filter((t) => t.transferId === transaction.transferId);
+};
+
+export const setRecurrenceException = async (
+  transactionId: string,
+  occurrenceDate: string,
+  exception: RecurrenceExceptionUpdate
+): Promise<RecurrenceException | null> => {
+  if (useLocalStorage) {
+    const data = loadSavingsDataLocal();
+    const legs = getSeriesLegs(data, transactionId);
+    if (legs.length === 0) return null;
+
+    const saved: RecurrenceException = {
+      id: crypto.randomUUID(),
+      occurrenceDate,
+      skipped: exception.skipped,
+      amount: exception.amount ?? null,
+      movedTo: exception.movedTo && exception.movedTo !== occurrenceDate ? exception.movedTo : null,
+    };
+    legs.forEach((leg) => {
+      leg.exceptions = [
+        ...(leg.exceptions || []).filter((e) => e.occurrenceDate !== occurrenceDate),
+        saved,
+      ];
+    });
+
+    localStorage.setItem("savings-tracker-data", JSON.stringify(data));
+    return saved;
+  }
+
+  return api.setRecurrenceException(transactionId, occurrenceDate, exception);
+};
+
+export const deleteRecurrenceException = async (
+  transactionId: string,
+  occurrenceDate: string
+): Promise<boolean> => {
+  if (useLocalStorage) {
+    const data = loadSavingsDataLocal();
+    const legs = getSeriesLegs(data, transactionId);
+    if (legs.length === 0) return false;
+
+    legs.forEach((leg) => {
+      leg.exceptions = (leg.exceptions || []).filter(
+        (e) => e.occurrenceDate !== occurrenceDate
+      );
+    });
+
+    localStorage.setItem("savings-tracker-data", JSON.stringify(data));
+    return true;
+  }
+
+  return api.deleteRecurrenceException(transactionId, occurrenceDate);
+};
+
+export const addTransfer = async (
+  transfer: CreateTransfer
+): Promise<Transfer> => {
+  if (useLocalStorage) {
+    const data = loadSavingsDataLocal();
+    const transferId = crypto.randomUUID();
+    const legs: Transaction[] = [
+      { potId: transfer.fromPotId, amount: -transfer.amount },
+      { potId: transfer.toPotId, amount: transfer.amount },
+    ].map((leg) => ({
+      ...leg,
+      id: crypto.randomUUID(),
+      userId: "alex", // Default user for localStorage fallback
+      date: transfer.date,
+      description: transfer.description,
+      repeatMonthly: transfer.repeatMonthly,
+      repeatWeekly: transfer.repeatWeekly,
+      recurrence: transfer.recurrence ?? null,
+      kind: "transfer",
+      transferId,
+      createdAt: new Date(),
+    }));
+
+    legs.forEach((leg) => {
+      data.transactions.push(leg);
+      const pot = data.pots.find((p) => p.id === leg.potId);
+      if (pot) {
+        pot.currentTotal += leg.amount;
+        pot.updatedAt = new Date();
+      }
+    });
+
+    localStorage.setItem("savings-tracker-data", JSON.stringify(data));
+    return {
+      transferId,
+      fromPotId: transfer.fromPotId,
+      toPotId: transfer.toPotId,
+      amount: transfer.amount,
+      date: transfer.date,
+      description: transfer.description,
+      repeatMonthly: !!transfer.repeatMonthly,
+      repeatWeekly: !!transfer.repeatWeekly,
+      recurrence: transfer.recurrence ?? null,
+      outTransactionId: legs[0].id,
+      inTransactionId: legs[1].id,
+    };
+  }
+
+  return api.addTransfer(transfer);
+};
+
+export const deleteTransfer = async (transferId: string): Promise<boolean> => {
+  if (useLocalStorage) {
+    const data = loadSavingsDataLocal();
+    const legs = data.transactions.filter((t) => t.transferId === transferId);
+    if (legs.length === 0) return false;
+
+    legs.forEach((leg) => {
+      const pot = data.pots.find((p) => p.id === leg.potId);
+      if (pot) {
+        pot.currentTotal -= leg.amount;
+        pot.updatedAt = new Date();
+      }
+    });
+
+    data.transactions = data.transactions.filter(
+      (t) => t.transferId !== transferId
+    );
+    localStorage.setItem("savings-tracker-data", JSON.stringify(data));
+    return true;
+  }
+
+  return api.deleteTransfer(transferId);
+};
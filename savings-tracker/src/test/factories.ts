@@ -0,0 +1,25 @@
+import { SavingsPot, Transaction } from '../types';
+
+// Shared test data: a pot and a transaction with sensible defaults, overridden per test
+export const makePot = (overrides: Partial<SavingsPot> = {}): SavingsPot => ({
+  id: 'pot-1',
+  userId: 'alex',
+  name: 'Savings',
+  currentTotal: 1000,
+  color: '#667eea',
+  currency: 'GBP',
+  createdAt: new Date('2024-01-01T12:00:00'),
+  updatedAt: new Date('2024-01-01T12:00:00'),
+  ...overrides
+});
+
+export const makeTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'txn-1',
+  userId: 'alex',
+  potId: 'pot-1',
+  amount: 100,
+  date: new Date('2025-05-01T12:00:00'),
+  kind: 'deposit',
+  createdAt: new Date('2025-05-01T12:00:00'),
+  ...overrides
+});
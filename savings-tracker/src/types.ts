@@ -2,6 +2,19 @@ export interface User {
   id: string;
   name: string;
   email?: string;
+  dateOfBirth?: string | null; // YYYY-MM-DD; decides Lifetime ISA bonus eligibility
+  hasPin?: boolean; // Signing in needs a PIN or password
+  canManageBackups?: boolean; // Named as a backup admin in the add-on options
+}
+
+// A device or browser the user is signed in on
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
 }
 
 export interface SavingsPot {
@@ -12,11 +25,72 @@ export interface SavingsPot {
   currentTotal: number;
   targetAmount?: number;
   color: string;
+  currency: string; // ISO 4217 code; every amount on the pot and its transactions is in it
   interestRate?: number | null; // Annual percentage rate (e.g., 3.1 for 3.1%)
+  interestPayment?: InterestPayment | null; // When accrued interest is paid in; null = forecast only
+  goalDate?: string | null; // Deadline for reaching targetAmount (YYYY-MM-DD)
+  volatility?: number | null; // Annual % standard deviation of returns (investments); interestRate is the expected return
+  isaType?: IsaType | null; // Set for ISAs, whose deposits count towards the annual allowance
+  accountType?: AccountType | null; // null = easy access
+  maturityDate?: string | null; // Term end for bonds and regular savers (YYYY-MM-DD); interest stops here
+  noticeDays?: number | null; // Notice accounts: days' notice needed before a withdrawal
+  maxMonthlyDeposit?: number | null; // Regular savers: most that can be paid in each calendar month
+  lastReconciledDate?: string | null; // Latest bank statement date the pot was checked against (YYYY-MM-DD)
+  visibility?: PotVisibility; // What other household members see; full unless set
   createdAt: Date;
   updatedAt: Date;
 }
 
+// How often the scheduler pays accrued interest into a pot
+export type InterestPayment = "monthly" | "annual";
+
+export type IsaType = "cash" | "stocks-and-shares" | "lifetime";
+
+export type AccountType = "easy-access" | "notice" | "fixed-rate-bond" | "regular-saver";
+
+// What other household members see of a pot: everything, just its name and balance, or nothing.
+// The server only sends what they can see, so a balance-only pot arrives without its
+// transactions or details.
+export type PotVisibility = "full" | "balance" | "private";
+
+// How a transaction affects its pot. Amounts are stored as positive numbers
+// for deposits, withdrawals, interest and Lifetime ISA bonuses; adjustments and transfer
+// legs keep their own sign.
+export type TransactionKind =
+  | "deposit"
+  | "withdrawal"
+  | "interest"
+  | "adjustment"
+  | "transfer"
+  | "bonus";
+
+// RRULE-like recurrence. The transaction's own date is the first occurrence;
+// e.g. fortnightly = weekly/2, quarterly = monthly/3, annual = yearly/1.
+export type RecurrenceFrequency = "weekly" | "monthly" | "yearly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N weeks/months/years
+  lastWorkingDay?: boolean; // Monthly/yearly only: last Mon-Fri of the month instead of the same date
+  until?: string | null; // Last possible occurrence date (YYYY-MM-DD, inclusive)
+  count?: number | null; // Total number of occurrences, including the first
+}
+
+// A change to a single occurrence of a recurring series, identified by its scheduled date.
+// Transfers share one set of exceptions across both legs.
+export interface RecurrenceException {
+  id: string;
+  occurrenceDate: string; // YYYY-MM-DD the occurrence was scheduled for
+  skipped: boolean;
+  amount?: number | null; // Overrides the series amount for this occurrence
+  movedTo?: string | null; // YYYY-MM-DD it happens on instead
+}
+
+export type RecurrenceExceptionUpdate = Pick<
+  RecurrenceException,
+  "skipped" | "amount" | "movedTo"
+>;
+
 export interface Transaction {
   id: string;
   userId: string;
@@ -24,8 +98,15 @@ export interface Transaction {
   amount: number;
   date: Date;
   description?: string;
-  repeatMonthly?: boolean;
+  repeatMonthly?: boolean; // Legacy flags, kept in step with `recurrence`
   repeatWeekly?: boolean;
+  recurrence?: RecurrenceRule | null; // Takes precedence over the legacy flags
+  exceptions?: RecurrenceException[]; // Skipped/moved/changed occurrences of the series
+  occurrenceOf?: { transactionId: string; date: string }; // Set on projected occurrences only
+  hypothetical?: boolean; // Set on what-if scenario payments, which aren't in the pot's total
+  kind?: TransactionKind; // Defaults to "deposit" when missing
+  transferId?: string | null; // Shared by both legs of a pot-to-pot transfer
+  externalId?: string | null; // The bank's ID (OFX FITID) for an imported transaction
   createdAt: Date;
 }
 
@@ -39,17 +120,185 @@ export type CreateTransaction = Omit<
   "id" | "userId" | "createdAt"
 >;
 
+// A pot-to-pot transfer (stored as two linked "transfer" transactions)
+export interface Transfer {
+  transferId: string;
+  fromPotId: string;
+  toPotId: string;
+  amount: number;
+  date: Date;
+  description?: string | null;
+  repeatMonthly: boolean;
+  repeatWeekly: boolean;
+  recurrence?: RecurrenceRule | null;
+  outTransactionId: string;
+  inTransactionId: string;
+}
+
+export type CreateTransfer = Pick<
+  Transfer,
+  "fromPotId" | "toPotId" | "amount" | "date"
+> & {
+  description?: string;
+  repeatMonthly?: boolean;
+  repeatWeekly?: boolean;
+  recurrence?: RecurrenceRule | null;
+};
+
 export interface ProjectionData {
   date: Date;
   amount: number;
   projected: boolean;
+  interest?: number; // Interest credited since the start of the projection
 }
 
+// Spread of simulated outcomes for the combined balance of volatile pots in one month
+export interface SimulationBand {
+  date: Date;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// How a pot with a target is doing against its goal date
+export type GoalStatus = "reached" | "on-track" | "behind";
+
 export interface SavingsProjection {
   potId: string;
   data: ProjectionData[];
-  targetDate?: Date;
-  monthlyContribution?: number;
+  targetDate?: Date; // Month the target is projected to be reached (missing if not within 50 years)
+  monthlyContribution?: number; // Monthly amount needed to reach the target by the goal date
+  goalStatus?: GoalStatus; // "on-track"/"behind" only when the pot has a goal date
+}
+
+// Checking a pot against a bank statement: the ledger balance is the opening balance
+// plus the pot's transactions up to the statement date
+export interface ReconcileRequest {
+  statementBalance: number;
+  statementDate: string; // YYYY-MM-DD
+  reason?: string; // Required when there's a difference to adjust for
+}
+
+export interface ReconcileResult {
+  potId: string;
+  statementDate: string;
+  statementBalance: number;
+  ledgerBalance: number;
+  difference: number; // Amount of the adjustment posted (0 when the ledger already agreed)
+  adjustmentId: string | null;
+  currentTotal: number;
+  lastReconciledDate: string;
+}
+
+// A row from a bank statement, ready to import into a pot
+export interface StatementRow {
+  date: string; // YYYY-MM-DD
+  amount: number; // Money in is positive, money out negative
+  description?: string | null;
+  externalId?: string | null; // OFX FITID, used to skip transactions already imported
+}
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+// The rows for one account in an OFX or QIF file (accountId is null when the file doesn't name it)
+export interface StatementAccount {
+  accountId: string | null;
+  rows: StatementRow[];
+}
+
+// Which pot a statement account imports into
+export interface StatementAccountLink {
+  accountId: string;
+  potId: string;
+}
+
+export type ImportDateFormat = "dd/MM/yyyy" | "MM/dd/yyyy" | "yyyy-MM-dd";
+
+// What separates pounds from pence in a statement's amounts: "1,234.56" or "1.234,56"
+export type DecimalSeparator = "." | ",";
+
+// Which CSV headers hold a statement's dates, amounts and descriptions
+export interface StatementColumnMapping {
+  dateColumn: string;
+  amountColumn: string; // Money in positive, out negative; just money in when paidOutColumn is set
+  paidOutColumn: string | null; // For statements with separate "Paid in" and "Paid out" columns
+  descriptionColumn: string | null;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+// A saved column mapping for one bank's statements, shared with the household
+export interface ImportPreset extends StatementColumnMapping {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+}
+
+export type CreateImportPreset = Pick<ImportPreset, "name"> & StatementColumnMapping;
+
+export interface StatementImportResult {
+  importedCount: number;
+  skippedCount: number; // Rows already in the pot
+  skippedRows: number[]; // Indexes into the rows sent
+  transactionIds: string[];
+}
+
+// Problems found by the backend's ledger integrity check
+export interface BalanceMismatch {
+  potId: string;
+  userId: string;
+  potName: string;
+  currency: string;
+  currentTotal: number;
+  ledgerBalance: number; // Opening balance plus all of the pot's transactions
+  difference: number; // currentTotal - ledgerBalance
+}
+
+export interface OrphanedTransaction {
+  transactionId: string;
+  userId: string;
+  potId: string; // The missing pot
+  amount: number;
+  kind: TransactionKind;
+  date: string;
+  description?: string | null;
+}
+
+export interface OrphanedProcessedRecurring {
+  id: string;
+  originalTransactionId: string; // The missing recurring transaction
+  instanceDate: string; // YYYY-MM-DD
+  newTransactionId: string;
+}
+
+export interface IntegrityReport {
+  ok: boolean;
+  balanceMismatches: BalanceMismatch[];
+  orphanedTransactions: OrphanedTransaction[];
+  orphanedProcessedRecurring: OrphanedProcessedRecurring[];
+  hiddenProblems: number; // Problems in other members' accounts that aren't shared in full
+  checkedAt: string;
+}
+
+// A full backup of the database: every table's rows as stored, keyed by table name
+export interface Backup {
+  app: "savings-tracker";
+  version: number;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+export interface BackupRestoreResult {
+  restored: Record<string, number>; // Rows restored per table
+  createdAt: string | null; // When the backup was taken
+}
+
+// A pot's closing balance on a past day, from the recorded balance history
+export interface BalanceSnapshot {
+  potId: string;
+  date: string; // YYYY-MM-DD
+  balance: number;
 }
 
 export interface SavingsData {
@@ -57,6 +306,67 @@ export interface SavingsData {
   transactions: Transaction[];
 }
 
+// A hypothetical change layered over the live data when projecting a what-if scenario
+export type ScenarioChange =
+  | {
+      type: "payment";
+      potId: string;
+      kind: "deposit" | "withdrawal";
+      amount: number;
+      date: string; // YYYY-MM-DD of the (first) payment
+      recurrence?: RecurrenceRule | null; // null = one-off
+    }
+  | {
+      type: "interest-rate";
+      potId: string;
+      interestRate: number; // Replaces the pot's annual rate from now on
+    };
+
+export interface Scenario {
+  id: string;
+  userId: string;
+  name: string;
+  changes: ScenarioChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateScenario = Pick<Scenario, "name" | "changes">;
+
+// Assumptions shared by the whole household
+export interface HouseholdSettings {
+  inflationRate: number; // Annual percentage used for real-terms (today's money) projections
+  baseCurrency: string; // Household totals and projections are converted into this currency
+}
+
+// How the household's amounts, dates and text are shown, from the add-on options
+export interface LocaleSettings {
+  locale: string; // BCP 47 tag, e.g. "en-GB" or "de-DE"
+  weekStartsOn: 0 | 1 | 6 | null; // Sunday, Monday or Saturday; null = the locale's usual first day
+}
+
+// One unit of `currency` was worth `rate` of `quoteCurrency` on `rateDate`
+export interface FxRate {
+  id: string;
+  currency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: string; // YYYY-MM-DD
+  updatedAt: Date;
+}
+
+export type CreateFxRate = Pick<FxRate, "currency" | "quoteCurrency" | "rate" | "rateDate">;
+
+// Household data converted into the base currency for totals and projections. Pots
+// without an exchange rate to the base currency are left out and listed.
+export interface BaseCurrencyReport {
+  baseCurrency: string;
+  data: SavingsData;
+  projections: SavingsProjection[];
+  potRates: Record<string, number>; // Pot ID -> base currency per unit of the pot's currency
+  unconvertedPots: SavingsPot[];
+}
+
 export interface UpcomingSpend {
   id: string;
   userId: string;
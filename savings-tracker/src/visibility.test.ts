@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { getBalanceOnlyPots, getPotVisibility, isBalanceOnly } from './visibility';
+import { SavingsPot } from './types';
+import { makePot as makeDefaultPot } from './test/factories';
+
+const makePot = (overrides: Partial<SavingsPot> = {}) => makeDefaultPot({ userId: 'beth', createdAt: new Date('2025-01-01T12:00:00'), updatedAt: new Date('2025-01-01T12:00:00'), ...overrides });
+
+describe('visibility', () => {
+  it('should treat pots without a visibility as shared', () => {
+    expect(getPotVisibility(makePot({}))).toBe('full');
+    expect(getPotVisibility(makePot({ visibility: 'private' }))).toBe('private');
+  });
+
+  it("should only count other members' balance-only pots", () => {
+    const pots = [
+      makePot({ id: 'shared' }),
+      makePot({ id: 'balance', visibility: 'balance' }),
+      makePot({ id: 'own', userId: 'alex', visibility: 'balance' })
+    ];
+    expect(getBalanceOnlyPots(pots, 'alex').map(pot => pot.id)).toEqual(['balance']);
+    expect(isBalanceOnly(pots[2], 'alex')).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { PotVisibility, SavingsPot } from "./types";
+import { t } from "./locale";
+
+export const POT_VISIBILITIES: PotVisibility[] = ["full", "balance", "private"];
+
+export const getPotVisibilityLabel = (visibility: PotVisibility): string => t(`visibility.${visibility}`);
+
+export const getPotVisibilityDescription = (visibility: PotVisibility): string =>
+  t(`visibility.${visibility}.description`);
+
+export const getPotVisibility = (pot: SavingsPot): PotVisibility => pot.visibility || "full";
+
+// Another member's pot that's shared without its transactions, so it's shown at its current
+// balance rather than projected from its payments and interest
+export const isBalanceOnly = (pot: SavingsPot, userId: string): boolean =>
+  pot.userId !== userId && getPotVisibility(pot) === "balance";
+
+export const getBalanceOnlyPots = (pots: SavingsPot[], userId: string): SavingsPot[] =>
+  pots.filter((pot) => isBalanceOnly(pot, userId));
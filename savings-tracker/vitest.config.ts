@@ -9,5 +9,7 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
+    // The backend's tests run with its own `npm test`
+    include: ['src/**/*.test.{ts,tsx}'],
   },
 })
\ No newline at end of file